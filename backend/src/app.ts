@@ -12,12 +12,15 @@ import { errorHandler, notFound } from './middlewares/errorHandler';
 import { apiLoggingMiddleware, errorLoggingMiddleware } from './middlewares/logging';
 import ClaimSocket from './sockets/claimSocket';
 import { setSocketIO } from './services/claimService';
+import JobScheduler from './services/jobScheduler';
+import { registerScheduledJobs } from './services/scheduledJobs';
 
 // Import routes
 import authRoutes from './routes/auth';
 import postRoutes from './routes/posts';
 import claimRoutes from './routes/claims';
 import adminRoutes from './routes/admin';
+import notificationRoutes from './routes/notifications';
 import { getCurrentSettings } from './controllers/adminController';
 import { auth } from './middlewares/auth';
 
@@ -41,6 +44,13 @@ logger.info('Starting Claim Management System Backend', {
   port: process.env.PORT || 5000
 });
 
+// Behind a reverse proxy, TRUST_PROXY (hop count or subnet list) makes req.ip the client address,
+// which engagement tracking and rate limiting key on
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+
 // Security middleware
 app.use(helmet());
 
@@ -274,6 +284,7 @@ app.use('/api/auth', authRoutes);
 app.use('/api/posts', postRoutes);
 app.use('/api/claims', claimRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/notifications', notificationRoutes);
 
 // Public settings route (any authenticated user can access)
 app.get('/api/settings/current', auth, getCurrentSettings);
@@ -295,9 +306,14 @@ process.on('unhandledRejection', (err: Error) => {
   });
 });
 
+// Background jobs (SLA escalation, lock cleanup, ...) run from the MongoDB-backed scheduler
+registerScheduledJobs();
+JobScheduler.start();
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  JobScheduler.stop();
   server.close(() => {
     logger.info('Process terminated');
   });
@@ -0,0 +1,5 @@
+// ISO 4217 style three-letter code, e.g. INR, USD
+export const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+// Totals that span several currencies are reported in this one; configured through REPORTING_CURRENCY
+export const getReportingCurrency = (): string => (process.env.REPORTING_CURRENCY || 'INR').toUpperCase();
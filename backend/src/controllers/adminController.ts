@@ -1,36 +1,69 @@
 import { Request, Response } from 'express';
 import AdminSettings from '../models/AdminSettings';
+import DeductionReason from '../models/DeductionReason';
+import { ACTIVE_DEDUCTION_LINE_STATUSES } from '../models/Claim';
 import { IUser } from '../models/User';
+import RateCardService, { getRateBasis, getRateCardStatus } from '../services/rateCardService';
+import CurrencyService from '../services/currencyService';
+import ClaimSlaService from '../services/claimSlaService';
+import { getReportingCurrency } from '../config/currency';
+import { convertMinorUnits, fromMinorUnits, toMinorUnits } from '../utils/money';
+import { ClaimWorkflowError } from '../services/claimWorkflow';
+import { EarningsFormula, applyClaimRules, calculatePostEarnings, convertFormula, validateFormula } from '../services/earningsFormula';
 
 // Extend Request interface to include user
 interface AuthRequest extends Request {
   user?: IUser;
 }
 
-// Get current admin settings (public - any authenticated user can access)
-export const getCurrentSettings = async (req: Request, res: Response) => {
+// Get current admin settings (public - any authenticated user can access).
+// Rates are given in the requesting user's currency.
+export const getCurrentSettings = async (req: AuthRequest, res: Response) => {
   try {
-    const settings = await AdminSettings.findOne({ isActive: true });
+    const settings = await RateCardService.getCardInEffect();
     
     if (!settings) {
       // Return default settings if none exist
       return res.json({
         success: true,
         settings: {
+          currency: getReportingCurrency(),
           ratePerLike: 1,
           ratePer100Views: 50
         }
       });
     }
 
+    const currency = req.user?.currency || settings.currency;
+    let formula: EarningsFormula = settings;
+    if (currency !== settings.currency) {
+      const rateTable = await CurrencyService.getRateTable();
+      formula = convertFormula(
+        settings,
+        currency,
+        CurrencyService.getFactor(rateTable, settings.currency, currency),
+        settings.currencyRates.find(entry => entry.currency === currency)
+      );
+    }
+
     return res.json({
       success: true,
       settings: {
-        ratePerLike: settings.ratePerLike,
-        ratePer100Views: settings.ratePer100Views
+        currency,
+        ratePerLike: formula.ratePerLike,
+        ratePer100Views: formula.ratePer100Views,
+        likeTiers: formula.likeTiers,
+        viewTiers: formula.viewTiers,
+        maxPerPost: formula.maxPerPost == null ? null : fromMinorUnits(formula.maxPerPost, currency),
+        maxPerClaim: formula.maxPerClaim == null ? null : fromMinorUnits(formula.maxPerClaim, currency),
+        minPayout: fromMinorUnits(formula.minPayout || 0, currency),
+        tagMultipliers: formula.tagMultipliers
       }
     });
   } catch (error) {
+    if (error instanceof ClaimWorkflowError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
     console.error('Error fetching current settings:', error);
     return res.status(500).json({
       success: false,
@@ -42,24 +75,30 @@ export const getCurrentSettings = async (req: Request, res: Response) => {
 // Get admin settings
 export const getAdminSettings = async (_req: Request, res: Response) => {
   try {
-    const settings = await AdminSettings.findOne({ isActive: true })
-      .populate('createdBy', 'name')
-      .populate('updatedBy', 'name');
+    const settings = await RateCardService.getCardInEffect();
     
     if (!settings) {
       // Return default settings if none exist
       return res.json({
         success: true,
         settings: {
+          currency: getReportingCurrency(),
           ratePerLike: 1,
           ratePer100Views: 50
-        }
+        },
+        rateBasis: getRateBasis(),
+        reportingCurrency: getReportingCurrency()
       });
     }
 
+    await settings.populate('createdBy', 'name');
+    await settings.populate('updatedBy', 'name');
+
     return res.json({
       success: true,
-      settings
+      settings,
+      rateBasis: getRateBasis(),
+      reportingCurrency: getReportingCurrency()
     });
   } catch (error) {
     console.error('Error fetching admin settings:', error);
@@ -79,7 +118,20 @@ export const updateAdminSettings = async (req: AuthRequest, res: Response) => {
       userRole: req.user?.role
     });
 
-    const { ratePerLike, ratePer100Views } = req.body;
+    const {
+      ratePerLike,
+      ratePer100Views,
+      likeTiers,
+      viewTiers,
+      maxPerPost,
+      maxPerClaim,
+      minPayout,
+      dualApprovalThreshold,
+      tagMultipliers,
+      currency,
+      currencyRates,
+      effectiveFrom
+    } = req.body;
 
     // Validate input
     if (typeof ratePerLike !== 'number' || typeof ratePer100Views !== 'number') {
@@ -98,6 +150,39 @@ export const updateAdminSettings = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    const formulaError = validateFormula(req.body);
+    if (formulaError) {
+      return res.status(400).json({
+        success: false,
+        message: formulaError
+      });
+    }
+
+    if (dualApprovalThreshold != null && (typeof dualApprovalThreshold !== 'number' || dualApprovalThreshold < 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'dualApprovalThreshold must be a non-negative number'
+      });
+    }
+
+    // Optional start date for scheduling the change; omitted means effective immediately
+    let effectiveFromDate: Date | undefined;
+    if (effectiveFrom) {
+      effectiveFromDate = new Date(effectiveFrom);
+      if (isNaN(effectiveFromDate.getTime())) {
+        return res.status(400).json({
+          success: false,
+          message: 'effectiveFrom must be a valid date'
+        });
+      }
+      if (effectiveFromDate.getTime() < Date.now() - 60 * 1000) {
+        return res.status(400).json({
+          success: false,
+          message: 'effectiveFrom cannot be in the past'
+        });
+      }
+    }
+
     console.log('Starting admin settings update...');
 
     // Check if user exists and has admin role
@@ -109,47 +194,40 @@ export const updateAdminSettings = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // First, check existing settings
-    console.log('Checking existing settings...');
-    const existingSettings = await AdminSettings.find({ isActive: true });
-    console.log('Existing active settings count:', existingSettings.length);
-
-    // Deactivate all existing settings
-    console.log('Deactivating existing settings...');
-    if (existingSettings.length > 0) {
-      const updateResult = await AdminSettings.updateMany(
-        { isActive: true },
-        { isActive: false, updatedAt: new Date(), updatedBy: req.user._id }
-      );
-      console.log('Update result:', updateResult);
-    }
-
-    // Then create new settings
-    console.log('Creating new settings...');
-    const newSettings = new AdminSettings({
-      ratePerLike,
-      ratePer100Views,
-      createdBy: req.user._id,
-      updatedBy: req.user._id,
-      isActive: true
-    });
-
-    console.log('Saving new settings...');
-    await newSettings.save();
-    console.log('Settings saved successfully');
-
-    // Populate user details for response
-    console.log('Populating user details...');
-    await newSettings.populate('createdBy', 'name');
-    await newSettings.populate('updatedBy', 'name');
+    // Earlier cards stay in the timeline so past claims keep their rates
+    const newSettings = await RateCardService.scheduleCard(
+      {
+        ratePerLike,
+        ratePer100Views,
+        likeTiers,
+        viewTiers,
+        maxPerPost,
+        maxPerClaim,
+        minPayout,
+        dualApprovalThreshold,
+        tagMultipliers,
+        currency: currency ? String(currency).toUpperCase() : undefined,
+        currencyRates: Array.isArray(currencyRates)
+          ? currencyRates.map((entry: any) => ({ ...entry, currency: String(entry.currency).trim().toUpperCase() }))
+          : undefined,
+        effectiveFrom: effectiveFromDate
+      },
+      req.user._id
+    );
+    const scheduled = getRateCardStatus(newSettings) === 'scheduled';
 
-    console.log('Admin settings updated successfully');
+    console.log('Admin settings updated successfully', { id: newSettings._id, scheduled });
     return res.json({
       success: true,
-      message: 'Admin settings updated successfully',
+      message: scheduled
+        ? `Rate change scheduled for ${newSettings.effectiveFrom.toISOString()}`
+        : 'Admin settings updated successfully',
       settings: newSettings
     });
   } catch (error: any) {
+    if (error instanceof ClaimWorkflowError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
     console.error('Error updating admin settings:', error);
     console.error('Error details:', {
       name: error?.name,
@@ -164,6 +242,117 @@ export const updateAdminSettings = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// Compute earnings for a sample post with an unsaved formula
+export const previewEarnings = async (req: Request, res: Response) => {
+  try {
+    const { formula, sample } = req.body;
+
+    if (!formula || typeof formula.ratePerLike !== 'number' || typeof formula.ratePer100Views !== 'number') {
+      return res.status(400).json({
+        success: false,
+        message: 'ratePerLike and ratePer100Views must be numbers'
+      });
+    }
+
+    const formulaError = validateFormula(formula);
+    if (formulaError) {
+      return res.status(400).json({
+        success: false,
+        message: formulaError
+      });
+    }
+
+    const likeCount = Number(sample?.likeCount) || 0;
+    const viewCount = Number(sample?.viewCount) || 0;
+    const tags = Array.isArray(sample?.tags) ? sample.tags : [];
+
+    // The formula arrives with decimal caps, as admins enter them
+    const currency = formula.currency ? String(formula.currency).toUpperCase() : getReportingCurrency();
+    const toMinor = (amount: number | null | undefined) => (amount == null ? null : toMinorUnits(amount, currency));
+    const minorFormula: EarningsFormula = {
+      ...formula,
+      currency,
+      maxPerPost: toMinor(formula.maxPerPost),
+      maxPerClaim: toMinor(formula.maxPerClaim),
+      minPayout: toMinor(formula.minPayout) || 0
+    };
+
+    const post = calculatePostEarnings(minorFormula, { likeCount, viewCount, tags });
+    const claim = applyClaimRules(minorFormula, [post.amount]);
+
+    return res.json({
+      success: true,
+      preview: {
+        ...post,
+        likeEarnings: fromMinorUnits(post.likeEarnings, currency),
+        viewEarnings: fromMinorUnits(post.viewEarnings, currency),
+        amount: fromMinorUnits(post.amount, currency),
+        claimTotal: fromMinorUnits(claim.total, currency),
+        claimCapped: claim.capped,
+        belowMinimum: claim.belowMinimum
+      }
+    });
+  } catch (error) {
+    console.error('Error previewing earnings:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error previewing earnings'
+    });
+  }
+};
+
+// Get every rate card with its place in the timeline
+export const getRateCardHistory = async (_req: Request, res: Response) => {
+  try {
+    const cards = await RateCardService.getHistory();
+    const now = new Date();
+
+    return res.json({
+      success: true,
+      rateBasis: getRateBasis(),
+      cards: cards.map(card => ({
+        ...card.toJSON(),
+        status: getRateCardStatus(card, now)
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching rate card history:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error fetching rate card history'
+    });
+  }
+};
+
+// Cancel a rate change that has not taken effect yet
+export const cancelRateCard = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user?._id) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const card = await RateCardService.cancelScheduledCard(req.params.id as string, req.user._id);
+
+    return res.json({
+      success: true,
+      message: 'Scheduled rate change cancelled',
+      settings: card
+    });
+  } catch (error: any) {
+    console.error('Error cancelling rate card:', error);
+    if (error instanceof ClaimWorkflowError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    return res.status(500).json({
+      success: false,
+      message: 'Error cancelling rate card'
+    });
+  }
+};
+
 // Test endpoint to check if AdminSettings model works
 export const testAdminSettings = async (req: Request, res: Response) => {
   try {
@@ -224,73 +413,178 @@ export const getAdminStats = async (req: Request, res: Response) => {
       status: { $in: ['account_approved', 'admin_approved', 'settled'] } 
     });
     const rejectedClaims = await Claim.countDocuments({ 
+      isActive: true, 
+      status: { $in: ['account_rejected', 'admin_rejected'] } 
+    });
+    // Creator refused the deduction; the claim is back with account review, not rejected
+    const disputedClaims = await Claim.countDocuments({ 
       isActive: true, 
       status: 'user_rejected' 
     });
+    // Reviewer and creator could not agree on a deduction; waiting for an admin ruling
+    const escalatedClaims = await Claim.countDocuments({ 
+      isActive: true, 
+      status: 'escalated' 
+    });
+
+    // Amounts are grouped per currency and approval exchange rate, so they can be reported in
+    // their own currency and converted to the reporting currency. Approved claims use the rate
+    // stored at approval; the rest use today's rate. Sums stay in minor units until the response.
+    const reportingCurrency = getReportingCurrency();
+    const rateTable = await CurrencyService.getRateTable();
+    const missingExchangeRates = new Set<string>();
+    const toReporting = (amount: number, currency: string, exchangeRate?: number | null): number => {
+      const rate = exchangeRate ?? rateTable.get(currency);
+      if (rate === undefined) {
+        missingExchangeRates.add(currency);
+        return 0;
+      }
+      return convertMinorUnits(amount, currency, reportingCurrency, rate);
+    };
+    const toDecimal = (amount: number) => fromMinorUnits(amount, reportingCurrency);
+    const approvedStatuses = ['account_approved', 'admin_approved', 'settled'];
 
-    // Get total earnings and deductions - calculate from all claims
-    const earningsData = await Claim.aggregate([
+    const earningsGroups = await Claim.aggregate([
       { $match: { isActive: true } },
-      { 
-        $group: { 
-          _id: null, 
-          totalEarnings: { $sum: '$calculatedEarnings' },
-          totalDeductions: { $sum: '$deductionAmount' }
-        } 
+      {
+        $group: {
+          _id: {
+            currency: { $ifNull: ['$currency', reportingCurrency] },
+            exchangeRate: '$exchangeRate',
+            approved: { $in: ['$status', approvedStatuses] }
+          },
+          claims: { $sum: 1 },
+          earnings: { $sum: '$calculatedEarnings' },
+          deductions: { $sum: '$deductionAmount' }
+        }
       }
     ]);
 
-    // Get earnings and deductions for approved/settled claims only
-    const approvedEarningsData = await Claim.aggregate([
-      { $match: { isActive: true, status: { $in: ['account_approved', 'admin_approved', 'settled'] } } },
-      { 
-        $group: { 
-          _id: null, 
-          approvedEarnings: { $sum: '$calculatedEarnings' },
-          approvedDeductions: { $sum: '$deductionAmount' }
-        } 
+    const currencyTotals = new Map<string, any>();
+    let totalEarnings = 0;
+    let totalDeductions = 0;
+    let approvedEarnings = 0;
+    let approvedDeductions = 0;
+
+    earningsGroups.forEach((group: any) => {
+      const { currency, exchangeRate, approved } = group._id;
+      const totals = currencyTotals.get(currency) || {
+        currency,
+        claims: 0,
+        totalEarnings: 0,
+        totalDeductions: 0,
+        approvedEarnings: 0,
+        approvedDeductions: 0
+      };
+      totals.claims += group.claims;
+      totals.totalEarnings += group.earnings;
+      totals.totalDeductions += group.deductions;
+      totalEarnings += toReporting(group.earnings, currency, exchangeRate);
+      totalDeductions += toReporting(group.deductions, currency, exchangeRate);
+      if (approved) {
+        totals.approvedEarnings += group.earnings;
+        totals.approvedDeductions += group.deductions;
+        approvedEarnings += toReporting(group.earnings, currency, exchangeRate);
+        approvedDeductions += toReporting(group.deductions, currency, exchangeRate);
       }
-    ]);
+      currencyTotals.set(currency, totals);
+    });
 
-    // Get top creators based on total earnings
-    const topCreators = await Claim.aggregate([
+    // Get top creators based on net earnings in the reporting currency
+    const creatorGroups = await Claim.aggregate([
       { $match: { isActive: true } },
       {
         $group: {
-          _id: '$userId',
+          _id: {
+            userId: '$userId',
+            currency: { $ifNull: ['$currency', reportingCurrency] },
+            exchangeRate: '$exchangeRate'
+          },
           totalClaims: { $sum: 1 },
           totalEarnings: { $sum: '$calculatedEarnings' },
           totalDeductions: { $sum: '$deductionAmount' }
         }
-      },
-      {
-        $addFields: {
-          netEarnings: { $subtract: ['$totalEarnings', '$totalDeductions'] }
-        }
-      },
-      { $sort: { netEarnings: -1 } },
-      { $limit: 5 },
-      {
-        $lookup: {
-          from: 'users',
-          localField: '_id',
-          foreignField: '_id',
-          as: 'user'
-        }
-      },
+      }
+    ]);
+
+    const creatorTotals = new Map<string, any>();
+    creatorGroups.forEach((group: any) => {
+      const { userId, currency, exchangeRate } = group._id;
+      const totals = creatorTotals.get(userId.toString()) || {
+        _id: userId,
+        totalClaims: 0,
+        totalEarnings: 0,
+        totalDeductions: 0,
+        currencies: new Set<string>()
+      };
+      totals.totalClaims += group.totalClaims;
+      totals.totalEarnings += toReporting(group.totalEarnings, currency, exchangeRate);
+      totals.totalDeductions += toReporting(group.totalDeductions, currency, exchangeRate);
+      totals.currencies.add(currency);
+      creatorTotals.set(userId.toString(), totals);
+    });
+
+    const topCreatorTotals = [...creatorTotals.values()]
+      .map(totals => ({ ...totals, netEarnings: totals.totalEarnings - totals.totalDeductions }))
+      .sort((a, b) => b.netEarnings - a.netEarnings)
+      .slice(0, 5);
+    const creatorUsers = await User.find({ _id: { $in: topCreatorTotals.map(totals => totals._id) } }).select('name');
+    const topCreators = topCreatorTotals.map(totals => ({
+      _id: totals._id,
+      name: creatorUsers.find((creator: any) => creator._id.toString() === totals._id.toString())?.name,
+      currencies: [...totals.currencies],
+      totalClaims: totals.totalClaims,
+      totalEarnings: toDecimal(totals.totalEarnings),
+      totalDeductions: toDecimal(totals.totalDeductions),
+      netEarnings: toDecimal(totals.netEarnings)
+    }));
+
+    // Deduction lines by catalogue reason; only proposed and accepted lines are part of a deduction
+    // total. Lines from before the catalogue have no code and are reported together.
+    const reasonGroups = await Claim.aggregate([
+      { $match: { isActive: true } },
+      { $unwind: '$deductions' },
+      { $match: { 'deductions.status': { $in: ACTIVE_DEDUCTION_LINE_STATUSES } } },
       {
-        $project: {
-          name: { $arrayElemAt: ['$user.name', 0] },
-          totalClaims: 1,
-          totalEarnings: 1,
-          totalDeductions: 1,
-          netEarnings: 1
+        $group: {
+          _id: {
+            reasonCode: { $ifNull: ['$deductions.reasonCode', null] },
+            currency: { $ifNull: ['$currency', reportingCurrency] },
+            exchangeRate: '$exchangeRate'
+          },
+          lines: { $sum: 1 },
+          claimIds: { $addToSet: '$_id' },
+          amount: { $sum: '$deductions.amount' }
         }
       }
     ]);
 
-    // Calculate average processing time (simplified - using creation date to now)
-    const averageProcessingTime = 0; // TODO: Implement actual processing time calculation
+    const reasonTotals = new Map<string | null, any>();
+    reasonGroups.forEach((group: any) => {
+      const { reasonCode, currency, exchangeRate } = group._id;
+      const totals = reasonTotals.get(reasonCode) || { reasonCode, lines: 0, claimIds: new Set<string>(), amount: 0 };
+      totals.lines += group.lines;
+      group.claimIds.forEach((claimId: any) => totals.claimIds.add(claimId.toString()));
+      totals.amount += toReporting(group.amount, currency, exchangeRate);
+      reasonTotals.set(reasonCode, totals);
+    });
+
+    const reasonCodes = [...reasonTotals.keys()].filter((code): code is string => code !== null);
+    const reasons = await DeductionReason.find({ code: { $in: reasonCodes } }).select('code label');
+    const deductionsByReason = [...reasonTotals.values()]
+      .sort((a, b) => b.amount - a.amount)
+      .map(totals => ({
+        reasonCode: totals.reasonCode,
+        label: totals.reasonCode === null
+          ? 'Uncategorised'
+          : reasons.find(reason => reason.code === totals.reasonCode)?.label ?? totals.reasonCode,
+        lines: totals.lines,
+        claims: totals.claimIds.size,
+        amount: toDecimal(totals.amount)
+      }));
+
+    // Time in each status, rebuilt from the claim history timestamps
+    const sla = await ClaimSlaService.getReport();
 
     const stats = {
       totalUsers,
@@ -299,12 +593,30 @@ export const getAdminStats = async (req: Request, res: Response) => {
       pendingClaims,
       approvedClaims,
       rejectedClaims,
-      totalEarnings: earningsData[0]?.totalEarnings || 0,
-      totalDeductions: earningsData[0]?.totalDeductions || 0,
-      approvedEarnings: approvedEarningsData[0]?.approvedEarnings || 0,
-      approvedDeductions: approvedEarningsData[0]?.approvedDeductions || 0,
-      averageProcessingTime,
-      topCreators
+      disputedClaims,
+      escalatedClaims,
+      reportingCurrency,
+      totalEarnings: toDecimal(totalEarnings),
+      totalDeductions: toDecimal(totalDeductions),
+      approvedEarnings: toDecimal(approvedEarnings),
+      approvedDeductions: toDecimal(approvedDeductions),
+      currencyTotals: [...currencyTotals.values()].map(totals => ({
+        ...totals,
+        totalEarnings: fromMinorUnits(totals.totalEarnings, totals.currency),
+        totalDeductions: fromMinorUnits(totals.totalDeductions, totals.currency),
+        approvedEarnings: fromMinorUnits(totals.approvedEarnings, totals.currency),
+        approvedDeductions: fromMinorUnits(totals.approvedDeductions, totals.currency)
+      })),
+      // Currencies left out of the reporting totals because they have no exchange rate
+      missingExchangeRates: [...missingExchangeRates],
+      // Hours from submission to admin approval, and to settlement
+      averageProcessingTime: sla.averageProcessingHours,
+      averagePayoutTime: sla.averagePayoutHours,
+      timeInStage: sla.stages,
+      slaBreachesByStatus: sla.breachesByStatus,
+      slaBreachesByWeek: sla.breachesByWeek,
+      topCreators,
+      deductionsByReason
     };
 
     console.log('Admin stats calculated:', {
@@ -46,7 +46,8 @@ export const register = async (req: Request, res: Response): Promise<void> => {
         id: user._id,
         name: user.name,
         email: user.email,
-        role: user.role
+        role: user.role,
+        currency: user.currency
       }
     });
   } catch (error) {
@@ -90,7 +91,8 @@ export const login = async (req: Request, res: Response): Promise<void> => {
         name: user.name,
         email: user.email,
         role: user.role,
-        profileImageUrl: user.profileImageUrl
+        profileImageUrl: user.profileImageUrl,
+        currency: user.currency
       }
     });
   } catch (error) {
@@ -114,6 +116,7 @@ export const getProfile = async (req: AuthRequest, res: Response): Promise<void>
         email: req.user.email,
         role: req.user.role,
         profileImageUrl: req.user.profileImageUrl,
+        currency: req.user.currency,
         createdAt: req.user.createdAt
       }
     });
@@ -154,7 +157,8 @@ export const updateProfile = async (req: AuthRequest, res: Response): Promise<vo
         name: user.name,
         email: user.email,
         role: user.role,
-        profileImageUrl: user.profileImageUrl
+        profileImageUrl: user.profileImageUrl,
+        currency: user.currency
       }
     });
   } catch (error) {
@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import ClaimCommentService from '../services/claimCommentService';
+import { ClaimWorkflowError, toClaimActor } from '../services/claimWorkflow';
+import { IUser } from '../models/User';
+
+interface AuthRequest extends Request {
+  user?: IUser;
+}
+
+// Workflow violations carry their own status code; anything else is a server error
+const sendCommentError = (res: Response, error: any, fallbackMessage: string): void => {
+  if (error instanceof ClaimWorkflowError) {
+    res.status(error.statusCode).json({ message: error.message });
+    return;
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+export const getClaimComments = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const comments = await ClaimCommentService.getComments(req.params.id as string, toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      comments
+    });
+  } catch (error) {
+    console.error('Get claim comments error:', error);
+    sendCommentError(res, error, 'Server error while fetching comments');
+  }
+};
+
+export const addClaimComment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { body, internal, requestsProof, parentId, mentions } = req.body;
+
+    if (typeof body !== 'string' || !body.trim()) {
+      res.status(400).json({ message: 'Comment cannot be empty' });
+      return;
+    }
+    if (body.trim().length > 2000) {
+      res.status(400).json({ message: 'Comment cannot exceed 2000 characters' });
+      return;
+    }
+    if (mentions !== undefined && (!Array.isArray(mentions) || !mentions.every(id => typeof id === 'string'))) {
+      res.status(400).json({ message: 'Mentions must be a list of user IDs' });
+      return;
+    }
+
+    const comment = await ClaimCommentService.addComment(
+      req.params.id as string,
+      {
+        body: body.trim(),
+        internal: internal === true,
+        requestsProof: requestsProof === true,
+        parentId: typeof parentId === 'string' ? parentId : null,
+        mentions
+      },
+      toClaimActor(req.user),
+      req.user.name
+    );
+
+    res.status(201).json({
+      success: true,
+      comment
+    });
+  } catch (error) {
+    console.error('Add claim comment error:', error);
+    sendCommentError(res, error, 'Server error while adding comment');
+  }
+};
+
+export const getMentionableUsers = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const users = await ClaimCommentService.getMentionableUsers();
+
+    res.json({
+      success: true,
+      users
+    });
+  } catch (error) {
+    console.error('Get mentionable users error:', error);
+    sendCommentError(res, error, 'Server error while fetching users');
+  }
+};
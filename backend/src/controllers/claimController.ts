@@ -1,13 +1,35 @@
 import { Request, Response } from 'express';
 import mongoose from 'mongoose';
-import ClaimService from '../services/claimService';
+import ClaimService, {
+  BulkClaimResult,
+  ClaimEdit,
+  DeductionDecision,
+  DeductionLineInput,
+  EscalationRuling,
+  MAX_BULK_CLAIMS,
+  NegotiationDecision
+} from '../services/claimService';
+import { ClaimWorkflowError, getSlaElapsedMs, toClaimActor } from '../services/claimWorkflow';
+import ClaimLockService from '../services/claimLockService';
+import ClaimQueueService from '../services/claimQueueService';
+import EngagementService from '../services/engagementService';
 import Claim from '../models/Claim';
 import { IUser } from '../models/User';
+import { fromMinorUnits } from '../utils/money';
 
 interface AuthRequest extends Request {
   user?: IUser;
 }
 
+// Workflow violations carry their own status code; anything else is a server error
+const sendClaimError = (res: Response, error: any, fallbackMessage: string): void => {
+  if (error instanceof ClaimWorkflowError) {
+    res.status(error.statusCode).json({ message: error.message });
+    return;
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
 export const submitClaim = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
@@ -42,6 +64,7 @@ export const submitClaim = async (req: AuthRequest, res: Response): Promise<void
       userId: req.user._id,
       postIds,
       proofFileUrls,
+      currency: req.user.currency,
       createdBy: req.user._id,
       updatedBy: req.user._id
     };
@@ -52,7 +75,8 @@ export const submitClaim = async (req: AuthRequest, res: Response): Promise<void
       success: true,
       claim: {
         id: claim._id,
-        calculatedEarnings: claim.calculatedEarnings,
+        currency: claim.currency,
+        calculatedEarnings: fromMinorUnits(claim.calculatedEarnings, claim.currency),
         status: claim.status,
         createdAt: claim.createdAt
       }
@@ -61,7 +85,9 @@ export const submitClaim = async (req: AuthRequest, res: Response): Promise<void
       console.error('Submit claim error:', error);
       
       // Handle different types of validation errors
-      if (error.name === 'DuplicateKeyError') {
+      if (error instanceof ClaimWorkflowError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error.name === 'DuplicateKeyError') {
         res.status(400).json({ message: error.message });
       } else if (error.message && error.message.includes('❌')) {
         // Our custom validation errors start with ❌
@@ -113,6 +139,26 @@ export const checkPostsAlreadyClaimed = async (req: AuthRequest, res: Response):
   }
 };
 
+// Posts of the creator that their claims currently hold, so the claim form can grey them out
+export const getClaimedPostIds = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const postIds = await ClaimService.getUserClaimedPostIds(req.user._id);
+
+    res.json({
+      success: true,
+      postIds
+    });
+  } catch (error: any) {
+    console.error('Get claimed post IDs error:', error);
+    res.status(500).json({ message: 'Server error while fetching claimed posts' });
+  }
+};
+
 export const getUserClaims = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
@@ -160,6 +206,17 @@ export const getAllClaims = async (req: AuthRequest, res: Response): Promise<voi
     if (req.query.minEarnings) filters.minEarnings = parseFloat(req.query.minEarnings as string);
     if (req.query.maxEarnings) filters.maxEarnings = parseFloat(req.query.maxEarnings as string);
     if (req.query.hasDeduction) filters.hasDeduction = req.query.hasDeduction === 'true';
+    if (req.query.unbatched) filters.unbatched = req.query.unbatched === 'true';
+
+    // Review queue: the caller's own claims, the ones nobody has been given, or one reviewer's
+    const assignedTo = req.query.assignedTo as string | undefined;
+    if (assignedTo === 'me') {
+      filters.reviewedBy = req.user._id;
+    } else if (assignedTo === 'unassigned') {
+      filters.reviewedBy = null;
+    } else if (assignedTo && mongoose.isValidObjectId(assignedTo)) {
+      filters.reviewedBy = assignedTo;
+    }
 
     // Role-based filtering
     if (req.user.role === 'account') {
@@ -180,9 +237,16 @@ export const getAllClaims = async (req: AuthRequest, res: Response): Promise<voi
     console.log('getAllClaims - Page:', page, 'Limit:', limit);
     console.log('getAllClaims - Calculated total pages:', Math.ceil(total / limit));
 
+    const locks = await ClaimLockService.describeLocks(claims);
+
     res.json({
       success: true,
-      claims,
+      // Review time so far, not counting time spent waiting on the creator, and who has it open
+      claims: claims.map(claim => ({
+        ...claim.toJSON(),
+        slaElapsedMs: getSlaElapsedMs(claim),
+        lock: locks.get(claim._id.toString()) || null
+      })),
       pagination: {
         current: page,
         total: Math.ceil(total / limit),
@@ -196,6 +260,78 @@ export const getAllClaims = async (req: AuthRequest, res: Response): Promise<voi
   }
 };
 
+// Hand the reviewer their next claim, taking the oldest unassigned one when their queue is empty
+export const getNextClaim = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const claim = await ClaimQueueService.takeNext(req.user._id);
+    const locks = await ClaimLockService.describeLocks(claim ? [claim] : []);
+
+    res.json({
+      success: true,
+      claim: claim
+        ? { ...claim.toJSON(), slaElapsedMs: getSlaElapsedMs(claim), lock: locks.get(claim._id.toString()) || null }
+        : null
+    });
+  } catch (error) {
+    console.error('Get next claim error:', error);
+    res.status(500).json({ message: 'Server error while fetching the next claim' });
+  }
+};
+
+export const getQueueCounts = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { reviewers, unassigned } = await ClaimQueueService.getQueueCounts();
+
+    res.json({
+      success: true,
+      reviewers,
+      unassigned
+    });
+  } catch (error) {
+    console.error('Get queue counts error:', error);
+    res.status(500).json({ message: 'Server error while fetching queue counts' });
+  }
+};
+
+export const reassignClaim = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    if (req.user.role !== 'admin') {
+      res.status(403).json({ message: 'Only admins can reassign claims' });
+      return;
+    }
+
+    const { reviewerId } = req.body;
+    if (typeof reviewerId !== 'string' || !reviewerId) {
+      res.status(400).json({ message: 'Reviewer is required' });
+      return;
+    }
+
+    const claim = await ClaimService.reassignClaim(req.params.id as string, reviewerId, toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      claim: {
+        id: claim._id,
+        reviewedBy: claim.reviewedBy,
+        assignedAt: claim.assignedAt
+      }
+    });
+  } catch (error) {
+    console.error('Reassign claim error:', error);
+    sendClaimError(res, error, 'Server error while reassigning claim');
+  }
+};
+
 export const getClaimById = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
@@ -231,6 +367,62 @@ export const getClaimById = async (req: AuthRequest, res: Response): Promise<voi
   }
 };
 
+export const getClaimTransitions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const claim = await Claim.findById(req.params.id).select('userId');
+    if (!claim) {
+      res.status(404).json({ message: 'Claim not found' });
+      return;
+    }
+
+    if (req.user.role === 'user' && claim.userId.toString() !== req.user._id.toString()) {
+      res.status(403).json({ message: 'Not authorized to view this claim' });
+      return;
+    }
+
+    const { status, transitions } = await ClaimService.getAvailableTransitions(req.params.id as string, toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      status,
+      transitions
+    });
+  } catch (error) {
+    console.error('Get claim transitions error:', error);
+    res.status(500).json({ message: 'Server error while fetching claim transitions' });
+  }
+};
+
+// Fresh engagement risk for the claim, post by post, so reviewers can see what to deduct
+export const getClaimRisk = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      res.status(404).json({ message: 'Claim not found' });
+      return;
+    }
+
+    const risk = await EngagementService.assessClaim(req.params.id as string);
+
+    res.json({
+      success: true,
+      risk
+    });
+  } catch (error) {
+    console.error('Get claim risk error:', error);
+    sendClaimError(res, error, 'Server error while assessing claim risk');
+  }
+};
+
 export const applyDeduction = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
@@ -243,16 +435,38 @@ export const applyDeduction = async (req: AuthRequest, res: Response): Promise<v
       return;
     }
 
-    const { deductionAmount, deductionReason } = req.body;
-
-    if (!deductionAmount || !deductionReason) {
-      res.status(400).json({ message: 'Deduction amount and reason are required' });
-      return;
+    // Line items, or a single reason code (with optional amount and note) for the whole claim
+    const { lines, deductionAmount, deductionReasonCode, deductionReason } = req.body;
+    let deductionLines: DeductionLineInput[];
+
+    if (Array.isArray(lines)) {
+      const invalid = lines.some((line: any) =>
+        typeof line?.reasonCode !== 'string' ||
+        (line.amount != null && typeof line.amount !== 'number') ||
+        (line.reason != null && typeof line.reason !== 'string') ||
+        (line.postId && !mongoose.Types.ObjectId.isValid(line.postId)));
+      if (lines.length === 0 || invalid) {
+        res.status(400).json({ message: 'Each deduction line needs a reason code, and optionally an amount, a note and a valid post ID' });
+        return;
+      }
+      deductionLines = lines.map((line: any) => ({
+        postId: line.postId || null,
+        amount: line.amount ?? null,
+        reasonCode: line.reasonCode,
+        reason: line.reason
+      }));
+    } else {
+      if (typeof deductionReasonCode !== 'string' || (deductionAmount != null && typeof deductionAmount !== 'number')) {
+        res.status(400).json({ message: 'A deduction reason code is required' });
+        return;
+      }
+      deductionLines = [{ amount: deductionAmount ?? null, reasonCode: deductionReasonCode, reason: deductionReason }];
     }
+
     const claim = await ClaimService.applyDeduction(
       req.params.id as string,
-      { amount: deductionAmount, reason: deductionReason },
-      req.user._id
+      deductionLines,
+      toClaimActor(req.user)
     );
 
     res.json({
@@ -260,13 +474,14 @@ export const applyDeduction = async (req: AuthRequest, res: Response): Promise<v
       claim: {
         id: claim._id,
         status: claim.status,
-        deductionAmount: claim.deductionAmount,
-        deductionReason: claim.deductionReason
+        deductionAmount: fromMinorUnits(claim.deductionAmount, claim.currency),
+        deductionReason: claim.deductionReason,
+        deductions: claim.toJSON().deductions
       }
     });
   } catch (error) {
     console.error('Apply deduction error:', error);
-    res.status(500).json({ message: 'Server error while applying deduction' });
+    sendClaimError(res, error, 'Server error while applying deduction');
   }
 };
 
@@ -295,23 +510,43 @@ export const respondToDeduction = async (req: AuthRequest, res: Response): Promi
     console.log('Respond to deduction - User ID:', req.user._id);
     console.log('Respond to deduction - User role:', req.user.role);
 
-    const { accepted } = req.body;
-
-    if (typeof accepted !== 'boolean') {
+    // Either a decision per deduction line (optionally with a counter-offer), or accepted for all lines at once
+    const { accepted, lines } = req.body;
+    let response: boolean | DeductionDecision[];
+
+    if (Array.isArray(lines)) {
+      const invalid = lines.some((line: any) =>
+        typeof line?.lineId !== 'string' ||
+        typeof line.accepted !== 'boolean' ||
+        (line.counterAmount != null && typeof line.counterAmount !== 'number') ||
+        (line.message != null && typeof line.message !== 'string'));
+      if (invalid) {
+        res.status(400).json({ message: 'Each line decision needs a lineId, a boolean accepted field and an optional counter-offer and message' });
+        return;
+      }
+      response = lines.map((line: any) => ({
+        lineId: line.lineId,
+        accepted: line.accepted,
+        counterAmount: line.counterAmount ?? null,
+        message: line.message
+      }));
+    } else if (typeof accepted === 'boolean') {
+      response = accepted;
+    } else {
       res.status(400).json({ message: 'Accepted field must be a boolean' });
       return;
     }
     
     console.log('Calling ClaimService.respondToDeduction with:', {
       claimId: req.params.id,
-      accepted: accepted,
+      response,
       userId: req.user._id
     });
     
     const claim = await ClaimService.respondToDeduction(
       req.params.id as string,
-      accepted,
-      req.user._id
+      response,
+      toClaimActor(req.user)
     );
 
     console.log('ClaimService returned:', claim);
@@ -325,7 +560,130 @@ export const respondToDeduction = async (req: AuthRequest, res: Response): Promi
     });
   } catch (error) {
     console.error('Respond to deduction error:', error);
-    res.status(500).json({ message: 'Server error while responding to deduction' });
+    sendClaimError(res, error, 'Server error while responding to deduction');
+  }
+};
+
+const NEGOTIATION_ACTIONS = ['accept_counter', 'counter', 'withdraw'];
+
+export const negotiateDeduction = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    if (req.user.role !== 'account') {
+      res.status(403).json({ message: 'Only account reviewers can answer deduction disputes' });
+      return;
+    }
+
+    const { lines } = req.body;
+    const invalid = !Array.isArray(lines) || lines.length === 0 || lines.some((line: any) =>
+      typeof line?.lineId !== 'string' ||
+      !NEGOTIATION_ACTIONS.includes(line.action) ||
+      (line.amount != null && typeof line.amount !== 'number') ||
+      (line.message != null && typeof line.message !== 'string'));
+    if (invalid) {
+      res.status(400).json({ message: 'Each line needs a lineId, an action (accept_counter, counter or withdraw) and, to re-counter, an amount' });
+      return;
+    }
+
+    const decisions: NegotiationDecision[] = lines.map((line: any) => ({
+      lineId: line.lineId,
+      action: line.action,
+      amount: line.amount ?? null,
+      message: line.message
+    }));
+    const claim = await ClaimService.negotiateDeduction(req.params.id as string, decisions, toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      claim: {
+        id: claim._id,
+        status: claim.status,
+        deductionAmount: fromMinorUnits(claim.deductionAmount, claim.currency),
+        deductions: claim.toJSON().deductions
+      }
+    });
+  } catch (error) {
+    console.error('Negotiate deduction error:', error);
+    sendClaimError(res, error, 'Server error while answering deduction dispute');
+  }
+};
+
+export const escalateDeduction = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    if (req.user.role !== 'account') {
+      res.status(403).json({ message: 'Only account reviewers can escalate deduction disputes' });
+      return;
+    }
+
+    const { message } = req.body;
+    if (!message || typeof message !== 'string' || !message.trim()) {
+      res.status(400).json({ message: 'Explain why the dispute needs an admin' });
+      return;
+    }
+
+    const claim = await ClaimService.escalateDeduction(req.params.id as string, message.trim(), toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      claim: {
+        id: claim._id,
+        status: claim.status
+      }
+    });
+  } catch (error) {
+    console.error('Escalate deduction error:', error);
+    sendClaimError(res, error, 'Server error while escalating deduction dispute');
+  }
+};
+
+export const resolveEscalation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    if (req.user.role !== 'admin') {
+      res.status(403).json({ message: 'Only admins can resolve escalated disputes' });
+      return;
+    }
+
+    const { lines, note } = req.body;
+    const invalid = !Array.isArray(lines) || lines.length === 0 || lines.some((line: any) =>
+      typeof line?.lineId !== 'string' || typeof line.amount !== 'number');
+    if (invalid) {
+      res.status(400).json({ message: 'Each ruling needs a lineId and an amount (0 drops the line)' });
+      return;
+    }
+    if (!note || typeof note !== 'string' || !note.trim()) {
+      res.status(400).json({ message: 'A note explaining the ruling is required' });
+      return;
+    }
+
+    const rulings: EscalationRuling[] = lines.map((line: any) => ({ lineId: line.lineId, amount: line.amount }));
+    const claim = await ClaimService.resolveEscalation(req.params.id as string, rulings, note.trim(), toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      claim: {
+        id: claim._id,
+        status: claim.status,
+        deductionAmount: fromMinorUnits(claim.deductionAmount, claim.currency),
+        deductions: claim.toJSON().deductions
+      }
+    });
+  } catch (error) {
+    console.error('Resolve escalation error:', error);
+    sendClaimError(res, error, 'Server error while resolving escalation');
   }
 };
 
@@ -344,7 +702,7 @@ export const accountApprove = async (req: AuthRequest, res: Response): Promise<v
     console.log('Account approve - Claim ID:', req.params.id);
     console.log('Account approve - User ID:', req.user._id);
 
-    const claim = await ClaimService.accountApprove(req.params.id as string, req.user._id);
+    const claim = await ClaimService.accountApprove(req.params.id as string, toClaimActor(req.user));
 
     console.log('Account approve - Success, new status:', claim.status);
 
@@ -357,7 +715,31 @@ export const accountApprove = async (req: AuthRequest, res: Response): Promise<v
     });
   } catch (error: any) {
     console.error('Account approve error:', error);
-    res.status(500).json({ message: error.message || 'Server error while approving claim' });
+    sendClaimError(res, error, error.message || 'Server error while approving claim');
+  }
+};
+
+export const recalculateEarnings = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    if (req.user.role !== 'account') {
+      res.status(403).json({ message: 'Only account reviewers can recalculate earnings' });
+      return;
+    }
+
+    const claim = await ClaimService.recalculateEarnings(req.params.id as string, toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      claim
+    });
+  } catch (error) {
+    console.error('Recalculate earnings error:', error);
+    sendClaimError(res, error, 'Server error while recalculating earnings');
   }
 };
 
@@ -383,7 +765,7 @@ export const accountReject = async (req: AuthRequest, res: Response): Promise<vo
     console.log('Account reject - User ID:', req.user._id);
     console.log('Account reject - Reason:', reason);
 
-    const claim = await ClaimService.accountReject(req.params.id as string, req.user._id, reason);
+    const claim = await ClaimService.accountReject(req.params.id as string, toClaimActor(req.user), reason);
 
     console.log('Account reject - Success, new status:', claim.status);
 
@@ -396,7 +778,154 @@ export const accountReject = async (req: AuthRequest, res: Response): Promise<vo
     });
   } catch (error: any) {
     console.error('Account reject error:', error);
-    res.status(500).json({ message: error.message || 'Server error while rejecting claim' });
+    sendClaimError(res, error, error.message || 'Server error while rejecting claim');
+  }
+};
+
+// Multipart body: postIds and removeProofFileUrls arrive as JSON strings next to the new proofFiles
+const parseJsonList = (value: unknown): string[] | undefined | null => {
+  if (value === undefined || value === '') return undefined;
+  try {
+    const list = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(list) && list.every(item => typeof item === 'string') ? list : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const editClaim = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const postIds = parseJsonList(req.body.postIds);
+    const removeProofFileUrls = parseJsonList(req.body.removeProofFileUrls);
+    if (postIds === null || removeProofFileUrls === null) {
+      res.status(400).json({ message: 'Invalid postIds or removeProofFileUrls format' });
+      return;
+    }
+    if (postIds && (postIds.length === 0 || !postIds.every(id => mongoose.isValidObjectId(id)))) {
+      res.status(400).json({ message: 'At least one valid post is required' });
+      return;
+    }
+
+    const changes: ClaimEdit = {
+      postIds,
+      removeProofFileUrls,
+      addProofFileUrls: req.files ? (req.files as Express.Multer.File[]).map(file => `/uploads/${file.filename}`) : []
+    };
+
+    const claim = await ClaimService.editClaim(req.params.id as string, changes, toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      claim: {
+        id: claim._id,
+        currency: claim.currency,
+        calculatedEarnings: fromMinorUnits(claim.calculatedEarnings, claim.currency),
+        status: claim.status
+      }
+    });
+  } catch (error) {
+    console.error('Edit claim error:', error);
+    sendClaimError(res, error, 'Server error while editing claim');
+  }
+};
+
+export const withdrawClaim = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+    const claim = await ClaimService.withdrawClaim(req.params.id as string, reason, toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      claim: {
+        id: claim._id,
+        status: claim.status
+      }
+    });
+  } catch (error) {
+    console.error('Withdraw claim error:', error);
+    sendClaimError(res, error, 'Server error while withdrawing claim');
+  }
+};
+
+export const requestInfo = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    if (req.user.role !== 'account') {
+      res.status(403).json({ message: 'Only account reviewers can request more information' });
+      return;
+    }
+
+    const { message } = req.body;
+    if (!message || typeof message !== 'string' || !message.trim()) {
+      res.status(400).json({ message: 'Tell the creator what information is needed' });
+      return;
+    }
+    if (message.trim().length > 1000) {
+      res.status(400).json({ message: 'Message cannot exceed 1000 characters' });
+      return;
+    }
+
+    const claim = await ClaimService.requestInfo(req.params.id as string, message.trim(), toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      claim: {
+        id: claim._id,
+        status: claim.status
+      }
+    });
+  } catch (error) {
+    console.error('Request info error:', error);
+    sendClaimError(res, error, 'Server error while requesting information');
+  }
+};
+
+export const provideInfo = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const proofFileUrls = req.files ? (req.files as Express.Multer.File[]).map(file => `/uploads/${file.filename}`) : [];
+    const response = typeof req.body.response === 'string' ? req.body.response.trim() : '';
+
+    if (!response && proofFileUrls.length === 0) {
+      res.status(400).json({ message: 'Add a response or at least one proof file' });
+      return;
+    }
+    if (response.length > 1000) {
+      res.status(400).json({ message: 'Response cannot exceed 1000 characters' });
+      return;
+    }
+
+    const claim = await ClaimService.provideInfo(req.params.id as string, response, proofFileUrls, toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      claim: {
+        id: claim._id,
+        status: claim.status
+      }
+    });
+  } catch (error) {
+    console.error('Provide info error:', error);
+    sendClaimError(res, error, 'Server error while responding to information request');
   }
 };
 
@@ -412,7 +941,7 @@ export const adminApprove = async (req: AuthRequest, res: Response): Promise<voi
       return;
     }
 
-    const claim = await ClaimService.adminApprove(req.params.id as string, req.user._id);
+    const claim = await ClaimService.adminApprove(req.params.id as string, toClaimActor(req.user));
 
     res.json({
       success: true,
@@ -423,7 +952,147 @@ export const adminApprove = async (req: AuthRequest, res: Response): Promise<voi
     });
   } catch (error) {
     console.error('Admin approve error:', error);
-    res.status(500).json({ message: 'Server error while finalizing claim' });
+    sendClaimError(res, error, 'Server error while finalizing claim');
+  }
+};
+
+export const adminReject = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    if (req.user.role !== 'admin') {
+      res.status(403).json({ message: 'Only admins can finally reject claims' });
+      return;
+    }
+
+    const { reason, sendBack } = req.body;
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ message: 'Rejection reason is required' });
+      return;
+    }
+
+    if (sendBack !== undefined && typeof sendBack !== 'boolean') {
+      res.status(400).json({ message: 'sendBack must be a boolean' });
+      return;
+    }
+
+    const claim = await ClaimService.adminReject(req.params.id as string, toClaimActor(req.user), reason.trim(), sendBack === true);
+
+    res.json({
+      success: true,
+      claim: {
+        id: claim._id,
+        status: claim.status
+      }
+    });
+  } catch (error) {
+    console.error('Admin reject error:', error);
+    sendClaimError(res, error, 'Server error while rejecting claim');
+  }
+};
+
+// Claim IDs of a bulk request without duplicates, or an error message
+const parseBulkClaimIds = (claimIds: unknown): string[] | string => {
+  if (!Array.isArray(claimIds) || claimIds.length === 0 || !claimIds.every(id => typeof id === 'string')) {
+    return 'claimIds must be a non-empty list of claim IDs';
+  }
+  const unique = [...new Set(claimIds as string[])];
+  if (unique.length > MAX_BULK_CLAIMS) {
+    return `At most ${MAX_BULK_CLAIMS} claims can be processed at once`;
+  }
+  return unique;
+};
+
+const sendBulkResults = (res: Response, results: BulkClaimResult[]): void => {
+  const succeeded = results.filter(result => result.success).length;
+  res.json({
+    success: true,
+    succeeded,
+    failed: results.length - succeeded,
+    results
+  });
+};
+
+export const bulkApprove = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const claimIds = parseBulkClaimIds(req.body.claimIds);
+    if (typeof claimIds === 'string') {
+      res.status(400).json({ message: claimIds });
+      return;
+    }
+
+    const results = await ClaimService.bulkApprove(claimIds, toClaimActor(req.user));
+    sendBulkResults(res, results);
+  } catch (error) {
+    console.error('Bulk approve error:', error);
+    sendClaimError(res, error, 'Server error while approving claims');
+  }
+};
+
+export const bulkFinalApprove = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const claimIds = parseBulkClaimIds(req.body.claimIds);
+    if (typeof claimIds === 'string') {
+      res.status(400).json({ message: claimIds });
+      return;
+    }
+
+    const results = await ClaimService.bulkFinalApprove(claimIds, toClaimActor(req.user));
+    sendBulkResults(res, results);
+  } catch (error) {
+    console.error('Bulk final approve error:', error);
+    sendClaimError(res, error, 'Server error while finalizing claims');
+  }
+};
+
+// Account reviewers and admins; sendBack is for admins only
+export const bulkReject = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const claimIds = parseBulkClaimIds(req.body.claimIds);
+    if (typeof claimIds === 'string') {
+      res.status(400).json({ message: claimIds });
+      return;
+    }
+
+    const { reason, sendBack } = req.body;
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ message: 'Rejection reason is required' });
+      return;
+    }
+
+    if (sendBack !== undefined && typeof sendBack !== 'boolean') {
+      res.status(400).json({ message: 'sendBack must be a boolean' });
+      return;
+    }
+
+    if (sendBack && req.user.role !== 'admin') {
+      res.status(403).json({ message: 'Only admins can send claims back to account review' });
+      return;
+    }
+
+    const results = await ClaimService.bulkReject(claimIds, toClaimActor(req.user), reason.trim(), sendBack === true);
+    sendBulkResults(res, results);
+  } catch (error) {
+    console.error('Bulk reject error:', error);
+    sendClaimError(res, error, 'Server error while rejecting claims');
   }
 };
 
@@ -434,16 +1103,17 @@ export const lockClaim = async (req: AuthRequest, res: Response): Promise<void>
       return;
     }
 
-    const locked = await ClaimService.lockClaim(req.params.id as string, req.user._id);
+    const lock = await ClaimLockService.acquire(req.params.id as string, req.user._id);
 
-    if (!locked) {
+    if (!lock) {
       res.status(409).json({ message: 'Claim is currently being edited by another user' });
       return;
     }
 
     res.json({
       success: true,
-      message: 'Claim locked successfully'
+      message: 'Claim locked successfully',
+      lock
     });
   } catch (error) {
     console.error('Lock claim error:', error);
@@ -458,7 +1128,7 @@ export const unlockClaim = async (req: AuthRequest, res: Response): Promise<void
       return;
     }
 
-    await ClaimService.unlockClaim(req.params.id as string, req.user._id);
+    await ClaimLockService.release(req.params.id as string, req.user._id);
 
     res.json({
       success: true,
@@ -470,6 +1140,36 @@ export const unlockClaim = async (req: AuthRequest, res: Response): Promise<void
   }
 };
 
+export const breakClaimLock = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    if (req.user.role !== 'admin') {
+      res.status(403).json({ message: 'Only admins can break claim locks' });
+      return;
+    }
+
+    const { reason } = req.body;
+    if (typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ message: 'A reason is required to break a lock' });
+      return;
+    }
+
+    await ClaimService.breakLock(req.params.id as string, reason.trim(), toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      message: 'Claim lock broken'
+    });
+  } catch (error) {
+    console.error('Break claim lock error:', error);
+    sendClaimError(res, error, 'Server error while breaking claim lock');
+  }
+};
+
 export const getClaimStats = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
@@ -497,6 +1197,21 @@ export const getClaimStats = async (req: AuthRequest, res: Response): Promise<vo
           approved: {
             $sum: { $cond: [{ $eq: ['$status', 'account_approved'] }, 1, 0] }
           },
+          rejected: {
+            $sum: { $cond: [{ $in: ['$status', ['account_rejected', 'admin_rejected']] }, 1, 0] }
+          },
+          disputed: {
+            $sum: { $cond: [{ $eq: ['$status', 'user_rejected'] }, 1, 0] }
+          },
+          escalated: {
+            $sum: { $cond: [{ $eq: ['$status', 'escalated'] }, 1, 0] }
+          },
+          infoRequested: {
+            $sum: { $cond: [{ $eq: ['$status', 'info_requested'] }, 1, 0] }
+          },
+          withdrawn: {
+            $sum: { $cond: [{ $eq: ['$status', 'withdrawn'] }, 1, 0] }
+          },
           settled: {
             $sum: { $cond: [{ $eq: ['$status', 'settled'] }, 1, 0] }
           },
@@ -505,7 +1220,7 @@ export const getClaimStats = async (req: AuthRequest, res: Response): Promise<vo
       }
     ]);
 
-    const result = stats[0] || { pending: 0, deducted: 0, approved: 0, settled: 0, total: 0 };
+    const result = stats[0] || { pending: 0, deducted: 0, approved: 0, rejected: 0, disputed: 0, escalated: 0, infoRequested: 0, withdrawn: 0, settled: 0, total: 0 };
 
     res.json({
       success: true,
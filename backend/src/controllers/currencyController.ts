@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import CurrencyService from '../services/currencyService';
+import { ClaimWorkflowError } from '../services/claimWorkflow';
+import { CURRENCY_CODE_PATTERN, getReportingCurrency } from '../config/currency';
+import User, { IUser } from '../models/User';
+
+interface AuthRequest extends Request {
+  user?: IUser;
+}
+
+// Workflow violations carry their own status code; anything else is a server error
+const sendCurrencyError = (res: Response, error: any, fallbackMessage: string): void => {
+  if (error instanceof ClaimWorkflowError) {
+    res.status(error.statusCode).json({ message: error.message });
+    return;
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+export const getExchangeRates = async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const rates = await CurrencyService.getRates();
+
+    res.json({
+      success: true,
+      reportingCurrency: getReportingCurrency(),
+      rates
+    });
+  } catch (error) {
+    console.error('Get exchange rates error:', error);
+    sendCurrencyError(res, error, 'Server error while fetching exchange rates');
+  }
+};
+
+export const getExchangeRateHistory = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const history = await CurrencyService.getRateHistory(req.query.currency as string | undefined);
+
+    res.json({
+      success: true,
+      history
+    });
+  } catch (error) {
+    console.error('Get exchange rate history error:', error);
+    sendCurrencyError(res, error, 'Server error while fetching exchange rate history');
+  }
+};
+
+export const setExchangeRate = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const currency = String(req.params.currency || '').toUpperCase();
+    const { rate, note } = req.body;
+
+    if (!CURRENCY_CODE_PATTERN.test(currency)) {
+      res.status(400).json({ message: 'Currency must be a three-letter code' });
+      return;
+    }
+    if (typeof rate !== 'number' || rate <= 0) {
+      res.status(400).json({ message: 'Exchange rate must be a positive number' });
+      return;
+    }
+
+    const entry = await CurrencyService.setRate(currency, rate, req.user._id, note);
+
+    res.json({
+      success: true,
+      rate: entry
+    });
+  } catch (error) {
+    console.error('Set exchange rate error:', error);
+    sendCurrencyError(res, error, 'Server error while setting exchange rate');
+  }
+};
+
+export const removeExchangeRate = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    await CurrencyService.removeRate(req.params.currency as string, req.user._id);
+
+    res.json({
+      success: true,
+      message: 'Exchange rate removed'
+    });
+  } catch (error) {
+    console.error('Remove exchange rate error:', error);
+    sendCurrencyError(res, error, 'Server error while removing exchange rate');
+  }
+};
+
+// Change the currency a creator is paid in; existing claims keep their own currency
+export const updateCreatorCurrency = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const currency = String(req.body.currency || '').toUpperCase();
+    if (!CURRENCY_CODE_PATTERN.test(currency)) {
+      res.status(400).json({ message: 'Currency must be a three-letter code' });
+      return;
+    }
+    if (!mongoose.Types.ObjectId.isValid(req.params.id as string)) {
+      res.status(400).json({ message: 'Invalid user ID' });
+      return;
+    }
+
+    const creator = await User.findOneAndUpdate(
+      { _id: req.params.id, role: 'user', isActive: true },
+      { currency, updatedBy: req.user._id },
+      { new: true, runValidators: true }
+    ).select('name email currency');
+
+    if (!creator) {
+      res.status(404).json({ message: 'Creator not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      creator
+    });
+  } catch (error) {
+    console.error('Update creator currency error:', error);
+    sendCurrencyError(res, error, 'Server error while updating creator currency');
+  }
+};
@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import DeductionReasonService, { DeductionReasonData } from '../services/deductionReasonService';
+import { ClaimWorkflowError } from '../services/claimWorkflow';
+import { DEDUCTION_REASON_CODE_PATTERN } from '../models/DeductionReason';
+import { getReportingCurrency } from '../config/currency';
+import { IUser } from '../models/User';
+
+interface AuthRequest extends Request {
+  user?: IUser;
+}
+
+// Workflow violations carry their own status code; anything else is a server error
+const sendDeductionReasonError = (res: Response, error: any, fallbackMessage: string): void => {
+  if (error instanceof ClaimWorkflowError) {
+    res.status(error.statusCode).json({ message: error.message });
+    return;
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+const isOptionalNumber = (value: unknown): value is number | null | undefined =>
+  value == null || (typeof value === 'number' && value >= 0);
+
+// Returns the parsed catalogue entry, or an error message when the body is invalid
+const parseReasonBody = (body: any): DeductionReasonData | string => {
+  const { label, description, defaultPercent, defaultAmount } = body;
+
+  if (typeof label !== 'string' || !label.trim()) {
+    return 'Label is required';
+  }
+  if (!isOptionalNumber(defaultPercent) || !isOptionalNumber(defaultAmount)) {
+    return 'Defaults must be non-negative numbers';
+  }
+  if (defaultPercent != null && defaultPercent > 100) {
+    return 'Default percentage cannot exceed 100';
+  }
+  if (defaultPercent != null && defaultAmount != null) {
+    return 'Set a default percentage or a default amount, not both';
+  }
+
+  return {
+    label: label.trim(),
+    description: typeof description === 'string' ? description.trim() : undefined,
+    defaultPercent: defaultPercent ?? null,
+    defaultAmount: defaultAmount ?? null
+  };
+};
+
+// Catalogue for reviewers and admins; admins may ask for retired entries too
+export const getDeductionReasons = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const includeInactive = req.user?.role === 'admin' && req.query.includeInactive === 'true';
+    const reasons = await DeductionReasonService.getReasons(includeInactive);
+
+    res.json({
+      success: true,
+      reportingCurrency: getReportingCurrency(),
+      reasons
+    });
+  } catch (error) {
+    console.error('Get deduction reasons error:', error);
+    sendDeductionReasonError(res, error, 'Server error while fetching deduction reasons');
+  }
+};
+
+export const createDeductionReason = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const code = String(req.body.code || '').trim().toLowerCase();
+    if (!DEDUCTION_REASON_CODE_PATTERN.test(code)) {
+      res.status(400).json({ message: 'Reason code may only contain letters, digits and underscores, e.g. bot_traffic' });
+      return;
+    }
+
+    const data = parseReasonBody(req.body);
+    if (typeof data === 'string') {
+      res.status(400).json({ message: data });
+      return;
+    }
+
+    const reason = await DeductionReasonService.createReason(code, data, req.user._id);
+
+    res.status(201).json({
+      success: true,
+      reason
+    });
+  } catch (error) {
+    console.error('Create deduction reason error:', error);
+    sendDeductionReasonError(res, error, 'Server error while creating deduction reason');
+  }
+};
+
+export const updateDeductionReason = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const data = parseReasonBody(req.body);
+    if (typeof data === 'string') {
+      res.status(400).json({ message: data });
+      return;
+    }
+
+    const reason = await DeductionReasonService.updateReason(req.params.id as string, data, req.user._id);
+
+    res.json({
+      success: true,
+      reason
+    });
+  } catch (error) {
+    console.error('Update deduction reason error:', error);
+    sendDeductionReasonError(res, error, 'Server error while updating deduction reason');
+  }
+};
+
+export const deleteDeductionReason = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    await DeductionReasonService.deactivateReason(req.params.id as string, req.user._id);
+
+    res.json({
+      success: true,
+      message: 'Deduction reason removed'
+    });
+  } catch (error) {
+    console.error('Delete deduction reason error:', error);
+    sendDeductionReasonError(res, error, 'Server error while removing deduction reason');
+  }
+};
@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import JobScheduler from '../services/jobScheduler';
+import { ClaimWorkflowError } from '../services/claimWorkflow';
+import { IUser } from '../models/User';
+
+interface AuthRequest extends Request {
+  user?: IUser;
+}
+
+// Workflow violations carry their own status code; anything else is a server error
+const sendJobError = (res: Response, error: any, fallbackMessage: string): void => {
+  if (error instanceof ClaimWorkflowError) {
+    res.status(error.statusCode).json({ message: error.message });
+    return;
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+// Every job with its schedule and last run. Jobs this backend no longer registers are listed
+// so an admin can see they have stopped.
+export const getJobs = async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const jobs = await JobScheduler.getJobs();
+
+    res.json({
+      success: true,
+      jobs: jobs.map(job => ({
+        ...job.toJSON(),
+        registered: JobScheduler.isRegistered(job.name),
+        running: !!job.lockExpiresAt && job.lockExpiresAt.getTime() > Date.now()
+      }))
+    });
+  } catch (error) {
+    console.error('Get jobs error:', error);
+    sendJobError(res, error, 'Server error while fetching jobs');
+  }
+};
+
+export const getJobRuns = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const runs = await JobScheduler.getRuns(req.params.name as string, limit);
+
+    res.json({
+      success: true,
+      runs
+    });
+  } catch (error) {
+    console.error('Get job runs error:', error);
+    sendJobError(res, error, 'Server error while fetching job runs');
+  }
+};
+
+export const runJob = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const job = await JobScheduler.requestRun(req.params.name as string, req.user._id);
+
+    res.json({
+      success: true,
+      message: 'The job will run within the next poll',
+      job
+    });
+  } catch (error) {
+    console.error('Run job error:', error);
+    sendJobError(res, error, 'Server error while starting job');
+  }
+};
+
+export const updateJob = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { enabled } = req.body;
+    if (typeof enabled !== 'boolean') {
+      res.status(400).json({ message: 'enabled must be true or false' });
+      return;
+    }
+
+    const job = await JobScheduler.setEnabled(req.params.name as string, enabled, req.user._id);
+
+    res.json({
+      success: true,
+      job
+    });
+  } catch (error) {
+    console.error('Update job error:', error);
+    sendJobError(res, error, 'Server error while updating job');
+  }
+};
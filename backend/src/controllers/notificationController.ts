@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import NotificationService from '../services/notificationService';
+import { ClaimWorkflowError } from '../services/claimWorkflow';
+import { IUser } from '../models/User';
+
+interface AuthRequest extends Request {
+  user?: IUser;
+}
+
+// Workflow violations carry their own status code; anything else is a server error
+const sendNotificationError = (res: Response, error: any, fallbackMessage: string): void => {
+  if (error instanceof ClaimWorkflowError) {
+    res.status(error.statusCode).json({ message: error.message });
+    return;
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+export const getNotifications = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { notifications, unread } = await NotificationService.getNotifications(req.user._id);
+
+    res.json({
+      success: true,
+      notifications,
+      unread
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    sendNotificationError(res, error, 'Server error while fetching notifications');
+  }
+};
+
+export const markNotificationRead = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    await NotificationService.markRead(req.params.id as string, req.user._id);
+
+    res.json({
+      success: true,
+      message: 'Notification marked as read'
+    });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    sendNotificationError(res, error, 'Server error while updating notification');
+  }
+};
+
+export const markAllNotificationsRead = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const updated = await NotificationService.markAllRead(req.user._id);
+
+    res.json({
+      success: true,
+      updated
+    });
+  } catch (error) {
+    console.error('Mark notifications read error:', error);
+    sendNotificationError(res, error, 'Server error while updating notifications');
+  }
+};
@@ -0,0 +1,145 @@
+import { Request, Response } from 'express';
+import PayoutService from '../services/payoutService';
+import { ClaimWorkflowError, toClaimActor } from '../services/claimWorkflow';
+import { IUser } from '../models/User';
+
+interface AuthRequest extends Request {
+  user?: IUser;
+}
+
+// Workflow violations carry their own status code; anything else is a server error
+const sendPayoutError = (res: Response, error: any, fallbackMessage: string): void => {
+  if (error instanceof ClaimWorkflowError) {
+    res.status(error.statusCode).json({ message: error.message });
+    return;
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+export const createPayoutBatch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { claimIds, note } = req.body;
+
+    if (!Array.isArray(claimIds) || claimIds.length === 0) {
+      res.status(400).json({ message: 'At least one claim ID is required' });
+      return;
+    }
+
+    const batch = await PayoutService.createBatch(claimIds, toClaimActor(req.user), note);
+
+    res.status(201).json({
+      success: true,
+      batch
+    });
+  } catch (error) {
+    console.error('Create payout batch error:', error);
+    sendPayoutError(res, error, 'Server error while creating payout batch');
+  }
+};
+
+export const getPayoutBatches = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 100);
+    const filters: any = {};
+
+    if (req.query.status) filters.status = req.query.status;
+
+    const { batches, total } = await PayoutService.getBatches(filters, page, limit);
+
+    res.json({
+      success: true,
+      batches,
+      pagination: {
+        current: page,
+        total: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get payout batches error:', error);
+    res.status(500).json({ message: 'Server error while fetching payout batches' });
+  }
+};
+
+export const getPayoutBatchById = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const batch = await PayoutService.getBatchById(req.params.id as string);
+
+    res.json({
+      success: true,
+      batch
+    });
+  } catch (error) {
+    console.error('Get payout batch error:', error);
+    sendPayoutError(res, error, 'Server error while fetching payout batch');
+  }
+};
+
+export const exportPayoutBatch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { batch, csv } = await PayoutService.exportBatch(req.params.id as string, toClaimActor(req.user));
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${batch.batchNumber}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    console.error('Export payout batch error:', error);
+    sendPayoutError(res, error, 'Server error while exporting payout batch');
+  }
+};
+
+export const markPayoutBatchPaid = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { paymentReference } = req.body;
+    if (!paymentReference || typeof paymentReference !== 'string' || !paymentReference.trim()) {
+      res.status(400).json({ message: 'Payment reference is required' });
+      return;
+    }
+
+    const batch = await PayoutService.markBatchPaid(req.params.id as string, paymentReference.trim(), toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      batch
+    });
+  } catch (error) {
+    console.error('Mark payout batch paid error:', error);
+    sendPayoutError(res, error, 'Server error while marking payout batch as paid');
+  }
+};
+
+export const cancelPayoutBatch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const batch = await PayoutService.cancelBatch(req.params.id as string, toClaimActor(req.user));
+
+    res.json({
+      success: true,
+      batch
+    });
+  } catch (error) {
+    console.error('Cancel payout batch error:', error);
+    sendPayoutError(res, error, 'Server error while cancelling payout batch');
+  }
+};
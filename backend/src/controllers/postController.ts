@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import Post from '../models/Post';
 import { IUser } from '../models/User';
+import EngagementService, { EngagementViewer } from '../services/engagementService';
 
 interface AuthRequest extends Request {
   user?: IUser;
@@ -206,22 +207,33 @@ export const deletePost = async (req: AuthRequest, res: Response): Promise<void>
   }
 };
 
-export const incrementViews = async (req: Request, res: Response): Promise<void> => {
+// Browser ID the frontend keeps in local storage; only used to tell anonymous viewers apart
+const FINGERPRINT_HEADER = 'X-Viewer-Fingerprint';
+const FINGERPRINT_PATTERN = /^[A-Za-z0-9-]{8,100}$/;
+
+const getViewer = (req: AuthRequest): EngagementViewer => {
+  const fingerprint = req.header(FINGERPRINT_HEADER);
+  return {
+    userId: req.user?._id || null,
+    fingerprint: fingerprint && FINGERPRINT_PATTERN.test(fingerprint) ? fingerprint : null,
+    ip: req.ip || req.socket.remoteAddress || 'unknown',
+    userAgent: req.header('User-Agent')?.slice(0, 500) || null
+  };
+};
+
+export const incrementViews = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const post = await Post.findByIdAndUpdate(
-      req.params.id,
-      { $inc: { viewCount: 1 } },
-      { new: true }
-    );
+    const recorded = await EngagementService.record(req.params.id as string, 'view', getViewer(req));
 
-    if (!post) {
+    if (!recorded) {
       res.status(404).json({ message: 'Post not found' });
       return;
     }
 
     res.json({
       success: true,
-      viewCount: post.viewCount
+      counted: recorded.counted,
+      viewCount: recorded.post.viewCount
     });
   } catch (error) {
     console.error('Increment views error:', error);
@@ -229,25 +241,22 @@ export const incrementViews = async (req: Request, res: Response): Promise<void>
   }
 };
 
-export const incrementLikes = async (req: Request, res: Response): Promise<void> => {
+export const incrementLikes = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const post = await Post.findByIdAndUpdate(
-      req.params.id,
-      { $inc: { likeCount: 1 } },
-      { new: true }
-    );
+    const recorded = await EngagementService.record(req.params.id as string, 'like', getViewer(req));
 
-    if (!post) {
+    if (!recorded) {
       res.status(404).json({ message: 'Post not found' });
       return;
     }
 
     res.json({
       success: true,
-      likeCount: post.likeCount
+      counted: recorded.counted,
+      likeCount: recorded.post.likeCount
     });
   } catch (error) {
     console.error('Increment likes error:', error);
     res.status(500).json({ message: 'Server error while updating likes' });
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,189 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import RateOverrideService, { getOverrideStatus, RateOverrideData } from '../services/rateOverrideService';
+import { ClaimWorkflowError } from '../services/claimWorkflow';
+import { IRateOverride } from '../models/RateOverride';
+import User, { IUser } from '../models/User';
+
+interface AuthRequest extends Request {
+  user?: IUser;
+}
+
+// Workflow violations carry their own status code; anything else is a server error
+const sendOverrideError = (res: Response, error: any, fallbackMessage: string): void => {
+  if (error instanceof ClaimWorkflowError) {
+    res.status(error.statusCode).json({ message: error.message });
+    return;
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+const withStatus = (override: IRateOverride) => ({
+  ...override.toObject(),
+  status: getOverrideStatus(override)
+});
+
+const isRate = (value: unknown): value is number => typeof value === 'number' && value >= 0;
+
+// Returns the parsed override, or an error message when the body is invalid
+const parseOverrideBody = (body: any): RateOverrideData | string => {
+  const { userId, tag, ratePerLike, ratePer100Views, validFrom, validTo, note } = body;
+
+  if (!userId && !(typeof tag === 'string' && tag.trim())) {
+    return 'An override needs a user, a tag, or both';
+  }
+  if (userId && !mongoose.Types.ObjectId.isValid(userId)) {
+    return 'Invalid user ID';
+  }
+  if (!isRate(ratePerLike) || !isRate(ratePer100Views)) {
+    return 'Rates must be non-negative numbers';
+  }
+
+  const from = validFrom ? new Date(validFrom) : undefined;
+  const to = validTo ? new Date(validTo) : null;
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return 'Invalid validity dates';
+  }
+  if (to && to <= (from || new Date())) {
+    return 'Valid to must be after valid from';
+  }
+
+  return {
+    userId: userId || null,
+    tag: typeof tag === 'string' ? tag.trim() : null,
+    ratePerLike,
+    ratePer100Views,
+    ...(from ? { validFrom: from } : {}),
+    validTo: to,
+    note
+  };
+};
+
+export const getRateOverrides = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const filters: any = {
+      includeExpired: req.query.includeExpired === 'true'
+    };
+
+    if (req.query.userId) filters.userId = req.query.userId;
+    if (req.query.tag) filters.tag = req.query.tag;
+
+    const { overrides, total } = await RateOverrideService.getOverrides(filters, page, limit);
+
+    res.json({
+      success: true,
+      overrides: overrides.map(withStatus),
+      pagination: {
+        current: page,
+        total: Math.ceil(total / limit),
+        count: overrides.length,
+        totalRecords: total
+      }
+    });
+  } catch (error) {
+    console.error('Get rate overrides error:', error);
+    sendOverrideError(res, error, 'Server error while fetching rate overrides');
+  }
+};
+
+export const getExpiringRateOverrides = async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const overrides = await RateOverrideService.getExpiringOverrides();
+
+    res.json({
+      success: true,
+      overrides: overrides.map(withStatus)
+    });
+  } catch (error) {
+    console.error('Get expiring rate overrides error:', error);
+    sendOverrideError(res, error, 'Server error while fetching expiring rate overrides');
+  }
+};
+
+export const createRateOverride = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const data = parseOverrideBody(req.body);
+    if (typeof data === 'string') {
+      res.status(400).json({ message: data });
+      return;
+    }
+
+    const override = await RateOverrideService.createOverride(data, req.user._id);
+
+    res.status(201).json({
+      success: true,
+      override: withStatus(override)
+    });
+  } catch (error) {
+    console.error('Create rate override error:', error);
+    sendOverrideError(res, error, 'Server error while creating rate override');
+  }
+};
+
+export const updateRateOverride = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const data = parseOverrideBody(req.body);
+    if (typeof data === 'string') {
+      res.status(400).json({ message: data });
+      return;
+    }
+
+    const override = await RateOverrideService.updateOverride(req.params.id as string, data, req.user._id);
+
+    res.json({
+      success: true,
+      override: withStatus(override)
+    });
+  } catch (error) {
+    console.error('Update rate override error:', error);
+    sendOverrideError(res, error, 'Server error while updating rate override');
+  }
+};
+
+export const deleteRateOverride = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    await RateOverrideService.deleteOverride(req.params.id as string, req.user._id);
+
+    res.json({
+      success: true,
+      message: 'Rate override removed'
+    });
+  } catch (error) {
+    console.error('Delete rate override error:', error);
+    sendOverrideError(res, error, 'Server error while removing rate override');
+  }
+};
+
+// Creators an override can be assigned to
+export const getCreators = async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const creators = await User.find({ role: 'user', isActive: true })
+      .select('name email currency')
+      .sort({ name: 1 });
+
+    res.json({
+      success: true,
+      creators
+    });
+  } catch (error) {
+    console.error('Get creators error:', error);
+    sendOverrideError(res, error, 'Server error while fetching creators');
+  }
+};
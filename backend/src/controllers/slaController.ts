@@ -0,0 +1,78 @@
+import { Request, Response } from 'express';
+import ClaimSlaService from '../services/claimSlaService';
+import { ClaimWorkflowError } from '../services/claimWorkflow';
+import { SLA_STATUSES } from '../models/SlaTarget';
+import { IUser } from '../models/User';
+
+interface AuthRequest extends Request {
+  user?: IUser;
+}
+
+// Workflow violations carry their own status code; anything else is a server error
+const sendSlaError = (res: Response, error: any, fallbackMessage: string): void => {
+  if (error instanceof ClaimWorkflowError) {
+    res.status(error.statusCode).json({ message: error.message });
+    return;
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+// Live targets, plus the statuses a target can be set for
+export const getSlaTargets = async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const targets = await ClaimSlaService.getTargets();
+
+    res.json({
+      success: true,
+      statuses: SLA_STATUSES,
+      targets
+    });
+  } catch (error) {
+    console.error('Get SLA targets error:', error);
+    sendSlaError(res, error, 'Server error while fetching SLA targets');
+  }
+};
+
+export const setSlaTarget = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { targetHours } = req.body;
+    if (typeof targetHours !== 'number' || targetHours < 0.25 || targetHours > 24 * 90) {
+      res.status(400).json({ message: 'Target must be between 0.25 hours and 90 days' });
+      return;
+    }
+
+    const target = await ClaimSlaService.setTarget(req.params.status as string, targetHours, req.user._id);
+
+    res.json({
+      success: true,
+      target
+    });
+  } catch (error) {
+    console.error('Set SLA target error:', error);
+    sendSlaError(res, error, 'Server error while setting SLA target');
+  }
+};
+
+export const removeSlaTarget = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    await ClaimSlaService.removeTarget(req.params.status as string, req.user._id);
+
+    res.json({
+      success: true,
+      message: 'SLA target removed'
+    });
+  } catch (error) {
+    console.error('Remove SLA target error:', error);
+    sendSlaError(res, error, 'Server error while removing SLA target');
+  }
+};
@@ -1,16 +1,108 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { CURRENCY_CODE_PATTERN, getReportingCurrency } from '../config/currency';
+import { amountsToDecimal, minorUnitsValidator } from '../utils/money';
+
+// Rate for units up to upTo (likes, or views for view tiers); the last tier may be open-ended
+export interface IRateTier {
+  upTo?: number | null;
+  rate: number;
+}
+
+export interface ITagMultiplier {
+  tag: string;
+  multiplier: number;
+}
+
+// Flat rates for creators paid in another currency, used instead of converting the card's rates
+export interface ICurrencyRates {
+  currency: string;
+  ratePerLike: number;
+  ratePer100Views: number;
+}
 
 export interface IAdminSettings extends Document {
+  // Currency of the rates, caps and minimum payout on this card; caps, minimum payout and the
+  // dual approval threshold are in minor units
+  currency: string;
+  currencyRates: ICurrencyRates[];
   ratePerLike: number;
   ratePer100Views: number;
+  likeTiers: IRateTier[];
+  viewTiers: IRateTier[];
+  maxPerPost?: number | null;
+  maxPerClaim?: number | null;
+  minPayout: number;
+  // Claims whose final amount is above this need two account approvals; null turns the rule off
+  dualApprovalThreshold?: number | null;
+  tagMultipliers: ITagMultiplier[];
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
   createdAt: Date;
   createdBy: mongoose.Types.ObjectId;
   updatedAt: Date;
   updatedBy: mongoose.Types.ObjectId;
   isActive: boolean;
+  // Written in minor units; lets migrate:minor-units tell these apart from decimal-era documents
+  amountsInMinorUnits: boolean;
 }
 
+const rateTierSchema = new Schema<IRateTier>({
+  upTo: {
+    type: Number,
+    default: null,
+    min: [0, 'Tier limit cannot be negative']
+  },
+  rate: {
+    type: Number,
+    required: [true, 'Tier rate is required'],
+    min: [0, 'Tier rate cannot be negative']
+  }
+}, { _id: false });
+
+const tagMultiplierSchema = new Schema<ITagMultiplier>({
+  tag: {
+    type: String,
+    required: [true, 'Tag is required'],
+    trim: true,
+    lowercase: true
+  },
+  multiplier: {
+    type: Number,
+    required: [true, 'Multiplier is required'],
+    min: [0, 'Multiplier cannot be negative']
+  }
+}, { _id: false });
+
+const currencyRatesSchema = new Schema<ICurrencyRates>({
+  currency: {
+    type: String,
+    required: [true, 'Currency is required'],
+    uppercase: true,
+    trim: true,
+    match: [CURRENCY_CODE_PATTERN, 'Currency must be a three-letter code']
+  },
+  ratePerLike: {
+    type: Number,
+    required: [true, 'Rate per like is required'],
+    min: [0, 'Rate per like cannot be negative']
+  },
+  ratePer100Views: {
+    type: Number,
+    required: [true, 'Rate per 100 views is required'],
+    min: [0, 'Rate per 100 views cannot be negative']
+  }
+}, { _id: false });
+
 const adminSettingsSchema = new Schema<IAdminSettings>({
+  currency: {
+    type: String,
+    required: [true, 'Currency is required'],
+    uppercase: true,
+    trim: true,
+    match: [CURRENCY_CODE_PATTERN, 'Currency must be a three-letter code'],
+    default: getReportingCurrency
+  },
+  currencyRates: [currencyRatesSchema],
   ratePerLike: {
     type: Number,
     required: [true, 'Rate per like is required'],
@@ -23,6 +115,44 @@ const adminSettingsSchema = new Schema<IAdminSettings>({
     min: [0, 'Rate per 100 views cannot be negative'],
     default: 0.50
   },
+  // Tiers replace the flat rate above when present; view tier rates are per 100 views
+  likeTiers: [rateTierSchema],
+  viewTiers: [rateTierSchema],
+  maxPerPost: {
+    type: Number,
+    default: null,
+    min: [0, 'Per-post cap cannot be negative'],
+    validate: minorUnitsValidator
+  },
+  maxPerClaim: {
+    type: Number,
+    default: null,
+    min: [0, 'Per-claim cap cannot be negative'],
+    validate: minorUnitsValidator
+  },
+  minPayout: {
+    type: Number,
+    default: 0,
+    min: [0, 'Minimum payout cannot be negative'],
+    validate: minorUnitsValidator
+  },
+  dualApprovalThreshold: {
+    type: Number,
+    default: null,
+    min: [0, 'Dual approval threshold cannot be negative'],
+    validate: minorUnitsValidator
+  },
+  tagMultipliers: [tagMultiplierSchema],
+  // Rate cards form a timeline; a card applies from effectiveFrom until effectiveTo (open-ended when null)
+  effectiveFrom: {
+    type: Date,
+    required: [true, 'Effective from date is required'],
+    default: Date.now
+  },
+  effectiveTo: {
+    type: Date,
+    default: null
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -44,13 +174,24 @@ const adminSettingsSchema = new Schema<IAdminSettings>({
   isActive: {
     type: Boolean,
     default: true
+  },
+  amountsInMinorUnits: {
+    type: Boolean,
+    default: true,
+    select: false
   }
 }, {
   timestamps: true
 });
 
-// Ensure only one active settings record
-adminSettingsSchema.index({ isActive: 1 }, { 
+// API responses carry decimal amounts; the database keeps minor units
+adminSettingsSchema.set('toJSON', {
+  transform: (_doc, ret) =>
+    amountsToDecimal(ret, ['maxPerPost', 'maxPerClaim', 'minPayout', 'dualApprovalThreshold'], ret.currency || getReportingCurrency())
+});
+
+// Ensure no two active rate cards start at the same moment
+adminSettingsSchema.index({ effectiveFrom: 1 }, { 
   unique: true, 
   partialFilterExpression: { isActive: true }
 });
@@ -1,42 +1,177 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { CURRENCY_CODE_PATTERN, getReportingCurrency } from '../config/currency';
+import { amountsToDecimal, minorUnitsValidator } from '../utils/money';
+
+export const CLAIM_STATUSES = ['pending', 'deducted', 'user_accepted', 'user_rejected', 'escalated', 'info_requested', 'account_approved', 'account_rejected', 'admin_approved', 'admin_rejected', 'settled', 'withdrawn'] as const;
+export type ClaimStatus = typeof CLAIM_STATUSES[number];
+
+export const CLAIM_HISTORY_ACTIONS = ['submitted', 'deduction_applied', 'user_accepted', 'user_rejected', 'account_approved', 'account_rejected', 'admin_approved', 'admin_rejected', 'admin_sent_back', 'earnings_recalculated', 'settled', 'deduction_countered', 'counter_offer_accepted', 'deduction_escalated', 'escalation_resolved', 'info_requested', 'info_provided', 'claim_edited', 'claim_withdrawn', 'lock_broken', 'claim_assigned', 'sla_breached', 'approval_recorded', 'approval_blocked'] as const;
+export type ClaimHistoryAction = typeof CLAIM_HISTORY_ACTIONS[number];
+
+// countered: disputed with a counter-offer; withdrawn: dropped by the reviewer or replaced by a new line
+export const DEDUCTION_LINE_STATUSES = ['proposed', 'accepted', 'disputed', 'countered', 'withdrawn'] as const;
+export type DeductionLineStatus = typeof DEDUCTION_LINE_STATUSES[number];
+
+// Lines in these statuses make up deductionAmount
+export const ACTIVE_DEDUCTION_LINE_STATUSES: DeductionLineStatus[] = ['proposed', 'accepted'];
+// Lines the creator pushed back on, waiting for the reviewer (or an admin after escalation)
+export const OPEN_DEDUCTION_LINE_STATUSES: DeductionLineStatus[] = ['disputed', 'countered'];
+
+export const DEDUCTION_ROUND_ACTIONS = ['proposed', 'accepted', 'disputed', 'countered', 'withdrawn', 'escalated', 'resolved'] as const;
+export type DeductionRoundAction = typeof DEDUCTION_ROUND_ACTIONS[number];
 
 export interface IClaimHistory {
-  action: string;
-  by: mongoose.Types.ObjectId;
+  action: ClaimHistoryAction;
+  // Null on entries the system records itself, e.g. an SLA breach
+  by: mongoose.Types.ObjectId | null;
   timestamp: Date;
   note?: string;
+  // Structured data for actions that need more than a note, e.g. an earnings recalculation diff
+  details?: Record<string, any>;
+}
+
+// A reviewer's request for more information, and the creator's answer once given
+export interface IInfoRequest {
+  message: string;
+  requestedBy: mongoose.Types.ObjectId;
+  requestedAt: Date;
+  response?: string | null;
+  // Proof files added in answer to the request
+  addedProofFileUrls: string[];
+  respondedAt?: Date | null;
+}
+
+// Set when the claim has sat in its current status past the SLA target; cleared when it moves on
+export interface ISlaBreach {
+  status: ClaimStatus;
+  targetHours: number;
+  enteredAt: Date;
+  breachedAt: Date;
+}
+
+export const RISK_LEVELS = ['low', 'medium', 'high'] as const;
+export type RiskLevel = typeof RISK_LEVELS[number];
+
+// Latest fraud score for the engagement the claim is paid on, refreshed as new events come in
+export interface IRiskAssessment {
+  // 0-100: roughly the share of the claimed engagement that looks inflated
+  score: number;
+  level: RiskLevel;
+  assessedAt: Date;
+}
+
+// What a single post contributed to the claim at calculation time
+export interface IEarningsLine {
+  postId: mongoose.Types.ObjectId;
+  // Rate card (AdminSettings version) the rates were taken from
+  settingsId: mongoose.Types.ObjectId;
+  // Negotiated rate override used instead of the card's rates, if any
+  overrideId?: mongoose.Types.ObjectId | null;
+  likeCount: number;
+  viewCount: number;
+  ratePerLike: number;
+  ratePer100Views: number;
+  likeEarnings: number;
+  viewEarnings: number;
+  // Tag bonus applied to the post
+  multiplier: number;
+  // Amount was cut down to the per-post cap
+  capped: boolean;
+  // Earnings are in minor units of the claim currency
+  amount: number;
+}
+
+// One step of the negotiation over a deduction line
+export interface IDeductionRound {
+  action: DeductionRoundAction;
+  by: mongoose.Types.ObjectId;
+  role: 'user' | 'account' | 'admin';
+  // Amount on the table after this step, in minor units of the claim currency
+  amount?: number | null;
+  message?: string;
+  at: Date;
+}
+
+// One item of a deduction, either for the whole claim or for a single post. The creator
+// accepts, disputes or counters each line separately; every step is kept in rounds.
+export interface IDeductionLine {
+  _id: mongoose.Types.ObjectId;
+  postId?: mongoose.Types.ObjectId | null;
+  // Minor units of the claim currency
+  amount: number;
+  // Catalogue code and its label at the time; null on lines from before the catalogue
+  reasonCode?: string | null;
+  reasonLabel?: string | null;
+  // Reviewer's note for this line
+  reason?: string;
+  status: DeductionLineStatus;
+  // Creator's latest counter-offer, minor units
+  counterAmount?: number | null;
+  rounds: IDeductionRound[];
+  proposedBy: mongoose.Types.ObjectId;
+  proposedAt: Date;
+  respondedAt?: Date | null;
 }
 
 export interface IClaim extends Document {
   userId: mongoose.Types.ObjectId;
   postIds: mongoose.Types.ObjectId[];
   proofFileUrls: string[];
+  // Earnings and deductions are in minor units of the creator's payout currency
+  currency: string;
   calculatedEarnings: number;
-  status: 'pending' | 'deducted' | 'user_accepted' | 'user_rejected' | 'account_approved' | 'admin_approved' | 'settled';
+  earningsBreakdown: IEarningsLine[];
+  settingsId?: mongoose.Types.ObjectId | null;
+  rateOverrideIds: mongoose.Types.ObjectId[];
+  rateBasis?: 'claim_submitted' | 'post_created';
+  earningsCalculatedAt?: Date;
+  status: ClaimStatus;
   lockedBy?: mongoose.Types.ObjectId;
+  // When the current holder took the lock
   lockTimestamp?: Date;
+  // End of the lock lease; heartbeats push it forward
+  lockExpiresAt?: Date;
+  // Total of the proposed and accepted deduction lines
   deductionAmount: number;
   deductionReason?: string;
+  deductions: IDeductionLine[];
+  rejectionReason?: string;
+  // Account reviewer the claim is assigned to; whoever decides on it takes it over
   reviewedBy?: mongoose.Types.ObjectId;
+  assignedAt?: Date | null;
   finalApprovedBy?: mongoose.Types.ObjectId;
+  payoutBatchId?: mongoose.Types.ObjectId;
+  // Units of the reporting currency per unit of the claim currency, fixed at admin approval
+  exchangeRate?: number | null;
+  reportingCurrency?: string | null;
+  // Latest request for more information; kept after the creator answers
+  infoRequest?: IInfoRequest | null;
+  // SLA clock: paused while the claim waits on the creator. slaPausedMs is the paused time
+  // already behind us; slaPausedAt is set while a pause is running.
+  slaPausedAt?: Date | null;
+  slaPausedMs: number;
+  slaBreach?: ISlaBreach | null;
+  risk?: IRiskAssessment | null;
   history: IClaimHistory[];
   createdAt: Date;
   createdBy: mongoose.Types.ObjectId;
   updatedAt: Date;
   updatedBy: mongoose.Types.ObjectId;
   isActive: boolean;
+  // Written in minor units; lets migrate:minor-units tell these apart from decimal-era documents
+  amountsInMinorUnits: boolean;
 }
 
 const claimHistorySchema = new Schema<IClaimHistory>({
   action: {
     type: String,
     required: true,
-    enum: ['submitted', 'deduction_applied', 'user_accepted', 'user_rejected', 'account_approved', 'admin_approved', 'settled']
+    enum: CLAIM_HISTORY_ACTIONS
   },
   by: {
     type: Schema.Types.ObjectId,
     ref: 'User',
-    required: true
+    default: null
   },
   timestamp: {
     type: Date,
@@ -45,9 +180,224 @@ const claimHistorySchema = new Schema<IClaimHistory>({
   note: {
     type: String,
     maxlength: [500, 'Note cannot exceed 500 characters']
+  },
+  details: {
+    type: Schema.Types.Mixed,
+    default: undefined
+  }
+});
+
+const earningsLineSchema = new Schema<IEarningsLine>({
+  postId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Post',
+    required: true
+  },
+  settingsId: {
+    type: Schema.Types.ObjectId,
+    ref: 'AdminSettings',
+    default: null
+  },
+  overrideId: {
+    type: Schema.Types.ObjectId,
+    ref: 'RateOverride',
+    default: null
+  },
+  likeCount: {
+    type: Number,
+    required: true
+  },
+  viewCount: {
+    type: Number,
+    required: true
+  },
+  ratePerLike: {
+    type: Number,
+    required: true
+  },
+  ratePer100Views: {
+    type: Number,
+    required: true
+  },
+  likeEarnings: {
+    type: Number,
+    default: null,
+    validate: minorUnitsValidator
+  },
+  viewEarnings: {
+    type: Number,
+    default: null,
+    validate: minorUnitsValidator
+  },
+  multiplier: {
+    type: Number,
+    default: 1
+  },
+  capped: {
+    type: Boolean,
+    default: false
+  },
+  amount: {
+    type: Number,
+    required: true,
+    validate: minorUnitsValidator
+  }
+}, { _id: false });
+
+const deductionRoundSchema = new Schema<IDeductionRound>({
+  action: {
+    type: String,
+    enum: DEDUCTION_ROUND_ACTIONS,
+    required: true
+  },
+  by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  role: {
+    type: String,
+    enum: ['user', 'account', 'admin'],
+    required: true
+  },
+  amount: {
+    type: Number,
+    default: null,
+    min: [0, 'Amount cannot be negative'],
+    validate: minorUnitsValidator
+  },
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Message cannot exceed 1000 characters']
+  },
+  at: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const infoRequestSchema = new Schema<IInfoRequest>({
+  message: {
+    type: String,
+    required: [true, 'A message to the creator is required'],
+    trim: true,
+    maxlength: [1000, 'Message cannot exceed 1000 characters']
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  requestedAt: {
+    type: Date,
+    default: Date.now
+  },
+  response: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Response cannot exceed 1000 characters'],
+    default: null
+  },
+  addedProofFileUrls: [{
+    type: String
+  }],
+  respondedAt: {
+    type: Date,
+    default: null
+  }
+}, { _id: false });
+
+const deductionLineSchema = new Schema<IDeductionLine>({
+  postId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Post',
+    default: null
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Deduction amount is required'],
+    min: [1, 'Deduction amount must be greater than 0'],
+    validate: minorUnitsValidator
+  },
+  reasonCode: {
+    type: String,
+    default: null
+  },
+  reasonLabel: {
+    type: String,
+    default: null
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Deduction note cannot exceed 500 characters']
+  },
+  status: {
+    type: String,
+    enum: DEDUCTION_LINE_STATUSES,
+    default: 'proposed'
+  },
+  counterAmount: {
+    type: Number,
+    default: null,
+    min: [1, 'Counter-offer must be greater than 0'],
+    validate: minorUnitsValidator
+  },
+  rounds: [deductionRoundSchema],
+  proposedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  proposedAt: {
+    type: Date,
+    default: Date.now
+  },
+  respondedAt: {
+    type: Date,
+    default: null
   }
 });
 
+const riskAssessmentSchema = new Schema<IRiskAssessment>({
+  score: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100
+  },
+  level: {
+    type: String,
+    enum: RISK_LEVELS,
+    required: true
+  },
+  assessedAt: {
+    type: Date,
+    required: true
+  }
+}, { _id: false });
+
+const slaBreachSchema = new Schema<ISlaBreach>({
+  status: {
+    type: String,
+    enum: CLAIM_STATUSES,
+    required: true
+  },
+  targetHours: {
+    type: Number,
+    required: true
+  },
+  enteredAt: {
+    type: Date,
+    required: true
+  },
+  breachedAt: {
+    type: Date,
+    required: true
+  }
+}, { _id: false });
+
 const claimSchema = new Schema<IClaim>({
   userId: {
     type: Schema.Types.ObjectId,
@@ -63,14 +413,42 @@ const claimSchema = new Schema<IClaim>({
     type: String,
     required: [true, 'At least one proof file is required']
   }],
+  currency: {
+    type: String,
+    required: [true, 'Currency is required'],
+    uppercase: true,
+    trim: true,
+    match: [CURRENCY_CODE_PATTERN, 'Currency must be a three-letter code'],
+    default: getReportingCurrency
+  },
   calculatedEarnings: {
     type: Number,
     required: [true, 'Calculated earnings is required'],
-    min: [0, 'Earnings cannot be negative']
+    min: [0, 'Earnings cannot be negative'],
+    validate: minorUnitsValidator
+  },
+  earningsBreakdown: [earningsLineSchema],
+  settingsId: {
+    type: Schema.Types.ObjectId,
+    ref: 'AdminSettings',
+    default: null
+  },
+  rateOverrideIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'RateOverride'
+  }],
+  rateBasis: {
+    type: String,
+    enum: ['claim_submitted', 'post_created'],
+    default: null
+  },
+  earningsCalculatedAt: {
+    type: Date,
+    default: null
   },
   status: {
     type: String,
-    enum: ['pending', 'deducted', 'user_accepted', 'user_rejected', 'account_approved', 'admin_approved', 'settled'],
+    enum: CLAIM_STATUSES,
     default: 'pending',
     required: true
   },
@@ -83,26 +461,76 @@ const claimSchema = new Schema<IClaim>({
     type: Date,
     default: null
   },
+  lockExpiresAt: {
+    type: Date,
+    default: null
+  },
   deductionAmount: {
     type: Number,
     default: 0,
-    min: [0, 'Deduction amount cannot be negative']
+    min: [0, 'Deduction amount cannot be negative'],
+    validate: minorUnitsValidator
   },
   deductionReason: {
     type: String,
     maxlength: [500, 'Deduction reason cannot exceed 500 characters'],
     default: null
   },
+  deductions: [deductionLineSchema],
+  rejectionReason: {
+    type: String,
+    maxlength: [500, 'Rejection reason cannot exceed 500 characters'],
+    default: null
+  },
   reviewedBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
     default: null
   },
+  assignedAt: {
+    type: Date,
+    default: null
+  },
   finalApprovedBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
     default: null
   },
+  payoutBatchId: {
+    type: Schema.Types.ObjectId,
+    ref: 'PayoutBatch',
+    default: null
+  },
+  exchangeRate: {
+    type: Number,
+    default: null,
+    min: [0, 'Exchange rate cannot be negative']
+  },
+  reportingCurrency: {
+    type: String,
+    default: null
+  },
+  infoRequest: {
+    type: infoRequestSchema,
+    default: null
+  },
+  slaPausedAt: {
+    type: Date,
+    default: null
+  },
+  slaPausedMs: {
+    type: Number,
+    default: 0,
+    min: [0, 'Paused time cannot be negative']
+  },
+  slaBreach: {
+    type: slaBreachSchema,
+    default: null
+  },
+  risk: {
+    type: riskAssessmentSchema,
+    default: null
+  },
   history: [claimHistorySchema],
   createdAt: {
     type: Date,
@@ -125,9 +553,16 @@ const claimSchema = new Schema<IClaim>({
   isActive: {
     type: Boolean,
     default: true
+  },
+  amountsInMinorUnits: {
+    type: Boolean,
+    default: true,
+    select: false
   }
 }, {
-  timestamps: true
+  timestamps: true,
+  // Every save checks and bumps the version, so a claim changed since it was loaded is not overwritten
+  optimisticConcurrency: true
 });
 
 // Create indexes
@@ -135,8 +570,14 @@ claimSchema.index({ userId: 1 });
 claimSchema.index({ status: 1 });
 claimSchema.index({ createdAt: -1 });
 claimSchema.index({ reviewedBy: 1 });
+claimSchema.index({ reviewedBy: 1, status: 1, createdAt: 1 });
 claimSchema.index({ finalApprovedBy: 1 });
 claimSchema.index({ isActive: 1 });
+claimSchema.index({ payoutBatchId: 1 });
+claimSchema.index({ status: 1, isActive: 1, slaBreach: 1 });
+claimSchema.index({ 'history.action': 1, 'history.timestamp': 1 });
+// SLA report window: claims touched recently
+claimSchema.index({ isActive: 1, updatedAt: -1 });
 
 // Create compound index for efficient querying
 claimSchema.index({ userId: 1, postIds: 1, status: 1, isActive: 1 });
@@ -152,6 +593,25 @@ claimSchema.virtual('finalAmount').get(function() {
   return this.calculatedEarnings - this.deductionAmount;
 });
 
+// API responses carry decimal amounts; the database keeps minor units
+claimSchema.set('toJSON', {
+  transform: (_doc, ret) => {
+    const currency = ret.currency || getReportingCurrency();
+    amountsToDecimal(ret, ['calculatedEarnings', 'deductionAmount'], currency);
+    if (Array.isArray(ret.earningsBreakdown)) {
+      ret.earningsBreakdown.forEach((line: Record<string, any>) =>
+        amountsToDecimal(line, ['likeEarnings', 'viewEarnings', 'amount'], currency));
+    }
+    if (Array.isArray(ret.deductions)) {
+      ret.deductions.forEach((line: Record<string, any>) => {
+        amountsToDecimal(line, ['amount', 'counterAmount'], currency);
+        (line.rounds || []).forEach((round: Record<string, any>) => amountsToDecimal(round, ['amount'], currency));
+      });
+    }
+    return ret;
+  }
+});
+
 // Pre-save middleware to handle duplicate key errors
 claimSchema.pre('save', function(next) {
   // This will catch any database-level duplicate key errors
@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Free-form discussion on a claim, separate from the workflow history. Replies are one level
+// deep: parentId always points at a top-level comment.
+export interface IClaimComment extends Document {
+  claimId: mongoose.Types.ObjectId;
+  parentId?: mongoose.Types.ObjectId | null;
+  body: string;
+  // Role of the author when the comment was written
+  authorRole: 'user' | 'account' | 'admin';
+  // Visible to reviewers and admins only, never to the creator
+  internal: boolean;
+  // Reviewer asking the creator for more proof; the claim status is unchanged
+  requestsProof: boolean;
+  // Staff users named with @ in the body
+  mentions: mongoose.Types.ObjectId[];
+  createdAt: Date;
+  createdBy: mongoose.Types.ObjectId;
+  updatedAt: Date;
+  updatedBy: mongoose.Types.ObjectId;
+  isActive: boolean;
+}
+
+const claimCommentSchema = new Schema<IClaimComment>({
+  claimId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Claim',
+    required: true
+  },
+  parentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'ClaimComment',
+    default: null
+  },
+  body: {
+    type: String,
+    required: [true, 'Comment cannot be empty'],
+    trim: true,
+    maxlength: [2000, 'Comment cannot exceed 2000 characters']
+  },
+  authorRole: {
+    type: String,
+    enum: ['user', 'account', 'admin'],
+    required: true
+  },
+  internal: {
+    type: Boolean,
+    default: false
+  },
+  requestsProof: {
+    type: Boolean,
+    default: false
+  },
+  mentions: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+claimCommentSchema.pre('validate', function(next) {
+  if (this.internal && this.requestsProof) {
+    this.invalidate('requestsProof', 'A proof request must be visible to the creator');
+  }
+  next();
+});
+
+// Create indexes
+claimCommentSchema.index({ claimId: 1, createdAt: 1 });
+claimCommentSchema.index({ mentions: 1, createdAt: -1 });
+
+export default mongoose.model<IClaimComment>('ClaimComment', claimCommentSchema);
@@ -0,0 +1,98 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { getReportingCurrency } from '../config/currency';
+import { amountsToDecimal, minorUnitsValidator } from '../utils/money';
+
+export const DEDUCTION_REASON_CODE_PATTERN = /^[a-z0-9]+(?:_[a-z0-9]+)*$/;
+
+// Admin-maintained catalogue entry a reviewer picks when deducting, e.g. bot_traffic. The code is
+// kept on each deduction line, so it cannot change once created; retiring an entry deactivates it.
+export interface IDeductionReason extends Document {
+  code: string;
+  label: string;
+  description?: string;
+  // Suggested amount for a new line: a percentage of what the post (or whole claim) earned, or
+  // a fixed amount in minor units of the reporting currency. At most one is set.
+  defaultPercent?: number | null;
+  defaultAmount?: number | null;
+  createdAt: Date;
+  createdBy: mongoose.Types.ObjectId;
+  updatedAt: Date;
+  updatedBy: mongoose.Types.ObjectId;
+  isActive: boolean;
+}
+
+const deductionReasonSchema = new Schema<IDeductionReason>({
+  code: {
+    type: String,
+    required: [true, 'Reason code is required'],
+    trim: true,
+    lowercase: true,
+    maxlength: [50, 'Reason code cannot exceed 50 characters'],
+    match: [DEDUCTION_REASON_CODE_PATTERN, 'Reason code may only contain letters, digits and underscores']
+  },
+  label: {
+    type: String,
+    required: [true, 'Label is required'],
+    trim: true,
+    maxlength: [100, 'Label cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  defaultPercent: {
+    type: Number,
+    default: null,
+    min: [0, 'Default percentage cannot be negative'],
+    max: [100, 'Default percentage cannot exceed 100']
+  },
+  defaultAmount: {
+    type: Number,
+    default: null,
+    min: [0, 'Default amount cannot be negative'],
+    validate: minorUnitsValidator
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+deductionReasonSchema.pre('validate', function(next) {
+  if (this.defaultPercent != null && this.defaultAmount != null) {
+    this.invalidate('defaultAmount', 'Set a default percentage or a default amount, not both');
+  }
+  next();
+});
+
+// API responses carry decimal amounts; the database keeps minor units
+deductionReasonSchema.set('toJSON', {
+  transform: (_doc, ret) => amountsToDecimal(ret, ['defaultAmount'], getReportingCurrency())
+});
+
+// Create indexes
+deductionReasonSchema.index({ code: 1 }, { unique: true });
+deductionReasonSchema.index({ isActive: 1, label: 1 });
+
+export default mongoose.model<IDeductionReason>('DeductionReason', deductionReasonSchema);
@@ -0,0 +1,90 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const ENGAGEMENT_TYPES = ['view', 'like'] as const;
+export type EngagementType = typeof ENGAGEMENT_TYPES[number];
+
+// Days repeat events are kept for
+export const REPEAT_RETENTION_DAYS = 30;
+
+// One view or like sent for a post, kept so the counters earnings are paid on can be traced
+// back to who sent them
+export interface IEngagementEvent extends Document {
+  postId: mongoose.Types.ObjectId;
+  type: EngagementType;
+  // Who the event is deduplicated by: the signed-in user, else the IP
+  viewerKey: string;
+  // Start of the period the viewer is counted once in: a 30-minute window for views, the epoch
+  // for likes, which count once ever
+  dedupWindow: Date;
+  userId?: mongoose.Types.ObjectId | null;
+  // Browser ID the client sends; kept for tracing only, as the client can change it at will
+  fingerprint?: string | null;
+  ip: string;
+  userAgent?: string | null;
+  // False for a repeat from a viewer who was already counted; those leave the post counter alone
+  counted: boolean;
+  createdAt: Date;
+}
+
+const engagementEventSchema = new Schema<IEngagementEvent>({
+  postId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Post',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ENGAGEMENT_TYPES,
+    required: true
+  },
+  viewerKey: {
+    type: String,
+    required: true,
+    maxlength: [150, 'Viewer key cannot exceed 150 characters']
+  },
+  dedupWindow: {
+    type: Date,
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  fingerprint: {
+    type: String,
+    default: null,
+    maxlength: [100, 'Fingerprint cannot exceed 100 characters']
+  },
+  ip: {
+    type: String,
+    required: true
+  },
+  userAgent: {
+    type: String,
+    default: null,
+    maxlength: [500, 'User agent cannot exceed 500 characters']
+  },
+  counted: {
+    type: Boolean,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Create indexes
+// One counted event per viewer and window; a second insert fails and is stored as a repeat
+engagementEventSchema.index(
+  { postId: 1, type: 1, viewerKey: 1, dedupWindow: 1 },
+  { unique: true, partialFilterExpression: { counted: true } }
+);
+engagementEventSchema.index({ postId: 1, counted: 1, createdAt: 1 });
+// Repeats are where flooding piles up, so they expire; counted events back the post counters
+// and are kept
+engagementEventSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: REPEAT_RETENTION_DAYS * 24 * 60 * 60, partialFilterExpression: { counted: false } }
+);
+
+export default mongoose.model<IEngagementEvent>('EngagementEvent', engagementEventSchema);
@@ -0,0 +1,69 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CURRENCY_CODE_PATTERN } from '../config/currency';
+
+// Admin-maintained rate: how many units of the reporting currency one unit of `currency` is worth.
+// Changing a rate deactivates the old row, so inactive rows are the rate history.
+export interface IExchangeRate extends Document {
+  currency: string;
+  rate: number;
+  note?: string;
+  createdAt: Date;
+  createdBy: mongoose.Types.ObjectId;
+  updatedAt: Date;
+  updatedBy: mongoose.Types.ObjectId;
+  isActive: boolean;
+}
+
+const exchangeRateSchema = new Schema<IExchangeRate>({
+  currency: {
+    type: String,
+    required: [true, 'Currency is required'],
+    uppercase: true,
+    trim: true,
+    match: [CURRENCY_CODE_PATTERN, 'Currency must be a three-letter code']
+  },
+  rate: {
+    type: Number,
+    required: [true, 'Exchange rate is required'],
+    min: [0, 'Exchange rate cannot be negative']
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Create indexes
+// One live rate per currency
+exchangeRateSchema.index(
+  { currency: 1 },
+  { unique: true, partialFilterExpression: { isActive: true } }
+);
+exchangeRateSchema.index({ currency: 1, createdAt: -1 });
+
+export default mongoose.model<IExchangeRate>('ExchangeRate', exchangeRateSchema);
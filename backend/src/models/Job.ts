@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const JOB_RUN_STATUSES = ['succeeded', 'failed'] as const;
+export type JobRunStatus = typeof JOB_RUN_STATUSES[number];
+
+// A recurring background job. The code registers what the job does; this document holds its
+// schedule and the lease that makes sure only one backend instance runs it at a time.
+export interface IJob extends Document {
+  name: string;
+  description: string;
+  intervalMs: number;
+  // Disabled jobs stay registered but are never picked up
+  enabled: boolean;
+  nextRunAt: Date;
+  // Instance running the job, and when its lease runs out if it dies mid-run
+  lockedBy?: string | null;
+  lockExpiresAt?: Date | null;
+  // Set when an admin asks for a run outside the schedule; cleared once it has run
+  runRequestedAt?: Date | null;
+  // Failures in a row; reset by a successful run or when retries are used up
+  attempts: number;
+  lastRunAt?: Date | null;
+  lastStatus?: JobRunStatus | null;
+  lastError?: string | null;
+  lastDurationMs?: number | null;
+  updatedBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobSchema = new Schema<IJob>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    default: ''
+  },
+  intervalMs: {
+    type: Number,
+    required: true,
+    min: [1000, 'Interval must be at least a second']
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  nextRunAt: {
+    type: Date,
+    required: true
+  },
+  lockedBy: {
+    type: String,
+    default: null
+  },
+  lockExpiresAt: {
+    type: Date,
+    default: null
+  },
+  runRequestedAt: {
+    type: Date,
+    default: null
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  lastRunAt: {
+    type: Date,
+    default: null
+  },
+  lastStatus: {
+    type: String,
+    enum: [...JOB_RUN_STATUSES, null],
+    default: null
+  },
+  lastError: {
+    type: String,
+    default: null
+  },
+  lastDurationMs: {
+    type: Number,
+    default: null
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Create indexes
+jobSchema.index({ name: 1 }, { unique: true });
+jobSchema.index({ enabled: 1, nextRunAt: 1 });
+
+export default mongoose.model<IJob>('Job', jobSchema);
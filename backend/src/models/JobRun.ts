@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { JOB_RUN_STATUSES, JobRunStatus } from './Job';
+
+// Runs are kept this long, then MongoDB removes them
+const JOB_RUN_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+// One execution of a background job
+export interface IJobRun extends Document {
+  jobName: string;
+  instanceId: string;
+  // 1 for a scheduled run, higher for retries after a failure
+  attempt: number;
+  // Started from the admin page rather than by the schedule
+  manual: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  status: JobRunStatus;
+  // What the job reported, e.g. how many claims it touched
+  result?: Record<string, any> | null;
+  error?: string | null;
+}
+
+const jobRunSchema = new Schema<IJobRun>({
+  jobName: {
+    type: String,
+    required: true
+  },
+  instanceId: {
+    type: String,
+    required: true
+  },
+  attempt: {
+    type: Number,
+    default: 1
+  },
+  manual: {
+    type: Boolean,
+    default: false
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  finishedAt: {
+    type: Date,
+    required: true
+  },
+  durationMs: {
+    type: Number,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: JOB_RUN_STATUSES,
+    required: true
+  },
+  result: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  error: {
+    type: String,
+    default: null
+  }
+});
+
+// Create indexes
+jobRunSchema.index({ jobName: 1, startedAt: -1 });
+jobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: JOB_RUN_RETENTION_SECONDS });
+
+export default mongoose.model<IJobRun>('JobRun', jobRunSchema);
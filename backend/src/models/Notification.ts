@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const NOTIFICATION_TYPES = ['sla_breached'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// In-app message for one user, shown in the navbar until they mark it read
+export interface INotification extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  message: string;
+  claimId?: mongoose.Types.ObjectId | null;
+  readAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    maxlength: [200, 'Title cannot exceed 200 characters']
+  },
+  message: {
+    type: String,
+    required: true,
+    maxlength: [1000, 'Message cannot exceed 1000 characters']
+  },
+  claimId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Claim',
+    default: null
+  },
+  readAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Create indexes
+notificationSchema.index({ userId: 1, readAt: 1, createdAt: -1 });
+
+export default mongoose.model<INotification>('Notification', notificationSchema);
@@ -0,0 +1,139 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { getReportingCurrency } from '../config/currency';
+import { amountsToDecimal, minorUnitsValidator } from '../utils/money';
+
+export const PAYOUT_BATCH_STATUSES = ['draft', 'exported', 'paid', 'cancelled'] as const;
+export type PayoutBatchStatus = typeof PAYOUT_BATCH_STATUSES[number];
+
+export interface IPayoutBatch extends Document {
+  batchNumber: string;
+  claimIds: mongoose.Types.ObjectId[];
+  claimCount: number;
+  // A batch pays out in a single currency
+  currency: string;
+  // Minor units of the batch currency
+  totalAmount: number;
+  // Total in minor units of the reporting currency at the claims' approval exchange rates
+  reportingAmount?: number | null;
+  reportingCurrency?: string | null;
+  status: PayoutBatchStatus;
+  note?: string;
+  paymentReference?: string;
+  exportedAt?: Date;
+  paidAt?: Date;
+  paidBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  createdBy: mongoose.Types.ObjectId;
+  updatedAt: Date;
+  updatedBy: mongoose.Types.ObjectId;
+  isActive: boolean;
+}
+
+const payoutBatchSchema = new Schema<IPayoutBatch>({
+  batchNumber: {
+    type: String,
+    required: [true, 'Batch number is required'],
+    unique: true,
+    trim: true
+  },
+  claimIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Claim',
+    required: [true, 'At least one claim is required']
+  }],
+  claimCount: {
+    type: Number,
+    required: true,
+    min: [1, 'A payout batch must contain at least one claim']
+  },
+  currency: {
+    type: String,
+    required: true,
+    uppercase: true,
+    default: getReportingCurrency
+  },
+  totalAmount: {
+    type: Number,
+    required: true,
+    min: [0, 'Total amount cannot be negative'],
+    validate: minorUnitsValidator
+  },
+  reportingAmount: {
+    type: Number,
+    default: null,
+    validate: minorUnitsValidator
+  },
+  reportingCurrency: {
+    type: String,
+    default: null
+  },
+  status: {
+    type: String,
+    enum: PAYOUT_BATCH_STATUSES,
+    default: 'draft',
+    required: true
+  },
+  note: {
+    type: String,
+    maxlength: [500, 'Note cannot exceed 500 characters'],
+    default: null
+  },
+  paymentReference: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Payment reference cannot exceed 100 characters'],
+    default: null
+  },
+  exportedAt: {
+    type: Date,
+    default: null
+  },
+  paidAt: {
+    type: Date,
+    default: null
+  },
+  paidBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// API responses carry decimal amounts; the database keeps minor units
+payoutBatchSchema.set('toJSON', {
+  transform: (_doc, ret) => {
+    amountsToDecimal(ret, ['totalAmount'], ret.currency || getReportingCurrency());
+    return amountsToDecimal(ret, ['reportingAmount'], ret.reportingCurrency || getReportingCurrency());
+  }
+});
+
+// Create indexes
+payoutBatchSchema.index({ status: 1 });
+payoutBatchSchema.index({ createdAt: -1 });
+payoutBatchSchema.index({ isActive: 1 });
+
+export default mongoose.model<IPayoutBatch>('PayoutBatch', payoutBatchSchema);
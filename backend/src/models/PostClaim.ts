@@ -0,0 +1,40 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A post held by a claim. The unique index on postId is what stops two claims from holding the
+// same post, even when both are submitted at the same moment. Rows are deleted, not deactivated,
+// when the claim lets its posts go.
+export interface IPostClaim extends Document {
+  postId: mongoose.Types.ObjectId;
+  claimId: mongoose.Types.ObjectId;
+  // Creator of the claim
+  userId: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const postClaimSchema = new Schema<IPostClaim>({
+  postId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Post',
+    required: true
+  },
+  claimId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Claim',
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Create indexes
+postClaimSchema.index({ postId: 1 }, { unique: true });
+postClaimSchema.index({ claimId: 1 });
+postClaimSchema.index({ userId: 1 });
+
+export default mongoose.model<IPostClaim>('PostClaim', postClaimSchema);
@@ -0,0 +1,98 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Negotiated rates for a creator, a post tag, or a creator's posts with a given tag
+export interface IRateOverride extends Document {
+  userId?: mongoose.Types.ObjectId | null;
+  tag?: string | null;
+  ratePerLike: number;
+  ratePer100Views: number;
+  validFrom: Date;
+  validTo?: Date | null;
+  note?: string;
+  createdAt: Date;
+  createdBy: mongoose.Types.ObjectId;
+  updatedAt: Date;
+  updatedBy: mongoose.Types.ObjectId;
+  isActive: boolean;
+}
+
+const rateOverrideSchema = new Schema<IRateOverride>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  tag: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    default: null
+  },
+  ratePerLike: {
+    type: Number,
+    required: [true, 'Rate per like is required'],
+    min: [0, 'Rate per like cannot be negative']
+  },
+  ratePer100Views: {
+    type: Number,
+    required: [true, 'Rate per 100 views is required'],
+    min: [0, 'Rate per 100 views cannot be negative']
+  },
+  validFrom: {
+    type: Date,
+    required: [true, 'Valid from date is required'],
+    default: Date.now
+  },
+  // Open-ended when null
+  validTo: {
+    type: Date,
+    default: null
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// An override must target a creator, a tag, or both
+rateOverrideSchema.pre('validate', function(next) {
+  if (!this.userId && !this.tag) {
+    this.invalidate('userId', 'An override needs a user, a tag, or both');
+  }
+  if (this.validTo && this.validTo <= this.validFrom) {
+    this.invalidate('validTo', 'Valid to must be after valid from');
+  }
+  next();
+});
+
+// Create indexes
+rateOverrideSchema.index({ userId: 1 });
+rateOverrideSchema.index({ tag: 1 });
+rateOverrideSchema.index({ isActive: 1, validTo: 1 });
+
+export default mongoose.model<IRateOverride>('RateOverride', rateOverrideSchema);
@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ClaimStatus } from './Claim';
+
+// Statuses a claim can sit in waiting for someone; the final ones have nothing left to time, and
+// info_requested stops the SLA clock while the creator answers
+export const SLA_STATUSES: ClaimStatus[] = ['pending', 'deducted', 'user_accepted', 'user_rejected', 'escalated', 'account_approved', 'admin_approved'];
+
+// Admin-maintained limit on how long a claim may stay in one status before it is escalated.
+// Changing a target deactivates the old row, so inactive rows are the target history.
+export interface ISlaTarget extends Document {
+  status: ClaimStatus;
+  targetHours: number;
+  createdAt: Date;
+  createdBy: mongoose.Types.ObjectId;
+  updatedAt: Date;
+  updatedBy: mongoose.Types.ObjectId;
+  isActive: boolean;
+}
+
+const slaTargetSchema = new Schema<ISlaTarget>({
+  status: {
+    type: String,
+    required: [true, 'Status is required'],
+    enum: SLA_STATUSES
+  },
+  targetHours: {
+    type: Number,
+    required: [true, 'Target hours are required'],
+    min: [0.25, 'Target must be at least 15 minutes'],
+    max: [24 * 90, 'Target cannot exceed 90 days']
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Create indexes
+// One live target per status
+slaTargetSchema.index(
+  { status: 1 },
+  { unique: true, partialFilterExpression: { isActive: true } }
+);
+slaTargetSchema.index({ status: 1, createdAt: -1 });
+
+export default mongoose.model<ISlaTarget>('SlaTarget', slaTargetSchema);
@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { CURRENCY_CODE_PATTERN, getReportingCurrency } from '../config/currency';
 
 export interface IUser extends Document {
   name: string;
@@ -7,6 +8,8 @@ export interface IUser extends Document {
   password: string;
   role: 'user' | 'account' | 'admin';
   profileImageUrl?: string;
+  // Currency the creator is paid in
+  currency: string;
   createdAt: Date;
   createdBy?: mongoose.Types.ObjectId;
   updatedAt: Date;
@@ -45,6 +48,13 @@ const userSchema = new Schema<IUser>({
     type: String,
     default: null
   },
+  currency: {
+    type: String,
+    uppercase: true,
+    trim: true,
+    match: [CURRENCY_CODE_PATTERN, 'Currency must be a three-letter code'],
+    default: getReportingCurrency
+  },
   createdAt: {
     type: Date,
     default: Date.now
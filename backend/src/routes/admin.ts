@@ -2,9 +2,52 @@ import express from 'express';
 import {
   getAdminSettings,
   updateAdminSettings,
+  getRateCardHistory,
+  previewEarnings,
+  cancelRateCard,
   getAdminStats,
   testAdminSettings
 } from '../controllers/adminController';
+import {
+  createPayoutBatch,
+  getPayoutBatches,
+  getPayoutBatchById,
+  exportPayoutBatch,
+  markPayoutBatchPaid,
+  cancelPayoutBatch
+} from '../controllers/payoutController';
+import {
+  getRateOverrides,
+  getExpiringRateOverrides,
+  createRateOverride,
+  updateRateOverride,
+  deleteRateOverride,
+  getCreators
+} from '../controllers/rateOverrideController';
+import {
+  getExchangeRates,
+  getExchangeRateHistory,
+  setExchangeRate,
+  removeExchangeRate,
+  updateCreatorCurrency
+} from '../controllers/currencyController';
+import {
+  getDeductionReasons,
+  createDeductionReason,
+  updateDeductionReason,
+  deleteDeductionReason
+} from '../controllers/deductionReasonController';
+import {
+  getSlaTargets,
+  setSlaTarget,
+  removeSlaTarget
+} from '../controllers/slaController';
+import {
+  getJobs,
+  getJobRuns,
+  runJob,
+  updateJob
+} from '../controllers/jobController';
 import { auth, requireRole } from '../middlewares/auth';
 
 const router = express.Router();
@@ -16,6 +59,9 @@ router.use(requireRole(['admin']));
 // Admin settings routes
 router.get('/settings', getAdminSettings);
 router.put('/settings', updateAdminSettings);
+router.get('/settings/history', getRateCardHistory);
+router.post('/settings/preview', previewEarnings);
+router.delete('/settings/:id', cancelRateCard);
 
 // Test endpoint
 router.get('/test-settings', testAdminSettings);
@@ -23,4 +69,44 @@ router.get('/test-settings', testAdminSettings);
 // Admin dashboard stats
 router.get('/stats', getAdminStats);
 
+// Payout batch routes
+router.get('/payouts', getPayoutBatches);
+router.post('/payouts', createPayoutBatch);
+router.get('/payouts/:id', getPayoutBatchById);
+router.get('/payouts/:id/export', exportPayoutBatch);
+router.post('/payouts/:id/paid', markPayoutBatchPaid);
+router.post('/payouts/:id/cancel', cancelPayoutBatch);
+
+// Rate override routes
+router.get('/rate-overrides', getRateOverrides);
+router.get('/rate-overrides/expiring', getExpiringRateOverrides);
+router.post('/rate-overrides', createRateOverride);
+router.put('/rate-overrides/:id', updateRateOverride);
+router.delete('/rate-overrides/:id', deleteRateOverride);
+router.get('/creators', getCreators);
+router.put('/creators/:id/currency', updateCreatorCurrency);
+
+// Exchange rate routes
+router.get('/exchange-rates', getExchangeRates);
+router.get('/exchange-rates/history', getExchangeRateHistory);
+router.put('/exchange-rates/:currency', setExchangeRate);
+router.delete('/exchange-rates/:currency', removeExchangeRate);
+
+// Deduction reason catalogue routes
+router.get('/deduction-reasons', getDeductionReasons);
+router.post('/deduction-reasons', createDeductionReason);
+router.put('/deduction-reasons/:id', updateDeductionReason);
+router.delete('/deduction-reasons/:id', deleteDeductionReason);
+
+// SLA target routes
+router.get('/sla-targets', getSlaTargets);
+router.put('/sla-targets/:status', setSlaTarget);
+router.delete('/sla-targets/:status', removeSlaTarget);
+
+// Background job routes
+router.get('/jobs', getJobs);
+router.get('/jobs/:name/runs', getJobRuns);
+router.post('/jobs/:name/run', runJob);
+router.put('/jobs/:name', updateJob);
+
 export default router; 
\ No newline at end of file
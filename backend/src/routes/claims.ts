@@ -2,18 +2,39 @@ import express from 'express';
 import {
   submitClaim,
   checkPostsAlreadyClaimed,
+  getClaimedPostIds,
   getUserClaims,
   getAllClaims,
+  getNextClaim,
+  getQueueCounts,
+  reassignClaim,
   getClaimById,
+  getClaimTransitions,
   applyDeduction,
   respondToDeduction,
+  negotiateDeduction,
+  escalateDeduction,
+  resolveEscalation,
+  requestInfo,
+  editClaim,
+  withdrawClaim,
+  provideInfo,
   accountApprove,
   accountReject,
+  recalculateEarnings,
   adminApprove,
+  adminReject,
+  bulkApprove,
+  bulkFinalApprove,
+  bulkReject,
   lockClaim,
   unlockClaim,
-  getClaimStats
+  breakClaimLock,
+  getClaimStats,
+  getClaimRisk
 } from '../controllers/claimController';
+import { getDeductionReasons } from '../controllers/deductionReasonController';
+import { getClaimComments, addClaimComment, getMentionableUsers } from '../controllers/claimCommentController';
 import { auth, requireRole } from '../middlewares/auth';
 import { uploadProofFiles } from '../middlewares/upload';
 
@@ -24,23 +45,50 @@ router.use(auth);
 
 // User routes
 router.post('/check-posts', requireRole(['user']), checkPostsAlreadyClaimed);
+router.get('/claimed-posts', requireRole(['user']), getClaimedPostIds);
 router.post('/', requireRole(['user']), uploadProofFiles, submitClaim);
 router.get('/user', requireRole(['user']), getUserClaims);
 router.get('/stats', getClaimStats);
 
 // Review routes (Account role)
 router.get('/', requireRole(['account', 'admin']), getAllClaims);
+router.get('/deduction-reasons', requireRole(['account', 'admin']), getDeductionReasons);
+router.get('/queue/counts', requireRole(['account', 'admin']), getQueueCounts);
+router.post('/queue/next', requireRole(['account']), getNextClaim);
+router.get('/mentionable-users', getMentionableUsers);
+
+// Bulk actions, before the /:id routes they would otherwise match
+router.post('/bulk/approve', requireRole(['account']), bulkApprove);
+router.post('/bulk/final-approve', requireRole(['admin']), bulkFinalApprove);
+router.post('/bulk/reject', requireRole(['account', 'admin']), bulkReject);
 router.get('/:id', getClaimById);
+router.get('/:id/transitions', getClaimTransitions);
+router.get('/:id/risk', requireRole(['account', 'admin']), getClaimRisk);
+
+// Comment routes (creator of the claim, reviewers and admins)
+router.get('/:id/comments', getClaimComments);
+router.post('/:id/comments', addClaimComment);
 
 // Specific action routes (order matters - specific before parameterized)
+router.put('/:id', requireRole(['user']), uploadProofFiles, editClaim);
+router.post('/:id/withdraw', requireRole(['user']), withdrawClaim);
 router.post('/:id/respond', requireRole(['user']), respondToDeduction);
+router.post('/:id/provide-info', requireRole(['user']), uploadProofFiles, provideInfo);
 router.post('/:id/deduction', requireRole(['account']), applyDeduction);
+router.post('/:id/negotiate', requireRole(['account']), negotiateDeduction);
+router.post('/:id/escalate', requireRole(['account']), escalateDeduction);
+router.post('/:id/resolve-escalation', requireRole(['admin']), resolveEscalation);
+router.post('/:id/request-info', requireRole(['account']), requestInfo);
 router.post('/:id/approve', requireRole(['account']), accountApprove);
 router.post('/:id/reject', requireRole(['account']), accountReject);
+router.post('/:id/recalculate', requireRole(['account']), recalculateEarnings);
 router.post('/:id/final-approve', requireRole(['admin']), adminApprove);
+router.post('/:id/final-reject', requireRole(['admin']), adminReject);
+router.post('/:id/assign', requireRole(['admin']), reassignClaim);
 
-// Locking routes
-router.post('/:id/lock', lockClaim);
+// Locking routes; only reviewers and admins work on a claim under a lock
+router.post('/:id/lock', requireRole(['account', 'admin']), lockClaim);
 router.post('/:id/unlock', unlockClaim);
+router.post('/:id/break-lock', requireRole(['admin']), breakClaimLock);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,18 @@
+import express from 'express';
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead
+} from '../controllers/notificationController';
+import { auth } from '../middlewares/auth';
+
+const router = express.Router();
+
+// Every user reads and clears only their own notifications
+router.use(auth);
+
+router.get('/', getNotifications);
+router.post('/read-all', markAllNotificationsRead);
+router.post('/:id/read', markNotificationRead);
+
+export default router;
@@ -9,15 +9,15 @@ import {
   incrementViews,
   incrementLikes
 } from '../controllers/postController';
-import { auth, requireRole } from '../middlewares/auth';
+import { auth, optionalAuth, requireRole } from '../middlewares/auth';
 import { uploadPostImage } from '../middlewares/upload';
 
 const router = express.Router();
 
-// Public routes
+// Public routes; engagement is tied to the user when they are signed in
 router.get('/', getAllPosts);
-router.post('/:id/views', incrementViews);
-router.post('/:id/likes', incrementLikes);
+router.post('/:id/views', optionalAuth, incrementViews);
+router.post('/:id/likes', optionalAuth, incrementLikes);
 
 // Protected routes
 router.post('/', auth, uploadPostImage, createPost);
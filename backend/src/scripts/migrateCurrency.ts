@@ -0,0 +1,48 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import connectDB from '../config/database';
+import { dbLogger } from '../config/logger';
+import { getReportingCurrency } from '../config/currency';
+import AdminSettings from '../models/AdminSettings';
+import Claim from '../models/Claim';
+import PayoutBatch from '../models/PayoutBatch';
+import User from '../models/User';
+
+dotenv.config();
+
+// Everything before multi-currency support was in a single currency, which becomes the
+// reporting currency. Claims already approved get a fixed rate of 1 like new approvals would.
+const migrateCurrency = async (): Promise<void> => {
+  await connectDB();
+
+  const currency = getReportingCurrency();
+  const missing = { currency: { $exists: false } };
+
+  const [cards, users, claims, batches] = await Promise.all([
+    AdminSettings.collection.updateMany(missing, { $set: { currency, currencyRates: [] } }),
+    User.collection.updateMany(missing, { $set: { currency } }),
+    Claim.collection.updateMany(missing, { $set: { currency } }),
+    PayoutBatch.collection.updateMany(missing, { $set: { currency } })
+  ]);
+
+  const approved = await Claim.collection.updateMany(
+    { status: { $in: ['admin_approved', 'settled'] }, exchangeRate: { $in: [null] }, currency },
+    { $set: { exchangeRate: 1, reportingCurrency: currency } }
+  );
+
+  dbLogger.info('Currency migration complete', {
+    currency,
+    rateCards: cards.modifiedCount,
+    users: users.modifiedCount,
+    claims: claims.modifiedCount,
+    payoutBatches: batches.modifiedCount,
+    approvedClaims: approved.modifiedCount
+  });
+};
+
+migrateCurrency()
+  .catch(error => {
+    dbLogger.error('Currency migration failed:', { error: error.message, stack: error.stack });
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
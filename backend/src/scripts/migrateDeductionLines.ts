@@ -0,0 +1,50 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import connectDB from '../config/database';
+import { dbLogger } from '../config/logger';
+import Claim from '../models/Claim';
+
+dotenv.config();
+
+// Deductions used to be a single amount and reason for the whole claim. Each one becomes a
+// single claim-wide line: still proposed while the creator has not answered, accepted after.
+const migrateDeductionLines = async (): Promise<void> => {
+  await connectDB();
+
+  const claims = await Claim.collection.find({
+    deductionAmount: { $gt: 0 },
+    $or: [{ deductions: { $exists: false } }, { deductions: { $size: 0 } }]
+  }).toArray();
+
+  let migrated = 0;
+  for (const claim of claims) {
+    const applied = [...(claim.history || [])]
+      .reverse()
+      .find((entry: any) => entry.action === 'deduction_applied');
+
+    await Claim.collection.updateOne({ _id: claim._id }, {
+      $set: {
+        deductions: [{
+          _id: new mongoose.Types.ObjectId(),
+          postId: null,
+          amount: claim.deductionAmount,
+          reason: claim.deductionReason || 'Deduction',
+          status: claim.status === 'deducted' ? 'proposed' : 'accepted',
+          proposedBy: applied?.by || claim.reviewedBy || claim.updatedBy,
+          proposedAt: applied?.timestamp || claim.updatedAt,
+          respondedAt: claim.status === 'deducted' ? null : claim.updatedAt
+        }]
+      }
+    });
+    migrated++;
+  }
+
+  dbLogger.info('Deduction line migration complete', { found: claims.length, migrated });
+};
+
+migrateDeductionLines()
+  .catch(error => {
+    dbLogger.error('Deduction line migration failed:', { error: error.message, stack: error.stack });
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,42 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import connectDB from '../config/database';
+import { dbLogger } from '../config/logger';
+import DeductionReason from '../models/DeductionReason';
+import User from '../models/User';
+
+dotenv.config();
+
+// Reviewers must pick a reason code for every deduction, so an empty catalogue blocks them.
+// These starters have no default amount; admins can edit or retire them afterwards.
+const STARTER_REASONS = [
+  { code: 'bot_traffic', label: 'Bot traffic', description: 'Likes or views from automated or fake accounts' },
+  { code: 'missing_proof', label: 'Missing proof', description: 'Proof files do not show the claimed engagement' },
+  { code: 'policy_violation', label: 'Policy violation', description: 'Content breaks the campaign or platform rules' }
+];
+
+// Existing lines keep their free-text reason and stay uncategorised (no code)
+const migrateDeductionReasons = async (): Promise<void> => {
+  await connectDB();
+
+  const admin = await User.findOne({ role: 'admin', isActive: true }).sort({ createdAt: 1 });
+  if (!admin) {
+    throw new Error('An admin user is needed to own the starter deduction reasons');
+  }
+
+  let created = 0;
+  for (const reason of STARTER_REASONS) {
+    if (await DeductionReason.exists({ code: reason.code })) continue;
+    await DeductionReason.create({ ...reason, createdBy: admin._id, updatedBy: admin._id });
+    created++;
+  }
+
+  dbLogger.info('Deduction reason migration complete', { created, skipped: STARTER_REASONS.length - created });
+};
+
+migrateDeductionReasons()
+  .catch(error => {
+    dbLogger.error('Deduction reason migration failed:', { error: error.message, stack: error.stack });
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,123 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import connectDB from '../config/database';
+import { dbLogger } from '../config/logger';
+import { getReportingCurrency } from '../config/currency';
+import { convertMinorUnits, sumMinorUnits, toMinorUnits } from '../utils/money';
+import AdminSettings from '../models/AdminSettings';
+import Claim from '../models/Claim';
+import PayoutBatch from '../models/PayoutBatch';
+
+dotenv.config();
+
+const MIGRATION_NAME = 'minor-units';
+
+// Set on each document in the same update that converts it, and on every document the app writes
+// from now on (the models default it to true), so neither a rerun after a partial failure nor a
+// run after the app has started writing minor units converts anything twice
+const CONVERTED_FLAG = 'amountsInMinorUnits';
+const notConverted = { [CONVERTED_FLAG]: { $ne: true } };
+
+// Stored amounts move from decimals to integer minor units of each document's currency. A
+// decimal that happens to be whole looks the same as a converted amount, so only unflagged
+// documents are converted and the finished run is recorded. Run migrate:currency first so every
+// document has a currency.
+const migrateMinorUnits = async (): Promise<void> => {
+  await connectDB();
+
+  const migrations = mongoose.connection.collection('migrations');
+  if (await migrations.findOne({ name: MIGRATION_NAME })) {
+    dbLogger.info('Minor unit migration already applied, nothing to do');
+    return;
+  }
+
+  const reportingCurrency = getReportingCurrency();
+  const toMinor = (amount: unknown, currency: string) =>
+    typeof amount === 'number' ? toMinorUnits(amount, currency) : amount;
+
+  let claims = 0;
+  for await (const claim of Claim.collection.find(notConverted)) {
+    const currency = claim.currency || reportingCurrency;
+    const breakdown = (claim.earningsBreakdown || []).map((line: any) => ({
+      ...line,
+      likeEarnings: toMinor(line.likeEarnings, currency),
+      viewEarnings: toMinor(line.viewEarnings, currency),
+      amount: toMinor(line.amount, currency)
+    }));
+    // Recalculation diffs in the history record amounts too
+    const history = (claim.history || []).map((entry: any) => {
+      if (entry.action !== 'earnings_recalculated' || !entry.details) return entry;
+      const { before, after, posts } = entry.details;
+      return {
+        ...entry,
+        details: {
+          ...entry.details,
+          before: before && { ...before, total: toMinor(before.total, currency) },
+          after: after && { ...after, total: toMinor(after.total, currency) },
+          posts: (posts || []).map((post: any) => ({
+            ...post,
+            amount: post.amount && { from: toMinor(post.amount.from, currency), to: toMinor(post.amount.to, currency) }
+          }))
+        }
+      };
+    });
+
+    await Claim.collection.updateOne({ _id: claim._id, ...notConverted }, {
+      $set: {
+        calculatedEarnings: toMinor(claim.calculatedEarnings, currency),
+        deductionAmount: toMinor(claim.deductionAmount ?? 0, currency),
+        earningsBreakdown: breakdown,
+        history,
+        [CONVERTED_FLAG]: true
+      }
+    });
+    claims++;
+  }
+
+  let rateCards = 0;
+  for await (const card of AdminSettings.collection.find(notConverted)) {
+    const currency = card.currency || reportingCurrency;
+    await AdminSettings.collection.updateOne({ _id: card._id, ...notConverted }, {
+      $set: {
+        maxPerPost: toMinor(card.maxPerPost ?? null, currency),
+        maxPerClaim: toMinor(card.maxPerClaim ?? null, currency),
+        minPayout: toMinor(card.minPayout ?? 0, currency),
+        [CONVERTED_FLAG]: true
+      }
+    });
+    rateCards++;
+  }
+
+  // Batch totals are rebuilt from their claims so they match the converted rows exactly; safe to
+  // repeat, so batches need no flag
+  let batches = 0;
+  for await (const batch of PayoutBatch.collection.find({})) {
+    const batchClaims = await Claim.collection
+      .find({ _id: { $in: batch.claimIds || [] } })
+      .project({ calculatedEarnings: 1, deductionAmount: 1, currency: 1, exchangeRate: 1 })
+      .toArray();
+    const totalAmount = sumMinorUnits(batchClaims.map(claim => claim.calculatedEarnings - claim.deductionAmount));
+    const reportingAmount = sumMinorUnits(batchClaims.map(claim => convertMinorUnits(
+      claim.calculatedEarnings - claim.deductionAmount,
+      claim.currency || reportingCurrency,
+      reportingCurrency,
+      claim.exchangeRate ?? 1
+    )));
+
+    await PayoutBatch.collection.updateOne({ _id: batch._id }, {
+      $set: { totalAmount, reportingAmount, reportingCurrency }
+    });
+    batches++;
+  }
+
+  await migrations.insertOne({ name: MIGRATION_NAME, appliedAt: new Date() });
+
+  dbLogger.info('Minor unit migration complete', { claims, rateCards, payoutBatches: batches });
+};
+
+migrateMinorUnits()
+  .catch(error => {
+    dbLogger.error('Minor unit migration failed:', { error: error.message, stack: error.stack });
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,51 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import connectDB from '../config/database';
+import { dbLogger } from '../config/logger';
+import Claim from '../models/Claim';
+import PostClaim from '../models/PostClaim';
+import { getPostReleasingStatuses } from '../services/postClaimService';
+
+dotenv.config();
+
+// Posts used to be checked against the claims themselves. Every claim that still holds its posts
+// under the claimability policy gets its reservations, oldest claim first, so when older data has
+// two claims on one post the first one keeps it and the other is reported.
+const migratePostClaims = async (): Promise<void> => {
+  await connectDB();
+  await PostClaim.syncIndexes();
+
+  const claims = await Claim.find({
+    isActive: true,
+    status: { $nin: getPostReleasingStatuses() }
+  }).select('postIds userId').sort({ createdAt: 1 });
+
+  let reserved = 0;
+  const conflicts: { claimId: string, postId: string }[] = [];
+  for (const claim of claims) {
+    for (const postId of claim.postIds) {
+      const existing = await PostClaim.findOne({ postId });
+      if (existing) {
+        if (existing.claimId.toString() !== claim._id.toString()) {
+          conflicts.push({ claimId: claim._id.toString(), postId: postId.toString() });
+        }
+        continue;
+      }
+
+      await PostClaim.create({ postId, claimId: claim._id, userId: claim.userId });
+      reserved++;
+    }
+  }
+
+  if (conflicts.length > 0) {
+    dbLogger.warn('Posts held by more than one claim; the older claim keeps them', { conflicts });
+  }
+  dbLogger.info('Post reservation migration complete', { claims: claims.length, reserved, conflicts: conflicts.length });
+};
+
+migratePostClaims()
+  .catch(error => {
+    dbLogger.error('Post reservation migration failed:', { error: error.message, stack: error.stack });
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
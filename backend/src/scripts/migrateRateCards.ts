@@ -0,0 +1,46 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import connectDB from '../config/database';
+import { dbLogger } from '../config/logger';
+import AdminSettings from '../models/AdminSettings';
+
+dotenv.config();
+
+// Settings used to be replaced by deactivating the old row, so inactive rows are past rate
+// cards rather than deleted ones. Turn them into a timeline: each card runs from its
+// creation until the next card was created, and only the old single-active index goes.
+const migrateRateCards = async (): Promise<void> => {
+  await connectDB();
+
+  // Drops the unique isActive index and builds the effectiveFrom one
+  await AdminSettings.syncIndexes();
+
+  const cards = await AdminSettings.find({ effectiveFrom: { $exists: false } }).sort({ createdAt: 1 }).lean();
+  if (cards.length === 0) {
+    dbLogger.info('Rate card migration: nothing to migrate');
+    return;
+  }
+
+  for (const [index, card] of cards.entries()) {
+    const next = cards[index + 1];
+    await AdminSettings.collection.updateOne(
+      { _id: card._id },
+      {
+        $set: {
+          effectiveFrom: card.createdAt,
+          effectiveTo: next ? next.createdAt : null,
+          isActive: true
+        }
+      }
+    );
+  }
+
+  dbLogger.info('Rate card migration complete', { migratedCards: cards.length });
+};
+
+migrateRateCards()
+  .catch(error => {
+    dbLogger.error('Rate card migration failed:', { error: error.message, stack: error.stack });
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,75 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import connectDB from '../config/database';
+import { dbLogger } from '../config/logger';
+import Claim from '../models/Claim';
+
+dotenv.config();
+
+const DEDUCTION_NOTE_PREFIX = 'Deduction applied: ';
+
+// Before account_rejected existed, reviewer rejections were stored as user_rejected.
+// A user_rejected history entry written by anyone other than the claim creator was
+// a reviewer rejection, so rewrite it (and the claim status when it is the latest
+// word on the claim) and move the reason out of deductionReason.
+const migrateRejectionStatus = async (): Promise<void> => {
+  await connectDB();
+
+  const claims = await Claim.find({ 'history.action': 'user_rejected' }).lean();
+  let migratedClaims = 0;
+  let migratedEntries = 0;
+
+  for (const claim of claims) {
+    const ownerId = claim.userId.toString();
+    let lastReviewerRejection: { index: number, note?: string } | null = null;
+
+    const history = claim.history.map((entry, index) => {
+      if (entry.action !== 'user_rejected' || entry.by?.toString() === ownerId) {
+        return entry;
+      }
+      lastReviewerRejection = { index, note: entry.note };
+      migratedEntries++;
+      return { ...entry, action: 'account_rejected' as const };
+    });
+
+    if (!lastReviewerRejection) {
+      continue;
+    }
+    const rejection: { index: number, note?: string } = lastReviewerRejection;
+
+    const update: Record<string, any> = { history };
+
+    // Only move the status when nothing (e.g. a re-approval) happened after the rejection
+    if (claim.status === 'user_rejected' && rejection.index === history.length - 1) {
+      update.status = 'account_rejected';
+      update.rejectionReason = rejection.note || claim.deductionReason || null;
+
+      // accountReject overwrote deductionReason; restore it from the deduction history entry if there was one
+      const deductionEntry = [...history].reverse().find(entry => entry.action === 'deduction_applied');
+      update.deductionReason = deductionEntry?.note?.startsWith(DEDUCTION_NOTE_PREFIX)
+        ? deductionEntry.note.slice(DEDUCTION_NOTE_PREFIX.length)
+        : null;
+    }
+
+    await Claim.collection.updateOne({ _id: claim._id }, { $set: update });
+    migratedClaims++;
+
+    dbLogger.info('Migrated reviewer rejection', {
+      claimId: claim._id.toString(),
+      status: update.status || claim.status
+    });
+  }
+
+  dbLogger.info('Rejection status migration complete', {
+    scannedClaims: claims.length,
+    migratedClaims,
+    migratedEntries
+  });
+};
+
+migrateRejectionStatus()
+  .catch(error => {
+    dbLogger.error('Rejection status migration failed:', { error: error.message, stack: error.stack });
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
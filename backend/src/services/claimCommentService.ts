@@ -0,0 +1,171 @@
+import mongoose from 'mongoose';
+import Claim, { IClaim } from '../models/Claim';
+import ClaimComment, { IClaimComment } from '../models/ClaimComment';
+import User, { IUser } from '../models/User';
+import { ClaimActor, ClaimWorkflowError, getClaimOwnerId } from './claimWorkflow';
+import { getSocketIO } from './claimService';
+
+const STAFF_ROLES: IUser['role'][] = ['account', 'admin'];
+
+export interface ClaimCommentInput {
+  body: string;
+  internal?: boolean;
+  requestsProof?: boolean;
+  parentId?: string | null;
+  mentions?: string[];
+}
+
+// Room the claim pages join through join_claim; internal comments only go to the staff half
+export const getClaimRoom = (claimId: string, internal = false): string =>
+  internal ? `claim_${claimId}_staff` : `claim_${claimId}`;
+
+const isStaff = (actor: ClaimActor): boolean => STAFF_ROLES.includes(actor.role);
+
+export class ClaimCommentService {
+  // Creators see the public thread of their own claims; staff see everything
+  static async getComments(claimId: string, actor: ClaimActor): Promise<IClaimComment[]> {
+    try {
+      await this.getAccessibleClaim(claimId, actor);
+
+      const query: Record<string, any> = { claimId, isActive: true };
+      if (!isStaff(actor)) {
+        query.internal = false;
+      }
+
+      return await ClaimComment.find(query)
+        .populate('createdBy', 'name')
+        .populate('mentions', 'name')
+        .sort({ createdAt: 1 });
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error fetching claim comments: ${error}`);
+    }
+  }
+
+  static async addComment(claimId: string, input: ClaimCommentInput, actor: ClaimActor, authorName: string): Promise<IClaimComment> {
+    try {
+      const claim = await this.getAccessibleClaim(claimId, actor);
+
+      let internal = !!input.internal;
+      const requestsProof = !!input.requestsProof;
+      if ((internal || requestsProof) && !isStaff(actor)) {
+        throw new ClaimWorkflowError('Only reviewers and admins can post internal comments or ask for proof', 403);
+      }
+
+      let parentId: mongoose.Types.ObjectId | null = null;
+      if (input.parentId) {
+        const parent = mongoose.isValidObjectId(input.parentId)
+          ? await ClaimComment.findOne({ _id: input.parentId, claimId, isActive: true })
+          : null;
+        if (!parent || (parent.internal && !isStaff(actor))) {
+          throw new ClaimWorkflowError('Comment to reply to not found', 404);
+        }
+        // Replies to a reply join the top-level thread; replies in an internal thread stay internal
+        parentId = parent.parentId || parent._id;
+        internal = internal || parent.internal;
+      }
+      if (internal && requestsProof) {
+        throw new ClaimWorkflowError('A proof request must be visible to the creator', 400);
+      }
+
+      const mentions = await this.resolveMentions(input.mentions || []);
+
+      const comment = new ClaimComment({
+        claimId: claim._id,
+        parentId,
+        body: input.body,
+        authorRole: actor.role,
+        internal,
+        requestsProof,
+        mentions,
+        createdBy: actor.id,
+        updatedBy: actor.id
+      });
+      const savedComment = await comment.save();
+      await savedComment.populate('createdBy', 'name');
+      await savedComment.populate('mentions', 'name');
+
+      this.emitComment(claim, savedComment, actor, authorName);
+
+      return savedComment;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error adding claim comment: ${error}`);
+    }
+  }
+
+  // Reviewers and admins who can be @mentioned
+  static async getMentionableUsers(): Promise<IUser[]> {
+    try {
+      return await User.find({ role: { $in: STAFF_ROLES }, isActive: true })
+        .select('name role')
+        .sort({ name: 1 });
+    } catch (error) {
+      throw new Error(`Error fetching mentionable users: ${error}`);
+    }
+  }
+
+  private static async getAccessibleClaim(claimId: string, actor: ClaimActor): Promise<IClaim> {
+    const claim = await Claim.findById(claimId);
+    if (!claim) {
+      throw new ClaimWorkflowError('Claim not found', 404);
+    }
+    if (!isStaff(actor) && getClaimOwnerId(claim) !== actor.id.toString()) {
+      throw new ClaimWorkflowError('Not authorized to view this claim', 403);
+    }
+    return claim;
+  }
+
+  private static async resolveMentions(userIds: string[]): Promise<mongoose.Types.ObjectId[]> {
+    const uniqueIds = Array.from(new Set(userIds));
+    if (uniqueIds.length === 0) {
+      return [];
+    }
+    if (!uniqueIds.every(id => mongoose.isValidObjectId(id))) {
+      throw new ClaimWorkflowError('Invalid user in mentions', 400);
+    }
+
+    const staff = await User.find({ _id: { $in: uniqueIds }, role: { $in: STAFF_ROLES }, isActive: true }).select('_id');
+    if (staff.length !== uniqueIds.length) {
+      throw new ClaimWorkflowError('Only active reviewers and admins can be mentioned', 400);
+    }
+    return staff.map(user => user._id);
+  }
+
+  // Live delivery to whoever has the claim open, plus a nudge to the people it concerns
+  private static emitComment(claim: IClaim, comment: IClaimComment, actor: ClaimActor, authorName: string): void {
+    const io = getSocketIO();
+    if (!io) {
+      return;
+    }
+
+    const claimId = claim._id.toString();
+    io.to(getClaimRoom(claimId, comment.internal)).emit('claim_comment', {
+      claimId,
+      comment,
+      timestamp: new Date()
+    });
+
+    const recipients = new Map<string, string>();
+    comment.mentions.forEach((user: any) => {
+      recipients.set(user._id.toString(), `${authorName} mentioned you in a comment on a claim`);
+    });
+    if (!comment.internal && isStaff(actor)) {
+      recipients.set(getClaimOwnerId(claim), comment.requestsProof
+        ? `${authorName} asked for more proof on your claim`
+        : `${authorName} commented on your claim`);
+    }
+    recipients.delete(actor.id.toString());
+
+    recipients.forEach((message, userId) => {
+      io.to(`user_${userId}`).emit('comment_notification', {
+        claimId,
+        commentId: comment._id,
+        message,
+        timestamp: new Date()
+      });
+    });
+  }
+}
+
+export default ClaimCommentService;
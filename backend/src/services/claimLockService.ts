@@ -0,0 +1,139 @@
+import mongoose from 'mongoose';
+import Claim, { IClaim } from '../models/Claim';
+import User from '../models/User';
+
+// How long a lock lasts without a heartbeat. Reviewers with the claim open renew it over the
+// socket well within this, so a lock outlives its holder by at most one lease.
+export const getLockLeaseMs = (): number => {
+  const seconds = Number(process.env.CLAIM_LOCK_LEASE_SECONDS);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : 90) * 1000;
+};
+
+export const isLockHeld = (claim: IClaim): boolean =>
+  !!claim.lockedBy && !!claim.lockExpiresAt && claim.lockExpiresAt.getTime() > Date.now();
+
+export interface ClaimLock {
+  claimId: string;
+  lockedBy: string;
+  lockedByName?: string;
+  lockedAt: Date;
+  expiresAt: Date;
+  leaseMs: number;
+}
+
+const UNLOCKED = { lockedBy: null, lockTimestamp: null, lockExpiresAt: null };
+
+const toLock = (claim: IClaim, lockedByName?: string): ClaimLock => ({
+  claimId: claim._id.toString(),
+  lockedBy: claim.lockedBy!.toString(),
+  lockedByName,
+  lockedAt: claim.lockTimestamp!,
+  expiresAt: claim.lockExpiresAt!,
+  leaseMs: getLockLeaseMs()
+});
+
+// Review locks as short leases. Every change is a single conditional update, so two reviewers
+// opening a claim together cannot both get it.
+export class ClaimLockService {
+  // Take the lock, or extend it if the user already holds it. Null when someone else holds it.
+  static async acquire(claimId: string, userId: mongoose.Types.ObjectId): Promise<ClaimLock | null> {
+    try {
+      const renewed = await this.renew(claimId, userId);
+      if (renewed) {
+        return renewed;
+      }
+
+      const now = new Date();
+      const claim = await Claim.findOneAndUpdate(
+        {
+          _id: claimId,
+          $or: [{ lockedBy: null }, { lockExpiresAt: null }, { lockExpiresAt: { $lte: now } }]
+        },
+        { $set: { lockedBy: userId, lockTimestamp: now, lockExpiresAt: new Date(now.getTime() + getLockLeaseMs()) } },
+        { new: true }
+      );
+
+      if (!claim) {
+        if (!(await Claim.exists({ _id: claimId }))) {
+          throw new Error('Claim not found');
+        }
+        return null;
+      }
+
+      return toLock(claim);
+    } catch (error) {
+      throw new Error(`Error locking claim: ${error}`);
+    }
+  }
+
+  // Heartbeat: extend a lock the user still holds. Null once it has lapsed or been broken.
+  static async renew(claimId: string, userId: mongoose.Types.ObjectId): Promise<ClaimLock | null> {
+    try {
+      const now = new Date();
+      const claim = await Claim.findOneAndUpdate(
+        { _id: claimId, lockedBy: userId, lockExpiresAt: { $gt: now } },
+        { $set: { lockExpiresAt: new Date(now.getTime() + getLockLeaseMs()) } },
+        { new: true }
+      );
+
+      return claim ? toLock(claim) : null;
+    } catch (error) {
+      throw new Error(`Error renewing claim lock: ${error}`);
+    }
+  }
+
+  // Give up the user's own lock; false if they did not hold it
+  static async release(claimId: string, userId: mongoose.Types.ObjectId): Promise<boolean> {
+    try {
+      const result = await Claim.updateOne({ _id: claimId, lockedBy: userId }, { $set: UNLOCKED });
+      return result.modifiedCount > 0;
+    } catch (error) {
+      throw new Error(`Error unlocking claim: ${error}`);
+    }
+  }
+
+  // Clear whoever holds the lock and return what it was; null if nobody held it
+  static async forceRelease(claimId: string): Promise<ClaimLock | null> {
+    try {
+      const claim = await Claim.findOneAndUpdate(
+        { _id: claimId, lockedBy: { $ne: null }, lockExpiresAt: { $gt: new Date() } },
+        { $set: UNLOCKED }
+      );
+
+      return claim ? toLock(claim) : null;
+    } catch (error) {
+      throw new Error(`Error breaking claim lock: ${error}`);
+    }
+  }
+
+  // Tidy away locks whose lease ran out; they already count as free. Returns how many were cleared.
+  static async releaseExpired(): Promise<number> {
+    try {
+      const result = await Claim.updateMany(
+        { lockedBy: { $ne: null }, $or: [{ lockExpiresAt: null }, { lockExpiresAt: { $lte: new Date() } }] },
+        { $set: UNLOCKED }
+      );
+      return result.modifiedCount;
+    } catch (error) {
+      throw new Error(`Error releasing expired claim locks: ${error}`);
+    }
+  }
+
+  // Current locks on the given claims, with the holders' names, keyed by claim ID
+  static async describeLocks(claims: IClaim[]): Promise<Map<string, ClaimLock>> {
+    try {
+      const locked = claims.filter(isLockHeld);
+      const holders = await User.find({ _id: { $in: locked.map(claim => claim.lockedBy) } }).select('name');
+      const names = new Map(holders.map(holder => [holder._id.toString(), holder.name]));
+
+      return new Map(locked.map(claim => [
+        claim._id.toString(),
+        toLock(claim, names.get(claim.lockedBy!.toString()))
+      ]));
+    } catch (error) {
+      throw new Error(`Error describing claim locks: ${error}`);
+    }
+  }
+}
+
+export default ClaimLockService;
@@ -0,0 +1,174 @@
+import mongoose from 'mongoose';
+import Claim, { ClaimStatus, IClaim } from '../models/Claim';
+import User, { IUser } from '../models/User';
+import { isLockHeld } from './claimLockService';
+
+// Claims waiting on their account reviewer, and the ones parked with the creator that still
+// count towards the reviewer's load
+export const ACTIONABLE_QUEUE_STATUSES: ClaimStatus[] = ['pending', 'user_rejected'];
+export const REVIEW_QUEUE_STATUSES: ClaimStatus[] = [...ACTIONABLE_QUEUE_STATUSES, 'info_requested'];
+
+export const ASSIGNMENT_STRATEGIES = ['round_robin', 'least_loaded', 'creator_affinity'] as const;
+export type AssignmentStrategy = typeof ASSIGNMENT_STRATEGIES[number];
+
+// How new claims are handed out, configured through REVIEW_ASSIGNMENT_STRATEGY:
+// round_robin - the reviewer who was given a claim longest ago
+// least_loaded - the reviewer with the fewest open claims
+// creator_affinity - whoever reviewed the creator's last claim, else least loaded
+export const getAssignmentStrategy = (): AssignmentStrategy => {
+  const configured = process.env.REVIEW_ASSIGNMENT_STRATEGY as AssignmentStrategy;
+  return ASSIGNMENT_STRATEGIES.includes(configured) ? configured : 'least_loaded';
+};
+
+export interface ReviewerQueueCount {
+  reviewerId: string;
+  name: string;
+  awaitingReview: number;
+  waitingOnCreator: number;
+  total: number;
+}
+
+const QUEUE_POPULATE = [
+  { path: 'userId', select: 'name email' },
+  { path: 'reviewedBy', select: 'name' },
+  { path: 'postIds', select: 'contentText likeCount viewCount' }
+];
+
+export class ClaimQueueService {
+  // Reviewer a new claim from this creator should go to; null when there are no reviewers
+  static async pickReviewer(creatorId: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId | null> {
+    try {
+      const reviewers = await this.getActiveReviewers();
+      if (reviewers.length === 0) {
+        return null;
+      }
+
+      const strategy = getAssignmentStrategy();
+      if (strategy === 'creator_affinity') {
+        const previous = await this.findPreviousReviewer(creatorId, reviewers);
+        if (previous) {
+          return previous;
+        }
+      }
+      if (strategy === 'round_robin') {
+        return await this.findLongestIdle(reviewers);
+      }
+      return await this.findLeastLoaded(reviewers);
+    } catch (error) {
+      throw new Error(`Error picking a reviewer: ${error}`);
+    }
+  }
+
+  // The reviewer's oldest open claim they can act on, or else the oldest unassigned pending
+  // claim, which becomes theirs. Null when there is nothing left to review.
+  static async takeNext(reviewerId: mongoose.Types.ObjectId): Promise<IClaim | null> {
+    try {
+      const ownClaims = await Claim.find({
+        reviewedBy: reviewerId,
+        status: { $in: ACTIONABLE_QUEUE_STATUSES },
+        isActive: true
+      })
+        .sort({ createdAt: 1 })
+        .populate(QUEUE_POPULATE);
+
+      const own = ownClaims.find(claim => !isLockHeld(claim) || claim.lockedBy!.toString() === reviewerId.toString());
+      if (own) {
+        return own;
+      }
+
+      // Conditional on still being unassigned, so two reviewers cannot take the same claim. A
+      // high-value claim waiting on its second approval goes to someone other than the first.
+      return await Claim.findOneAndUpdate(
+        {
+          reviewedBy: null,
+          status: 'pending',
+          isActive: true,
+          history: { $not: { $elemMatch: { action: 'approval_recorded', by: reviewerId } } }
+        },
+        { $set: { reviewedBy: reviewerId, assignedAt: new Date() } },
+        { sort: { createdAt: 1 }, new: true }
+      ).populate(QUEUE_POPULATE);
+    } catch (error) {
+      throw new Error(`Error taking the next claim: ${error}`);
+    }
+  }
+
+  // Open claims per active reviewer, plus the claims nobody has been given yet
+  static async getQueueCounts(): Promise<{ reviewers: ReviewerQueueCount[], unassigned: number }> {
+    try {
+      const [reviewers, counts, unassigned] = await Promise.all([
+        this.getActiveReviewers(),
+        Claim.aggregate([
+          { $match: { reviewedBy: { $ne: null }, status: { $in: REVIEW_QUEUE_STATUSES }, isActive: true } },
+          { $group: { _id: { reviewer: '$reviewedBy', status: '$status' }, count: { $sum: 1 } } }
+        ]),
+        Claim.countDocuments({ reviewedBy: null, status: { $in: REVIEW_QUEUE_STATUSES }, isActive: true })
+      ]);
+
+      return {
+        reviewers: reviewers.map(reviewer => {
+          const reviewerCounts = counts.filter(count => count._id.reviewer.toString() === reviewer._id.toString());
+          const countOf = (statuses: ClaimStatus[]) => reviewerCounts
+            .filter(count => statuses.includes(count._id.status))
+            .reduce((sum, count) => sum + count.count, 0);
+
+          const awaitingReview = countOf(ACTIONABLE_QUEUE_STATUSES);
+          const waitingOnCreator = countOf(['info_requested']);
+          return {
+            reviewerId: reviewer._id.toString(),
+            name: reviewer.name,
+            awaitingReview,
+            waitingOnCreator,
+            total: awaitingReview + waitingOnCreator
+          };
+        }),
+        unassigned
+      };
+    } catch (error) {
+      throw new Error(`Error counting review queues: ${error}`);
+    }
+  }
+
+  static async getActiveReviewers(): Promise<IUser[]> {
+    return await User.find({ role: 'account', isActive: true }).select('name').sort({ _id: 1 });
+  }
+
+  private static async findLeastLoaded(reviewers: IUser[]): Promise<mongoose.Types.ObjectId> {
+    const loads = await Claim.aggregate([
+      { $match: { reviewedBy: { $in: reviewers.map(reviewer => reviewer._id) }, status: { $in: REVIEW_QUEUE_STATUSES }, isActive: true } },
+      { $group: { _id: '$reviewedBy', count: { $sum: 1 } } }
+    ]);
+    const loadOf = (reviewer: IUser) =>
+      loads.find(load => load._id.toString() === reviewer._id.toString())?.count || 0;
+
+    // Ties go to whoever has waited longest for a claim
+    const lightest = Math.min(...reviewers.map(loadOf));
+    return await this.findLongestIdle(reviewers.filter(reviewer => loadOf(reviewer) === lightest));
+  }
+
+  private static async findLongestIdle(reviewers: IUser[]): Promise<mongoose.Types.ObjectId> {
+    const lastAssigned = await Claim.aggregate([
+      { $match: { reviewedBy: { $in: reviewers.map(reviewer => reviewer._id) }, assignedAt: { $ne: null } } },
+      { $group: { _id: '$reviewedBy', lastAssignedAt: { $max: '$assignedAt' } } }
+    ]);
+    const lastAssignedOf = (reviewer: IUser) =>
+      lastAssigned.find(entry => entry._id.toString() === reviewer._id.toString())?.lastAssignedAt?.getTime() ?? 0;
+
+    return reviewers.reduce((idlest, reviewer) =>
+      lastAssignedOf(reviewer) < lastAssignedOf(idlest) ? reviewer : idlest
+    )._id;
+  }
+
+  private static async findPreviousReviewer(creatorId: mongoose.Types.ObjectId, reviewers: IUser[]): Promise<mongoose.Types.ObjectId | null> {
+    const previous = await Claim.findOne({
+      userId: creatorId,
+      reviewedBy: { $in: reviewers.map(reviewer => reviewer._id) }
+    })
+      .sort({ createdAt: -1 })
+      .select('reviewedBy');
+
+    return previous?.reviewedBy || null;
+  }
+}
+
+export default ClaimQueueService;
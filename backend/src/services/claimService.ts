@@ -1,7 +1,43 @@
-import Claim, { IClaim } from '../models/Claim';
+import Claim, {
+  ClaimStatus,
+  IClaim,
+  IDeductionLine,
+  IEarningsLine,
+  ACTIVE_DEDUCTION_LINE_STATUSES,
+  CLAIM_HISTORY_ACTIONS,
+  DeductionRoundAction,
+  OPEN_DEDUCTION_LINE_STATUSES
+} from '../models/Claim';
 import Post from '../models/Post';
-import AdminSettings from '../models/AdminSettings';
+import User from '../models/User';
 import mongoose from 'mongoose';
+import {
+  CLAIM_WORKFLOW,
+  ClaimActor,
+  ClaimTransition,
+  ClaimTransitionName,
+  ClaimWorkflowError,
+  assertTransition,
+  getApprovalRound,
+  getApproverIds,
+  getAvailableTransitions,
+  getClaimOwnerId,
+  getReviewerIds
+} from './claimWorkflow';
+import PostClaimService from './postClaimService';
+import ClaimLockService, { isLockHeld } from './claimLockService';
+import ClaimQueueService, { REVIEW_QUEUE_STATUSES } from './claimQueueService';
+import ClaimSlaService from './claimSlaService';
+import NotificationService from './notificationService';
+import EngagementService from './engagementService';
+import RateCardService, { RateBasis, getRateBasis } from './rateCardService';
+import RateOverrideService from './rateOverrideService';
+import CurrencyService from './currencyService';
+import DeductionReasonService, { getDefaultDeduction } from './deductionReasonService';
+import { EarningsFormula, applyClaimRules, calculatePostEarnings, convertFormula, withOverrideRates } from './earningsFormula';
+import { IAdminSettings } from '../models/AdminSettings';
+import { getReportingCurrency } from '../config/currency';
+import { convertMinorUnits, formatMoney, fromMinorUnits, sumMinorUnits, toMinorUnits } from '../utils/money';
 
 // Global variable to store Socket.IO instance
 let ioInstance: any = null;
@@ -12,27 +48,212 @@ export const setSocketIO = (io: any) => {
   ioInstance = io;
 };
 
+// Socket.IO instance for other services that notify claim rooms, or null before startup
+export const getSocketIO = () => ioInstance;
+
+// Creator's changes to a pending claim; anything left out stays as it is
+export interface ClaimEdit {
+  postIds?: string[];
+  removeProofFileUrls?: string[];
+  addProofFileUrls?: string[];
+}
+
+// Result of an earnings calculation, stored on the claim as a snapshot. Amounts are in minor units.
+export interface EarningsCalculation {
+  currency: string;
+  total: number;
+  breakdown: IEarningsLine[];
+  // Set when every post used the same rate card
+  settingsId: mongoose.Types.ObjectId | null;
+  // Rate overrides used by at least one post
+  rateOverrideIds: mongoose.Types.ObjectId[];
+  rateBasis: RateBasis;
+  // Sum of post amounts was cut down to the per-claim cap
+  claimCapped: boolean;
+  // Below the minimum payout of the card in effect at submission
+  belowMinimum: boolean;
+  minPayout: number;
+}
+
+// A deduction line as entered by the reviewer. Amount is a decimal in the claim currency; when
+// left out, the catalogue default for the reason code is used.
+export interface DeductionLineInput {
+  postId?: string | null;
+  amount?: number | null;
+  reasonCode: string;
+  reason?: string;
+}
+
+// Creator's answer to a proposed line. A rejected line with a counterAmount (decimal) is a counter-offer.
+export interface DeductionDecision {
+  lineId: string;
+  accepted: boolean;
+  counterAmount?: number | null;
+  message?: string;
+}
+
+// Reviewer's answer to a disputed or countered line; amount (decimal) is the re-counter
+export interface NegotiationDecision {
+  lineId: string;
+  action: 'accept_counter' | 'counter' | 'withdraw';
+  amount?: number | null;
+  message?: string;
+}
+
+// Admin ruling on an escalated line; an amount of 0 drops the line
+export interface EscalationRuling {
+  lineId: string;
+  amount: number;
+}
+
+// Largest number of claims one bulk request may act on
+export const MAX_BULK_CLAIMS = 500;
+
+// Outcome for one claim of a bulk action; statusCode and message explain a failure the way the
+// single-claim endpoint would have
+export interface BulkClaimResult {
+  claimId: string;
+  success: boolean;
+  status?: ClaimStatus;
+  statusCode?: number;
+  message?: string;
+}
+
+const isActiveLine = (line: IDeductionLine): boolean => ACTIVE_DEDUCTION_LINE_STATUSES.includes(line.status);
+const isOpenLine = (line: IDeductionLine): boolean => OPEN_DEDUCTION_LINE_STATUSES.includes(line.status);
+
+// Short text for deductionReason and notifications, e.g. "Bot traffic: spike on 3 May; Missing proof"
+const summarizeDeduction = (lines: Pick<IDeductionLine, 'reasonLabel' | 'reason'>[]): string =>
+  lines
+    .map(line => [line.reasonLabel, line.reason].filter(Boolean).join(': '))
+    .join('; ')
+    .slice(0, 500);
+
+const addRound = (
+  line: IDeductionLine,
+  action: DeductionRoundAction,
+  actor: ClaimActor,
+  amount: number | null,
+  message?: string
+): void => {
+  line.rounds = [...(line.rounds || []), {
+    action,
+    by: actor.id,
+    role: actor.role,
+    amount,
+    message: message?.trim() || undefined,
+    at: new Date()
+  }];
+};
+
+// Lines that count towards the deduction must leave every post, and the claim, something
+const assertDeductionLimits = (claim: IClaim, lines: Pick<IDeductionLine, 'postId' | 'amount'>[]): number => {
+  for (const earningsLine of claim.earningsBreakdown || []) {
+    const postId = earningsLine.postId.toString();
+    const postDeduction = sumMinorUnits(
+      lines.filter(line => line.postId?.toString() === postId).map(line => line.amount)
+    );
+    if (postDeduction > earningsLine.amount) {
+      throw new ClaimWorkflowError(
+        `Deductions for post ${postId} exceed the ${formatMoney(earningsLine.amount, claim.currency)} it earned`,
+        400
+      );
+    }
+  }
+
+  const deductionAmount = sumMinorUnits(lines.map(line => line.amount));
+  if (deductionAmount >= claim.calculatedEarnings) {
+    throw new ClaimWorkflowError('Deduction amount cannot be greater than or equal to calculated earnings', 400);
+  }
+  return deductionAmount;
+};
+
+// Per-post before/after values for the history entry of a recalculation; amounts stay in minor units
+const diffEarningsBreakdown = (previous: IEarningsLine[], current: IEarningsLine[]) => {
+  return current.map(line => {
+    const before = previous.find(entry => entry.postId.toString() === line.postId.toString());
+    return {
+      postId: line.postId,
+      likeCount: { from: before?.likeCount ?? null, to: line.likeCount },
+      viewCount: { from: before?.viewCount ?? null, to: line.viewCount },
+      amount: { from: before?.amount ?? null, to: line.amount }
+    };
+  });
+};
+
 export class ClaimService {
-  // Calculate earnings based on likes and views
-  static async calculateEarnings(postIds: mongoose.Types.ObjectId[]): Promise<number> {
+  // Calculate earnings with the configured formula, keeping what each post contributed.
+  // Post rates come from the card in effect when the claim was submitted or when each post was
+  // created; claim-level caps and the minimum payout always come from the submission card.
+  // Amounts are in the claim currency; rate overrides are already in the creator's currency.
+  static async calculateEarnings(
+    postIds: mongoose.Types.ObjectId[],
+    submittedAt: Date = new Date(),
+    currency: string = getReportingCurrency()
+  ): Promise<EarningsCalculation> {
     try {
       const posts = await Post.find({ _id: { $in: postIds } });
-      const settings = await AdminSettings.findOne({ isActive: true });
+      const timeline = await RateCardService.getTimeline();
+      const rateBasis = getRateBasis();
       
-      if (!settings) {
+      if (timeline.length === 0) {
         throw new Error('Admin settings not found');
       }
 
-      let totalEarnings = 0;
-      
-      for (const post of posts) {
-        const likeEarnings = post.likeCount * settings.ratePerLike;
-        const viewEarnings = (post.viewCount / 100) * settings.ratePer100Views;
-        totalEarnings += likeEarnings + viewEarnings;
-      }
+      const rateTable = await CurrencyService.getRateTable();
+      const inClaimCurrency = (card: IAdminSettings): EarningsFormula => {
+        if (card.currency === currency) return card;
+        return convertFormula(
+          card,
+          currency,
+          CurrencyService.getFactor(rateTable, card.currency, currency),
+          card.currencyRates.find(entry => entry.currency === currency)
+        );
+      };
 
-      return Math.round(totalEarnings * 100) / 100; // Round to 2 decimal places
+      const claimCard = RateCardService.pickCard(timeline, submittedAt)!;
+      const claimFormula = inClaimCurrency(claimCard);
+      const ownerId = posts[0]?.userId;
+      const overrides = ownerId ? await RateOverrideService.getCandidates(ownerId) : [];
+
+      const breakdown: IEarningsLine[] = posts.map(post => {
+        const rateDate = rateBasis === 'post_created' ? post.createdAt : submittedAt;
+        const settings = rateBasis === 'post_created' ? RateCardService.pickCard(timeline, rateDate)! : claimCard;
+        const override = RateOverrideService.pickOverride(overrides, post.userId, post.tags || [], rateDate);
+        const cardFormula = settings === claimCard ? claimFormula : inClaimCurrency(settings);
+        const formula = override ? withOverrideRates(cardFormula, override) : cardFormula;
+        const earnings = calculatePostEarnings(formula, post);
+        return {
+          postId: post._id,
+          settingsId: settings._id,
+          overrideId: override ? override._id : null,
+          likeCount: post.likeCount,
+          viewCount: post.viewCount,
+          ratePerLike: formula.ratePerLike,
+          ratePer100Views: formula.ratePer100Views,
+          ...earnings
+        };
+      });
+
+      const claimEarnings = applyClaimRules(claimFormula, breakdown.map(line => line.amount));
+      const settingsIds = new Set(breakdown.map(line => line.settingsId.toString()));
+      const settingsId = settingsIds.size === 1 ? breakdown[0]!.settingsId : null;
+      const rateOverrideIds = [...new Set(breakdown.filter(line => line.overrideId).map(line => line.overrideId!.toString()))]
+        .map(id => new mongoose.Types.ObjectId(id));
+
+      return {
+        currency,
+        total: claimEarnings.total,
+        breakdown,
+        settingsId,
+        rateOverrideIds,
+        rateBasis,
+        claimCapped: claimEarnings.capped,
+        belowMinimum: claimEarnings.belowMinimum,
+        minPayout: claimFormula.minPayout || 0
+      };
     } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
       throw new Error(`Error calculating earnings: ${error}`);
     }
   }
@@ -54,50 +275,31 @@ export class ClaimService {
         throw new Error('❌ Duplicate posts detected in your selection. Please remove duplicate posts and try again.');
       }
 
-      // SIMPLE DUPLICATE PREVENTION: Check if ANY claim exists for these postIds
-      // Since each post has a unique MongoDB ObjectId, we just check if any claim contains these postIds
-      
-      // Check if any existing claim contains any of the new postIds
-      const existingClaimsWithSamePosts = await Claim.find({
-        postIds: { $in: claimData.postIds }
-      }).populate('postIds', 'contentText');
-
-      if (existingClaimsWithSamePosts.length > 0) {
-        // Find which specific posts are already claimed
-        const alreadyClaimedPostIds = new Set<string>();
-        const alreadyClaimedPostDetails: string[] = [];
-        
-        existingClaimsWithSamePosts.forEach(existingClaim => {
-          existingClaim.postIds.forEach(postId => {
-            const postIdStr = postId.toString();
-            if (newPostIds.includes(postIdStr)) {
-              alreadyClaimedPostIds.add(postIdStr);
-              // Get post content for better error message
-              const post = postId as any;
-              const content = post?.contentText ? post.contentText.substring(0, 50) + '...' : `Post ${postIdStr}`;
-              alreadyClaimedPostDetails.push(`${postIdStr} (${content}) - Status: ${existingClaim.status}`);
-            }
-          });
-        });
-
-        const claimedPostsList = Array.from(alreadyClaimedPostDetails).join(', ');
-        throw new Error(`❌ Duplicate Claim Detected: The following posts are already claimed: ${claimedPostsList}. Each post can only be claimed once.`);
-      }
-
       // Additional validation: Check if any of the posts belong to another user
-      const posts = await Post.find({ _id: { $in: claimData.postIds } });
-      const invalidPosts = posts.filter(post => post.userId.toString() !== claimData.userId!.toString());
-      
-      if (invalidPosts.length > 0) {
-        const invalidPostIds = invalidPosts.map(post => post._id.toString()).join(', ');
-        throw new Error(`❌ Invalid Posts: Posts with IDs ${invalidPostIds} do not belong to you. You can only claim earnings for your own posts.`);
+      const invalidPostIds = await this.findForeignPosts(claimData.userId!, claimData.postIds!);
+      if (invalidPostIds.length > 0) {
+        throw new Error(`❌ Invalid Posts: Posts with IDs ${invalidPostIds.join(', ')} do not belong to you. You can only claim earnings for your own posts.`);
       }
 
-      const earnings = await this.calculateEarnings(claimData.postIds!);
+      const earnings = await this.calculateEarnings(claimData.postIds!, new Date(), claimData.currency);
+      if (earnings.belowMinimum) {
+        throw new Error(`❌ Below Minimum Payout: These posts earn ${formatMoney(earnings.total, earnings.currency)}, but claims must reach at least ${formatMoney(earnings.minPayout, earnings.currency)}. Add more posts and try again.`);
+      }
       
+      // Hand the claim to a reviewer straight away; with no reviewers it waits unassigned
+      const reviewerId = await ClaimQueueService.pickReviewer(claimData.userId!);
+
       const claim = new Claim({
         ...claimData,
-        calculatedEarnings: earnings,
+        reviewedBy: reviewerId,
+        assignedAt: reviewerId ? new Date() : null,
+        currency: earnings.currency,
+        calculatedEarnings: earnings.total,
+        earningsBreakdown: earnings.breakdown,
+        settingsId: earnings.settingsId,
+        rateOverrideIds: earnings.rateOverrideIds,
+        rateBasis: earnings.rateBasis,
+        earningsCalculatedAt: new Date(),
         status: 'pending',
         history: [{
           action: 'submitted',
@@ -106,7 +308,25 @@ export class ClaimService {
         }]
       });
 
-      const savedClaim = await claim.save();
+      // Holding the posts is what guards against duplicates: of two concurrent submissions for
+      // the same post, only one reservation goes in
+      await PostClaimService.reserve(claim._id, claim.userId, claim.postIds);
+      let savedClaim: IClaim;
+      try {
+        savedClaim = await this.saveClaim(claim);
+      } catch (error) {
+        await PostClaimService.release(claim._id);
+        throw error;
+      }
+
+      // Scored straight away so reviewers see the risk from the start; if this fails the claim
+      // is picked up by the next assess_claim_risk run
+      try {
+        const { score, level, assessedAt } = await EngagementService.assessClaim(savedClaim._id.toString());
+        savedClaim.risk = { score, level, assessedAt };
+      } catch (error) {
+        console.error('Claim risk assessment failed:', error);
+      }
 
       // Emit socket event for new claim notification
       console.log('Socket notification - ioInstance:', !!ioInstance);
@@ -115,6 +335,7 @@ export class ClaimService {
           claimId: savedClaim._id,
           status: savedClaim.status,
           userId: savedClaim.userId,
+          assignedTo: savedClaim.reviewedBy,
           message: `New claim submitted for review`,
           timestamp: new Date()
         };
@@ -131,62 +352,37 @@ export class ClaimService {
 
       return savedClaim;
     } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
       throw new Error(`Error creating claim: ${error}`);
     }
   }
 
-  // Check if posts are already claimed (simple postId-based check)
+  // Check if posts are already held by a claim under the claimability policy
   static async checkPostsAlreadyClaimed(userId: mongoose.Types.ObjectId, postIds: mongoose.Types.ObjectId[]): Promise<{ alreadyClaimed: boolean, conflictingPosts: string[] }> {
     try {
-      // Simple check: if any claim contains any of these postIds, they are already claimed
-      const existingClaimsWithSamePosts = await Claim.find({
-        postIds: { $in: postIds }
-      }).populate('postIds', 'contentText');
-
-      if (existingClaimsWithSamePosts.length === 0) {
-        return { alreadyClaimed: false, conflictingPosts: [] };
-      }
-
-      // Find which specific posts are already claimed
-      const conflictingPosts: string[] = [];
-      const postIdStrings = postIds.map(id => id.toString());
-      
-      existingClaimsWithSamePosts.forEach(existingClaim => {
-        existingClaim.postIds.forEach(postId => {
-          const postIdStr = postId.toString();
-          if (postIdStrings.includes(postIdStr)) {
-            const post = postId as any;
-            const content = post?.contentText ? post.contentText.substring(0, 50) + '...' : `Post ${postIdStr}`;
-            conflictingPosts.push(`${postIdStr} (${content}) - Status: ${existingClaim.status}`);
-          }
-        });
-      });
+      const conflictingPosts = await PostClaimService.describeHeldPosts(postIds);
 
       return { 
         alreadyClaimed: conflictingPosts.length > 0, 
-        conflictingPosts: [...new Set(conflictingPosts)]
+        conflictingPosts
       };
     } catch (error) {
       throw new Error(`Error checking for existing claims: ${error}`);
     }
   }
 
+  // IDs of the given posts that belong to someone other than the creator
+  private static async findForeignPosts(userId: mongoose.Types.ObjectId, postIds: mongoose.Types.ObjectId[]): Promise<string[]> {
+    const posts = await Post.find({ _id: { $in: postIds } });
+    return posts
+      .filter(post => post.userId.toString() !== userId.toString())
+      .map(post => post._id.toString());
+  }
+
   // Get user's claimed post IDs (for filtering out already claimed posts)
   static async getUserClaimedPostIds(userId: mongoose.Types.ObjectId): Promise<string[]> {
     try {
-      const claims = await Claim.find({
-        userId: userId,
-        isActive: true
-      }).select('postIds');
-      
-      const claimedPostIds = new Set<string>();
-      claims.forEach(claim => {
-        claim.postIds.forEach(postId => {
-          claimedPostIds.add(postId.toString());
-        });
-      });
-      
-      return Array.from(claimedPostIds);
+      return await PostClaimService.getHeldPostIds(userId);
     } catch (error) {
       throw new Error(`Error getting user's claimed post IDs: ${error}`);
     }
@@ -214,9 +410,11 @@ export class ClaimService {
         }
       }
       
-      if (filters.reviewedBy) query.reviewedBy = filters.reviewedBy;
+      // null asks for unassigned claims
+      if (filters.reviewedBy !== undefined) query.reviewedBy = filters.reviewedBy;
       if (filters.finalApprovedBy) query.finalApprovedBy = filters.finalApprovedBy;
       if (filters.hasDeduction) query.deductionAmount = { $gt: 0 };
+      if (filters.unbatched) query.payoutBatchId = null;
       
       // Date range filter
       if (filters.startDate || filters.endDate) {
@@ -225,11 +423,12 @@ export class ClaimService {
         if (filters.endDate) query.createdAt.$lte = new Date(filters.endDate);
       }
 
-      // Earnings range filter
+      // Earnings range filter, given as decimal amounts
       if (filters.minEarnings || filters.maxEarnings) {
+        const currency = getReportingCurrency();
         query.calculatedEarnings = {};
-        if (filters.minEarnings) query.calculatedEarnings.$gte = filters.minEarnings;
-        if (filters.maxEarnings) query.calculatedEarnings.$lte = filters.maxEarnings;
+        if (filters.minEarnings) query.calculatedEarnings.$gte = toMinorUnits(filters.minEarnings, currency);
+        if (filters.maxEarnings) query.calculatedEarnings.$lte = toMinorUnits(filters.maxEarnings, currency);
       }
 
       const skip = (page - 1) * cappedLimit;
@@ -252,398 +451,1284 @@ export class ClaimService {
     }
   }
 
-  // Apply deduction to claim
-  static async applyDeduction(claimId: string, deductionData: { amount: number, reason: string }, reviewerId: mongoose.Types.ObjectId): Promise<IClaim> {
+  // Run a workflow transition: validate it, record history and set the new status
+  private static recordTransition(
+    claim: IClaim,
+    name: ClaimTransitionName,
+    actor: ClaimActor,
+    note?: string,
+    details?: Record<string, any>
+  ): ClaimTransition {
+    const transition = assertTransition(claim, name, actor);
+
+    // Staff act only on claims they hold the lock for, when someone holds one
+    if (actor.role !== 'user' && isLockHeld(claim) && claim.lockedBy!.toString() !== actor.id.toString()) {
+      throw new ClaimWorkflowError('Another reviewer has this claim open. Refresh to see its current state.', 409);
+    }
+
+    // The save only goes through if the claim is still in the status the transition started from
+    claim.$where = { ...claim.$where, status: claim.status };
+
+    // Clean up any invalid history entries before adding new one
+    if (claim.history && claim.history.length > 0) {
+      claim.history = claim.history.filter(entry => CLAIM_HISTORY_ACTIONS.includes(entry.action));
+    }
+
+    claim.history.push({
+      action: transition.historyAction,
+      by: actor.id,
+      timestamp: new Date(),
+      note,
+      details
+    });
+
+    if (transition.to) {
+      // A breach belongs to one stay in a status; moving on closes it
+      if (transition.to !== claim.status) {
+        claim.slaBreach = null;
+      }
+      claim.status = transition.to;
+    }
+    claim.updatedBy = actor.id;
+
+    return transition;
+  }
+
+  // Four-eyes rule for a claim: the dual approval threshold of the card that priced it, converted
+  // to the claim currency (null when the rule is off), and whether the claim is above it. The
+  // first recorded approval pins the threshold, so a later card or exchange rate cannot change
+  // the rule halfway through; edits and recalculations start a new round and drop the pin.
+  private static async getApprovalRule(claim: IClaim): Promise<{ threshold: number | null, dualApproval: boolean }> {
+    const pinned = getApprovalRound(claim).find(entry => entry.action === 'approval_recorded' && typeof entry.details?.threshold === 'number');
+    if (pinned) {
+      return { threshold: pinned.details!.threshold, dualApproval: true };
+    }
+
+    const card = await RateCardService.getCardInEffect(claim.createdAt);
+    if (!card || card.dualApprovalThreshold == null) {
+      return { threshold: null, dualApproval: false };
+    }
+
+    let threshold = card.dualApprovalThreshold;
+    if (card.currency !== claim.currency) {
+      const rateTable = await CurrencyService.getRateTable();
+      const factor = CurrencyService.getFactor(rateTable, card.currency, claim.currency);
+      threshold = convertMinorUnits(threshold, card.currency, claim.currency, factor);
+    }
+
+    return { threshold, dualApproval: claim.calculatedEarnings - claim.deductionAmount > threshold };
+  }
+
+  // The approval an account reviewer gives now: account_approve, or for a claim above the
+  // threshold, record_approval until it has two. Null when it needs no more approvals.
+  private static pickApproval(claim: IClaim, dualApproval: boolean, approvals: number): ClaimTransitionName | null {
+    const canApprove = CLAIM_WORKFLOW.account_approve.from.includes(claim.status);
+    if (!dualApproval) {
+      return 'account_approve';
+    }
+    if (canApprove) {
+      return approvals === 0 ? 'record_approval' : 'account_approve';
+    }
+    return approvals < 2 ? 'record_approval' : null;
+  }
+
+  // Refuse an approval that breaks the four-eyes rule. The attempt is kept in the claim history
+  // even though the approval itself does not happen.
+  private static async blockApproval(claim: IClaim, name: ClaimTransitionName, actor: ClaimActor, reason: string): Promise<never> {
+    await Claim.updateOne(
+      { _id: claim._id },
+      {
+        $push: {
+          history: {
+            action: 'approval_blocked',
+            by: actor.id,
+            timestamp: new Date(),
+            note: reason,
+            details: { transition: name, role: actor.role }
+          }
+        },
+        $inc: { __v: 1 }
+      }
+    );
+    throw new ClaimWorkflowError(reason, 403);
+  }
+
+  // Save a claim loaded for a transition. Someone else saving it first, or moving it to another
+  // status, makes this save match nothing and surfaces as a 409.
+  private static async saveClaim(claim: IClaim): Promise<IClaim> {
+    try {
+      return await claim.save();
+    } catch (error) {
+      if (error instanceof mongoose.Error.VersionError || error instanceof mongoose.Error.DocumentNotFoundError) {
+        throw new ClaimWorkflowError('This claim was changed by someone else. Refresh to see its current state.', 409);
+      }
+      throw error;
+    }
+  }
+
+  // Emit the socket events configured for a transition
+  private static emitTransition(transition: ClaimTransition, claim: IClaim, data: Record<string, any>): void {
+    console.log('Socket notification - ioInstance:', !!ioInstance);
+    if (!ioInstance) {
+      console.log('Socket notification failed - ioInstance not available');
+      return;
+    }
+
+    const notificationData = {
+      claimId: claim._id,
+      status: claim.status,
+      userId: claim.userId,
+      timestamp: new Date(),
+      ...data
+    };
+    console.log(`Emitting ${transition.socketEvent}:`, notificationData);
+
+    if (transition.notifyCreatorOnly) {
+      ioInstance.to(`user_${getClaimOwnerId(claim)}`).emit(transition.socketEvent, notificationData);
+    } else if (transition.socketEvent !== 'claim_status_changed') {
+      ioInstance.emit(transition.socketEvent, notificationData);
+    }
+
+    // Every transition refreshes all connected clients
+    ioInstance.emit('claim_status_changed', notificationData);
+  }
+
+  // Transitions the actor may currently perform on a claim
+  static async getAvailableTransitions(claimId: string, actor: ClaimActor): Promise<{ status: string, transitions: ClaimTransitionName[] }> {
+    try {
+      const claim = await Claim.findById(claimId);
+      if (!claim) {
+        throw new Error('Claim not found');
+      }
+
+      let transitions = getAvailableTransitions(claim, actor);
+
+      // Approving goes through one endpoint; offer only the transition it would fire
+      if (transitions.includes('account_approve') || transitions.includes('record_approval')) {
+        const { dualApproval } = await this.getApprovalRule(claim);
+        const approval = this.pickApproval(claim, dualApproval, getApproverIds(claim).length);
+        transitions = transitions.filter(name =>
+          (name !== 'account_approve' && name !== 'record_approval') || name === approval);
+      }
+
+      return {
+        status: claim.status,
+        transitions
+      };
+    } catch (error) {
+      throw new Error(`Error fetching claim transitions: ${error}`);
+    }
+  }
+
+  // Apply deduction lines to a claim. Amounts are decimals in the claim currency. On re-review
+  // the lines the creator already accepted stay; the new lines replace the disputed ones, which
+  // are kept as withdrawn so the negotiation stays on record.
+  static async applyDeduction(claimId: string, lines: DeductionLineInput[], reviewer: ClaimActor): Promise<IClaim> {
     try {
       const claim = await Claim.findById(claimId).populate('userId', 'name email');
       if (!claim) {
         throw new Error('Claim not found');
       }
 
-      if (claim.status !== 'pending') {
-        throw new Error('Claim can only have deduction applied when status is pending');
+      if (lines.length === 0) {
+        throw new ClaimWorkflowError('At least one deduction line is required', 400);
       }
 
-      // Validate deduction amount
-      if (deductionData.amount <= 0) {
-        throw new Error('Deduction amount must be greater than 0');
+      const reasons = await DeductionReasonService.getActiveByCode(lines.map(line => line.reasonCode));
+      const rateTable = await CurrencyService.getRateTable();
+      const claimPostIds = new Set(claim.postIds.map(postId => postId.toString()));
+      const newLines = lines.map(line => {
+        const reason = reasons.get(line.reasonCode);
+        if (!reason) {
+          throw new ClaimWorkflowError(
+            line.reasonCode ? `Unknown deduction reason code: ${line.reasonCode}` : 'Every deduction line needs a reason code',
+            400
+          );
+        }
+        if (line.postId && !claimPostIds.has(line.postId.toString())) {
+          throw new ClaimWorkflowError(`Post ${line.postId} is not part of this claim`, 400);
+        }
+
+        let amount: number | null;
+        if (line.amount != null) {
+          amount = toMinorUnits(line.amount, claim.currency);
+        } else {
+          // Percentages are of what the post earned, or of the whole claim for claim-level lines
+          const earned = line.postId
+            ? claim.earningsBreakdown.find(entry => entry.postId.toString() === line.postId?.toString())?.amount ?? 0
+            : claim.calculatedEarnings;
+          const factor = CurrencyService.getFactor(rateTable, getReportingCurrency(), claim.currency);
+          amount = getDefaultDeduction(reason, earned, claim.currency, factor);
+          if (amount === null) {
+            throw new ClaimWorkflowError(`${reason.label} has no default amount; enter one`, 400);
+          }
+        }
+        if (!(amount > 0)) {
+          throw new ClaimWorkflowError('Deduction amount must be greater than 0', 400);
+        }
+
+        const note = line.reason?.trim() || undefined;
+        return {
+          postId: line.postId ? new mongoose.Types.ObjectId(line.postId) : null,
+          amount,
+          reasonCode: reason.code,
+          reasonLabel: reason.label,
+          reason: note,
+          status: 'proposed' as const,
+          rounds: [{ action: 'proposed' as const, by: reviewer.id, role: reviewer.role, amount, message: note, at: new Date() }],
+          proposedBy: reviewer.id,
+          proposedAt: new Date()
+        };
+      });
+
+      const previousLines = claim.deductions || [];
+      const activeLines = [...previousLines.filter(line => line.status === 'accepted'), ...newLines];
+      const deductionAmount = assertDeductionLimits(claim, activeLines);
+
+      previousLines.filter(isOpenLine).forEach(line => {
+        line.status = 'withdrawn';
+        addRound(line, 'withdrawn', reviewer, null, 'Replaced by new deduction items');
+      });
+      const allLines = [...previousLines, ...newLines];
+
+      const deductionReason = summarizeDeduction(activeLines);
+      const transition = this.recordTransition(
+        claim,
+        'apply_deduction',
+        reviewer,
+        `Deduction applied: ${deductionReason}`,
+        { lines: newLines.map(line => ({ postId: line.postId, amount: line.amount, reasonCode: line.reasonCode, reason: line.reason })) }
+      );
+
+      claim.deductions = allLines as IDeductionLine[];
+      claim.deductionAmount = deductionAmount;
+      claim.deductionReason = deductionReason;
+      claim.reviewedBy = reviewer.id;
+
+      const savedClaim = await this.saveClaim(claim);
+      // The creator's response modal names the posts each line is for
+      await savedClaim.populate('postIds', 'contentText likeCount viewCount');
+
+      const finalAmount = savedClaim.calculatedEarnings - savedClaim.deductionAmount;
+      this.emitTransition(transition, savedClaim, {
+        message: `Deduction applied to your claim: ${deductionReason}. Final amount: ${formatMoney(finalAmount, savedClaim.currency)}`,
+        updatedBy: reviewer.id,
+        deductionAmount: fromMinorUnits(deductionAmount, savedClaim.currency),
+        deductionReason,
+        finalAmount: fromMinorUnits(finalAmount, savedClaim.currency),
+        claim: savedClaim // Send full claim data for modal
+      });
+
+      return savedClaim;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error applying deduction: ${error}`);
+    }
+  }
+
+  // Creator response to a deduction: one decision per proposed line, or true/false for all of
+  // them. A disputed line may carry a counter-offer. Accepting every line sends the claim on to
+  // admin; disputing or countering any returns it to account review with the accepted lines kept.
+  static async respondToDeduction(claimId: string, response: boolean | DeductionDecision[], user: ClaimActor): Promise<IClaim> {
+    try {
+      const claim = await Claim.findById(claimId).populate('userId', 'name email');
+      if (!claim) {
+        throw new Error('Claim not found');
       }
 
-      if (deductionData.amount >= claim.calculatedEarnings) {
-        throw new Error('Deduction amount cannot be greater than or equal to calculated earnings');
+      const proposedLines = (claim.deductions || []).filter(line => line.status === 'proposed');
+      if (claim.status === 'deducted' && proposedLines.length === 0) {
+        throw new ClaimWorkflowError('This claim has no deduction lines to respond to', 409);
       }
 
-      // Clean up any invalid history entries before adding new one
-      if (claim.history && claim.history.length > 0) {
-        claim.history = claim.history.filter(entry => {
-          const validActions = ['submitted', 'deduction_applied', 'user_accepted', 'user_rejected', 'account_approved', 'admin_approved', 'settled'];
-          return validActions.includes(entry.action);
-        });
+      const decisions: DeductionDecision[] = typeof response === 'boolean'
+        ? proposedLines.map(line => ({ lineId: line._id.toString(), accepted: response }))
+        : response;
+      const decisionsByLine = new Map(decisions.map(decision => [decision.lineId.toString(), decision]));
+      const undecided = proposedLines.filter(line => !decisionsByLine.has(line._id.toString()));
+      if (undecided.length > 0) {
+        throw new ClaimWorkflowError('Accept, dispute or counter every deduction line', 400);
       }
 
-      // Add to history manually
-      claim.history.push({
-        action: 'deduction_applied',
-        by: reviewerId,
-        timestamp: new Date(),
-        note: `Deduction applied: ${deductionData.reason}`
+      // Counter-offers are checked before anything changes
+      const counterAmounts = new Map<string, number>();
+      proposedLines.forEach(line => {
+        const decision = decisionsByLine.get(line._id.toString());
+        if (decision?.accepted || decision?.counterAmount == null) return;
+        const counterAmount = toMinorUnits(decision.counterAmount, claim.currency);
+        if (!(counterAmount > 0 && counterAmount < line.amount)) {
+          throw new ClaimWorkflowError(
+            `A counter-offer must be more than zero and less than the ${formatMoney(line.amount, claim.currency)} proposed`,
+            400
+          );
+        }
+        counterAmounts.set(line._id.toString(), counterAmount);
       });
 
-      claim.deductionAmount = deductionData.amount;
-      claim.deductionReason = deductionData.reason;
-      claim.status = 'deducted';
-      claim.reviewedBy = reviewerId;
-      claim.updatedBy = reviewerId;
+      const disputedCount = proposedLines.filter(line => !decisionsByLine.get(line._id.toString())?.accepted).length;
+      const accepted = disputedCount === 0;
+
+      const transition = this.recordTransition(
+        claim,
+        accepted ? 'accept_deduction' : 'reject_deduction',
+        user,
+        accepted
+          ? 'User accepted the deduction'
+          : `User disputed ${disputedCount} of ${proposedLines.length} deduction line(s)` +
+            (counterAmounts.size > 0 ? `, with ${counterAmounts.size} counter-offer(s)` : ''),
+        {
+          lines: proposedLines.map(line => ({
+            lineId: line._id,
+            accepted: decisionsByLine.get(line._id.toString())?.accepted,
+            counterAmount: counterAmounts.get(line._id.toString()) ?? null
+          }))
+        }
+      );
+
+      const now = new Date();
+      proposedLines.forEach(line => {
+        const decision = decisionsByLine.get(line._id.toString());
+        const counterAmount = counterAmounts.get(line._id.toString());
+        if (decision?.accepted) {
+          line.status = 'accepted';
+          addRound(line, 'accepted', user, line.amount, decision.message);
+        } else if (counterAmount !== undefined) {
+          line.status = 'countered';
+          line.counterAmount = counterAmount;
+          addRound(line, 'countered', user, counterAmount, decision?.message);
+        } else {
+          line.status = 'disputed';
+          addRound(line, 'disputed', user, null, decision?.message);
+        }
+        line.respondedAt = now;
+      });
+      // Disputed and countered lines no longer count; account review decides on them again
+      claim.deductionAmount = sumMinorUnits(claim.deductions.filter(isActiveLine).map(line => line.amount));
+
+      const savedClaim = await this.saveClaim(claim);
+
+      const action = accepted ? 'accepted' : 'rejected';
+      this.emitTransition(transition, savedClaim, {
+        message: accepted
+          ? 'User accepted the deduction. Claim moved to Admin for final approval.'
+          : `User disputed ${disputedCount} deduction line(s). Claim returned to Account for re-review.`,
+        updatedBy: user.id,
+        action: action
+      });
 
-      const savedClaim = await claim.save();
+      return savedClaim;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error responding to deduction: ${error}`);
+    }
+  }
 
-      // Emit socket event for deduction notification
-      console.log('Socket notification - ioInstance:', !!ioInstance);
-      if (ioInstance) {
-        const finalAmount = savedClaim.calculatedEarnings - savedClaim.deductionAmount;
-        const notificationData = {
-          claimId: savedClaim._id,
-          status: savedClaim.status,
-          userId: savedClaim.userId,
-          message: `Deduction applied to your claim: ${deductionData.reason}. Final amount: ₹${finalAmount}`,
-          updatedBy: reviewerId,
-          timestamp: new Date(),
-          deductionAmount: deductionData.amount,
-          deductionReason: deductionData.reason,
-          finalAmount: finalAmount,
-          claim: savedClaim // Send full claim data for modal
-        };
-        console.log('Emitting deduction_applied:', notificationData);
-        
-        // Emit to specific user
-        ioInstance.to(`user_${savedClaim.userId}`).emit('deduction_applied', notificationData);
-        
-        // Also emit to all users for real-time updates
-        ioInstance.emit('claim_status_changed', notificationData);
+  // Reviewer answer to the creator's disputes: accept a counter-offer, re-counter with a new
+  // amount, or withdraw the line. Any re-counter goes back to the creator; otherwise every line
+  // is agreed and the claim moves on to admin.
+  static async negotiateDeduction(claimId: string, decisions: NegotiationDecision[], reviewer: ClaimActor): Promise<IClaim> {
+    try {
+      const claim = await Claim.findById(claimId).populate('userId', 'name email');
+      if (!claim) {
+        throw new Error('Claim not found');
+      }
+
+      const openLines = (claim.deductions || []).filter(isOpenLine);
+      if (openLines.length === 0) {
+        throw new ClaimWorkflowError('This claim has no disputed deduction lines', 409);
+      }
+
+      const decisionsByLine = new Map(decisions.map(decision => [decision.lineId.toString(), decision]));
+      if (openLines.some(line => !decisionsByLine.has(line._id.toString()))) {
+        throw new ClaimWorkflowError('Answer every disputed deduction line', 400);
+      }
+
+      // Work out the new amounts first so nothing changes if the result breaks a limit
+      const newAmounts = new Map<string, number | null>();
+      for (const line of openLines) {
+        const decision = decisionsByLine.get(line._id.toString())!;
+        if (decision.action === 'accept_counter') {
+          if (line.status !== 'countered' || line.counterAmount == null) {
+            throw new ClaimWorkflowError('Only a line with a counter-offer can have its counter-offer accepted', 400);
+          }
+          newAmounts.set(line._id.toString(), line.counterAmount);
+        } else if (decision.action === 'counter') {
+          const amount = decision.amount == null ? 0 : toMinorUnits(decision.amount, claim.currency);
+          if (!(amount > 0)) {
+            throw new ClaimWorkflowError('A re-counter needs an amount greater than 0', 400);
+          }
+          newAmounts.set(line._id.toString(), amount);
+        } else {
+          newAmounts.set(line._id.toString(), null);
+        }
+      }
+
+      const activeLines = claim.deductions
+        .filter(line => line.status === 'accepted' || newAmounts.get(line._id.toString()) != null)
+        .map(line => ({ postId: line.postId, amount: newAmounts.get(line._id.toString()) ?? line.amount }));
+      const deductionAmount = assertDeductionLimits(claim, activeLines);
+
+      const counters = openLines.filter(line => decisionsByLine.get(line._id.toString())!.action === 'counter');
+      const transition = this.recordTransition(
+        claim,
+        counters.length > 0 ? 'counter_deduction' : 'accept_counter_offer',
+        reviewer,
+        counters.length > 0
+          ? `Reviewer re-countered ${counters.length} deduction line(s)`
+          : 'Reviewer settled the disputed deduction lines',
+        {
+          lines: openLines.map(line => ({
+            lineId: line._id,
+            action: decisionsByLine.get(line._id.toString())!.action,
+            amount: newAmounts.get(line._id.toString())
+          }))
+        }
+      );
+
+      openLines.forEach(line => {
+        const decision = decisionsByLine.get(line._id.toString())!;
+        const amount = newAmounts.get(line._id.toString());
+        if (decision.action === 'withdraw' || amount == null) {
+          line.status = 'withdrawn';
+          addRound(line, 'withdrawn', reviewer, null, decision.message);
+          return;
+        }
+        line.amount = amount;
+        line.counterAmount = null;
+        line.status = decision.action === 'counter' ? 'proposed' : 'accepted';
+        addRound(line, decision.action === 'counter' ? 'countered' : 'accepted', reviewer, amount, decision.message);
+      });
+
+      const deductionReason = summarizeDeduction(claim.deductions.filter(isActiveLine));
+      claim.deductionAmount = deductionAmount;
+      claim.deductionReason = deductionReason;
+      claim.reviewedBy = reviewer.id;
+
+      const savedClaim = await this.saveClaim(claim);
+
+      const finalAmount = savedClaim.calculatedEarnings - savedClaim.deductionAmount;
+      if (counters.length > 0) {
+        // The creator's response modal names the posts each line is for
+        await savedClaim.populate('postIds', 'contentText likeCount viewCount');
+        this.emitTransition(transition, savedClaim, {
+          message: `The reviewer answered your counter-offer. Final amount: ${formatMoney(finalAmount, savedClaim.currency)}`,
+          updatedBy: reviewer.id,
+          deductionAmount: fromMinorUnits(deductionAmount, savedClaim.currency),
+          deductionReason,
+          finalAmount: fromMinorUnits(finalAmount, savedClaim.currency),
+          claim: savedClaim
+        });
       } else {
-        console.log('Socket notification failed - ioInstance not available');
+        this.emitTransition(transition, savedClaim, {
+          message: `Deduction agreed. Final amount: ${formatMoney(finalAmount, savedClaim.currency)}. Claim moved to Admin for final approval.`,
+          updatedBy: reviewer.id
+        });
       }
 
       return savedClaim;
     } catch (error) {
-      throw new Error(`Error applying deduction: ${error}`);
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error negotiating deduction: ${error}`);
     }
   }
 
-  // User response to deduction
-  static async respondToDeduction(claimId: string, accepted: boolean, userId: mongoose.Types.ObjectId): Promise<IClaim> {
+  // Hand a deduction dispute the reviewer and creator cannot settle to an admin
+  static async escalateDeduction(claimId: string, message: string, reviewer: ClaimActor): Promise<IClaim> {
     try {
       const claim = await Claim.findById(claimId).populate('userId', 'name email');
       if (!claim) {
         throw new Error('Claim not found');
       }
 
-      if (claim.status !== 'deducted') {
-        throw new Error('Claim can only be responded to when status is deducted');
+      const openLines = (claim.deductions || []).filter(isOpenLine);
+      if (openLines.length === 0) {
+        throw new ClaimWorkflowError('This claim has no disputed deduction lines to escalate', 409);
       }
 
-      // Fix user ID comparison - handle both ObjectId and string
-      const claimUserId = claim.userId._id || claim.userId;
-      const userIdStr = userId.toString();
-      const claimUserIdStr = claimUserId.toString();
-      
-      console.log('User ID comparison:', {
-        providedUserId: userIdStr,
-        claimUserId: claimUserIdStr,
-        match: userIdStr === claimUserIdStr
+      const transition = this.recordTransition(claim, 'escalate_deduction', reviewer, `Deduction escalated to admin: ${message}`.slice(0, 500));
+      openLines.forEach(line => addRound(line, 'escalated', reviewer, line.amount, message));
+      claim.reviewedBy = reviewer.id;
+
+      const savedClaim = await this.saveClaim(claim);
+
+      this.emitTransition(transition, savedClaim, {
+        message: 'Deduction dispute escalated to admin',
+        updatedBy: reviewer.id
       });
 
-      if (userIdStr !== claimUserIdStr) {
-        throw new Error('Unauthorized to respond to this claim');
+      return savedClaim;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error escalating deduction: ${error}`);
+    }
+  }
+
+  // Admin ruling on an escalated dispute: the final amount for each disputed line, from zero
+  // (dropped) up to what the reviewer proposed. The claim is then ready for final approval.
+  static async resolveEscalation(claimId: string, rulings: EscalationRuling[], note: string, admin: ClaimActor): Promise<IClaim> {
+    try {
+      const claim = await Claim.findById(claimId).populate('userId', 'name email');
+      if (!claim) {
+        throw new Error('Claim not found');
       }
 
-      // Clean up any invalid history entries before adding new one
-      if (claim.history && claim.history.length > 0) {
-        claim.history = claim.history.filter(entry => {
-          const validActions = ['submitted', 'deduction_applied', 'user_accepted', 'user_rejected', 'account_approved', 'admin_approved', 'settled'];
-          return validActions.includes(entry.action);
-        });
+      const openLines = (claim.deductions || []).filter(isOpenLine);
+      const amounts = new Map(rulings.map(ruling => [ruling.lineId.toString(), toMinorUnits(ruling.amount, claim.currency)]));
+      if (openLines.some(line => !amounts.has(line._id.toString()))) {
+        throw new ClaimWorkflowError('Rule on every disputed deduction line', 400);
+      }
+      for (const line of openLines) {
+        const amount = amounts.get(line._id.toString())!;
+        if (amount < 0 || amount > line.amount) {
+          throw new ClaimWorkflowError(
+            `A ruling must be between 0 and the ${formatMoney(line.amount, claim.currency)} proposed`,
+            400
+          );
+        }
       }
 
-      // Add to history manually
-      claim.history.push({
-        action: accepted ? 'user_accepted' : 'user_rejected',
-        by: userId,
-        timestamp: new Date(),
-        note: accepted ? 'User accepted the deduction' : 'User rejected the deduction'
+      const activeLines = claim.deductions
+        .filter(line => line.status === 'accepted' || (isOpenLine(line) && amounts.get(line._id.toString())! > 0))
+        .map(line => ({ postId: line.postId, amount: isOpenLine(line) ? amounts.get(line._id.toString())! : line.amount }));
+      const deductionAmount = assertDeductionLimits(claim, activeLines);
+
+      const transition = this.recordTransition(
+        claim,
+        'resolve_escalation',
+        admin,
+        `Escalation resolved: ${note}`.slice(0, 500),
+        { lines: openLines.map(line => ({ lineId: line._id, amount: amounts.get(line._id.toString()) })) }
+      );
+
+      openLines.forEach(line => {
+        const amount = amounts.get(line._id.toString())!;
+        line.counterAmount = null;
+        if (amount > 0) {
+          line.amount = amount;
+          line.status = 'accepted';
+        } else {
+          line.status = 'withdrawn';
+        }
+        addRound(line, 'resolved', admin, amount, note);
       });
 
-      // Set status based on user response
-      if (accepted) {
-        // User accepted deduction → Move to Admin for final approval
-        claim.status = 'user_accepted';
-      } else {
-        // User rejected deduction → Loop back to Account for re-review
-        claim.status = 'user_rejected';
-        // Clear the deduction data since user rejected it
-        claim.deductionAmount = 0;
-        claim.deductionReason = '';
-      }
-      
-      claim.updatedBy = userId;
+      claim.deductionAmount = deductionAmount;
+      claim.deductionReason = summarizeDeduction(claim.deductions.filter(isActiveLine));
 
-      const savedClaim = await claim.save();
+      const savedClaim = await this.saveClaim(claim);
 
-      // Emit socket event for real-time notification
-      console.log('Socket notification - ioInstance:', !!ioInstance);
-      if (ioInstance) {
-        const action = accepted ? 'accepted' : 'rejected';
-        const notificationData = {
-          claimId: savedClaim._id,
-          status: savedClaim.status,
-          userId: savedClaim.userId,
-          message: `User ${action} the deduction. ${accepted ? 'Claim moved to Admin for final approval.' : 'Claim returned to Account for re-review.'}`,
-          updatedBy: userId,
-          timestamp: new Date(),
-          action: action
-        };
-        console.log('Emitting deduction_response:', notificationData);
-        
-        // Emit to all users (Account and Admin need to know)
-        ioInstance.emit('deduction_response', notificationData);
-        ioInstance.emit('claim_status_changed', notificationData);
-      } else {
-        console.log('Socket notification failed - ioInstance not available');
-      }
+      const finalAmount = savedClaim.calculatedEarnings - savedClaim.deductionAmount;
+      this.emitTransition(transition, savedClaim, {
+        message: `Admin resolved the deduction dispute. Final amount: ${formatMoney(finalAmount, savedClaim.currency)}`,
+        updatedBy: admin.id
+      });
 
       return savedClaim;
     } catch (error) {
-      throw new Error(`Error responding to deduction: ${error}`);
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error resolving escalation: ${error}`);
     }
   }
 
-  // Account approval
-  static async accountApprove(claimId: string, reviewerId: mongoose.Types.ObjectId): Promise<IClaim> {
+  // Account approval. A claim above the dual approval threshold first collects an approval that
+  // leaves its status alone, and moves on once a second reviewer approves it too.
+  static async accountApprove(claimId: string, reviewer: ClaimActor, notify: boolean = true): Promise<IClaim> {
     try {
       const claim = await Claim.findById(claimId).populate('userId', 'name email');
       if (!claim) {
         throw new Error('Claim not found');
       }
 
-      if (claim.status !== 'pending' && claim.status !== 'user_rejected') {
-        throw new Error('Claim can only be approved when status is pending or user_rejected');
+      assertTransition(claim, 'record_approval', reviewer);
+      const approverIds = getApproverIds(claim);
+      const { threshold, dualApproval } = await this.getApprovalRule(claim);
+      if (dualApproval && approverIds.includes(reviewer.id.toString())) {
+        await this.blockApproval(claim, 'account_approve', reviewer, 'You have already approved this claim. A second account reviewer has to approve it.');
       }
 
-      // Clean up any invalid history entries before adding new one
-      if (claim.history && claim.history.length > 0) {
-        claim.history = claim.history.filter(entry => {
-          const validActions = ['submitted', 'deduction_applied', 'user_accepted', 'user_rejected', 'account_approved', 'admin_approved', 'settled'];
-          return validActions.includes(entry.action);
-        });
+      const approval = this.pickApproval(claim, dualApproval, approverIds.length);
+      if (!approval) {
+        throw new ClaimWorkflowError('This claim already has both account approvals', 409);
       }
 
-      // Add to history manually
-      claim.history.push({
-        action: 'account_approved',
-        by: reviewerId,
-        timestamp: new Date(),
-        note: 'Claim approved by account reviewer'
-      });
+      if (approval === 'record_approval') {
+        const count = approverIds.length + 1;
+        const note = `Approval ${count} of 2 recorded; claims over ${formatMoney(threshold!, claim.currency)} need two account approvals`;
+        const transition = this.recordTransition(claim, 'record_approval', reviewer, note, { approvals: count, threshold });
 
-      claim.status = 'account_approved';
-      claim.reviewedBy = reviewerId;
-      claim.updatedBy = reviewerId;
+        // Back to the unassigned queue so that another reviewer takes it
+        if (count === 1 && claim.status === 'pending') {
+          claim.reviewedBy = undefined;
+          claim.assignedAt = null;
+        }
 
-      const savedClaim = await claim.save();
+        const savedClaim = await this.saveClaim(claim);
 
-      // Emit socket event for real-time notification
-      console.log('Socket notification - ioInstance:', !!ioInstance);
-      if (ioInstance) {
-        const notificationData = {
-          claimId: savedClaim._id,
-          status: savedClaim.status,
-          userId: savedClaim.userId,
+        if (notify) {
+          this.emitTransition(transition, savedClaim, {
+            message: count === 1
+              ? 'High-value claim approved by one account reviewer; it needs a second approval'
+              : 'High-value claim approved by a second account reviewer',
+            updatedBy: reviewer.id
+          });
+        }
+
+        return savedClaim;
+      }
+
+      const transition = this.recordTransition(claim, 'account_approve', reviewer, 'Claim approved by account reviewer');
+      claim.reviewedBy = reviewer.id;
+
+      const savedClaim = await this.saveClaim(claim);
+
+      if (notify) {
+        this.emitTransition(transition, savedClaim, {
           message: `Claim approved by account reviewer`,
-          updatedBy: reviewerId,
-          timestamp: new Date()
-        };
-        console.log('Emitting claim_status_changed:', notificationData);
-        
-        // Emit to all users
-        ioInstance.emit('claim_status_changed', notificationData);
-      } else {
-        console.log('Socket notification failed - ioInstance not available');
+          updatedBy: reviewer.id
+        });
       }
 
       return savedClaim;
     } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
       throw new Error(`Error approving claim: ${error}`);
     }
   }
 
   // Account reject claim
-  static async accountReject(claimId: string, reviewerId: mongoose.Types.ObjectId, reason: string): Promise<IClaim> {
+  static async accountReject(claimId: string, reviewer: ClaimActor, reason: string, notify: boolean = true): Promise<IClaim> {
     try {
       const claim = await Claim.findById(claimId).populate('userId', 'name email');
       if (!claim) {
         throw new Error('Claim not found');
       }
 
-      if (claim.status !== 'pending' && claim.status !== 'user_rejected') {
-        throw new Error('Claim cannot be rejected in current status');
-      }
+      const transition = this.recordTransition(claim, 'account_reject', reviewer, reason);
+      claim.reviewedBy = reviewer.id;
+      claim.rejectionReason = reason;
+
+      const savedClaim = await this.saveClaim(claim);
+      await PostClaimService.releaseIfFinished(savedClaim);
 
-      // Clean up any invalid history entries before adding new one
-      if (claim.history && claim.history.length > 0) {
-        claim.history = claim.history.filter(entry => {
-          const validActions = ['submitted', 'deduction_applied', 'user_accepted', 'user_rejected', 'account_approved', 'admin_approved', 'settled'];
-          return validActions.includes(entry.action);
+      if (notify) {
+        this.emitTransition(transition, savedClaim, {
+          message: `Claim rejected by account reviewer: ${reason}`,
+          updatedBy: reviewer.id,
+          reason: reason
         });
       }
 
-      // Add to history manually
-      claim.history.push({
-        action: 'user_rejected',
-        by: reviewerId,
-        timestamp: new Date(),
-        note: reason
+      return savedClaim;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error rejecting claim: ${error}`);
+    }
+  }
+
+  // Change the posts or proof files of a claim nobody has started reviewing. Earnings are
+  // recalculated when the posts change.
+  static async editClaim(claimId: string, changes: ClaimEdit, creator: ClaimActor): Promise<IClaim> {
+    try {
+      const claim = await Claim.findById(claimId);
+      if (!claim) {
+        throw new Error('Claim not found');
+      }
+      if (isLockHeld(claim)) {
+        throw new ClaimWorkflowError('A reviewer is looking at this claim, so it can no longer be changed', 409);
+      }
+
+      const details: Record<string, any> = {};
+
+      if (changes.postIds) {
+        const postIds = changes.postIds.map(id => new mongoose.Types.ObjectId(id));
+        if (new Set(changes.postIds).size !== changes.postIds.length) {
+          throw new ClaimWorkflowError('Duplicate posts detected in your selection', 400);
+        }
+
+        const foreignPosts = await this.findForeignPosts(creator.id, postIds);
+        if (foreignPosts.length > 0) {
+          throw new ClaimWorkflowError(`Posts with IDs ${foreignPosts.join(', ')} do not belong to you`, 400);
+        }
+
+        const earnings = await this.calculateEarnings(postIds, claim.createdAt, claim.currency);
+        if (earnings.belowMinimum) {
+          throw new ClaimWorkflowError(`These posts earn ${formatMoney(earnings.total, earnings.currency)}, but claims must reach at least ${formatMoney(earnings.minPayout, earnings.currency)}`, 400);
+        }
+
+        const before = claim.postIds.map(id => id.toString());
+        details.addedPostIds = changes.postIds.filter(id => !before.includes(id));
+        details.removedPostIds = before.filter(id => !changes.postIds!.includes(id));
+        details.previousEarnings = fromMinorUnits(claim.calculatedEarnings, claim.currency);
+        details.newEarnings = fromMinorUnits(earnings.total, claim.currency);
+
+        claim.postIds = postIds;
+        claim.calculatedEarnings = earnings.total;
+        claim.earningsBreakdown = earnings.breakdown;
+        claim.settingsId = earnings.settingsId;
+        claim.rateOverrideIds = earnings.rateOverrideIds;
+        claim.rateBasis = earnings.rateBasis;
+        claim.earningsCalculatedAt = new Date();
+      }
+
+      const removed = (changes.removeProofFileUrls || []).filter(url => claim.proofFileUrls.includes(url));
+      const added = changes.addProofFileUrls || [];
+      const proofFileUrls = claim.proofFileUrls.filter(url => !removed.includes(url)).concat(added);
+      if (proofFileUrls.length === 0) {
+        throw new ClaimWorkflowError('A claim needs at least one proof file', 400);
+      }
+      if (removed.length > 0 || added.length > 0) {
+        details.removedProofFileUrls = removed;
+        details.addedProofFileUrls = added;
+        claim.proofFileUrls = proofFileUrls;
+      }
+
+      if (Object.keys(details).length === 0) {
+        throw new ClaimWorkflowError('Nothing to change', 400);
+      }
+
+      const transition = this.recordTransition(claim, 'edit_claim', creator, 'Claim edited by creator', details);
+
+      // Take the new posts before saving and let the dropped ones go only once the edit sticks
+      const addedPostIds = (details.addedPostIds || []).map((id: string) => new mongoose.Types.ObjectId(id));
+      const removedPostIds = (details.removedPostIds || []).map((id: string) => new mongoose.Types.ObjectId(id));
+      await PostClaimService.reserve(claim._id, claim.userId, addedPostIds);
+      let savedClaim: IClaim;
+      try {
+        savedClaim = await this.saveClaim(claim);
+      } catch (error) {
+        await PostClaimService.release(claim._id, addedPostIds);
+        throw error;
+      }
+      await PostClaimService.release(claim._id, removedPostIds);
+
+      this.emitTransition(transition, savedClaim, {
+        message: 'A pending claim was edited by its creator',
+        updatedBy: creator.id
       });
 
-      claim.status = 'user_rejected';
-      claim.reviewedBy = reviewerId;
-      claim.updatedBy = reviewerId;
-      claim.deductionReason = reason; // Use deductionReason field for rejection reason
+      return savedClaim;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error editing claim: ${error}`);
+    }
+  }
 
-      const savedClaim = await claim.save();
+  // Take back a claim before review; its posts can then be claimed again
+  static async withdrawClaim(claimId: string, reason: string, creator: ClaimActor): Promise<IClaim> {
+    try {
+      const claim = await Claim.findById(claimId);
+      if (!claim) {
+        throw new Error('Claim not found');
+      }
+      if (isLockHeld(claim)) {
+        throw new ClaimWorkflowError('A reviewer is looking at this claim, so it can no longer be withdrawn', 409);
+      }
 
-      // Emit socket event for real-time notification
-      console.log('Socket notification - ioInstance:', !!ioInstance);
-      if (ioInstance) {
-        const notificationData = {
-          claimId: savedClaim._id,
-          status: savedClaim.status,
-          userId: savedClaim.userId,
-          message: `Claim rejected by account reviewer: ${reason}`,
-          updatedBy: reviewerId,
-          timestamp: new Date(),
-          reason: reason
-        };
-        console.log('Emitting claim_status_changed:', notificationData);
-        
-        // Emit to all users
-        ioInstance.emit('claim_status_changed', notificationData);
-        
-        // Also emit to specific user
-        ioInstance.to(`user_${savedClaim.userId}`).emit('claim_status_changed', notificationData);
-        
-        // Emit to admin users
-        ioInstance.to('role_admin').emit('claim_status_changed', notificationData);
-      } else {
-        console.log('Socket notification failed - ioInstance not available');
+      const note = reason ? `Claim withdrawn by creator: ${reason}`.slice(0, 500) : 'Claim withdrawn by creator';
+      const transition = this.recordTransition(claim, 'withdraw_claim', creator, note);
+      const savedClaim = await this.saveClaim(claim);
+      await PostClaimService.releaseIfFinished(savedClaim);
+
+      this.emitTransition(transition, savedClaim, {
+        message: 'A pending claim was withdrawn by its creator',
+        updatedBy: creator.id
+      });
+
+      return savedClaim;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error withdrawing claim: ${error}`);
+    }
+  }
+
+  // Put the claim on hold until the creator sends more information; the SLA clock stops meanwhile
+  static async requestInfo(claimId: string, message: string, reviewer: ClaimActor): Promise<IClaim> {
+    try {
+      const claim = await Claim.findById(claimId).populate('userId', 'name email');
+      if (!claim) {
+        throw new Error('Claim not found');
       }
 
+      const now = new Date();
+      const transition = this.recordTransition(claim, 'request_info', reviewer, `More information requested: ${message}`.slice(0, 500));
+      claim.reviewedBy = reviewer.id;
+      claim.infoRequest = {
+        message,
+        requestedBy: reviewer.id,
+        requestedAt: now,
+        response: null,
+        addedProofFileUrls: [],
+        respondedAt: null
+      };
+      claim.slaPausedAt = now;
+
+      const savedClaim = await this.saveClaim(claim);
+
+      this.emitTransition(transition, savedClaim, {
+        message: `A reviewer needs more information about your claim: ${message}`,
+        updatedBy: reviewer.id
+      });
+
       return savedClaim;
     } catch (error) {
-      throw new Error(`Error rejecting claim: ${error}`);
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error requesting information: ${error}`);
     }
   }
 
-  // Admin final approval
-  static async adminApprove(claimId: string, adminId: mongoose.Types.ObjectId): Promise<IClaim> {
+  // Creator answers the request with a note and/or extra proof files and the claim goes back
+  // to pending review
+  static async provideInfo(claimId: string, response: string, proofFileUrls: string[], creator: ClaimActor): Promise<IClaim> {
     try {
       const claim = await Claim.findById(claimId).populate('userId', 'name email');
       if (!claim) {
         throw new Error('Claim not found');
       }
 
-      if (claim.status !== 'account_approved' && claim.status !== 'user_accepted') {
-        throw new Error('Claim can only be finally approved when status is account_approved or user_accepted');
+      const now = new Date();
+      const note = response
+        ? `Creator responded: ${response}`.slice(0, 500)
+        : 'Creator added proof files';
+      const transition = this.recordTransition(claim, 'provide_info', creator, note, {
+        addedProofFileUrls: proofFileUrls
+      });
+
+      claim.proofFileUrls.push(...proofFileUrls);
+      if (claim.infoRequest) {
+        claim.infoRequest.response = response || null;
+        claim.infoRequest.addedProofFileUrls = proofFileUrls;
+        claim.infoRequest.respondedAt = now;
+      }
+      if (claim.slaPausedAt) {
+        claim.slaPausedMs = (claim.slaPausedMs || 0) + (now.getTime() - claim.slaPausedAt.getTime());
+        claim.slaPausedAt = null;
       }
 
-      // Clean up any invalid history entries before adding new one
-      if (claim.history && claim.history.length > 0) {
-        claim.history = claim.history.filter(entry => {
-          const validActions = ['submitted', 'deduction_applied', 'user_accepted', 'user_rejected', 'account_approved', 'admin_approved', 'settled'];
-          return validActions.includes(entry.action);
-        });
+      const savedClaim = await this.saveClaim(claim);
+
+      this.emitTransition(transition, savedClaim, {
+        message: 'The creator responded to the information request',
+        updatedBy: creator.id
+      });
+
+      return savedClaim;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error responding to information request: ${error}`);
+    }
+  }
+
+  // Recalculate earnings against current post metrics and rates, recording the before/after diff
+  static async recalculateEarnings(claimId: string, reviewer: ClaimActor): Promise<IClaim> {
+    try {
+      const claim = await Claim.findById(claimId).populate('userId', 'name email');
+      if (!claim) {
+        throw new Error('Claim not found');
       }
 
-      // Add to history manually
-      claim.history.push({
-        action: 'admin_approved',
-        by: adminId,
-        timestamp: new Date(),
-        note: 'Claim finally approved by admin'
+      const earnings = await this.calculateEarnings(claim.postIds, claim.createdAt, claim.currency);
+
+      if (claim.deductionAmount > 0 && claim.deductionAmount >= earnings.total) {
+        throw new ClaimWorkflowError('Recalculated earnings would no longer cover the applied deduction', 409);
+      }
+
+      const previousEarnings = claim.calculatedEarnings;
+      const transition = this.recordTransition(
+        claim,
+        'recalculate_earnings',
+        reviewer,
+        `Earnings recalculated: ${formatMoney(previousEarnings, claim.currency)} → ${formatMoney(earnings.total, claim.currency)}`,
+        {
+          before: { total: previousEarnings, settingsId: claim.settingsId || null },
+          after: { total: earnings.total, settingsId: earnings.settingsId },
+          posts: diffEarningsBreakdown(claim.earningsBreakdown || [], earnings.breakdown)
+        }
+      );
+
+      claim.calculatedEarnings = earnings.total;
+      claim.earningsBreakdown = earnings.breakdown;
+      claim.settingsId = earnings.settingsId;
+      claim.rateOverrideIds = earnings.rateOverrideIds;
+      claim.rateBasis = earnings.rateBasis;
+      claim.earningsCalculatedAt = new Date();
+
+      const savedClaim = await this.saveClaim(claim);
+
+      this.emitTransition(transition, savedClaim, {
+        message: `Earnings recalculated from ${formatMoney(previousEarnings, claim.currency)} to ${formatMoney(earnings.total, claim.currency)}`,
+        updatedBy: reviewer.id,
+        previousEarnings: fromMinorUnits(previousEarnings, claim.currency),
+        calculatedEarnings: fromMinorUnits(earnings.total, claim.currency)
       });
 
-      claim.status = 'admin_approved';
-      claim.finalApprovedBy = adminId;
-      claim.updatedBy = adminId;
+      return savedClaim;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error recalculating earnings: ${error}`);
+    }
+  }
 
-      const savedClaim = await claim.save();
+  // Admin final approval, by an admin who took no part in reviewing the claim
+  static async adminApprove(claimId: string, admin: ClaimActor, notify: boolean = true): Promise<IClaim> {
+    try {
+      const claim = await Claim.findById(claimId).populate('userId', 'name email');
+      if (!claim) {
+        throw new Error('Claim not found');
+      }
 
-      // Emit socket event for real-time notification
-      console.log('Socket notification - ioInstance:', !!ioInstance);
-      if (ioInstance) {
+      assertTransition(claim, 'admin_approve', admin);
+      if (getReviewerIds(claim).includes(admin.id.toString())) {
+        await this.blockApproval(claim, 'admin_approve', admin, 'You reviewed this claim, so another admin has to give it final approval.');
+      }
+
+      const { threshold, dualApproval } = await this.getApprovalRule(claim);
+      const approvals = getApproverIds(claim).length;
+      if (dualApproval && approvals < 2) {
+        await this.blockApproval(
+          claim,
+          'admin_approve',
+          admin,
+          `Claims over ${formatMoney(threshold!, claim.currency)} need approvals from two account reviewers before final approval; this one has ${approvals}.`
+        );
+      }
+
+      // Reports convert this claim at the rate in force when it was approved
+      const rateTable = await CurrencyService.getRateTable();
+      const reportingCurrency = getReportingCurrency();
+      const exchangeRate = CurrencyService.getFactor(rateTable, claim.currency, reportingCurrency);
+
+      const transition = this.recordTransition(
+        claim,
+        'admin_approve',
+        admin,
+        'Claim finally approved by admin',
+        { currency: claim.currency, exchangeRate, reportingCurrency }
+      );
+      claim.finalApprovedBy = admin.id;
+      claim.exchangeRate = exchangeRate;
+      claim.reportingCurrency = reportingCurrency;
+
+      const savedClaim = await this.saveClaim(claim);
+
+      if (notify) {
+        this.emitTransition(transition, savedClaim, {
+          message: `Claim finally approved by admin`,
+          updatedBy: admin.id
+        });
+      }
+
+      return savedClaim;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error approving claim: ${error}`);
+    }
+  }
+
+  // Admin final rejection, optionally sending the claim back to account review
+  static async adminReject(claimId: string, admin: ClaimActor, reason: string, sendBack: boolean = false, notify: boolean = true): Promise<IClaim> {
+    try {
+      const claim = await Claim.findById(claimId).populate('userId', 'name email');
+      if (!claim) {
+        throw new Error('Claim not found');
+      }
+
+      const transition = this.recordTransition(claim, sendBack ? 'admin_send_back' : 'admin_reject', admin, reason);
+
+      if (sendBack) {
+        // Account review starts over, so any earlier deduction no longer applies
+        claim.deductionAmount = 0;
+        claim.deductionReason = '';
+        claim.deductions = [];
+      } else {
+        claim.rejectionReason = reason;
+      }
+
+      const savedClaim = await this.saveClaim(claim);
+      await PostClaimService.releaseIfFinished(savedClaim);
+
+      if (notify) {
+        this.emitTransition(transition, savedClaim, {
+          message: sendBack
+            ? `Claim sent back to account review by admin: ${reason}`
+            : `Claim rejected by admin: ${reason}`,
+          updatedBy: admin.id,
+          reason: reason
+        });
+      }
+
+      return savedClaim;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error rejecting claim: ${error}`);
+    }
+  }
+
+  // Settle admin approved claims once the payout batch containing them has been paid
+  static async settleClaims(claimIds: mongoose.Types.ObjectId[], admin: ClaimActor, note: string): Promise<IClaim[]> {
+    try {
+      const claims = await Claim.find({ _id: { $in: claimIds }, isActive: true });
+      if (claims.length !== claimIds.length) {
+        throw new Error('One or more claims could not be found');
+      }
+
+      // Claims already settled by an earlier attempt that failed partway are left as they are, so
+      // the attempt can simply be repeated. Validate the rest before settling any of them.
+      const unsettled = claims.filter(claim => claim.status !== 'settled');
+      unsettled.forEach(claim => assertTransition(claim, 'settle', admin));
+
+      const settledClaims: IClaim[] = claims.filter(claim => claim.status === 'settled');
+      for (const claim of unsettled) {
+        this.recordTransition(claim, 'settle', admin, note);
+        settledClaims.push(await this.saveClaim(claim));
+      }
+
+      // One notification for the whole batch rather than one per claim
+      if (ioInstance && unsettled.length > 0) {
+        ioInstance.emit('claim_status_changed', {
+          claimIds: unsettled.map(claim => claim._id),
+          status: 'settled',
+          message: `${unsettled.length} claim(s) settled: ${note}`,
+          updatedBy: admin.id,
+          timestamp: new Date()
+        });
+      }
+
+      return settledClaims;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error settling claims: ${error}`);
+    }
+  }
+
+  // Account approval of many claims; high-value ones only collect an approval, as they would one by one
+  static async bulkApprove(claimIds: string[], reviewer: ClaimActor): Promise<BulkClaimResult[]> {
+    return await this.runBulk(
+      claimIds,
+      reviewer,
+      claimId => this.accountApprove(claimId, reviewer, false),
+      count => `${count} claim(s) approved by account reviewer`
+    );
+  }
+
+  static async bulkFinalApprove(claimIds: string[], admin: ClaimActor): Promise<BulkClaimResult[]> {
+    return await this.runBulk(
+      claimIds,
+      admin,
+      claimId => this.adminApprove(claimId, admin, false),
+      count => `${count} claim(s) finally approved by admin`
+    );
+  }
+
+  // Account reviewers reject claims under review; admins reject, or send back, claims waiting on final approval
+  static async bulkReject(claimIds: string[], actor: ClaimActor, reason: string, sendBack: boolean = false): Promise<BulkClaimResult[]> {
+    return await this.runBulk(
+      claimIds,
+      actor,
+      claimId => actor.role === 'admin'
+        ? this.adminReject(claimId, actor, reason, sendBack, false)
+        : this.accountReject(claimId, actor, reason, false),
+      count => sendBack
+        ? `${count} claim(s) sent back to account review: ${reason}`
+        : `${count} claim(s) rejected: ${reason}`
+    );
+  }
+
+  // Run a single-claim action over a list of claims, one after the other. Each claim passes the
+  // same status, lock and approval checks as on its own, and a claim that fails does not stop
+  // the rest. One socket event covers the whole batch instead of one per claim.
+  private static async runBulk(
+    claimIds: string[],
+    actor: ClaimActor,
+    action: (claimId: string) => Promise<IClaim>,
+    describe: (count: number) => string
+  ): Promise<BulkClaimResult[]> {
+    try {
+      const validIds = claimIds.filter(claimId => mongoose.isValidObjectId(claimId));
+      const existing = new Set(
+        (await Claim.find({ _id: { $in: validIds }, isActive: true }).select('_id')).map(claim => claim._id.toString())
+      );
+
+      const results: BulkClaimResult[] = [];
+      for (const claimId of claimIds) {
+        if (!existing.has(claimId)) {
+          results.push({ claimId, success: false, statusCode: 404, message: 'Claim not found' });
+          continue;
+        }
+
+        try {
+          const claim = await action(claimId);
+          results.push({ claimId, success: true, status: claim.status });
+        } catch (error: any) {
+          results.push(error instanceof ClaimWorkflowError
+            ? { claimId, success: false, statusCode: error.statusCode, message: error.message }
+            : { claimId, success: false, statusCode: 500, message: error?.message || String(error) });
+        }
+      }
+
+      const succeeded = results.filter(result => result.success);
+      if (ioInstance && succeeded.length > 0) {
         const notificationData = {
-          claimId: savedClaim._id,
-          status: savedClaim.status,
-          userId: savedClaim.userId,
-          message: `Claim finally approved and settled by admin`,
-          updatedBy: adminId,
+          claimIds: succeeded.map(result => result.claimId),
+          message: describe(succeeded.length),
+          updatedBy: actor.id,
           timestamp: new Date()
         };
         console.log('Emitting claim_status_changed:', notificationData);
-        
-        // Emit to all users
         ioInstance.emit('claim_status_changed', notificationData);
-      } else {
-        console.log('Socket notification failed - ioInstance not available');
       }
 
-      return savedClaim;
+      return results;
     } catch (error) {
-      throw new Error(`Error approving claim: ${error}`);
+      throw new Error(`Error running bulk claim action: ${error}`);
     }
   }
 
-  // Lock claim for editing
-  static async lockClaim(claimId: string, userId: mongoose.Types.ObjectId): Promise<boolean> {
+  // Admin hands a claim still in account review to another reviewer
+  static async reassignClaim(claimId: string, reviewerId: string, admin: ClaimActor): Promise<IClaim> {
     try {
+      const reviewer = mongoose.isValidObjectId(reviewerId)
+        ? await User.findOne({ _id: reviewerId, role: 'account', isActive: true })
+        : null;
+      if (!reviewer) {
+        throw new ClaimWorkflowError('Reviewer not found', 400);
+      }
+
       const claim = await Claim.findById(claimId);
       if (!claim) {
         throw new Error('Claim not found');
       }
+      if (!REVIEW_QUEUE_STATUSES.includes(claim.status)) {
+        throw new ClaimWorkflowError(`Only claims in account review can be reassigned (status is ${claim.status})`, 409);
+      }
+      if (claim.reviewedBy?.toString() === reviewer._id.toString()) {
+        throw new ClaimWorkflowError(`This claim is already assigned to ${reviewer.name}`, 400);
+      }
+
+      const previousReviewerId = claim.reviewedBy || null;
+      claim.reviewedBy = reviewer._id;
+      claim.assignedAt = new Date();
+      claim.updatedBy = admin.id;
+      claim.history.push({
+        action: 'claim_assigned',
+        by: admin.id,
+        timestamp: new Date(),
+        note: `Assigned to ${reviewer.name}`,
+        details: { from: previousReviewerId, to: reviewer._id }
+      });
+
+      const savedClaim = await this.saveClaim(claim);
 
-      // Check if already locked by someone else
-      if (claim.lockedBy && claim.lockedBy.toString() !== userId.toString()) {
-        const lockAge = Date.now() - claim.lockTimestamp!.getTime();
-        // If lock is older than 30 minutes, allow override
-        if (lockAge < 30 * 60 * 1000) {
-          return false;
+      if (ioInstance) {
+        const notificationData = {
+          claimId: savedClaim._id,
+          assignedTo: reviewer._id,
+          updatedBy: admin.id,
+          timestamp: new Date()
+        };
+        ioInstance.to(`user_${reviewer._id}`).emit('claim_assigned', {
+          ...notificationData,
+          message: 'An admin assigned a claim to you'
+        });
+        if (previousReviewerId) {
+          ioInstance.to(`user_${previousReviewerId}`).emit('claim_assigned', {
+            ...notificationData,
+            message: `A claim in your queue was reassigned to ${reviewer.name}`
+          });
         }
       }
 
-      claim.lockedBy = userId;
-      claim.lockTimestamp = new Date();
-      await claim.save();
+      return savedClaim;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error reassigning claim: ${error}`);
+    }
+  }
 
-      return true;
+  // Admin override for a lock whose holder has gone quiet. Recorded in the claim history; the
+  // holder is told their lock is gone.
+  static async breakLock(claimId: string, reason: string, admin: ClaimActor): Promise<void> {
+    try {
+      const lock = await ClaimLockService.forceRelease(claimId);
+      if (!lock) {
+        throw new ClaimWorkflowError('This claim is not locked', 409);
+      }
+
+      // Bump the version too: anyone saving a copy loaded before this must not drop the entry
+      await Claim.updateOne({ _id: claimId }, {
+        $push: {
+          history: {
+            action: 'lock_broken',
+            by: admin.id,
+            timestamp: new Date(),
+            note: `Review lock broken: ${reason}`.slice(0, 500),
+            details: { lockedBy: lock.lockedBy, lockedAt: lock.lockedAt }
+          }
+        },
+        $inc: { __v: 1 }
+      });
+
+      if (ioInstance) {
+        ioInstance.emit('claim_unlocked', {
+          claimId,
+          unlockedBy: admin.id,
+          brokenBy: admin.id,
+          timestamp: new Date()
+        });
+        ioInstance.to(`user_${lock.lockedBy}`).emit('lock_lost', {
+          claimId,
+          message: `An admin released your lock on this claim: ${reason}`,
+          timestamp: new Date()
+        });
+      }
     } catch (error) {
-      throw new Error(`Error locking claim: ${error}`);
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error breaking claim lock: ${error}`);
     }
   }
 
-  // Unlock claim
-  static async unlockClaim(claimId: string, userId: mongoose.Types.ObjectId): Promise<void> {
+  // Flag claims that have overstayed their status and escalate them to the admins: a socket
+  // event for whoever is online and an in-app notification each. Returns how many were flagged.
+  static async escalateSlaBreaches(): Promise<number> {
     try {
-      const claim = await Claim.findById(claimId);
-      if (!claim) {
-        throw new Error('Claim not found');
+      const breaches = await ClaimSlaService.flagBreaches();
+      if (breaches.length === 0) {
+        return 0;
       }
 
-      if (claim.lockedBy?.toString() === userId.toString()) {
-        claim.lockedBy = undefined;
-        claim.lockTimestamp = undefined;
-        await claim.save();
+      const first = breaches[0]!;
+      const perStatus = new Map<string, number>();
+      breaches.forEach(breach => perStatus.set(breach.status, (perStatus.get(breach.status) || 0) + 1));
+      const message = breaches.length === 1
+        ? `Claim ${first.claimId} has been ${first.status.replace(/_/g, ' ')} for ${first.hoursInStage}h (target ${first.targetHours}h)`
+        : `${breaches.length} claims are past their SLA target: ` +
+          [...perStatus.entries()].map(([status, count]) => `${count} ${status.replace(/_/g, ' ')}`).join(', ');
+
+      // One notification per run, so a newly set target does not bury the admins
+      await NotificationService.notifyRole('admin', {
+        type: 'sla_breached',
+        title: 'SLA breached',
+        message,
+        claimId: breaches.length === 1 ? first.claimId : null
+      });
+
+      if (ioInstance) {
+        ioInstance.to('role_admin').emit('sla_breached', {
+          count: breaches.length,
+          breaches: breaches.map(breach => ({
+            claimId: breach.claimId,
+            status: breach.status,
+            targetHours: breach.targetHours,
+            hoursInStage: breach.hoursInStage,
+            reviewedBy: breach.reviewedBy
+          })),
+          message,
+          timestamp: new Date()
+        });
       }
+
+      return breaches.length;
     } catch (error) {
-      throw new Error(`Error unlocking claim: ${error}`);
+      throw new Error(`Error escalating SLA breaches: ${error}`);
     }
   }
 }
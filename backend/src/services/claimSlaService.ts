@@ -0,0 +1,311 @@
+import mongoose from 'mongoose';
+import Claim, { ClaimStatus, ISlaBreach } from '../models/Claim';
+import SlaTarget, { ISlaTarget, SLA_STATUSES } from '../models/SlaTarget';
+import {
+  ClaimStage,
+  ClaimWorkflowError,
+  FINAL_STATUSES,
+  STAGE_HISTORY_ACTIONS,
+  getPausedMsBefore,
+  getStageTimeline
+} from './claimWorkflow';
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+// Weeks of breaches the report goes back
+const BREACH_REPORT_WEEKS = 12;
+
+// How often claims are checked against their targets, configured through SLA_CHECK_INTERVAL_MINUTES
+export const getSlaCheckIntervalMs = (): number => {
+  const minutes = Number(process.env.SLA_CHECK_INTERVAL_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : 5) * 60 * 1000;
+};
+
+// Time a stage has counted towards its SLA: its duration less any time the clock was stopped
+const getStageActiveMs = (stages: ClaimStage[], stage: ClaimStage, now: Date): number => {
+  const end = stage.leftAt || now;
+  return Math.max(0, stage.durationMs - (getPausedMsBefore(stages, end) - getPausedMsBefore(stages, stage.enteredAt)));
+};
+
+const toHours = (ms: number): number => Math.round((ms / HOUR_MS) * 10) / 10;
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? toHours(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+const addDuration = (durations: Map<ClaimStatus, number[]>, status: ClaimStatus, ms: number): void => {
+  const list = durations.get(status) || [];
+  list.push(ms);
+  durations.set(status, list);
+};
+
+// Monday 00:00 UTC of the week the date falls in
+const startOfWeek = (date: Date): Date => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+};
+
+// A claim that has just been flagged, for the escalation that follows
+export interface SlaBreachFlag extends ISlaBreach {
+  claimId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  reviewedBy: mongoose.Types.ObjectId | null;
+  hoursInStage: number;
+}
+
+// How long claims spend in one status; hours
+export interface StageTiming {
+  status: ClaimStatus;
+  // Times a claim entered this status and has since moved on
+  completed: number;
+  averageHours: number | null;
+  longestHours: number | null;
+  // Claims in this status now, and how many of them are past the target
+  open: number;
+  overdue: number;
+  targetHours: number | null;
+}
+
+export interface SlaReport {
+  // Submission to admin approval, and to settlement, over the claims that got that far
+  averageProcessingHours: number | null;
+  averagePayoutHours: number | null;
+  stages: StageTiming[];
+  breachesByStatus: Array<{ status: ClaimStatus, count: number }>;
+  breachesByWeek: Array<{ weekStart: Date, count: number }>;
+}
+
+export class ClaimSlaService {
+  static async getTargets(): Promise<ISlaTarget[]> {
+    try {
+      return await SlaTarget.find({ isActive: true })
+        .populate('updatedBy', 'name')
+        .sort({ status: 1 });
+    } catch (error) {
+      throw new Error(`Error fetching SLA targets: ${error}`);
+    }
+  }
+
+  // Live targets in hours, keyed by status. Targets left over for a status that is no longer
+  // timed are ignored.
+  static async getTargetHours(): Promise<Map<ClaimStatus, number>> {
+    const targets = await this.getTargets();
+    return new Map(targets
+      .filter(target => SLA_STATUSES.includes(target.status))
+      .map(target => [target.status, target.targetHours]));
+  }
+
+  // Replace the live target for a status; the previous row stays as history
+  static async setTarget(status: string, targetHours: number, adminId: mongoose.Types.ObjectId): Promise<ISlaTarget> {
+    try {
+      if (!SLA_STATUSES.includes(status as ClaimStatus)) {
+        throw new ClaimWorkflowError(`SLA targets can be set for ${SLA_STATUSES.join(', ')}`, 400);
+      }
+
+      await SlaTarget.updateMany(
+        { status, isActive: true },
+        { isActive: false, updatedBy: adminId }
+      );
+
+      const target = new SlaTarget({
+        status,
+        targetHours,
+        createdBy: adminId,
+        updatedBy: adminId
+      });
+      await target.save();
+      await target.populate('updatedBy', 'name');
+
+      return target;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error setting SLA target: ${error}`);
+    }
+  }
+
+  // Stop timing a status; breaches already flagged stay in the claim history
+  static async removeTarget(status: string, adminId: mongoose.Types.ObjectId): Promise<void> {
+    try {
+      const result = await SlaTarget.updateMany(
+        { status, isActive: true },
+        { isActive: false, updatedBy: adminId }
+      );
+      if (result.matchedCount === 0) {
+        throw new ClaimWorkflowError('SLA target not found', 404);
+      }
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error removing SLA target: ${error}`);
+    }
+  }
+
+  // Flag every claim that has been in its status longer than the target, once per stay in that
+  // status, and record the breach in its history. Returns the claims flagged by this run.
+  static async flagBreaches(now: Date = new Date()): Promise<SlaBreachFlag[]> {
+    try {
+      const targets = await this.getTargetHours();
+      if (targets.size === 0) {
+        return [];
+      }
+
+      const claims = await Claim.find({
+        status: { $in: [...targets.keys()] },
+        isActive: true,
+        slaBreach: null
+      }).select('status userId reviewedBy createdAt history');
+
+      const flagged: SlaBreachFlag[] = [];
+      for (const claim of claims) {
+        const stages = getStageTimeline(claim, now);
+        const stage = stages[stages.length - 1]!;
+        const targetHours = targets.get(claim.status)!;
+        const activeMs = getStageActiveMs(stages, stage, now);
+        // History that does not explain the current status cannot be timed
+        if (stage.status !== claim.status || activeMs <= targetHours * HOUR_MS) {
+          continue;
+        }
+
+        const breach: ISlaBreach = { status: claim.status, targetHours, enteredAt: stage.enteredAt, breachedAt: now };
+        // Only while the claim is still where we found it. Bump the version too: anyone saving
+        // a copy loaded before this must not drop the entry.
+        const result = await Claim.updateOne(
+          { _id: claim._id, status: claim.status, slaBreach: null },
+          {
+            $set: { slaBreach: breach },
+            $push: {
+              history: {
+                action: 'sla_breached',
+                by: null,
+                timestamp: now,
+                note: `In ${claim.status} for ${toHours(activeMs)}h; target is ${targetHours}h`,
+                details: breach
+              }
+            },
+            $inc: { __v: 1 }
+          }
+        );
+
+        if (result.modifiedCount > 0) {
+          flagged.push({
+            ...breach,
+            claimId: claim._id,
+            userId: claim.userId,
+            reviewedBy: claim.reviewedBy || null,
+            hoursInStage: toHours(activeMs)
+          });
+        }
+      }
+
+      return flagged;
+    } catch (error) {
+      throw new Error(`Error checking SLA breaches: ${error}`);
+    }
+  }
+
+  // Time in each status rebuilt from claim history, end-to-end processing times and breach
+  // counts, over the claims still open or touched in the weeks the breach chart covers. Time
+  // spent waiting on the creator is left out throughout.
+  static async getReport(now: Date = new Date()): Promise<SlaReport> {
+    try {
+      const windowStart = new Date(startOfWeek(now).getTime() - (BREACH_REPORT_WEEKS - 1) * WEEK_MS);
+      const [targets, claims] = await Promise.all([
+        this.getTargetHours(),
+        Claim.aggregate([
+          {
+            $match: {
+              isActive: true,
+              $or: [{ status: { $nin: FINAL_STATUSES } }, { updatedAt: { $gte: windowStart } }]
+            }
+          },
+          // Only the entries that move the claim between statuses or record a breach
+          {
+            $project: {
+              createdAt: 1,
+              history: {
+                $map: {
+                  input: {
+                    $filter: {
+                      input: '$history',
+                      cond: { $in: ['$$this.action', [...STAGE_HISTORY_ACTIONS, 'sla_breached']] }
+                    }
+                  },
+                  in: { action: '$$this.action', timestamp: '$$this.timestamp', status: '$$this.details.status' }
+                }
+              }
+            }
+          }
+        ])
+      ]);
+
+      const completed = new Map<ClaimStatus, number[]>();
+      const open = new Map<ClaimStatus, number[]>();
+      const processing: number[] = [];
+      const payout: number[] = [];
+      const weekStarts = Array.from({ length: BREACH_REPORT_WEEKS }, (_, index) =>
+        new Date(startOfWeek(now).getTime() - (BREACH_REPORT_WEEKS - 1 - index) * WEEK_MS));
+      const breachesByWeek = new Map(weekStarts.map(weekStart => [weekStart.getTime(), 0]));
+      const breachesByStatus = new Map<ClaimStatus, number>();
+
+      claims.forEach(claim => {
+        const stages = getStageTimeline(claim, now);
+        stages.forEach(stage => {
+          if (stage.leftAt) {
+            addDuration(completed, stage.status, getStageActiveMs(stages, stage, now));
+          } else if (!FINAL_STATUSES.includes(stage.status)) {
+            addDuration(open, stage.status, getStageActiveMs(stages, stage, now));
+          }
+        });
+
+        const submittedAt = new Date(claim.createdAt).getTime();
+        const approved = stages.find(stage => stage.status === 'admin_approved');
+        const settled = stages.find(stage => stage.status === 'settled');
+        if (approved) {
+          processing.push(approved.enteredAt.getTime() - submittedAt - getPausedMsBefore(stages, approved.enteredAt));
+        }
+        if (settled) {
+          payout.push(settled.enteredAt.getTime() - submittedAt - getPausedMsBefore(stages, settled.enteredAt));
+        }
+
+        claim.history
+          .filter((entry: { action: string }) => entry.action === 'sla_breached')
+          .forEach((entry: { timestamp: Date, status: ClaimStatus }) => {
+            const week = startOfWeek(new Date(entry.timestamp)).getTime();
+            if (!breachesByWeek.has(week)) {
+              return;
+            }
+            breachesByWeek.set(week, breachesByWeek.get(week)! + 1);
+            const status = entry.status;
+            breachesByStatus.set(status, (breachesByStatus.get(status) || 0) + 1);
+          });
+      });
+
+      return {
+        averageProcessingHours: average(processing),
+        averagePayoutHours: average(payout),
+        stages: SLA_STATUSES.map(status => {
+          const durations = completed.get(status) || [];
+          const openDurations = open.get(status) || [];
+          const targetHours = targets.get(status) ?? null;
+          return {
+            status,
+            completed: durations.length,
+            averageHours: average(durations),
+            longestHours: durations.length > 0 ? toHours(Math.max(...durations)) : null,
+            open: openDurations.length,
+            overdue: targetHours === null ? 0 : openDurations.filter(ms => ms > targetHours * HOUR_MS).length,
+            targetHours
+          };
+        }),
+        breachesByStatus: [...breachesByStatus.entries()]
+          .map(([status, count]) => ({ status, count }))
+          .sort((a, b) => b.count - a.count),
+        breachesByWeek: weekStarts.map(weekStart => ({ weekStart, count: breachesByWeek.get(weekStart.getTime())! }))
+      };
+    } catch (error) {
+      throw new Error(`Error building SLA report: ${error}`);
+    }
+  }
+}
+
+export default ClaimSlaService;
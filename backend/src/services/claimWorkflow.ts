@@ -0,0 +1,380 @@
+import mongoose from 'mongoose';
+import { IClaim, ClaimStatus, ClaimHistoryAction, CLAIM_STATUSES } from '../models/Claim';
+import { IUser } from '../models/User';
+
+export type ClaimTransitionName =
+  | 'apply_deduction'
+  | 'accept_deduction'
+  | 'reject_deduction'
+  | 'counter_deduction'
+  | 'accept_counter_offer'
+  | 'escalate_deduction'
+  | 'resolve_escalation'
+  | 'request_info'
+  | 'provide_info'
+  | 'edit_claim'
+  | 'withdraw_claim'
+  | 'account_approve'
+  | 'record_approval'
+  | 'account_reject'
+  | 'admin_approve'
+  | 'admin_reject'
+  | 'admin_send_back'
+  | 'recalculate_earnings'
+  | 'settle';
+
+export type ClaimSocketEvent = 'claim_status_changed' | 'deduction_applied' | 'deduction_response' | 'info_requested';
+
+// The user performing a transition
+export interface ClaimActor {
+  id: mongoose.Types.ObjectId;
+  role: IUser['role'];
+}
+
+export interface ClaimTransition {
+  from: ClaimStatus[];
+  // Omitted for actions that are recorded in history but keep the current status
+  to?: ClaimStatus;
+  roles: IUser['role'][];
+  // Only the user who submitted the claim may fire this transition
+  creatorOnly?: boolean;
+  // Only until a reviewer or admin first acts on the claim
+  beforeReviewOnly?: boolean;
+  historyAction: ClaimHistoryAction;
+  socketEvent: ClaimSocketEvent;
+  // Deliver socketEvent to the claim creator's room only instead of everyone
+  notifyCreatorOnly?: boolean;
+  // Fired by another subsystem (e.g. payout batches), never offered as a per-claim action
+  internal?: boolean;
+  // Part of reviewing the claim; whoever fired it may not also give final approval
+  review?: boolean;
+}
+
+// Single source of truth for how a claim moves between statuses
+export const CLAIM_WORKFLOW: Record<ClaimTransitionName, ClaimTransition> = {
+  // Also from user_rejected, to re-propose the lines the creator disputed
+  apply_deduction: {
+    from: ['pending', 'user_rejected'],
+    to: 'deducted',
+    roles: ['account'],
+    historyAction: 'deduction_applied',
+    socketEvent: 'deduction_applied',
+    notifyCreatorOnly: true,
+    review: true
+  },
+  accept_deduction: {
+    from: ['deducted'],
+    to: 'user_accepted',
+    roles: ['user'],
+    creatorOnly: true,
+    historyAction: 'user_accepted',
+    socketEvent: 'deduction_response'
+  },
+  reject_deduction: {
+    from: ['deducted'],
+    to: 'user_rejected',
+    roles: ['user'],
+    creatorOnly: true,
+    historyAction: 'user_rejected',
+    socketEvent: 'deduction_response'
+  },
+  // Reviewer answers the disputed lines: any re-counter goes back to the creator...
+  counter_deduction: {
+    from: ['user_rejected'],
+    to: 'deducted',
+    roles: ['account'],
+    historyAction: 'deduction_countered',
+    socketEvent: 'deduction_applied',
+    notifyCreatorOnly: true,
+    review: true
+  },
+  // ...otherwise every line is now agreed and the claim moves on as if the creator had accepted
+  accept_counter_offer: {
+    from: ['user_rejected'],
+    to: 'user_accepted',
+    roles: ['account'],
+    historyAction: 'counter_offer_accepted',
+    socketEvent: 'claim_status_changed',
+    review: true
+  },
+  escalate_deduction: {
+    from: ['user_rejected'],
+    to: 'escalated',
+    roles: ['account'],
+    historyAction: 'deduction_escalated',
+    socketEvent: 'claim_status_changed'
+  },
+  // The admin's ruling on the disputed lines stands in for account approval
+  resolve_escalation: {
+    from: ['escalated'],
+    to: 'account_approved',
+    roles: ['admin'],
+    historyAction: 'escalation_resolved',
+    socketEvent: 'claim_status_changed',
+    review: true
+  },
+  // Reviewer needs more proof before deciding; the SLA clock stops until the creator answers
+  request_info: {
+    from: ['pending'],
+    to: 'info_requested',
+    roles: ['account'],
+    historyAction: 'info_requested',
+    socketEvent: 'info_requested',
+    notifyCreatorOnly: true
+  },
+  provide_info: {
+    from: ['info_requested'],
+    to: 'pending',
+    roles: ['user'],
+    creatorOnly: true,
+    historyAction: 'info_provided',
+    socketEvent: 'claim_status_changed'
+  },
+  // The creator can fix or take back a claim until a reviewer has acted on it
+  edit_claim: {
+    from: ['pending'],
+    roles: ['user'],
+    creatorOnly: true,
+    beforeReviewOnly: true,
+    historyAction: 'claim_edited',
+    socketEvent: 'claim_status_changed'
+  },
+  withdraw_claim: {
+    from: ['pending'],
+    to: 'withdrawn',
+    roles: ['user'],
+    creatorOnly: true,
+    beforeReviewOnly: true,
+    historyAction: 'claim_withdrawn',
+    socketEvent: 'claim_status_changed'
+  },
+  account_approve: {
+    from: ['pending', 'user_rejected'],
+    to: 'account_approved',
+    roles: ['account'],
+    historyAction: 'account_approved',
+    socketEvent: 'claim_status_changed',
+    review: true
+  },
+  // An approval of a high-value claim that leaves the status alone: the first of the two it needs
+  // before account_approve, or both for claims that reach the admin without account_approve
+  record_approval: {
+    from: ['pending', 'user_rejected', 'user_accepted', 'account_approved'],
+    roles: ['account'],
+    historyAction: 'approval_recorded',
+    socketEvent: 'claim_status_changed',
+    review: true
+  },
+  account_reject: {
+    from: ['pending', 'user_rejected'],
+    to: 'account_rejected',
+    roles: ['account'],
+    historyAction: 'account_rejected',
+    socketEvent: 'claim_status_changed'
+  },
+  admin_approve: {
+    from: ['account_approved', 'user_accepted'],
+    to: 'admin_approved',
+    roles: ['admin'],
+    historyAction: 'admin_approved',
+    socketEvent: 'claim_status_changed'
+  },
+  admin_reject: {
+    from: ['account_approved', 'user_accepted'],
+    to: 'admin_rejected',
+    roles: ['admin'],
+    historyAction: 'admin_rejected',
+    socketEvent: 'claim_status_changed'
+  },
+  admin_send_back: {
+    from: ['account_approved', 'user_accepted'],
+    to: 'pending',
+    roles: ['admin'],
+    historyAction: 'admin_sent_back',
+    socketEvent: 'claim_status_changed'
+  },
+  recalculate_earnings: {
+    from: ['pending', 'user_rejected'],
+    roles: ['account'],
+    historyAction: 'earnings_recalculated',
+    socketEvent: 'claim_status_changed'
+  },
+  settle: {
+    from: ['admin_approved'],
+    to: 'settled',
+    roles: ['admin'],
+    historyAction: 'settled',
+    socketEvent: 'claim_status_changed',
+    internal: true
+  }
+};
+
+export class ClaimWorkflowError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'ClaimWorkflowError';
+    this.statusCode = statusCode;
+  }
+}
+
+export const toClaimActor = (user: IUser): ClaimActor => ({ id: user._id, role: user.role });
+
+// Claim creator ID, whether or not userId has been populated
+export const getClaimOwnerId = (claim: IClaim): string => {
+  const owner = claim.userId as any;
+  return (owner?._id || owner).toString();
+};
+
+// Statuses in which the claim waits on its creator; the SLA clock stops while it is in one
+export const SLA_PAUSED_STATUSES: ClaimStatus[] = ['info_requested'];
+
+// Time the claim has spent with reviewers and admins since submission, leaving out any time
+// it spent waiting on the creator
+export const getSlaElapsedMs = (claim: IClaim, now: Date = new Date()): number => {
+  const runningPause = claim.slaPausedAt ? now.getTime() - claim.slaPausedAt.getTime() : 0;
+  return Math.max(0, now.getTime() - claim.createdAt.getTime() - (claim.slaPausedMs || 0) - runningPause);
+};
+
+// Status each history action moves a claim into; other actions leave the status alone
+const STAGE_ENTRY_ACTIONS = new Map<ClaimHistoryAction, ClaimStatus>(
+  Object.values(CLAIM_WORKFLOW)
+    .filter(transition => transition.to)
+    .map(transition => [transition.historyAction, transition.to!])
+);
+
+// The history entries getStageTimeline needs
+export const STAGE_HISTORY_ACTIONS: ClaimHistoryAction[] = [...STAGE_ENTRY_ACTIONS.keys()];
+
+// Statuses no transition leads out of
+export const FINAL_STATUSES: ClaimStatus[] = CLAIM_STATUSES.filter(status =>
+  !Object.values(CLAIM_WORKFLOW).some(transition => transition.to && transition.from.includes(status))
+);
+
+export interface ClaimStage {
+  status: ClaimStatus;
+  enteredAt: Date;
+  // Null while the claim is still in this status
+  leftAt: Date | null;
+  durationMs: number;
+}
+
+// The statuses a claim has been through, rebuilt from its history timestamps. The last stage
+// keeps running until now unless the claim has reached a final status.
+export const getStageTimeline = (
+  claim: Pick<IClaim, 'createdAt' | 'history'>,
+  now: Date = new Date()
+): ClaimStage[] => {
+  const stages: ClaimStage[] = [{ status: 'pending', enteredAt: new Date(claim.createdAt), leftAt: null, durationMs: 0 }];
+
+  [...(claim.history || [])]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .forEach(entry => {
+      const status = STAGE_ENTRY_ACTIONS.get(entry.action);
+      if (!status) {
+        return;
+      }
+      const current = stages[stages.length - 1]!;
+      const at = new Date(entry.timestamp);
+      current.leftAt = at;
+      current.durationMs = Math.max(0, at.getTime() - current.enteredAt.getTime());
+      stages.push({ status, enteredAt: at, leftAt: null, durationMs: 0 });
+    });
+
+  const current = stages[stages.length - 1]!;
+  if (!FINAL_STATUSES.includes(current.status)) {
+    current.durationMs = Math.max(0, now.getTime() - current.enteredAt.getTime());
+  }
+  return stages;
+};
+
+// Time spent waiting on the creator before the given moment, from a stage timeline
+export const getPausedMsBefore = (stages: ClaimStage[], at: Date): number =>
+  stages
+    .filter(stage => SLA_PAUSED_STATUSES.includes(stage.status) && stage.enteredAt < at)
+    .reduce((sum, stage) =>
+      sum + Math.min((stage.leftAt || at).getTime(), at.getTime()) - stage.enteredAt.getTime(), 0);
+
+const APPROVAL_ACTIONS: ClaimHistoryAction[] = [
+  CLAIM_WORKFLOW.account_approve.historyAction,
+  CLAIM_WORKFLOW.record_approval.historyAction
+];
+const REVIEW_ACTIONS: ClaimHistoryAction[] = Object.values(CLAIM_WORKFLOW)
+  .filter(transition => transition.review)
+  .map(transition => transition.historyAction);
+
+// Actions after which earlier approvals no longer count: an admin sending the claim back, or the
+// posts or earnings changing under them
+const APPROVAL_RESET_ACTIONS: ClaimHistoryAction[] = [
+  CLAIM_WORKFLOW.admin_send_back.historyAction,
+  CLAIM_WORKFLOW.edit_claim.historyAction,
+  CLAIM_WORKFLOW.recalculate_earnings.historyAction
+];
+
+const distinctActors = (entries: IClaim['history']): string[] =>
+  [...new Set(entries.filter(entry => entry.by).map(entry => entry.by!.toString()))];
+
+// History since approvals last started over
+export const getApprovalRound = (claim: Pick<IClaim, 'history'>): IClaim['history'] => {
+  const history = claim.history || [];
+  const restartedAt = Math.max(...APPROVAL_RESET_ACTIONS.map(action => history.map(entry => entry.action).lastIndexOf(action)));
+  return history.slice(restartedAt + 1);
+};
+
+// Account users who approved the claim as it stands now
+export const getApproverIds = (claim: Pick<IClaim, 'history'>): string[] =>
+  distinctActors(getApprovalRound(claim).filter(entry => APPROVAL_ACTIONS.includes(entry.action)));
+
+// Everyone who has reviewed the claim at any point, none of whom may give it final approval
+export const getReviewerIds = (claim: Pick<IClaim, 'history'>): string[] =>
+  distinctActors((claim.history || []).filter(entry => REVIEW_ACTIONS.includes(entry.action)));
+
+// History entries that do not mean anyone has reviewed the claim: the creator's own edits and
+// what the system records on its own
+const PRE_REVIEW_ACTIONS: ClaimHistoryAction[] = ['submitted', 'claim_edited', 'claim_assigned', 'sla_breached', 'lock_broken'];
+
+// Whether a reviewer or admin has acted on the claim since it was submitted, even if it has
+// since returned to pending (information requested, sent back, a first approval recorded)
+export const hasReviewStarted = (claim: Pick<IClaim, 'history'>): boolean =>
+  (claim.history || []).some(entry => !PRE_REVIEW_ACTIONS.includes(entry.action));
+
+const isActorAllowed = (claim: IClaim, transition: ClaimTransition, actor: ClaimActor): boolean => {
+  if (!transition.roles.includes(actor.role)) {
+    return false;
+  }
+  return !transition.creatorOnly || getClaimOwnerId(claim) === actor.id.toString();
+};
+
+// Validate a transition and return its definition, throwing if it may not be fired
+export const assertTransition = (claim: IClaim, name: ClaimTransitionName, actor: ClaimActor): ClaimTransition => {
+  const transition = CLAIM_WORKFLOW[name];
+
+  if (!isActorAllowed(claim, transition, actor)) {
+    throw new ClaimWorkflowError(`Not authorized to perform ${name} on this claim`, 403);
+  }
+
+  if (!transition.from.includes(claim.status)) {
+    throw new ClaimWorkflowError(
+      `Cannot perform ${name} when claim status is ${claim.status} (allowed: ${transition.from.join(', ')})`,
+      409
+    );
+  }
+
+  if (transition.beforeReviewOnly && hasReviewStarted(claim)) {
+    throw new ClaimWorkflowError(`Cannot perform ${name} once review of the claim has started`, 409);
+  }
+
+  return transition;
+};
+
+// Transitions the given user may currently fire on a claim
+export const getAvailableTransitions = (claim: IClaim, actor: ClaimActor): ClaimTransitionName[] => {
+  return (Object.keys(CLAIM_WORKFLOW) as ClaimTransitionName[]).filter(name => {
+    const transition = CLAIM_WORKFLOW[name];
+    return !transition.internal &&
+      transition.from.includes(claim.status) &&
+      isActorAllowed(claim, transition, actor) &&
+      !(transition.beforeReviewOnly && hasReviewStarted(claim));
+  });
+};
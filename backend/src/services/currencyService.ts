@@ -0,0 +1,109 @@
+import mongoose from 'mongoose';
+import ExchangeRate, { IExchangeRate } from '../models/ExchangeRate';
+import { getReportingCurrency } from '../config/currency';
+import { ClaimWorkflowError } from './claimWorkflow';
+
+// Units of the reporting currency per unit of each currency with a rate
+export type ExchangeRateTable = Map<string, number>;
+
+export class CurrencyService {
+  // Live rates keyed by currency; the reporting currency is always 1
+  static async getRateTable(): Promise<ExchangeRateTable> {
+    try {
+      const rates = await ExchangeRate.find({ isActive: true });
+      const table: ExchangeRateTable = new Map(rates.map(entry => [entry.currency, entry.rate]));
+      table.set(getReportingCurrency(), 1);
+      return table;
+    } catch (error) {
+      throw new Error(`Error fetching exchange rates: ${error}`);
+    }
+  }
+
+  static getRate(table: ExchangeRateTable, currency: string): number {
+    const rate = table.get(currency);
+    if (rate === undefined) {
+      throw new ClaimWorkflowError(`No exchange rate has been set for ${currency}. Ask an admin to add one.`, 422);
+    }
+    return rate;
+  }
+
+  // Multiplier taking an amount in one currency to another
+  static getFactor(table: ExchangeRateTable, from: string, to: string): number {
+    if (from === to) return 1;
+    return this.getRate(table, from) / this.getRate(table, to);
+  }
+
+  // Live rates, one per currency
+  static async getRates(): Promise<IExchangeRate[]> {
+    try {
+      return await ExchangeRate.find({ isActive: true })
+        .populate('updatedBy', 'name')
+        .sort({ currency: 1 });
+    } catch (error) {
+      throw new Error(`Error fetching exchange rates: ${error}`);
+    }
+  }
+
+  // Every rate ever set, newest first
+  static async getRateHistory(currency?: string): Promise<IExchangeRate[]> {
+    try {
+      const query: any = {};
+      if (currency) query.currency = currency.toUpperCase();
+
+      return await ExchangeRate.find(query)
+        .populate('createdBy', 'name')
+        .sort({ createdAt: -1 })
+        .limit(200);
+    } catch (error) {
+      throw new Error(`Error fetching exchange rate history: ${error}`);
+    }
+  }
+
+  // Replace the live rate for a currency; the previous row stays as history
+  static async setRate(currency: string, rate: number, adminId: mongoose.Types.ObjectId, note?: string): Promise<IExchangeRate> {
+    try {
+      const code = currency.toUpperCase();
+      if (code === getReportingCurrency()) {
+        throw new ClaimWorkflowError(`${code} is the reporting currency; its rate is always 1`, 400);
+      }
+
+      await ExchangeRate.updateMany(
+        { currency: code, isActive: true },
+        { isActive: false, updatedBy: adminId }
+      );
+
+      const entry = new ExchangeRate({
+        currency: code,
+        rate,
+        note,
+        createdBy: adminId,
+        updatedBy: adminId
+      });
+      await entry.save();
+      await entry.populate('updatedBy', 'name');
+
+      return entry;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error setting exchange rate: ${error}`);
+    }
+  }
+
+  // Stop converting a currency; claims already approved keep their stored rate
+  static async removeRate(currency: string, adminId: mongoose.Types.ObjectId): Promise<void> {
+    try {
+      const result = await ExchangeRate.updateMany(
+        { currency: currency.toUpperCase(), isActive: true },
+        { isActive: false, updatedBy: adminId }
+      );
+      if (result.matchedCount === 0) {
+        throw new ClaimWorkflowError('Exchange rate not found', 404);
+      }
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error removing exchange rate: ${error}`);
+    }
+  }
+}
+
+export default CurrencyService;
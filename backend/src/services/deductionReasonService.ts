@@ -0,0 +1,123 @@
+import mongoose from 'mongoose';
+import DeductionReason, { IDeductionReason } from '../models/DeductionReason';
+import { getReportingCurrency } from '../config/currency';
+import { convertMinorUnits, toMinorUnits } from '../utils/money';
+import { ClaimWorkflowError } from './claimWorkflow';
+
+// Editable details of a catalogue entry; amounts are decimals in the reporting currency
+export interface DeductionReasonData {
+  label: string;
+  description?: string;
+  defaultPercent: number | null;
+  defaultAmount: number | null;
+}
+
+// Suggested deduction in minor units of the claim currency, or null when the reason has no
+// default. `earned` is what the post (or whole claim) earned; `factor` takes the reporting
+// currency to the claim currency.
+export const getDefaultDeduction = (
+  reason: IDeductionReason,
+  earned: number,
+  currency: string,
+  factor: number
+): number | null => {
+  if (reason.defaultPercent != null) {
+    return Math.round(earned * reason.defaultPercent / 100);
+  }
+  if (reason.defaultAmount != null) {
+    return convertMinorUnits(reason.defaultAmount, getReportingCurrency(), currency, factor);
+  }
+  return null;
+};
+
+export class DeductionReasonService {
+  static async getReasons(includeInactive = false): Promise<IDeductionReason[]> {
+    try {
+      const query = includeInactive ? {} : { isActive: true };
+      return await DeductionReason.find(query)
+        .populate('updatedBy', 'name')
+        .sort({ isActive: -1, label: 1 });
+    } catch (error) {
+      throw new Error(`Error fetching deduction reasons: ${error}`);
+    }
+  }
+
+  // Live catalogue entries for the given codes, keyed by code
+  static async getActiveByCode(codes: string[]): Promise<Map<string, IDeductionReason>> {
+    try {
+      const reasons = await DeductionReason.find({ code: { $in: codes }, isActive: true });
+      return new Map(reasons.map(reason => [reason.code, reason]));
+    } catch (error) {
+      throw new Error(`Error fetching deduction reasons: ${error}`);
+    }
+  }
+
+  // A retired code is brought back with the new details rather than duplicated
+  static async createReason(code: string, data: DeductionReasonData, adminId: mongoose.Types.ObjectId): Promise<IDeductionReason> {
+    try {
+      const existing = await DeductionReason.findOne({ code });
+      if (existing?.isActive) {
+        throw new ClaimWorkflowError(`Reason code ${code} already exists`, 409);
+      }
+
+      const reason = existing || new DeductionReason({ code, createdBy: adminId });
+      reason.set({
+        ...this.toStored(data),
+        isActive: true,
+        updatedBy: adminId
+      });
+
+      return await reason.save();
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error creating deduction reason: ${error}`);
+    }
+  }
+
+  // The code itself is fixed; deduction lines refer to it
+  static async updateReason(reasonId: string, data: DeductionReasonData, adminId: mongoose.Types.ObjectId): Promise<IDeductionReason> {
+    try {
+      const reason = await DeductionReason.findOne({ _id: reasonId, isActive: true });
+      if (!reason) {
+        throw new ClaimWorkflowError('Deduction reason not found', 404);
+      }
+
+      reason.set({
+        ...this.toStored(data),
+        updatedBy: adminId
+      });
+
+      return await reason.save();
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error updating deduction reason: ${error}`);
+    }
+  }
+
+  // Soft delete; existing deduction lines keep the code and label they were given
+  static async deactivateReason(reasonId: string, adminId: mongoose.Types.ObjectId): Promise<void> {
+    try {
+      const result = await DeductionReason.updateOne(
+        { _id: reasonId, isActive: true },
+        { isActive: false, updatedBy: adminId }
+      );
+      if (result.matchedCount === 0) {
+        throw new ClaimWorkflowError('Deduction reason not found', 404);
+      }
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error removing deduction reason: ${error}`);
+    }
+  }
+
+  private static toStored(data: DeductionReasonData) {
+    return {
+      label: data.label,
+      description: data.description,
+      defaultPercent: data.defaultPercent,
+      defaultAmount: data.defaultAmount == null ? null : toMinorUnits(data.defaultAmount, getReportingCurrency())
+    };
+  }
+}
+
+export default DeductionReasonService;
@@ -0,0 +1,223 @@
+import { IAdminSettings, ICurrencyRates, IRateTier, ITagMultiplier } from '../models/AdminSettings';
+import { CURRENCY_CODE_PATTERN } from '../config/currency';
+import { convertMinorUnits, sumMinorUnits, toMinorUnits } from '../utils/money';
+
+// The parts of a rate card the formula reads. Caps and the minimum payout are in minor units of
+// the formula currency; every amount the formula returns is too.
+export type EarningsFormula = Pick<
+  IAdminSettings,
+  'currency' | 'ratePerLike' | 'ratePer100Views' | 'likeTiers' | 'viewTiers' | 'maxPerPost' | 'maxPerClaim' | 'minPayout' | 'tagMultipliers'
+>;
+
+export interface PostMetrics {
+  likeCount: number;
+  viewCount: number;
+  tags?: string[];
+}
+
+export interface PostEarnings {
+  likeEarnings: number;
+  viewEarnings: number;
+  multiplier: number;
+  // Amount was cut down to maxPerPost
+  capped: boolean;
+  amount: number;
+}
+
+export interface ClaimEarnings {
+  total: number;
+  // Total was cut down to maxPerClaim
+  capped: boolean;
+  belowMinimum: boolean;
+}
+
+// Progressive tiers: each tier's rate applies to the units between the previous bound and
+// its own upTo. Without tiers the flat rate applies to every unit.
+const applyTiers = (units: number, tiers: IRateTier[] | undefined, flatRate: number, unitSize: number): number => {
+  if (!tiers || tiers.length === 0) {
+    return (units / unitSize) * flatRate;
+  }
+
+  let total = 0;
+  let lowerBound = 0;
+  for (const tier of tiers) {
+    const upperBound = tier.upTo ?? Infinity;
+    const unitsInTier = Math.max(0, Math.min(units, upperBound) - lowerBound);
+    total += (unitsInTier / unitSize) * tier.rate;
+    lowerBound = upperBound;
+    if (units <= upperBound) {
+      return total;
+    }
+  }
+
+  // Units beyond a bounded last tier keep earning at that tier's rate
+  const lastTier = tiers[tiers.length - 1]!;
+  return total + ((units - lowerBound) / unitSize) * lastTier.rate;
+};
+
+// Highest bonus among the post's tags; 1 when none match
+const getTagMultiplier = (tags: string[] | undefined, multipliers: ITagMultiplier[] | undefined): number => {
+  if (!tags || !multipliers || multipliers.length === 0) {
+    return 1;
+  }
+  const postTags = new Set(tags.map(tag => tag.toLowerCase()));
+  const matches = multipliers.filter(entry => postTags.has(entry.tag.toLowerCase()));
+  return matches.length > 0 ? Math.max(...matches.map(entry => entry.multiplier)) : 1;
+};
+
+export const calculatePostEarnings = (formula: EarningsFormula, post: PostMetrics): PostEarnings => {
+  const likeEarnings = applyTiers(post.likeCount, formula.likeTiers, formula.ratePerLike, 1);
+  const viewEarnings = applyTiers(post.viewCount, formula.viewTiers, formula.ratePer100Views, 100);
+  const multiplier = getTagMultiplier(post.tags, formula.tagMultipliers);
+
+  let amount = toMinorUnits((likeEarnings + viewEarnings) * multiplier, formula.currency);
+  let capped = false;
+  if (formula.maxPerPost != null && amount > formula.maxPerPost) {
+    amount = formula.maxPerPost;
+    capped = true;
+  }
+
+  return {
+    likeEarnings: toMinorUnits(likeEarnings, formula.currency),
+    viewEarnings: toMinorUnits(viewEarnings, formula.currency),
+    multiplier,
+    capped,
+    amount
+  };
+};
+
+// A negotiated flat rate replaces the card's rates and tiers; caps and tag bonuses still apply
+export const withOverrideRates = (
+  formula: EarningsFormula,
+  rates: { ratePerLike: number, ratePer100Views: number }
+): EarningsFormula => ({
+  currency: formula.currency,
+  ratePerLike: rates.ratePerLike,
+  ratePer100Views: rates.ratePer100Views,
+  likeTiers: [],
+  viewTiers: [],
+  maxPerPost: formula.maxPerPost,
+  maxPerClaim: formula.maxPerClaim,
+  minPayout: formula.minPayout,
+  tagMultipliers: formula.tagMultipliers
+});
+
+// The formula in another currency. Rates the card lists for that currency replace its flat rates
+// and tiers; everything else is converted with the exchange rate factor.
+export const convertFormula = (
+  formula: EarningsFormula,
+  currency: string,
+  factor: number,
+  currencyRates?: ICurrencyRates
+): EarningsFormula => {
+  const convertAmount = (amount: number | null | undefined) =>
+    amount == null ? amount : convertMinorUnits(amount, formula.currency, currency, factor);
+  const convertTiers = (tiers: IRateTier[] | undefined) =>
+    (tiers || []).map(tier => ({ upTo: tier.upTo, rate: tier.rate * factor }));
+
+  return {
+    currency,
+    ratePerLike: currencyRates ? currencyRates.ratePerLike : formula.ratePerLike * factor,
+    ratePer100Views: currencyRates ? currencyRates.ratePer100Views : formula.ratePer100Views * factor,
+    likeTiers: currencyRates ? [] : convertTiers(formula.likeTiers),
+    viewTiers: currencyRates ? [] : convertTiers(formula.viewTiers),
+    maxPerPost: convertAmount(formula.maxPerPost),
+    maxPerClaim: convertAmount(formula.maxPerClaim),
+    minPayout: convertAmount(formula.minPayout) || 0,
+    tagMultipliers: formula.tagMultipliers
+  };
+};
+
+// Claim-level rules applied to the sum of post amounts
+export const applyClaimRules = (formula: EarningsFormula, postAmounts: number[]): ClaimEarnings => {
+  let total = sumMinorUnits(postAmounts);
+  let capped = false;
+  if (formula.maxPerClaim != null && total > formula.maxPerClaim) {
+    total = formula.maxPerClaim;
+    capped = true;
+  }
+
+  return {
+    total,
+    capped,
+    belowMinimum: total < (formula.minPayout || 0)
+  };
+};
+
+const validateTiers = (tiers: unknown, label: string): string | null => {
+  if (tiers === undefined) return null;
+  if (!Array.isArray(tiers)) return `${label} must be a list`;
+
+  let previousBound = 0;
+  for (const [index, tier] of tiers.entries()) {
+    if (typeof tier?.rate !== 'number' || tier.rate < 0) {
+      return `${label} rates must be non-negative numbers`;
+    }
+    const isLast = index === tiers.length - 1;
+    if (tier.upTo === null || tier.upTo === undefined) {
+      if (!isLast) return `Only the last of the ${label} can be open-ended`;
+      continue;
+    }
+    if (typeof tier.upTo !== 'number' || tier.upTo <= previousBound) {
+      return `${label} limits must be increasing positive numbers`;
+    }
+    previousBound = tier.upTo;
+  }
+  return null;
+};
+
+const isOptionalAmount = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'number' && value >= 0);
+
+// Returns an error message for an invalid formula, or null when it can be saved
+export const validateFormula = (data: Record<string, any>): string | null => {
+  const tierError = validateTiers(data.likeTiers, 'like tiers') || validateTiers(data.viewTiers, 'view tiers');
+  if (tierError) return tierError;
+
+  if (!isOptionalAmount(data.maxPerPost) || !isOptionalAmount(data.maxPerClaim) || !isOptionalAmount(data.minPayout)) {
+    return 'Caps and minimum payout must be non-negative numbers';
+  }
+
+  if (data.maxPerPost != null && data.maxPerClaim != null && data.maxPerClaim < data.maxPerPost) {
+    return 'Per-claim cap cannot be lower than the per-post cap';
+  }
+
+  if (data.tagMultipliers !== undefined) {
+    if (!Array.isArray(data.tagMultipliers)) return 'Tag multipliers must be a list';
+    const seen = new Set<string>();
+    for (const entry of data.tagMultipliers) {
+      if (typeof entry?.tag !== 'string' || !entry.tag.trim()) {
+        return 'Every tag multiplier needs a tag';
+      }
+      if (typeof entry.multiplier !== 'number' || entry.multiplier < 0) {
+        return 'Tag multipliers must be non-negative numbers';
+      }
+      const tag = entry.tag.trim().toLowerCase();
+      if (seen.has(tag)) return `Tag "${entry.tag}" has more than one multiplier`;
+      seen.add(tag);
+    }
+  }
+
+  if (data.currency !== undefined && !CURRENCY_CODE_PATTERN.test(String(data.currency).toUpperCase())) {
+    return 'Currency must be a three-letter code';
+  }
+
+  if (data.currencyRates !== undefined) {
+    if (!Array.isArray(data.currencyRates)) return 'Currency rates must be a list';
+    const seen = new Set<string>();
+    for (const entry of data.currencyRates) {
+      const code = typeof entry?.currency === 'string' ? entry.currency.trim().toUpperCase() : '';
+      if (!CURRENCY_CODE_PATTERN.test(code)) {
+        return 'Every currency rate needs a three-letter currency code';
+      }
+      if (typeof entry.ratePerLike !== 'number' || entry.ratePerLike < 0 ||
+          typeof entry.ratePer100Views !== 'number' || entry.ratePer100Views < 0) {
+        return `Rates for ${code} must be non-negative numbers`;
+      }
+      if (seen.has(code)) return `${code} has more than one set of rates`;
+      seen.add(code);
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,302 @@
+import mongoose from 'mongoose';
+import Claim, { ClaimStatus, IRiskAssessment, RiskLevel } from '../models/Claim';
+import EngagementEvent, { EngagementType } from '../models/EngagementEvent';
+import Post, { IPost } from '../models/Post';
+import { ClaimWorkflowError } from './claimWorkflow';
+
+const MINUTE_MS = 60 * 1000;
+
+// A viewer's views count once per window of this length; a like counts once per viewer
+const VIEW_DEDUP_WINDOW_MS = 30 * MINUTE_MS;
+
+// Counted events from one IP on one post past this many are suspect
+const IP_EVENT_CAP = 25;
+
+// A minute is a burst when it has at least this many counted events, and this many times the
+// post's average over its other active minutes
+const BURST_MIN_EVENTS = 10;
+const BURST_RATIO = 5;
+
+// Claims whose payout can still be changed, and so are worth scoring
+const ASSESSED_STATUSES: ClaimStatus[] = [
+  'pending', 'info_requested', 'deducted', 'user_accepted', 'user_rejected', 'escalated', 'account_approved'
+];
+
+const COUNTER_FIELDS: Record<EngagementType, 'viewCount' | 'likeCount'> = {
+  view: 'viewCount',
+  like: 'likeCount'
+};
+
+// Who sent a view or like
+export interface EngagementViewer {
+  userId?: mongoose.Types.ObjectId | null;
+  fingerprint?: string | null;
+  ip: string;
+  userAgent?: string | null;
+}
+
+// How trustworthy one counter of a post is
+export interface EngagementSignals {
+  // The post counter earnings are paid on
+  counter: number;
+  // Counted events behind the counter, and the part of the counter with no event on record
+  // (sent before events were kept, or written to the post directly)
+  tracked: number;
+  untracked: number;
+  // Events from viewers who were already counted, left out of the counter; only the last
+  // REPEAT_RETENTION_DAYS are kept
+  repeats: number;
+  // Counted events from viewers who were not signed in
+  anonymous: number;
+  // Share of counted events from the busiest IP, 0-1
+  topIpShare: number;
+  peakPerMinute: number;
+  burstMinutes: number;
+  // Engagement a reviewer may want to deduct: untracked, plus whichever is larger of the burst
+  // excess and the events past the per-IP cap
+  suspect: number;
+}
+
+export interface PostRisk {
+  postId: string;
+  contentText: string;
+  score: number;
+  level: RiskLevel;
+  views: EngagementSignals;
+  likes: EngagementSignals;
+  // Plain-language reasons behind the score
+  flags: string[];
+}
+
+export interface ClaimRisk extends IRiskAssessment {
+  claimId: string;
+  posts: PostRisk[];
+}
+
+// How often open claims are rescored, configured through RISK_ASSESSMENT_INTERVAL_MINUTES
+export const getRiskAssessmentIntervalMs = (): number => {
+  const minutes = Number(process.env.RISK_ASSESSMENT_INTERVAL_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : 15) * MINUTE_MS;
+};
+
+const toLevel = (score: number): RiskLevel => score >= 60 ? 'high' : score >= 30 ? 'medium' : 'low';
+
+const share = (part: number, whole: number): number => whole > 0 ? Math.min(1, part / whole) : 0;
+
+// Signed-in users are told apart by account and everyone else by IP. The browser fingerprint is
+// left out: the client picks it, so a fresh one per request would count every request.
+export const getViewerKey = (viewer: EngagementViewer): string =>
+  viewer.userId ? `user:${viewer.userId}` : `ip:${viewer.ip}`;
+
+// Per-post, per-type tallies keyed by `${postId}:${type}`
+type Tally<T> = Map<string, T>;
+const tallyKey = (postId: unknown, type: EngagementType): string => `${postId}:${type}`;
+
+export class EngagementService {
+  // Record a view or like and bump the post counter unless the viewer was already counted.
+  // Null when there is no such post.
+  static async record(postId: string, type: EngagementType, viewer: EngagementViewer): Promise<{ post: IPost, counted: boolean } | null> {
+    try {
+      if (!mongoose.isValidObjectId(postId) || !await Post.exists({ _id: postId })) {
+        return null;
+      }
+
+      const now = Date.now();
+      const event = {
+        postId,
+        type,
+        viewerKey: getViewerKey(viewer),
+        dedupWindow: new Date(type === 'view' ? now - (now % VIEW_DEDUP_WINDOW_MS) : 0),
+        userId: viewer.userId || null,
+        fingerprint: viewer.fingerprint || null,
+        ip: viewer.ip,
+        userAgent: viewer.userAgent || null
+      };
+
+      // The unique index settles which of two concurrent events from one viewer is counted
+      let counted = true;
+      try {
+        await EngagementEvent.create({ ...event, counted: true });
+      } catch (error: any) {
+        if (error.code !== 11000) throw error;
+        counted = false;
+        await EngagementEvent.create({ ...event, counted: false });
+      }
+
+      const post = counted
+        ? await Post.findByIdAndUpdate(postId, { $inc: { [COUNTER_FIELDS[type]]: 1 } }, { new: true })
+        : await Post.findById(postId);
+
+      return post ? { post, counted } : null;
+    } catch (error) {
+      throw new Error(`Error recording engagement: ${error}`);
+    }
+  }
+
+  // Score the claim's posts and store the result on the claim
+  static async assessClaim(claimId: string): Promise<ClaimRisk> {
+    try {
+      const claim = await Claim.findById(claimId).select('postIds');
+      if (!claim) {
+        throw new ClaimWorkflowError('Claim not found', 404);
+      }
+
+      const posts = await this.assessPosts(claim.postIds);
+
+      // Weighted by engagement, as that is what the claim is paid on
+      const weights = posts.map(post => post.views.counter + post.likes.counter);
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      const score = totalWeight > 0
+        ? Math.round(posts.reduce((sum, post, index) => sum + post.score * weights[index]!, 0) / totalWeight)
+        : 0;
+
+      const risk: IRiskAssessment = { score, level: toLevel(score), assessedAt: new Date() };
+      // Kept out of the version check: a fresh score must not make a reviewer's save fail
+      await Claim.updateOne({ _id: claim._id }, { $set: { risk } });
+
+      return { claimId: claim._id.toString(), ...risk, posts };
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error assessing claim risk: ${error}`);
+    }
+  }
+
+  // Rescore every claim whose payout is still open; returns how many were scored
+  static async assessOpenClaims(): Promise<number> {
+    try {
+      const claims = await Claim.find({ status: { $in: ASSESSED_STATUSES }, isActive: true }).select('_id');
+      for (const claim of claims) {
+        await this.assessClaim(claim._id.toString());
+      }
+      return claims.length;
+    } catch (error) {
+      throw new Error(`Error assessing open claims: ${error}`);
+    }
+  }
+
+  static async assessPosts(postIds: mongoose.Types.ObjectId[]): Promise<PostRisk[]> {
+    const ids = postIds.map(id => new mongoose.Types.ObjectId(id.toString()));
+    const [posts, counts, perIp, perMinute] = await Promise.all([
+      Post.find({ _id: { $in: ids } }).select('contentText viewCount likeCount'),
+      EngagementEvent.aggregate([
+        { $match: { postId: { $in: ids } } },
+        {
+          $group: {
+            _id: { postId: '$postId', type: '$type' },
+            tracked: { $sum: { $cond: ['$counted', 1, 0] } },
+            repeats: { $sum: { $cond: ['$counted', 0, 1] } },
+            anonymous: {
+              $sum: { $cond: [{ $and: ['$counted', { $not: ['$userId'] }] }, 1, 0] }
+            }
+          }
+        }
+      ]),
+      EngagementEvent.aggregate([
+        { $match: { postId: { $in: ids }, counted: true } },
+        { $group: { _id: { postId: '$postId', type: '$type', ip: '$ip' }, count: { $sum: 1 } } }
+      ]),
+      EngagementEvent.aggregate([
+        { $match: { postId: { $in: ids }, counted: true } },
+        {
+          $group: {
+            _id: {
+              postId: '$postId',
+              type: '$type',
+              minute: { $subtract: [{ $toLong: '$createdAt' }, { $mod: [{ $toLong: '$createdAt' }, MINUTE_MS] }] }
+            },
+            count: { $sum: 1 }
+          }
+        }
+      ])
+    ]);
+
+    const countsOf: Tally<{ tracked: number, repeats: number, anonymous: number }> = new Map(
+      counts.map(entry => [tallyKey(entry._id.postId, entry._id.type), entry])
+    );
+    const groupCounts = (entries: any[]): Tally<number[]> => {
+      const grouped: Tally<number[]> = new Map();
+      entries.forEach(entry => {
+        const key = tallyKey(entry._id.postId, entry._id.type);
+        grouped.set(key, [...(grouped.get(key) || []), entry.count]);
+      });
+      return grouped;
+    };
+    const ipCounts = groupCounts(perIp);
+    const minuteCounts = groupCounts(perMinute);
+
+    const signalsFor = (post: IPost, type: EngagementType): EngagementSignals => {
+      const key = tallyKey(post._id, type);
+      const { tracked = 0, repeats = 0, anonymous = 0 } = countsOf.get(key) || {};
+      const counter = post[COUNTER_FIELDS[type]] || 0;
+      const untracked = Math.max(0, counter - tracked);
+
+      const ips = ipCounts.get(key) || [];
+      const ipExcess = ips.reduce((sum, count) => sum + Math.max(0, count - IP_EVENT_CAP), 0);
+
+      // Each minute is measured against the post's average over its other active minutes
+      const minutes = minuteCounts.get(key) || [];
+      let burstMinutes = 0;
+      let burstExcess = 0;
+      minutes.forEach(count => {
+        const baseline = minutes.length > 1 ? Math.max(1, (tracked - count) / (minutes.length - 1)) : 1;
+        if (count >= BURST_MIN_EVENTS && count >= BURST_RATIO * baseline) {
+          burstMinutes++;
+          burstExcess += count - Math.ceil(baseline);
+        }
+      });
+
+      return {
+        counter,
+        tracked,
+        untracked,
+        repeats,
+        anonymous,
+        topIpShare: share(Math.max(0, ...ips), tracked),
+        peakPerMinute: Math.max(0, ...minutes),
+        burstMinutes,
+        suspect: Math.min(counter, untracked + Math.max(ipExcess, burstExcess))
+      };
+    };
+
+    return posts.map(post => {
+      const views = signalsFor(post, 'view');
+      const likes = signalsFor(post, 'like');
+      const counter = views.counter + likes.counter;
+      const tracked = views.tracked + likes.tracked;
+
+      const score = Math.round(100 * (
+        0.6 * share(views.suspect + likes.suspect, counter) +
+        0.2 * share(views.repeats + likes.repeats, tracked + views.repeats + likes.repeats) +
+        0.2 * share(views.anonymous + likes.anonymous, tracked)
+      ));
+
+      const flags: string[] = [];
+      ([['views', views], ['likes', likes]] as [string, EngagementSignals][]).forEach(([label, signals]) => {
+        if (signals.untracked > 0) {
+          flags.push(`${signals.untracked} ${label} have no recorded event`);
+        }
+        if (signals.burstMinutes > 0) {
+          flags.push(`${signals.burstMinutes} burst minute(s) of ${label}, peaking at ${signals.peakPerMinute}/min`);
+        }
+        if (signals.tracked >= IP_EVENT_CAP && signals.topIpShare >= 0.5) {
+          flags.push(`${Math.round(signals.topIpShare * 100)}% of ${label} came from one IP`);
+        }
+        if (signals.repeats > signals.tracked) {
+          flags.push(`${signals.repeats} repeat ${label} from viewers already counted`);
+        }
+      });
+
+      return {
+        postId: post._id.toString(),
+        contentText: post.contentText,
+        score,
+        level: toLevel(score),
+        views,
+        likes,
+        flags
+      };
+    });
+  }
+}
+
+export default EngagementService;
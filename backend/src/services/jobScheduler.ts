@@ -0,0 +1,261 @@
+import os from 'os';
+import mongoose from 'mongoose';
+import Job, { IJob, JobRunStatus } from '../models/Job';
+import JobRun, { IJobRun } from '../models/JobRun';
+import logger from '../config/logger';
+import { ClaimWorkflowError } from './claimWorkflow';
+
+const jobLogger = logger.child({ service: 'jobs' });
+
+const secondsFromEnv = (name: string, fallback: number): number => {
+  const seconds = Number(process.env[name]);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : fallback) * 1000;
+};
+
+// How often each instance looks for due jobs, configured through JOB_POLL_INTERVAL_SECONDS
+export const getJobPollIntervalMs = (): number => secondsFromEnv('JOB_POLL_INTERVAL_SECONDS', 15);
+
+// How long a run holds its job, configured through JOB_LEASE_SECONDS. Another instance takes the
+// job over once the lease runs out, so it must be longer than any run takes.
+export const getJobLeaseMs = (): number => secondsFromEnv('JOB_LEASE_SECONDS', 300);
+
+// Tries per scheduled run, the first included, configured through JOB_MAX_ATTEMPTS
+export const getJobMaxAttempts = (): number => {
+  const attempts = Number(process.env.JOB_MAX_ATTEMPTS);
+  return Number.isInteger(attempts) && attempts > 0 ? attempts : 3;
+};
+
+// The first retry waits this long and each one after waits twice as long, never more than the
+// job's own interval
+const RETRY_BASE_MS = 30 * 1000;
+
+export const getRetryDelayMs = (attempt: number, intervalMs: number): number =>
+  Math.min(intervalMs, RETRY_BASE_MS * 2 ** (attempt - 1));
+
+// Names this backend process in leases and run history
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+// Resolves to a short summary of what the run did, kept in the run history
+export type JobHandler = () => Promise<Record<string, any> | void>;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMs: number;
+  handler: JobHandler;
+}
+
+const definitions = new Map<string, JobDefinition>();
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+let definitionsSaved = false;
+
+// Recurring jobs kept in MongoDB. Every instance polls, but a job is leased to one instance at a
+// time, so a run happens once however many backends are up.
+export class JobScheduler {
+  static register(definition: JobDefinition): void {
+    definitions.set(definition.name, definition);
+  }
+
+  static isRegistered(name: string): boolean {
+    return definitions.has(name);
+  }
+
+  static start(): void {
+    if (pollTimer) {
+      return;
+    }
+
+    pollTimer = setInterval(() => this.poll(), getJobPollIntervalMs());
+    jobLogger.info('Job scheduler started', {
+      instanceId: INSTANCE_ID,
+      jobs: [...definitions.keys()],
+      pollIntervalMs: getJobPollIntervalMs()
+    });
+    this.poll();
+  }
+
+  static stop(): void {
+    if (pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  }
+
+  // Run every job that is due and not leased elsewhere; one pass at a time per instance
+  static async poll(): Promise<void> {
+    if (polling) {
+      return;
+    }
+
+    polling = true;
+    try {
+      if (!definitionsSaved) {
+        await this.saveDefinitions();
+        definitionsSaved = true;
+      }
+
+      for (const definition of definitions.values()) {
+        const job = await this.acquire(definition.name);
+        if (job) {
+          await this.execute(definition, job);
+        }
+      }
+    } catch (error: any) {
+      jobLogger.error('Job poll failed', { error: error.message });
+    } finally {
+      polling = false;
+    }
+  }
+
+  static async getJobs(): Promise<IJob[]> {
+    try {
+      return await Job.find().populate('updatedBy', 'name').sort({ name: 1 });
+    } catch (error) {
+      throw new Error(`Error fetching jobs: ${error}`);
+    }
+  }
+
+  // Most recent runs of a job, newest first
+  static async getRuns(name: string, limit: number = 50): Promise<IJobRun[]> {
+    try {
+      return await JobRun.find({ jobName: name }).sort({ startedAt: -1 }).limit(limit);
+    } catch (error) {
+      throw new Error(`Error fetching job runs: ${error}`);
+    }
+  }
+
+  // Run a job on the next poll, even a disabled one
+  static async requestRun(name: string, adminId: mongoose.Types.ObjectId): Promise<IJob> {
+    try {
+      if (!this.isRegistered(name)) {
+        throw new ClaimWorkflowError('Job not found', 404);
+      }
+
+      const now = new Date();
+      const job = await Job.findOneAndUpdate(
+        { name, $or: [{ lockExpiresAt: null }, { lockExpiresAt: { $lte: now } }] },
+        { $set: { runRequestedAt: now, nextRunAt: now, updatedBy: adminId } },
+        { new: true }
+      );
+      if (!job) {
+        throw new ClaimWorkflowError('This job is running now. Try again once it has finished.', 409);
+      }
+
+      return job;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error requesting job run: ${error}`);
+    }
+  }
+
+  static async setEnabled(name: string, enabled: boolean, adminId: mongoose.Types.ObjectId): Promise<IJob> {
+    try {
+      const job = await Job.findOneAndUpdate(
+        { name },
+        { $set: { enabled, updatedBy: adminId } },
+        { new: true }
+      );
+      if (!job) {
+        throw new ClaimWorkflowError('Job not found', 404);
+      }
+
+      return job;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error updating job: ${error}`);
+    }
+  }
+
+  // Create the jobs this instance knows about. Schedules already saved are kept, so a restart
+  // does not run everything again; descriptions and intervals follow the code.
+  private static async saveDefinitions(): Promise<void> {
+    await Promise.all([...definitions.values()].map(definition => Job.updateOne(
+      { name: definition.name },
+      {
+        $set: { description: definition.description, intervalMs: definition.intervalMs },
+        $setOnInsert: { nextRunAt: new Date() }
+      },
+      { upsert: true }
+    )));
+  }
+
+  // Take the lease on a due job; null when it is not due or another instance holds it
+  private static async acquire(name: string): Promise<IJob | null> {
+    const now = new Date();
+    return await Job.findOneAndUpdate(
+      {
+        name,
+        nextRunAt: { $lte: now },
+        $and: [
+          { $or: [{ enabled: true }, { runRequestedAt: { $ne: null } }] },
+          { $or: [{ lockExpiresAt: null }, { lockExpiresAt: { $lte: now } }] }
+        ]
+      },
+      { $set: { lockedBy: INSTANCE_ID, lockExpiresAt: new Date(now.getTime() + getJobLeaseMs()) } },
+      { new: true }
+    );
+  }
+
+  private static async execute(definition: JobDefinition, job: IJob): Promise<void> {
+    const startedAt = new Date();
+    const attempt = job.attempts + 1;
+    let status: JobRunStatus = 'succeeded';
+    let result: Record<string, any> | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      result = (await definition.handler()) || null;
+    } catch (error: any) {
+      status = 'failed';
+      errorMessage = error?.message || String(error);
+    }
+
+    const finishedAt = new Date();
+    const durationMs = finishedAt.getTime() - startedAt.getTime();
+
+    // A failed run is retried with backoff until the attempts are used up; after that the job
+    // waits for its next regular slot
+    const retry = status === 'failed' && attempt < getJobMaxAttempts();
+    const delayMs = retry ? getRetryDelayMs(attempt, definition.intervalMs) : definition.intervalMs;
+
+    await JobRun.create({
+      jobName: definition.name,
+      instanceId: INSTANCE_ID,
+      attempt,
+      manual: !!job.runRequestedAt,
+      startedAt,
+      finishedAt,
+      durationMs,
+      status,
+      result,
+      error: errorMessage
+    });
+
+    // Only while the lease is still ours; an instance that took the job over keeps the books now
+    await Job.updateOne(
+      { _id: job._id, lockedBy: INSTANCE_ID },
+      {
+        $set: {
+          lockedBy: null,
+          lockExpiresAt: null,
+          runRequestedAt: null,
+          nextRunAt: new Date(finishedAt.getTime() + delayMs),
+          attempts: retry ? attempt : 0,
+          lastRunAt: startedAt,
+          lastStatus: status,
+          lastError: errorMessage,
+          lastDurationMs: durationMs
+        }
+      }
+    );
+
+    if (status === 'failed') {
+      jobLogger.error('Job failed', { job: definition.name, attempt, error: errorMessage, retryInMs: retry ? delayMs : null });
+    } else {
+      jobLogger.info('Job finished', { job: definition.name, durationMs, result });
+    }
+  }
+}
+
+export default JobScheduler;
@@ -0,0 +1,81 @@
+import mongoose from 'mongoose';
+import Notification, { INotification, NotificationType } from '../models/Notification';
+import User, { IUser } from '../models/User';
+import { ClaimWorkflowError } from './claimWorkflow';
+
+export interface NotificationData {
+  type: NotificationType;
+  title: string;
+  message: string;
+  claimId?: mongoose.Types.ObjectId | null;
+}
+
+export class NotificationService {
+  // One notification per active user with the role; returns who was notified
+  static async notifyRole(role: IUser['role'], data: NotificationData): Promise<mongoose.Types.ObjectId[]> {
+    try {
+      const users = await User.find({ role, isActive: true }).select('_id');
+      if (users.length === 0) {
+        return [];
+      }
+
+      await Notification.insertMany(users.map(user => ({ ...data, userId: user._id })));
+      return users.map(user => user._id);
+    } catch (error) {
+      throw new Error(`Error creating notifications: ${error}`);
+    }
+  }
+
+  // Newest first, with the number still unread
+  static async getNotifications(userId: mongoose.Types.ObjectId, limit: number = 20): Promise<{ notifications: INotification[], unread: number }> {
+    try {
+      const [notifications, unread] = await Promise.all([
+        Notification.find({ userId }).sort({ createdAt: -1 }).limit(limit),
+        Notification.countDocuments({ userId, readAt: null })
+      ]);
+      return { notifications, unread };
+    } catch (error) {
+      throw new Error(`Error fetching notifications: ${error}`);
+    }
+  }
+
+  static async markRead(notificationId: string, userId: mongoose.Types.ObjectId): Promise<void> {
+    try {
+      const notification = mongoose.isValidObjectId(notificationId)
+        ? await Notification.findOne({ _id: notificationId, userId })
+        : null;
+      if (!notification) {
+        throw new ClaimWorkflowError('Notification not found', 404);
+      }
+
+      if (!notification.readAt) {
+        notification.readAt = new Date();
+        await notification.save();
+      }
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error marking notification read: ${error}`);
+    }
+  }
+
+  static async markAllRead(userId: mongoose.Types.ObjectId): Promise<number> {
+    try {
+      const result = await Notification.updateMany({ userId, readAt: null }, { $set: { readAt: new Date() } });
+      return result.modifiedCount;
+    } catch (error) {
+      throw new Error(`Error marking notifications read: ${error}`);
+    }
+  }
+
+  // Delete notifications read before the cutoff; returns how many went
+  static async purgeRead(readBefore: Date): Promise<number> {
+    try {
+      const result = await Notification.deleteMany({ readAt: { $ne: null, $lte: readBefore } });
+      return result.deletedCount;
+    } catch (error) {
+      throw new Error(`Error purging notifications: ${error}`);
+    }
+  }
+}
+
+export default NotificationService;
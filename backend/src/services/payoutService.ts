@@ -0,0 +1,260 @@
+import mongoose from 'mongoose';
+import Claim from '../models/Claim';
+import PayoutBatch, { IPayoutBatch } from '../models/PayoutBatch';
+import ClaimService from './claimService';
+import { ClaimActor, ClaimWorkflowError } from './claimWorkflow';
+import { getReportingCurrency } from '../config/currency';
+import { convertMinorUnits, fromMinorUnits, sumMinorUnits } from '../utils/money';
+
+const escapeCSV = (value: unknown): string => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+export class PayoutService {
+  // Readable batch number, e.g. PB-20261019-4821
+  private static generateBatchNumber(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const suffix = Math.round(Math.random() * 1E4).toString().padStart(4, '0');
+    return `PB-${date}-${suffix}`;
+  }
+
+  private static async findActiveBatch(batchId: string): Promise<IPayoutBatch> {
+    const batch = await PayoutBatch.findOne({ _id: batchId, isActive: true });
+    if (!batch) {
+      throw new ClaimWorkflowError('Payout batch not found', 404);
+    }
+    return batch;
+  }
+
+  // Group admin approved claims into a new payout batch
+  static async createBatch(claimIds: string[], admin: ClaimActor, note?: string): Promise<IPayoutBatch> {
+    try {
+      const uniqueClaimIds = [...new Set(claimIds.map(id => id.toString()))];
+      if (uniqueClaimIds.length === 0) {
+        throw new ClaimWorkflowError('At least one claim is required to create a payout batch', 400);
+      }
+
+      const claims = await Claim.find({
+        _id: { $in: uniqueClaimIds },
+        isActive: true,
+        status: 'admin_approved',
+        payoutBatchId: null
+      });
+
+      if (claims.length !== uniqueClaimIds.length) {
+        const eligibleIds = new Set(claims.map(claim => claim._id.toString()));
+        const ineligibleIds = uniqueClaimIds.filter(id => !eligibleIds.has(id));
+        throw new ClaimWorkflowError(
+          `Claims ${ineligibleIds.join(', ')} are not admin approved or already belong to a payout batch`,
+          409
+        );
+      }
+
+      // Finance pays each batch in one currency
+      const currencies = [...new Set(claims.map(claim => claim.currency))];
+      if (currencies.length > 1) {
+        throw new ClaimWorkflowError(
+          `Payout batches cannot mix currencies (${currencies.join(', ')}). Create one batch per currency.`,
+          409
+        );
+      }
+
+      // Each claim is converted on its own so the total matches the rows of the export
+      const reportingCurrency = getReportingCurrency();
+      const totalAmount = sumMinorUnits(claims.map(claim => claim.calculatedEarnings - claim.deductionAmount));
+      const reportingAmount = sumMinorUnits(claims.map(claim => convertMinorUnits(
+        claim.calculatedEarnings - claim.deductionAmount,
+        claim.currency,
+        reportingCurrency,
+        claim.exchangeRate ?? 1
+      )));
+
+      const batch = new PayoutBatch({
+        batchNumber: this.generateBatchNumber(),
+        claimIds: claims.map(claim => claim._id),
+        claimCount: claims.length,
+        currency: currencies[0],
+        totalAmount,
+        reportingAmount,
+        reportingCurrency,
+        status: 'draft',
+        note,
+        createdBy: admin.id,
+        updatedBy: admin.id
+      });
+      await batch.save();
+
+      // Reserve the claims; only those still unbatched are updated
+      const result = await Claim.updateMany(
+        { _id: { $in: batch.claimIds }, status: 'admin_approved', payoutBatchId: null },
+        { payoutBatchId: batch._id, updatedBy: admin.id }
+      );
+
+      if (result.modifiedCount !== claims.length) {
+        // Another batch picked up some of these claims in the meantime
+        await Claim.updateMany({ payoutBatchId: batch._id }, { payoutBatchId: null });
+        await PayoutBatch.deleteOne({ _id: batch._id });
+        throw new ClaimWorkflowError('Some claims were added to another payout batch at the same time. Please try again.', 409);
+      }
+
+      return batch;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error creating payout batch: ${error}`);
+    }
+  }
+
+  // Get payout batches with optional status filter
+  static async getBatches(filters: any, page: number = 1, limit: number = 10): Promise<{ batches: IPayoutBatch[], total: number }> {
+    const cappedLimit = Math.min(limit, 100);
+    try {
+      const query: any = { isActive: true };
+      if (filters.status) query.status = filters.status;
+
+      const [batches, total] = await Promise.all([
+        PayoutBatch.find(query)
+          .populate('createdBy', 'name')
+          .populate('paidBy', 'name')
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * cappedLimit)
+          .limit(cappedLimit),
+        PayoutBatch.countDocuments(query)
+      ]);
+
+      return { batches, total };
+    } catch (error) {
+      throw new Error(`Error fetching payout batches: ${error}`);
+    }
+  }
+
+  // Get a single batch with its claims and creators
+  static async getBatchById(batchId: string): Promise<IPayoutBatch> {
+    try {
+      const batch = await PayoutBatch.findOne({ _id: batchId, isActive: true })
+        .populate({
+          path: 'claimIds',
+          select: 'userId currency calculatedEarnings deductionAmount exchangeRate reportingCurrency status createdAt',
+          populate: { path: 'userId', select: 'name email' }
+        })
+        .populate('createdBy', 'name')
+        .populate('paidBy', 'name');
+
+      if (!batch) {
+        throw new ClaimWorkflowError('Payout batch not found', 404);
+      }
+
+      return batch;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error fetching payout batch: ${error}`);
+    }
+  }
+
+  // Build the CSV sent to finance and mark the batch as exported
+  static async exportBatch(batchId: string, admin: ClaimActor): Promise<{ batch: IPayoutBatch, csv: string }> {
+    try {
+      const batch = await this.getBatchById(batchId);
+      if (batch.status === 'cancelled') {
+        throw new ClaimWorkflowError('Cancelled payout batches cannot be exported', 409);
+      }
+
+      const rows: unknown[][] = [
+        ['Batch Number', 'Claim ID', 'Creator', 'Email', 'Currency', 'Earnings', 'Deduction', 'Payout Amount', 'Exchange Rate', 'Reporting Amount']
+      ];
+      const reportingCurrency = batch.reportingCurrency || getReportingCurrency();
+      (batch.claimIds as any[]).forEach(claim => {
+        const payoutAmount = claim.calculatedEarnings - claim.deductionAmount;
+        rows.push([
+          batch.batchNumber,
+          claim._id,
+          claim.userId?.name || 'N/A',
+          claim.userId?.email || 'N/A',
+          claim.currency,
+          fromMinorUnits(claim.calculatedEarnings, claim.currency),
+          fromMinorUnits(claim.deductionAmount, claim.currency),
+          fromMinorUnits(payoutAmount, claim.currency),
+          claim.exchangeRate ?? '',
+          claim.exchangeRate != null
+            ? fromMinorUnits(convertMinorUnits(payoutAmount, claim.currency, reportingCurrency, claim.exchangeRate), reportingCurrency)
+            : ''
+        ]);
+      });
+      rows.push([
+        '', '', '', '', batch.currency, '', 'Total',
+        fromMinorUnits(batch.totalAmount, batch.currency),
+        '',
+        batch.reportingAmount != null ? fromMinorUnits(batch.reportingAmount, reportingCurrency) : ''
+      ]);
+
+      const csv = rows.map(row => row.map(escapeCSV).join(',')).join('\n');
+
+      if (batch.status === 'draft') {
+        await PayoutBatch.updateOne(
+          { _id: batch._id },
+          { status: 'exported', exportedAt: new Date(), updatedBy: admin.id }
+        );
+        batch.status = 'exported';
+      }
+
+      return { batch, csv };
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error exporting payout batch: ${error}`);
+    }
+  }
+
+  // Record the payment and settle every claim in the batch
+  static async markBatchPaid(batchId: string, paymentReference: string, admin: ClaimActor): Promise<IPayoutBatch> {
+    try {
+      const batch = await this.findActiveBatch(batchId);
+      if (batch.status !== 'exported') {
+        throw new ClaimWorkflowError(
+          batch.status === 'draft'
+            ? 'Export the payout batch before marking it as paid'
+            : `Payout batch is already ${batch.status}`,
+          409
+        );
+      }
+
+      await ClaimService.settleClaims(
+        batch.claimIds as mongoose.Types.ObjectId[],
+        admin,
+        `Paid in payout batch ${batch.batchNumber} (ref: ${paymentReference})`
+      );
+
+      batch.status = 'paid';
+      batch.paymentReference = paymentReference;
+      batch.paidAt = new Date();
+      batch.paidBy = admin.id;
+      batch.updatedBy = admin.id;
+
+      return await batch.save();
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error marking payout batch as paid: ${error}`);
+    }
+  }
+
+  // Cancel an unpaid batch and release its claims for another batch
+  static async cancelBatch(batchId: string, admin: ClaimActor): Promise<IPayoutBatch> {
+    try {
+      const batch = await this.findActiveBatch(batchId);
+      if (batch.status === 'paid' || batch.status === 'cancelled') {
+        throw new ClaimWorkflowError(`Payout batch is already ${batch.status}`, 409);
+      }
+
+      await Claim.updateMany(
+        { payoutBatchId: batch._id },
+        { payoutBatchId: null, updatedBy: admin.id }
+      );
+
+      batch.status = 'cancelled';
+      batch.updatedBy = admin.id;
+
+      return await batch.save();
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error cancelling payout batch: ${error}`);
+    }
+  }
+}
+
+export default PayoutService;
@@ -0,0 +1,100 @@
+import mongoose from 'mongoose';
+import { ClaimStatus, IClaim } from '../models/Claim';
+import PostClaim from '../models/PostClaim';
+import { ClaimWorkflowError } from './claimWorkflow';
+
+// Final statuses a claim can let its posts go in. Settled claims always keep theirs.
+const RELEASABLE_STATUSES: ClaimStatus[] = ['account_rejected', 'admin_rejected', 'withdrawn'];
+
+// Claimability policy: claims in these statuses release their posts, every other status holds
+// them. Configured through POST_RELEASING_STATUSES (comma-separated); set it to an empty value to
+// keep rejected posts blocked for good.
+export const getPostReleasingStatuses = (): ClaimStatus[] => {
+  const configured = (process.env.POST_RELEASING_STATUSES ?? RELEASABLE_STATUSES.join(','))
+    .split(',')
+    .map(status => status.trim());
+  return RELEASABLE_STATUSES.filter(status => configured.includes(status));
+};
+
+export const holdsPosts = (claim: IClaim): boolean =>
+  claim.isActive && !getPostReleasingStatuses().includes(claim.status);
+
+export class PostClaimService {
+  // Reserve posts for a claim, all or nothing. A post another claim holds fails the whole call
+  // with a 409 naming the conflicting posts.
+  static async reserve(claimId: mongoose.Types.ObjectId, userId: mongoose.Types.ObjectId, postIds: mongoose.Types.ObjectId[]): Promise<void> {
+    if (postIds.length === 0) {
+      return;
+    }
+
+    try {
+      await PostClaim.insertMany(postIds.map(postId => ({ postId, claimId, userId })), { ordered: false });
+    } catch (error: any) {
+      // Undo whatever went in before reporting the conflict
+      await PostClaim.deleteMany({ claimId, postId: { $in: postIds } });
+
+      if (error.code === 11000 || error.writeErrors) {
+        const conflictingPosts = await this.describeHeldPosts(postIds, claimId);
+        throw new ClaimWorkflowError(`❌ Duplicate Claim Detected: The following posts are already claimed: ${conflictingPosts.join(', ')}. Each post can only be claimed once.`, 409);
+      }
+      throw new Error(`Error reserving posts: ${error}`);
+    }
+  }
+
+  // Let go of some or all of a claim's posts
+  static async release(claimId: mongoose.Types.ObjectId, postIds?: mongoose.Types.ObjectId[]): Promise<void> {
+    try {
+      const query: Record<string, any> = { claimId };
+      if (postIds) {
+        query.postId = { $in: postIds };
+      }
+      await PostClaim.deleteMany(query);
+    } catch (error) {
+      throw new Error(`Error releasing posts: ${error}`);
+    }
+  }
+
+  // Release the claim's posts once its status no longer holds them under the policy
+  static async releaseIfFinished(claim: IClaim): Promise<void> {
+    if (!holdsPosts(claim)) {
+      await this.release(claim._id);
+    }
+  }
+
+  // Describe each of the given posts that another claim holds; excludeClaimId leaves out the
+  // claim being edited
+  static async describeHeldPosts(postIds: mongoose.Types.ObjectId[], excludeClaimId?: mongoose.Types.ObjectId): Promise<string[]> {
+    try {
+      const query: Record<string, any> = { postId: { $in: postIds } };
+      if (excludeClaimId) {
+        query.claimId = { $ne: excludeClaimId };
+      }
+
+      const reservations = await PostClaim.find(query)
+        .populate('postId', 'contentText')
+        .populate('claimId', 'status');
+
+      return reservations.map(reservation => {
+        const post = reservation.postId as any;
+        const claim = reservation.claimId as any;
+        const postIdStr = (post?._id || post).toString();
+        const content = post?.contentText ? post.contentText.substring(0, 50) + '...' : `Post ${postIdStr}`;
+        return `${postIdStr} (${content}) - Status: ${claim?.status || 'unknown'}`;
+      });
+    } catch (error) {
+      throw new Error(`Error checking held posts: ${error}`);
+    }
+  }
+
+  // Posts the creator's claims currently hold
+  static async getHeldPostIds(userId: mongoose.Types.ObjectId): Promise<string[]> {
+    try {
+      const reservations = await PostClaim.find({ userId }).select('postId');
+      return reservations.map(reservation => reservation.postId.toString());
+    } catch (error) {
+      throw new Error(`Error fetching held posts: ${error}`);
+    }
+  }
+}
+
+export default PostClaimService;
@@ -0,0 +1,173 @@
+import mongoose from 'mongoose';
+import AdminSettings, { IAdminSettings, ICurrencyRates, IRateTier, ITagMultiplier } from '../models/AdminSettings';
+import { getReportingCurrency } from '../config/currency';
+import { toMinorUnits } from '../utils/money';
+import { ClaimWorkflowError } from './claimWorkflow';
+
+// Which moment decides the rate card used for a post
+export type RateBasis = 'claim_submitted' | 'post_created';
+
+export type RateCardStatus = 'scheduled' | 'current' | 'expired' | 'cancelled';
+
+// Caps, minimum payout and the dual approval threshold are decimal amounts in the card currency,
+// as admins enter them
+export interface RateCardData {
+  currency?: string;
+  currencyRates?: ICurrencyRates[];
+  ratePerLike: number;
+  ratePer100Views: number;
+  likeTiers?: IRateTier[];
+  viewTiers?: IRateTier[];
+  maxPerPost?: number | null;
+  maxPerClaim?: number | null;
+  minPayout?: number;
+  dualApprovalThreshold?: number | null;
+  tagMultipliers?: ITagMultiplier[];
+  effectiveFrom?: Date;
+}
+
+// Configured through EARNINGS_RATE_BASIS; claims use the card in effect at submission unless set to post_created
+export const getRateBasis = (): RateBasis => {
+  return process.env.EARNINGS_RATE_BASIS === 'post_created' ? 'post_created' : 'claim_submitted';
+};
+
+export const getRateCardStatus = (card: IAdminSettings, now: Date = new Date()): RateCardStatus => {
+  if (!card.isActive) return 'cancelled';
+  if (card.effectiveFrom > now) return 'scheduled';
+  if (card.effectiveTo && card.effectiveTo <= now) return 'expired';
+  return 'current';
+};
+
+export class RateCardService {
+  // All live rate cards ordered by start date
+  static async getTimeline(): Promise<IAdminSettings[]> {
+    try {
+      return await AdminSettings.find({ isActive: true }).sort({ effectiveFrom: 1 });
+    } catch (error) {
+      throw new Error(`Error fetching rate cards: ${error}`);
+    }
+  }
+
+  // Pick the card in effect at a given moment from a timeline. Moments before the first
+  // card fall back to the earliest one so old posts still get a rate.
+  static pickCard(timeline: IAdminSettings[], at: Date): IAdminSettings | null {
+    let match: IAdminSettings | null = null;
+    for (const card of timeline) {
+      if (card.effectiveFrom > at) break;
+      if (!card.effectiveTo || card.effectiveTo > at) {
+        match = card;
+      }
+    }
+    return match || timeline[0] || null;
+  }
+
+  // Card in effect at a given moment (now by default)
+  static async getCardInEffect(at: Date = new Date()): Promise<IAdminSettings | null> {
+    const timeline = await this.getTimeline();
+    return this.pickCard(timeline, at);
+  }
+
+  // Every card ever created, newest first, including cancelled ones
+  static async getHistory(): Promise<IAdminSettings[]> {
+    try {
+      return await AdminSettings.find({})
+        .populate('createdBy', 'name')
+        .populate('updatedBy', 'name')
+        .sort({ effectiveFrom: -1, createdAt: -1 });
+    } catch (error) {
+      throw new Error(`Error fetching rate card history: ${error}`);
+    }
+  }
+
+  // Add a card to the timeline, now or at a future date. The card before it is closed at the
+  // new start date and the new card runs until the next scheduled card, if any.
+  static async scheduleCard(data: RateCardData, adminId: mongoose.Types.ObjectId): Promise<IAdminSettings> {
+    try {
+      const now = new Date();
+      const effectiveFrom = data.effectiveFrom && data.effectiveFrom > now ? data.effectiveFrom : now;
+
+      const clash = await AdminSettings.findOne({ isActive: true, effectiveFrom });
+      if (clash) {
+        throw new ClaimWorkflowError('A rate card already starts at that time', 409);
+      }
+
+      const [previous, next] = await Promise.all([
+        AdminSettings.findOne({ isActive: true, effectiveFrom: { $lt: effectiveFrom } }).sort({ effectiveFrom: -1 }),
+        AdminSettings.findOne({ isActive: true, effectiveFrom: { $gt: effectiveFrom } }).sort({ effectiveFrom: 1 })
+      ]);
+
+      const currency = data.currency || getReportingCurrency();
+      const toMinor = (amount: number | null | undefined) => (amount == null ? null : toMinorUnits(amount, currency));
+
+      const card = new AdminSettings({
+        currency,
+        currencyRates: data.currencyRates || [],
+        ratePerLike: data.ratePerLike,
+        ratePer100Views: data.ratePer100Views,
+        likeTiers: data.likeTiers || [],
+        viewTiers: data.viewTiers || [],
+        maxPerPost: toMinor(data.maxPerPost),
+        maxPerClaim: toMinor(data.maxPerClaim),
+        minPayout: toMinor(data.minPayout) || 0,
+        dualApprovalThreshold: toMinor(data.dualApprovalThreshold),
+        tagMultipliers: data.tagMultipliers || [],
+        effectiveFrom,
+        effectiveTo: next ? next.effectiveFrom : null,
+        createdBy: adminId,
+        updatedBy: adminId,
+        isActive: true
+      });
+      await card.save();
+
+      if (previous) {
+        previous.effectiveTo = effectiveFrom;
+        previous.updatedBy = adminId;
+        await previous.save();
+      }
+
+      await card.populate('createdBy', 'name');
+      await card.populate('updatedBy', 'name');
+
+      return card;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error scheduling rate card: ${error}`);
+    }
+  }
+
+  // Cancel a card that has not taken effect yet; the card before it runs on in its place
+  static async cancelScheduledCard(cardId: string, adminId: mongoose.Types.ObjectId): Promise<IAdminSettings> {
+    try {
+      const card = await AdminSettings.findOne({ _id: cardId, isActive: true });
+      if (!card) {
+        throw new ClaimWorkflowError('Rate card not found', 404);
+      }
+
+      if (getRateCardStatus(card) !== 'scheduled') {
+        throw new ClaimWorkflowError('Only scheduled rate cards can be cancelled', 409);
+      }
+
+      const previous = await AdminSettings.findOne({
+        isActive: true,
+        effectiveFrom: { $lt: card.effectiveFrom }
+      }).sort({ effectiveFrom: -1 });
+
+      card.isActive = false;
+      card.updatedBy = adminId;
+      await card.save();
+
+      if (previous) {
+        previous.effectiveTo = card.effectiveTo || null;
+        previous.updatedBy = adminId;
+        await previous.save();
+      }
+
+      return card;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error cancelling rate card: ${error}`);
+    }
+  }
+}
+
+export default RateCardService;
@@ -0,0 +1,176 @@
+import mongoose from 'mongoose';
+import RateOverride, { IRateOverride } from '../models/RateOverride';
+import { ClaimWorkflowError } from './claimWorkflow';
+
+// Overrides ending within this many days are flagged to admins
+export const OVERRIDE_EXPIRY_WARNING_DAYS = 14;
+
+export type RateOverrideStatus = 'scheduled' | 'active' | 'expiring' | 'expired';
+
+export interface RateOverrideData {
+  userId?: string | null;
+  tag?: string | null;
+  ratePerLike: number;
+  ratePer100Views: number;
+  validFrom?: Date;
+  validTo?: Date | null;
+  note?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getOverrideStatus = (override: IRateOverride, now: Date = new Date()): RateOverrideStatus => {
+  if (override.validFrom > now) return 'scheduled';
+  if (override.validTo && override.validTo <= now) return 'expired';
+  if (override.validTo && override.validTo.getTime() - now.getTime() <= OVERRIDE_EXPIRY_WARNING_DAYS * DAY_MS) {
+    return 'expiring';
+  }
+  return 'active';
+};
+
+// User + tag beats user only, which beats tag only
+const getSpecificity = (override: IRateOverride): number => (override.userId ? 2 : 0) + (override.tag ? 1 : 0);
+
+export class RateOverrideService {
+  // Live overrides that could apply to a creator's posts: their own and tag-only ones
+  static async getCandidates(userId: mongoose.Types.ObjectId | string): Promise<IRateOverride[]> {
+    try {
+      return await RateOverride.find({
+        isActive: true,
+        $or: [{ userId }, { userId: null }]
+      });
+    } catch (error) {
+      throw new Error(`Error fetching rate overrides: ${error}`);
+    }
+  }
+
+  // Most specific override valid at the given moment for a post; newest wins a tie
+  static pickOverride(
+    candidates: IRateOverride[],
+    userId: mongoose.Types.ObjectId | string,
+    tags: string[],
+    at: Date
+  ): IRateOverride | null {
+    const postTags = new Set(tags.map(tag => tag.toLowerCase()));
+    const matches = candidates.filter(override =>
+      override.validFrom <= at &&
+      (!override.validTo || override.validTo > at) &&
+      (!override.userId || override.userId.toString() === userId.toString()) &&
+      (!override.tag || postTags.has(override.tag))
+    );
+
+    matches.sort((a, b) =>
+      getSpecificity(b) - getSpecificity(a) || b.validFrom.getTime() - a.validFrom.getTime()
+    );
+
+    return matches[0] || null;
+  }
+
+  // List overrides, newest first
+  static async getOverrides(filters: any, page: number = 1, limit: number = 20): Promise<{ overrides: IRateOverride[], total: number }> {
+    const cappedLimit = Math.min(limit, 100);
+    try {
+      const query: any = { isActive: true };
+      if (filters.userId) query.userId = filters.userId;
+      if (filters.tag) query.tag = String(filters.tag).toLowerCase();
+      if (!filters.includeExpired) {
+        query.$or = [{ validTo: null }, { validTo: { $gt: new Date() } }];
+      }
+
+      const [overrides, total] = await Promise.all([
+        RateOverride.find(query)
+          .populate('userId', 'name email')
+          .populate('createdBy', 'name')
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * cappedLimit)
+          .limit(cappedLimit),
+        RateOverride.countDocuments(query)
+      ]);
+
+      return { overrides, total };
+    } catch (error) {
+      throw new Error(`Error fetching rate overrides: ${error}`);
+    }
+  }
+
+  // Overrides that expire within the warning window or expired within the last week
+  static async getExpiringOverrides(): Promise<IRateOverride[]> {
+    try {
+      const now = Date.now();
+      return await RateOverride.find({
+        isActive: true,
+        validTo: {
+          $gt: new Date(now - 7 * DAY_MS),
+          $lte: new Date(now + OVERRIDE_EXPIRY_WARNING_DAYS * DAY_MS)
+        }
+      })
+        .populate('userId', 'name email')
+        .sort({ validTo: 1 });
+    } catch (error) {
+      throw new Error(`Error fetching expiring rate overrides: ${error}`);
+    }
+  }
+
+  static async createOverride(data: RateOverrideData, adminId: mongoose.Types.ObjectId): Promise<IRateOverride> {
+    try {
+      const override = new RateOverride({
+        ...data,
+        userId: data.userId || null,
+        tag: data.tag || null,
+        validFrom: data.validFrom || new Date(),
+        validTo: data.validTo || null,
+        createdBy: adminId,
+        updatedBy: adminId
+      });
+
+      const savedOverride = await override.save();
+      await savedOverride.populate('userId', 'name email');
+      return savedOverride;
+    } catch (error) {
+      throw new Error(`Error creating rate override: ${error}`);
+    }
+  }
+
+  static async updateOverride(overrideId: string, data: RateOverrideData, adminId: mongoose.Types.ObjectId): Promise<IRateOverride> {
+    try {
+      const override = await RateOverride.findOne({ _id: overrideId, isActive: true });
+      if (!override) {
+        throw new ClaimWorkflowError('Rate override not found', 404);
+      }
+
+      override.set({
+        ...data,
+        userId: data.userId || null,
+        tag: data.tag || null,
+        validFrom: data.validFrom || override.validFrom,
+        validTo: data.validTo || null,
+        updatedBy: adminId
+      });
+
+      const savedOverride = await override.save();
+      await savedOverride.populate('userId', 'name email');
+      return savedOverride;
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error updating rate override: ${error}`);
+    }
+  }
+
+  // Soft delete; claims that used the override keep referencing it
+  static async deleteOverride(overrideId: string, adminId: mongoose.Types.ObjectId): Promise<void> {
+    try {
+      const result = await RateOverride.updateOne(
+        { _id: overrideId, isActive: true },
+        { isActive: false, updatedBy: adminId }
+      );
+      if (result.matchedCount === 0) {
+        throw new ClaimWorkflowError('Rate override not found', 404);
+      }
+    } catch (error) {
+      if (error instanceof ClaimWorkflowError) throw error;
+      throw new Error(`Error deleting rate override: ${error}`);
+    }
+  }
+}
+
+export default RateOverrideService;
@@ -0,0 +1,47 @@
+import JobScheduler from './jobScheduler';
+import ClaimService from './claimService';
+import ClaimLockService from './claimLockService';
+import NotificationService from './notificationService';
+import EngagementService, { getRiskAssessmentIntervalMs } from './engagementService';
+import { getSlaCheckIntervalMs } from './claimSlaService';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Read notifications are kept this long
+const NOTIFICATION_RETENTION_MS = 30 * DAY_MS;
+
+// Everything the backend does on a schedule
+export const registerScheduledJobs = (): void => {
+  JobScheduler.register({
+    name: 'sla_escalation',
+    description: 'Flag claims that have been in a status longer than its SLA target and notify the admins',
+    intervalMs: getSlaCheckIntervalMs(),
+    handler: async () => ({ flagged: await ClaimService.escalateSlaBreaches() })
+  });
+
+  JobScheduler.register({
+    name: 'release_expired_locks',
+    description: 'Clear review locks whose lease ran out without a heartbeat',
+    intervalMs: 10 * MINUTE_MS,
+    handler: async () => ({ released: await ClaimLockService.releaseExpired() })
+  });
+
+  JobScheduler.register({
+    name: 'assess_claim_risk',
+    description: 'Rescore open claims for inflated views and likes from the recorded engagement',
+    intervalMs: getRiskAssessmentIntervalMs(),
+    handler: async () => ({ assessed: await EngagementService.assessOpenClaims() })
+  });
+
+  JobScheduler.register({
+    name: 'purge_read_notifications',
+    description: 'Delete notifications that were read more than 30 days ago',
+    intervalMs: DAY_MS,
+    handler: async () => ({
+      deleted: await NotificationService.purgeRead(new Date(Date.now() - NOTIFICATION_RETENTION_MS))
+    })
+  });
+};
+
+export default registerScheduledJobs;
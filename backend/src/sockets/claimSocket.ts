@@ -2,9 +2,14 @@ import { Server as SocketIOServer } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import jwt from 'jsonwebtoken';
 import User from '../models/User';
-import ClaimService from '../services/claimService';
+import ClaimLockService from '../services/claimLockService';
+import { getClaimRoom } from '../services/claimCommentService';
+import Claim from '../models/Claim';
 import mongoose from 'mongoose';
 
+// Roles that review claims and so may hold a claim lock
+const LOCKING_ROLES = ['account', 'admin'];
+
 interface AuthenticatedSocket {
   userId: string;
   userRole: string;
@@ -14,6 +19,8 @@ interface AuthenticatedSocket {
 export class ClaimSocket {
   private io: SocketIOServer;
   private connectedUsers: Map<string, AuthenticatedSocket> = new Map();
+  // Claims each connection holds the lock on, released when it drops
+  private socketLocks: Map<string, Set<string>> = new Map();
 
   constructor(server: HTTPServer) {
     this.io = new SocketIOServer(server, {
@@ -68,14 +75,22 @@ export class ClaimSocket {
 
       // Handle claim locking
       socket.on('lock_claim', async (data: { claimId: string }) => {
+        if (!LOCKING_ROLES.includes(user.userRole)) {
+          socket.emit('lock_failed', {
+            claimId: data.claimId,
+            message: 'Only reviewers and admins can lock claims'
+          });
+          return;
+        }
+
         try {
-            const locked = await ClaimService.lockClaim(data.claimId, new mongoose.Types.ObjectId(user.userId));
-          
-          if (locked) {
+          const lock = await ClaimLockService.acquire(data.claimId, new mongoose.Types.ObjectId(user.userId));
+
+          if (lock) {
+            this.trackLock(socket.id, data.claimId);
             // Notify all users about the lock
             this.io.emit('claim_locked', {
-              claimId: data.claimId,
-              lockedBy: user.userId,
+              ...lock,
               lockedByName: user.userName,
               timestamp: new Date()
             });
@@ -90,11 +105,30 @@ export class ClaimSocket {
         }
       });
 
+      // Keep the lease on a claim that is still open
+      socket.on('lock_heartbeat', async (data: { claimId: string }) => {
+        try {
+          const lock = await ClaimLockService.renew(data.claimId, new mongoose.Types.ObjectId(user.userId));
+
+          if (!lock) {
+            this.untrackLock(socket.id, data.claimId);
+            socket.emit('lock_lost', {
+              claimId: data.claimId,
+              message: 'Your lock on this claim has expired or was released',
+              timestamp: new Date()
+            });
+          }
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to renew claim lock' });
+        }
+      });
+
       // Handle claim unlocking
       socket.on('unlock_claim', async (data: { claimId: string }) => {
         try {
-            await ClaimService.unlockClaim(data.claimId, new mongoose.Types.ObjectId(user.userId));
-          
+          await ClaimLockService.release(data.claimId, new mongoose.Types.ObjectId(user.userId));
+          this.untrackLock(socket.id, data.claimId);
+
           // Notify all users about the unlock
           this.io.emit('claim_unlocked', {
             claimId: data.claimId,
@@ -122,7 +156,7 @@ export class ClaimSocket {
       // Handle real-time form updates
       socket.on('form_update', (data: { claimId: string, field: string, value: any }) => {
         // Broadcast to users viewing the same claim
-        socket.to(`claim_${data.claimId}`).emit('form_field_updated', {
+        socket.to(getClaimRoom(data.claimId)).emit('form_field_updated', {
           claimId: data.claimId,
           field: data.field,
           value: data.value,
@@ -132,15 +166,31 @@ export class ClaimSocket {
         });
       });
 
-      // Join claim room when viewing a claim
-      socket.on('join_claim', (data: { claimId: string }) => {
-        socket.join(`claim_${data.claimId}`);
-        socket.emit('joined_claim', { claimId: data.claimId });
+      // Join claim room when viewing a claim. Creators may only join their own claims; staff also
+      // join the room that carries internal comments.
+      socket.on('join_claim', async (data: { claimId: string }) => {
+        try {
+          if (user.userRole === 'user') {
+            const claim = await Claim.findById(data.claimId).select('userId');
+            if (!claim || claim.userId.toString() !== user.userId) {
+              socket.emit('error', { message: 'Not authorized to view this claim' });
+              return;
+            }
+          } else {
+            socket.join(getClaimRoom(data.claimId, true));
+          }
+
+          socket.join(getClaimRoom(data.claimId));
+          socket.emit('joined_claim', { claimId: data.claimId });
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to join claim' });
+        }
       });
 
       // Leave claim room when leaving a claim
       socket.on('leave_claim', (data: { claimId: string }) => {
-        socket.leave(`claim_${data.claimId}`);
+        socket.leave(getClaimRoom(data.claimId));
+        socket.leave(getClaimRoom(data.claimId, true));
         socket.emit('left_claim', { claimId: data.claimId });
       });
 
@@ -148,10 +198,58 @@ export class ClaimSocket {
       socket.on('disconnect', () => {
         this.connectedUsers.delete(socket.id);
         console.log(`User disconnected: ${user.userName}`);
+        this.releaseLocks(socket.id, user);
       });
     });
   }
 
+  private trackLock(socketId: string, claimId: string): void {
+    const claimIds = this.socketLocks.get(socketId) || new Set<string>();
+    claimIds.add(claimId);
+    this.socketLocks.set(socketId, claimIds);
+  }
+
+  private untrackLock(socketId: string, claimId: string): void {
+    this.socketLocks.get(socketId)?.delete(claimId);
+  }
+
+  // Whether another open connection of the user still holds the lock on the claim
+  private isTrackedElsewhere(socketId: string, userId: string, claimId: string): boolean {
+    return Array.from(this.socketLocks.entries()).some(([otherId, claimIds]) =>
+      otherId !== socketId && this.connectedUsers.get(otherId)?.userId === userId && claimIds.has(claimId)
+    );
+  }
+
+  // A closed laptop or tab never sends unlock_claim, so let go of its locks here. Locks are held
+  // per user, so a claim the user still has open in another tab keeps its lock.
+  private async releaseLocks(socketId: string, user: AuthenticatedSocket): Promise<void> {
+    const claimIds = this.socketLocks.get(socketId);
+    this.socketLocks.delete(socketId);
+    if (!claimIds) {
+      return;
+    }
+
+    for (const claimId of Array.from(claimIds)) {
+      if (this.isTrackedElsewhere(socketId, user.userId, claimId)) {
+        continue;
+      }
+
+      try {
+        const released = await ClaimLockService.release(claimId, new mongoose.Types.ObjectId(user.userId));
+        if (released) {
+          this.io.emit('claim_unlocked', {
+            claimId,
+            unlockedBy: user.userId,
+            unlockedByName: user.userName,
+            timestamp: new Date()
+          });
+        }
+      } catch (error) {
+        console.error(`Failed to release lock on claim ${claimId}:`, error);
+      }
+    }
+  }
+
   // Public methods for broadcasting events
   public broadcastClaimUpdate(claimId: string, status: string, updatedBy: string): void {
     this.io.emit('claim_status_changed', {
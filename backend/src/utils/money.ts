@@ -0,0 +1,63 @@
+// Money is stored and added up as integers in the currency's minor unit (paise, cents, ...), so
+// totals are exact. Decimal amounts only appear at the edges: request bodies, API responses and
+// messages. Rates (per like, per 100 views, exchange rates) are not amounts and stay decimal.
+
+const minorUnitDigits = new Map<string, number>();
+
+// Decimal places the currency uses, e.g. 2 for INR and 0 for JPY
+export const getMinorUnitDigits = (currency: string): number => {
+  let digits = minorUnitDigits.get(currency);
+  if (digits === undefined) {
+    try {
+      digits = new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+      // Codes Intl does not know are treated like most currencies
+      digits = 2;
+    }
+    minorUnitDigits.set(currency, digits);
+  }
+  return digits;
+};
+
+// Decimal amount to minor units, rounding half away from zero. The product is trimmed to 12
+// significant digits first so binary noise (1.005 * 100 = 100.49999...) does not decide the rounding.
+export const toMinorUnits = (amount: number, currency: string): number => {
+  const scaled = Number((Math.abs(amount) * 10 ** getMinorUnitDigits(currency)).toPrecision(12));
+  return Math.sign(amount) * Math.round(scaled);
+};
+
+export const fromMinorUnits = (minorUnits: number, currency: string): number =>
+  minorUnits / 10 ** getMinorUnitDigits(currency);
+
+export const sumMinorUnits = (amounts: number[]): number =>
+  amounts.reduce((sum, amount) => sum + amount, 0);
+
+// Minor units of one currency to another; factor is the exchange rate between them
+export const convertMinorUnits = (minorUnits: number, from: string, to: string, factor: number): number =>
+  from === to && factor === 1 ? minorUnits : toMinorUnits(fromMinorUnits(minorUnits, from) * factor, to);
+
+export const formatMoney = (minorUnits: number, currency: string): string => {
+  const amount = fromMinorUnits(minorUnits, currency);
+  try {
+    return new Intl.NumberFormat('en-IN', { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown codes still get a readable amount
+    return `${amount.toFixed(getMinorUnitDigits(currency))} ${currency}`;
+  }
+};
+
+// Schema validator for minor-unit paths; null is allowed for optional amounts
+export const minorUnitsValidator = {
+  validator: (value: number | null) => value == null || Number.isInteger(value),
+  message: 'Amounts must be stored in whole minor units'
+};
+
+// For toJSON transforms: replace the minor-unit paths of a serialised document with decimal amounts
+export const amountsToDecimal = (ret: Record<string, any>, paths: string[], currency: string): Record<string, any> => {
+  for (const path of paths) {
+    if (typeof ret[path] === 'number') {
+      ret[path] = fromMinorUnits(ret[path], currency);
+    }
+  }
+  return ret;
+};
@@ -21,6 +21,12 @@ import ReviewClaim from "./pages/ReviewClaim";
 import FinalApproval from "./pages/FinalApproval";
 import Reports from "./pages/Reports";
 import AdminSettings from "./pages/AdminSettings";
+import Payouts from "./pages/Payouts";
+import RateOverrides from "./pages/RateOverrides";
+import Currencies from "./pages/Currencies";
+import DeductionReasons from "./pages/DeductionReasons";
+import SlaTargets from "./pages/SlaTargets";
+import Jobs from "./pages/Jobs";
 
 import "./App.css";
 
@@ -32,6 +38,12 @@ const MemoizedFinalApproval = memo(FinalApproval);
 const MemoizedReports = memo(Reports);
 const MemoizedLogin = memo(Login);
 const MemoizedAdminSettings = memo(AdminSettings);
+const MemoizedPayouts = memo(Payouts);
+const MemoizedRateOverrides = memo(RateOverrides);
+const MemoizedCurrencies = memo(Currencies);
+const MemoizedDeductionReasons = memo(DeductionReasons);
+const MemoizedSlaTargets = memo(SlaTargets);
+const MemoizedJobs = memo(Jobs);
 
 const App: React.FC = () => {
   const toastOptions = useMemo(() => ({
@@ -129,6 +141,60 @@ const App: React.FC = () => {
               }
             />
 
+            <Route
+              path="/payouts"
+              element={
+                <ProtectedRoute allowedRoles={["admin"]}>
+                  <MemoizedPayouts />
+                </ProtectedRoute>
+              }
+            />
+
+            <Route
+              path="/rate-overrides"
+              element={
+                <ProtectedRoute allowedRoles={["admin"]}>
+                  <MemoizedRateOverrides />
+                </ProtectedRoute>
+              }
+            />
+
+            <Route
+              path="/currencies"
+              element={
+                <ProtectedRoute allowedRoles={["admin"]}>
+                  <MemoizedCurrencies />
+                </ProtectedRoute>
+              }
+            />
+
+            <Route
+              path="/deduction-reasons"
+              element={
+                <ProtectedRoute allowedRoles={["admin"]}>
+                  <MemoizedDeductionReasons />
+                </ProtectedRoute>
+              }
+            />
+
+            <Route
+              path="/sla-targets"
+              element={
+                <ProtectedRoute allowedRoles={["admin"]}>
+                  <MemoizedSlaTargets />
+                </ProtectedRoute>
+              }
+            />
+
+            <Route
+              path="/jobs"
+              element={
+                <ProtectedRoute allowedRoles={["admin"]}>
+                  <MemoizedJobs />
+                </ProtectedRoute>
+              }
+            />
+
             <Route
               path="/admin-settings"
               element={
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Alert, Badge, Button, Modal, Table } from 'react-bootstrap';
+
+// Outcome for one claim of a bulk request
+export interface BulkClaimResult {
+  claimId: string;
+  success: boolean;
+  status?: string;
+  statusCode?: number;
+  message?: string;
+}
+
+interface BulkActionBarProps {
+  count: number;
+  onClear: () => void;
+  children: React.ReactNode;
+}
+
+// Shown above a claims table while claims are selected, with the actions for them
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ count, onClear, children }) => {
+  if (count === 0) {
+    return null;
+  }
+
+  return (
+    <Alert variant="secondary" className="d-flex flex-wrap align-items-center gap-2 py-2">
+      <strong className="me-2">{count} claim(s) selected</strong>
+      {children}
+      <Button variant="link" size="sm" className="ms-auto" onClick={onClear}>
+        Clear selection
+      </Button>
+    </Alert>
+  );
+};
+
+interface BulkResultsModalProps {
+  results: BulkClaimResult[] | null;
+  // Creator name or similar for a claim ID
+  getLabel: (claimId: string) => string;
+  onHide: () => void;
+}
+
+// What happened to each claim of a bulk action; claims that went through are only counted
+export const BulkResultsModal: React.FC<BulkResultsModalProps> = ({ results, getLabel, onHide }) => {
+  const failures = (results || []).filter(result => !result.success);
+  const succeeded = (results || []).length - failures.length;
+
+  return (
+    <Modal show={!!results} onHide={onHide} size="lg">
+      <Modal.Header closeButton>
+        <Modal.Title>Bulk Action Results</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <p>
+          <Badge bg="success" className="me-2">{succeeded} done</Badge>
+          <Badge bg={failures.length > 0 ? 'danger' : 'secondary'}>{failures.length} failed</Badge>
+        </p>
+        {failures.length > 0 && (
+          <Table responsive size="sm" className="mb-0">
+            <thead>
+              <tr>
+                <th>Claim</th>
+                <th>Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {failures.map(result => (
+                <tr key={result.claimId}>
+                  <td>
+                    {getLabel(result.claimId)}
+                    <small className="d-block text-muted"><code>{result.claimId}</code></small>
+                  </td>
+                  <td className="text-danger">{result.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="secondary" onClick={onHide}>
+          Close
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,246 @@
+import React, { useState, useEffect } from 'react';
+import { Badge, Button, Form, ListGroup } from 'react-bootstrap';
+import { FaComments, FaReply, FaTimes } from 'react-icons/fa';
+import { useAuth } from '../context/AuthContext';
+import { useSocket } from '../context/SocketContext';
+import { claimsAPI } from '../services/api';
+import toast from 'react-hot-toast';
+
+interface ClaimComment {
+  _id: string;
+  parentId?: string | null;
+  body: string;
+  authorRole: 'user' | 'account' | 'admin';
+  internal: boolean;
+  requestsProof: boolean;
+  mentions: { _id: string; name: string }[];
+  createdBy: { _id: string; name: string };
+  createdAt: string;
+}
+
+interface MentionableUser {
+  _id: string;
+  name: string;
+  role: 'account' | 'admin';
+}
+
+interface ClaimCommentsProps {
+  claimId: string;
+}
+
+const ROLE_NAMES: Record<ClaimComment['authorRole'], string> = {
+  user: 'Creator',
+  account: 'Reviewer',
+  admin: 'Admin'
+};
+
+// Discussion thread on a claim. The page showing it joins the claim room; new comments arrive
+// over the socket as well as from our own posts.
+const ClaimComments: React.FC<ClaimCommentsProps> = ({ claimId }) => {
+  const { user } = useAuth();
+  const { socket } = useSocket();
+  const isStaff = user?.role === 'account' || user?.role === 'admin';
+
+  const [comments, setComments] = useState<ClaimComment[]>([]);
+  const [mentionableUsers, setMentionableUsers] = useState<MentionableUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [posting, setPosting] = useState(false);
+
+  const [body, setBody] = useState('');
+  const [internal, setInternal] = useState(false);
+  const [requestsProof, setRequestsProof] = useState(false);
+  const [mentions, setMentions] = useState<MentionableUser[]>([]);
+  const [replyTo, setReplyTo] = useState<ClaimComment | null>(null);
+
+  const addComment = (comment: ClaimComment) => {
+    setComments(prev => prev.some(existing => existing._id === comment._id) ? prev : [...prev, comment]);
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    setReplyTo(null);
+    claimsAPI.getComments(claimId)
+      .then(response => setComments(response.data.comments))
+      .catch(error => {
+        console.error('Error loading comments:', error);
+        toast.error('Failed to load comments: ' + (error.response?.data?.message || error.message));
+      })
+      .finally(() => setLoading(false));
+  }, [claimId]);
+
+  useEffect(() => {
+    claimsAPI.getMentionableUsers()
+      .then(response => setMentionableUsers(response.data.users))
+      .catch(error => console.error('Error loading mentionable users:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleClaimComment = (data: { claimId: string; comment: ClaimComment }) => {
+      if (data.claimId === claimId) {
+        addComment(data.comment);
+      }
+    };
+
+    socket.on('claim_comment', handleClaimComment);
+
+    return () => {
+      socket.off('claim_comment', handleClaimComment);
+    };
+  }, [socket, claimId]);
+
+  const handleMention = (userId: string) => {
+    const mentioned = mentionableUsers.find(candidate => candidate._id === userId);
+    if (!mentioned) return;
+
+    setBody(prev => `${prev}${prev && !prev.endsWith(' ') ? ' ' : ''}@${mentioned.name} `);
+    setMentions(prev => prev.some(existing => existing._id === userId) ? prev : [...prev, mentioned]);
+  };
+
+  const handleSubmit = async () => {
+    const text = body.trim();
+    if (!text) {
+      toast.error('Please write a comment');
+      return;
+    }
+
+    try {
+      setPosting(true);
+      const response = await claimsAPI.addComment(claimId, {
+        body: text,
+        internal: isStaff && internal,
+        requestsProof: isStaff && !internal && requestsProof,
+        parentId: replyTo?._id || null,
+        // Only people still named in the text are notified
+        mentions: mentions.filter(mentioned => text.includes(`@${mentioned.name}`)).map(mentioned => mentioned._id)
+      });
+      addComment(response.data.comment);
+      setBody('');
+      setMentions([]);
+      setRequestsProof(false);
+      setReplyTo(null);
+    } catch (error: any) {
+      toast.error('Failed to post comment: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const startReply = (comment: ClaimComment) => {
+    setReplyTo(comment);
+    setInternal(comment.internal);
+  };
+
+  const renderComment = (comment: ClaimComment) => (
+    <div className={comment.internal ? 'bg-light border-start border-3 border-secondary ps-2' : ''}>
+      <div className="d-flex justify-content-between align-items-start">
+        <div className="small">
+          <strong>{comment.createdBy?.name || 'Unknown'}</strong>
+          <span className="text-muted ms-1">({ROLE_NAMES[comment.authorRole]})</span>
+          {comment.internal && <Badge bg="secondary" className="ms-2">Internal</Badge>}
+          {comment.requestsProof && <Badge bg="warning" text="dark" className="ms-2">More proof requested</Badge>}
+          <span className="text-muted ms-2">{new Date(comment.createdAt).toLocaleString('en-IN')}</span>
+        </div>
+        {!comment.parentId && (
+          <Button variant="link" size="sm" className="p-0" onClick={() => startReply(comment)}>
+            <FaReply className="me-1" />
+            Reply
+          </Button>
+        )}
+      </div>
+      <div style={{ whiteSpace: 'pre-wrap' }}>{comment.body}</div>
+    </div>
+  );
+
+  const topLevelComments = comments.filter(comment => !comment.parentId);
+
+  return (
+    <div className="mb-3">
+      <h6>
+        <FaComments className="me-2" />
+        Comments {comments.length > 0 && <Badge bg="secondary">{comments.length}</Badge>}
+      </h6>
+
+      {loading ? (
+        <p className="text-muted small">Loading comments...</p>
+      ) : topLevelComments.length === 0 ? (
+        <p className="text-muted small">No comments yet.</p>
+      ) : (
+        <ListGroup className="mb-3">
+          {topLevelComments.map(comment => (
+            <ListGroup.Item key={comment._id}>
+              {renderComment(comment)}
+              {comments
+                .filter(reply => reply.parentId === comment._id)
+                .map(reply => (
+                  <div key={reply._id} className="ms-4 mt-2 pt-2 border-top">
+                    {renderComment(reply)}
+                  </div>
+                ))}
+            </ListGroup.Item>
+          ))}
+        </ListGroup>
+      )}
+
+      {replyTo && (
+        <div className="small text-muted mb-1">
+          Replying to {replyTo.createdBy?.name || 'comment'}
+          <Button variant="link" size="sm" className="p-0 ms-2" onClick={() => setReplyTo(null)}>
+            <FaTimes />
+          </Button>
+        </div>
+      )}
+      <Form.Control
+        as="textarea"
+        rows={2}
+        maxLength={2000}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={isStaff ? 'Write a comment, or ask the creator for more proof...' : 'Write a comment for the reviewers...'}
+      />
+      <div className="d-flex flex-wrap align-items-center gap-3 mt-2">
+        {mentionableUsers.length > 0 && (
+          <Form.Select
+            size="sm"
+            style={{ width: 'auto' }}
+            value=""
+            onChange={(e) => handleMention(e.target.value)}
+          >
+            <option value="">@ Mention...</option>
+            {mentionableUsers.map(candidate => (
+              <option key={candidate._id} value={candidate._id}>
+                {candidate.name} ({ROLE_NAMES[candidate.role]})
+              </option>
+            ))}
+          </Form.Select>
+        )}
+        {isStaff && (
+          <>
+            <Form.Check
+              type="switch"
+              id={`comment-internal-${claimId}`}
+              label="Internal (hidden from creator)"
+              checked={internal}
+              disabled={!!replyTo?.internal}
+              onChange={(e) => setInternal(e.target.checked)}
+            />
+            <Form.Check
+              type="checkbox"
+              id={`comment-proof-${claimId}`}
+              label="Ask creator for more proof"
+              checked={requestsProof && !internal}
+              disabled={internal}
+              onChange={(e) => setRequestsProof(e.target.checked)}
+            />
+          </>
+        )}
+        <Button variant="primary" size="sm" className="ms-auto" onClick={handleSubmit} disabled={posting}>
+          {posting ? 'Posting...' : replyTo ? 'Reply' : 'Comment'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ClaimComments;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Badge, Button, Form, Modal } from 'react-bootstrap';
+import { FaLock, FaUnlock } from 'react-icons/fa';
+import { useAuth } from '../context/AuthContext';
+import { claimsAPI } from '../services/api';
+import toast from 'react-hot-toast';
+
+export interface ClaimLock {
+  claimId: string;
+  lockedBy: string;
+  lockedByName?: string;
+  lockedAt: string;
+  expiresAt: string;
+}
+
+interface ClaimLockIndicatorProps {
+  lock?: ClaimLock | null;
+  onLockBroken: () => void;
+}
+
+// Who has a claim open for review and since when. Admins can release a lock whose holder has
+// walked away; the reason goes into the claim history.
+const ClaimLockIndicator: React.FC<ClaimLockIndicatorProps> = ({ lock, onLockBroken }) => {
+  const { user } = useAuth();
+  const [showBreakModal, setShowBreakModal] = useState(false);
+  const [reason, setReason] = useState('');
+  const [breaking, setBreaking] = useState(false);
+
+  if (!lock) {
+    return null;
+  }
+
+  const heldByMe = lock.lockedBy === user?.id;
+  const since = new Date(lock.lockedAt).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+
+  const handleBreakLock = async () => {
+    if (!reason.trim()) {
+      toast.error('Please give a reason');
+      return;
+    }
+
+    try {
+      setBreaking(true);
+      await claimsAPI.breakLock(lock.claimId, reason.trim());
+      toast.success('Lock released');
+      setShowBreakModal(false);
+      setReason('');
+      onLockBroken();
+    } catch (error: any) {
+      toast.error('Failed to break lock: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setBreaking(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="small">
+        <Badge bg={heldByMe ? 'info' : 'secondary'} title={`Lease until ${new Date(lock.expiresAt).toLocaleTimeString('en-IN')}`}>
+          <FaLock className="me-1" />
+          {heldByMe ? 'You' : lock.lockedByName || 'Another reviewer'} since {since}
+        </Badge>
+        {user?.role === 'admin' && !heldByMe && (
+          <Button variant="link" size="sm" className="p-0 ms-2" onClick={() => setShowBreakModal(true)}>
+            <FaUnlock className="me-1" />
+            Break lock
+          </Button>
+        )}
+      </div>
+
+      <Modal show={showBreakModal} onHide={() => setShowBreakModal(false)}>
+        <Modal.Header closeButton>
+          <Modal.Title>Break Claim Lock</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <p>
+            {lock.lockedByName || 'Another reviewer'} has had this claim open since {since}. Breaking the
+            lock closes it for them and lets anyone pick it up.
+          </p>
+          <Form.Group>
+            <Form.Label>Reason *</Form.Label>
+            <Form.Control
+              as="textarea"
+              rows={2}
+              maxLength={400}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Reviewer is away and the claim is overdue"
+            />
+          </Form.Group>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setShowBreakModal(false)}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleBreakLock} disabled={breaking}>
+            {breaking ? 'Breaking...' : 'Break Lock'}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </>
+  );
+};
+
+export default ClaimLockIndicator;
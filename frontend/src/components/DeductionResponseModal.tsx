@@ -1,14 +1,49 @@
-import React, { useState } from 'react';
-import { Modal, Button, Alert, Badge, Row, Col } from 'react-bootstrap';
+import React, { useState, useEffect } from 'react';
+import { Modal, Button, Alert, Badge, Row, Col, Table, ButtonGroup, Form } from 'react-bootstrap';
 import { claimsAPI } from '../services/api';
 import { FaCheck, FaTimes, FaExclamationTriangle } from 'react-icons/fa';
 import toast from 'react-hot-toast';
+import DeductionTimeline from './DeductionTimeline';
+
+export interface DeductionRound {
+  action: 'proposed' | 'accepted' | 'disputed' | 'countered' | 'withdrawn' | 'escalated' | 'resolved';
+  by: string;
+  role: 'user' | 'account' | 'admin';
+  amount?: number | null;
+  message?: string;
+  at: string;
+}
+
+export interface DeductionLine {
+  _id: string;
+  postId?: string | null;
+  amount: number;
+  // Catalogue reason; null on lines from before reason codes
+  reasonCode?: string | null;
+  reasonLabel?: string | null;
+  // Reviewer's note
+  reason?: string;
+  status: 'proposed' | 'accepted' | 'disputed' | 'countered' | 'withdrawn';
+  // Creator's latest counter-offer
+  counterAmount?: number | null;
+  rounds?: DeductionRound[];
+}
+
+type LineChoice = 'accept' | 'dispute' | 'counter';
+
+interface LineResponse {
+  choice: LineChoice;
+  counterAmount: string;
+  message: string;
+}
 
 interface Claim {
   _id: string;
+  currency?: string;
   calculatedEarnings: number;
   deductionAmount: number;
   deductionReason: string;
+  deductions?: DeductionLine[];
   status: string;
   postIds: any[];
   createdAt: string;
@@ -28,41 +63,91 @@ const DeductionResponseModal: React.FC<DeductionResponseModalProps> = ({
   onResponseSubmitted 
 }) => {
   const [loading, setLoading] = useState(false);
-  const [response, setResponse] = useState<'accept' | 'reject' | null>(null);
+  // Response per proposed line; every line starts out accepted
+  const [decisions, setDecisions] = useState<Record<string, LineResponse>>({});
+
+  const proposedLines = (claim?.deductions || []).filter(line => line.status === 'proposed');
+  const acceptedLines = (claim?.deductions || []).filter(line => line.status === 'accepted');
+
+  useEffect(() => {
+    const lines = (claim?.deductions || []).filter(line => line.status === 'proposed');
+    setDecisions(Object.fromEntries(lines.map(line => [line._id, { choice: 'accept', counterAmount: '', message: '' }])));
+  }, [claim]);
+
+  const getChoice = (lineId: string): LineChoice => decisions[lineId]?.choice || 'accept';
+
+  const updateDecision = (lineId: string, changes: Partial<LineResponse>) => {
+    setDecisions(prev => ({
+      ...prev,
+      [lineId]: { ...{ choice: 'accept' as LineChoice, counterAmount: '', message: '' }, ...prev[lineId], ...changes }
+    }));
+  };
 
-  const handleResponse = async (accepted: boolean) => {
+  const handleResponse = async (acceptAll?: boolean) => {
     if (!claim) return;
 
+    const invalidCounter = !acceptAll && proposedLines.find(line => {
+      const counterAmount = parseFloat(decisions[line._id]?.counterAmount || '');
+      return getChoice(line._id) === 'counter' && !(counterAmount > 0 && counterAmount < line.amount);
+    });
+    if (invalidCounter) {
+      toast.error(`A counter-offer must be more than zero and less than ${formatCurrency(invalidCounter.amount, claim.currency)}`);
+      return;
+    }
+
+    const lineDecisions = proposedLines.map(line => {
+      const choice = acceptAll ? 'accept' : getChoice(line._id);
+      return {
+        lineId: line._id,
+        accepted: choice === 'accept',
+        counterAmount: choice === 'counter' ? parseFloat(decisions[line._id].counterAmount) : null,
+        message: choice === 'accept' ? undefined : decisions[line._id]?.message.trim() || undefined
+      };
+    });
+    const disputed = lineDecisions.filter(decision => !decision.accepted).length;
+
     setLoading(true);
     try {
-      await claimsAPI.respondToDeduction(claim._id, accepted);
+      await claimsAPI.respondToDeduction(claim._id, lineDecisions.length > 0 ? lineDecisions : acceptAll !== false);
       
-      const action = accepted ? 'accepted' : 'rejected';
-      const message = accepted 
+      const message = disputed === 0
         ? 'Deduction accepted! Claim moved to Admin for final approval.'
-        : 'Deduction rejected! Claim returned to Account for re-review.';
+        : `${disputed} deduction line(s) disputed. Claim returned to Account for re-review.`;
       
       toast.success(message);
       
       onResponseSubmitted();
       onHide();
-      setResponse(null);
     } catch (error: any) {
       console.error('Error responding to deduction:', error);
       toast.error('Failed to respond to deduction: ' + (error.response?.data?.message || error.message));
+      // The reviewer changed the claim since it was loaded; refresh rather than answer a stale offer
+      if (error.response?.status === 409) {
+        onResponseSubmitted();
+        onHide();
+      }
     } finally {
       setLoading(false);
     }
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string = 'INR') => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
-      currency: 'INR'
+      currency
     }).format(amount);
   };
 
+  const getPostLabel = (postId?: string | null) => {
+    if (!postId) return 'Whole claim';
+    const post = claim?.postIds.find((entry: any) => (entry?._id || entry) === postId);
+    const text = post?.contentText;
+    return text ? (text.length > 40 ? `${text.slice(0, 40)}...` : text) : `Post ${postId.slice(-6)}`;
+  };
+
   const finalAmount = claim ? claim.calculatedEarnings - claim.deductionAmount : 0;
+  const disputedCount = proposedLines.filter(line => getChoice(line._id) !== 'accept').length;
+  const hasHistory = (claim?.deductions || []).some(line => (line.rounds || []).length > 1);
 
   return (
     <Modal show={show} onHide={onHide} size="lg" centered>
@@ -85,13 +170,13 @@ const DeductionResponseModal: React.FC<DeductionResponseModalProps> = ({
               <Col md={6}>
                 <h6>Original Earnings</h6>
                 <Badge bg="success" className="fs-6">
-                  {formatCurrency(claim.calculatedEarnings)}
+                  {formatCurrency(claim.calculatedEarnings, claim.currency)}
                 </Badge>
               </Col>
               <Col md={6}>
                 <h6>Deduction Amount</h6>
                 <Badge bg="danger" className="fs-6">
-                  -{formatCurrency(claim.deductionAmount)}
+                  -{formatCurrency(claim.deductionAmount, claim.currency)}
                 </Badge>
               </Col>
             </Row>
@@ -100,23 +185,127 @@ const DeductionResponseModal: React.FC<DeductionResponseModalProps> = ({
               <Col>
                 <h6>Final Amount After Deduction</h6>
                 <Badge bg={finalAmount > 0 ? 'primary' : 'secondary'} className="fs-5">
-                  {formatCurrency(finalAmount)}
+                  {formatCurrency(finalAmount, claim.currency)}
                 </Badge>
               </Col>
             </Row>
 
-            <div className="mb-3">
-              <h6>Deduction Reason</h6>
-              <div className="border rounded p-3 bg-light">
-                {claim.deductionReason}
+            {proposedLines.length > 0 ? (
+              <div className="mb-3">
+                <h6>Deduction Items</h6>
+                <Table size="sm" bordered>
+                  <thead className="table-light">
+                    <tr>
+                      <th>Applies To</th>
+                      <th>Reason</th>
+                      <th className="text-end">Amount</th>
+                      <th className="text-center">Your Response</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {proposedLines.map((line) => (
+                      <React.Fragment key={line._id}>
+                        <tr>
+                          <td>{getPostLabel(line.postId)}</td>
+                          <td>
+                            {line.reasonLabel || 'Deduction'}
+                            {line.reason && <small className="d-block text-muted">{line.reason}</small>}
+                          </td>
+                          <td className="text-end">-{formatCurrency(line.amount, claim.currency)}</td>
+                          <td className="text-center">
+                            <ButtonGroup size="sm">
+                              <Button
+                                variant={getChoice(line._id) === 'accept' ? 'success' : 'outline-success'}
+                                onClick={() => updateDecision(line._id, { choice: 'accept' })}
+                                disabled={loading}
+                              >
+                                Accept
+                              </Button>
+                              <Button
+                                variant={getChoice(line._id) === 'counter' ? 'info' : 'outline-info'}
+                                onClick={() => updateDecision(line._id, { choice: 'counter' })}
+                                disabled={loading}
+                              >
+                                Counter
+                              </Button>
+                              <Button
+                                variant={getChoice(line._id) === 'dispute' ? 'danger' : 'outline-danger'}
+                                onClick={() => updateDecision(line._id, { choice: 'dispute' })}
+                                disabled={loading}
+                              >
+                                Dispute
+                              </Button>
+                            </ButtonGroup>
+                          </td>
+                        </tr>
+                        {getChoice(line._id) !== 'accept' && (
+                          <tr className="table-light">
+                            <td colSpan={4}>
+                              <Row className="g-2">
+                                {getChoice(line._id) === 'counter' && (
+                                  <Col md={4}>
+                                    <Form.Control
+                                      size="sm"
+                                      type="number"
+                                      min="0"
+                                      step="0.01"
+                                      placeholder="Amount you would accept"
+                                      value={decisions[line._id]?.counterAmount || ''}
+                                      onChange={(e) => updateDecision(line._id, { counterAmount: e.target.value })}
+                                    />
+                                  </Col>
+                                )}
+                                <Col>
+                                  <Form.Control
+                                    size="sm"
+                                    placeholder={getChoice(line._id) === 'counter' ? 'Why this amount? (optional)' : 'Why do you dispute this item? (optional)'}
+                                    maxLength={1000}
+                                    value={decisions[line._id]?.message || ''}
+                                    onChange={(e) => updateDecision(line._id, { message: e.target.value })}
+                                  />
+                                </Col>
+                              </Row>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                    {acceptedLines.map((line) => (
+                      <tr key={line._id} className="text-muted">
+                        <td>{getPostLabel(line.postId)}</td>
+                        <td>
+                          {line.reasonLabel || 'Deduction'}
+                          {line.reason && <small className="d-block text-muted">{line.reason}</small>}
+                        </td>
+                        <td className="text-end">-{formatCurrency(line.amount, claim.currency)}</td>
+                        <td className="text-center"><Badge bg="secondary">Accepted earlier</Badge></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
               </div>
-            </div>
+            ) : (
+              <div className="mb-3">
+                <h6>Deduction Reason</h6>
+                <div className="border rounded p-3 bg-light">
+                  {claim.deductionReason}
+                </div>
+              </div>
+            )}
+
+            {hasHistory && (
+              <div className="mb-3">
+                <h6>Negotiation So Far</h6>
+                <DeductionTimeline lines={claim.deductions || []} currency={claim.currency} getPostLabel={getPostLabel} />
+              </div>
+            )}
 
             <Alert variant="info">
               <strong>What happens next?</strong>
               <ul className="mb-0 mt-2">
-                <li><strong>If you Accept:</strong> Claim moves to Admin for final approval</li>
-                <li><strong>If you Reject:</strong> Claim returns to Account for re-review</li>
+                <li><strong>If you accept every item:</strong> Claim moves to Admin for final approval</li>
+                <li><strong>If you dispute or counter any item:</strong> Claim returns to Account for re-review; the items you accepted stay</li>
+                <li><strong>Counter-offers:</strong> The reviewer can accept your amount, propose another, or ask an admin to decide</li>
               </ul>
             </Alert>
 
@@ -125,21 +314,21 @@ const DeductionResponseModal: React.FC<DeductionResponseModalProps> = ({
                 variant="success"
                 size="lg"
                 onClick={() => handleResponse(true)}
-                disabled={loading || response === 'reject'}
+                disabled={loading}
                 className="px-4"
               >
                 <FaCheck className="me-2" />
-                Accept Deduction
+                Accept All
               </Button>
               <Button
-                variant="danger"
+                variant={disputedCount > 0 ? 'danger' : 'primary'}
                 size="lg"
-                onClick={() => handleResponse(false)}
-                disabled={loading || response === 'accept'}
+                onClick={() => handleResponse()}
+                disabled={loading || proposedLines.length === 0}
                 className="px-4"
               >
-                <FaTimes className="me-2" />
-                Reject Deduction
+                {disputedCount > 0 ? <FaTimes className="me-2" /> : <FaCheck className="me-2" />}
+                {disputedCount > 0 ? `Send Response (${disputedCount} Item(s) Challenged)` : 'Submit Response'}
               </Button>
             </div>
 
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Badge, ListGroup } from 'react-bootstrap';
+import { DeductionLine, DeductionRound } from './DeductionResponseModal';
+
+interface DeductionTimelineProps {
+  lines: DeductionLine[];
+  currency?: string;
+  getPostLabel: (postId?: string | null) => string;
+}
+
+const ROLE_NAMES: Record<DeductionRound['role'], string> = {
+  user: 'Creator',
+  account: 'Reviewer',
+  admin: 'Admin'
+};
+
+const ACTION_BADGES: Record<DeductionRound['action'], { variant: string; text: string }> = {
+  proposed: { variant: 'warning', text: 'Proposed' },
+  accepted: { variant: 'success', text: 'Accepted' },
+  disputed: { variant: 'danger', text: 'Disputed' },
+  countered: { variant: 'info', text: 'Counter-offer' },
+  withdrawn: { variant: 'secondary', text: 'Withdrawn' },
+  escalated: { variant: 'dark', text: 'Escalated' },
+  resolved: { variant: 'primary', text: 'Admin ruling' }
+};
+
+// Every round of the negotiation over each deduction line, oldest first
+const DeductionTimeline: React.FC<DeductionTimelineProps> = ({ lines, currency = 'INR', getPostLabel }) => {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency
+    }).format(amount);
+  };
+
+  const linesWithRounds = lines.filter(line => (line.rounds || []).length > 0);
+  if (linesWithRounds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      {linesWithRounds.map(line => (
+        <div key={line._id} className="mb-3">
+          <div className="small fw-bold mb-1">
+            {line.reasonLabel || 'Deduction'} &middot; {getPostLabel(line.postId)}
+          </div>
+          <ListGroup variant="flush" className="border-start border-2 ms-1">
+            {(line.rounds || []).map((round, index) => (
+              <ListGroup.Item key={index} className="py-1 ps-3 small">
+                <Badge bg={ACTION_BADGES[round.action].variant} className="me-2">
+                  {ACTION_BADGES[round.action].text}
+                </Badge>
+                <strong>{ROLE_NAMES[round.role]}</strong>
+                {round.amount != null && round.amount > 0 && <> &middot; {formatCurrency(round.amount)}</>}
+                <span className="text-muted ms-2">{new Date(round.at).toLocaleString('en-IN')}</span>
+                {round.message && <div className="text-muted fst-italic">"{round.message}"</div>}
+              </ListGroup.Item>
+            ))}
+          </ListGroup>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DeductionTimeline;
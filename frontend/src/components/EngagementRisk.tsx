@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { Badge, Button, Table } from 'react-bootstrap';
+import { FaShieldAlt, FaSyncAlt } from 'react-icons/fa';
+import { claimsAPI } from '../services/api';
+import toast from 'react-hot-toast';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+interface EngagementSignals {
+  counter: number;
+  tracked: number;
+  untracked: number;
+  repeats: number;
+  anonymous: number;
+  topIpShare: number;
+  peakPerMinute: number;
+  burstMinutes: number;
+  suspect: number;
+}
+
+interface PostRisk {
+  postId: string;
+  contentText: string;
+  score: number;
+  level: RiskLevel;
+  views: EngagementSignals;
+  likes: EngagementSignals;
+  flags: string[];
+}
+
+interface ClaimRisk {
+  score: number;
+  level: RiskLevel;
+  assessedAt: string;
+  posts: PostRisk[];
+}
+
+interface EngagementRiskProps {
+  claimId: string;
+}
+
+export const RISK_COLORS: Record<RiskLevel, string> = {
+  low: 'success',
+  medium: 'warning',
+  high: 'danger'
+};
+
+const RiskBadge: React.FC<{ score: number; level: RiskLevel }> = ({ score, level }) => (
+  <Badge bg={RISK_COLORS[level]} text={level === 'medium' ? 'dark' : undefined}>
+    {score} &middot; {level}
+  </Badge>
+);
+
+const Counter: React.FC<{ signals: EngagementSignals }> = ({ signals }) => (
+  <>
+    {signals.counter.toLocaleString()}
+    {signals.suspect > 0 && (
+      <small className="d-block text-danger">{signals.suspect.toLocaleString()} suspect</small>
+    )}
+  </>
+);
+
+// How far the views and likes a claim is paid on can be trusted, post by post. Suspect counts
+// are what a reviewer may want to deduct.
+const EngagementRisk: React.FC<EngagementRiskProps> = ({ claimId }) => {
+  const [risk, setRisk] = useState<ClaimRisk | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Bumped to rescore on demand
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    setLoading(true);
+    claimsAPI.getClaimRisk(claimId)
+      .then(response => setRisk(response.data.risk))
+      .catch(error => {
+        console.error('Error loading engagement risk:', error);
+        toast.error('Failed to load engagement risk: ' + (error.response?.data?.message || error.message));
+      })
+      .finally(() => setLoading(false));
+  }, [claimId, reloadKey]);
+
+  return (
+    <div className="mb-3">
+      <div className="d-flex justify-content-between align-items-center mb-2">
+        <h6 className="mb-0">
+          <FaShieldAlt className="me-2" />
+          Engagement Risk
+          {risk && <span className="ms-2"><RiskBadge score={risk.score} level={risk.level} /></span>}
+        </h6>
+        <Button variant="outline-secondary" size="sm" onClick={() => setReloadKey(key => key + 1)} disabled={loading}>
+          <FaSyncAlt className="me-2" />
+          Rescore
+        </Button>
+      </div>
+      {loading && !risk ? (
+        <p className="text-muted small mb-0">Scoring engagement...</p>
+      ) : risk && risk.posts.length > 0 ? (
+        <>
+          <Table size="sm" bordered responsive className="mb-1">
+            <thead>
+              <tr>
+                <th>Post</th>
+                <th>Risk</th>
+                <th>Views</th>
+                <th>Likes</th>
+                <th>Signals</th>
+              </tr>
+            </thead>
+            <tbody>
+              {risk.posts.map(post => (
+                <tr key={post.postId}>
+                  <td>{post.contentText.length > 40 ? `${post.contentText.slice(0, 40)}...` : post.contentText}</td>
+                  <td><RiskBadge score={post.score} level={post.level} /></td>
+                  <td><Counter signals={post.views} /></td>
+                  <td><Counter signals={post.likes} /></td>
+                  <td className="small">
+                    {post.flags.length > 0 ? (
+                      <ul className="mb-0 ps-3">
+                        {post.flags.map(flag => <li key={flag}>{flag}</li>)}
+                      </ul>
+                    ) : (
+                      <span className="text-muted">Nothing unusual</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+          <small className="text-muted">Scored {new Date(risk.assessedAt).toLocaleString()}</small>
+        </>
+      ) : (
+        <p className="text-muted small mb-0">No engagement to score.</p>
+      )}
+    </div>
+  );
+};
+
+export default EngagementRisk;
@@ -9,6 +9,7 @@ import {
 import { Link, useLocation } from "react-router-dom";
 import { useAuth } from "../context/AuthContext";
 import { useSocket } from "../context/SocketContext";
+import NotificationBell from "./NotificationBell";
 import {
   FaHome,
   FaFileAlt,
@@ -20,6 +21,12 @@ import {
   FaWifi,
   FaExclamationTriangle,
   FaCogs,
+  FaMoneyCheckAlt,
+  FaHandshake,
+  FaGlobe,
+  FaTags,
+  FaStopwatch,
+  FaClock,
 } from "react-icons/fa";
 
 interface NavItem {
@@ -109,12 +116,48 @@ const Navbar: React.FC = memo(() => {
           icon: <FaCheckCircle />,
           color: "#dc3545",
         },
+        {
+          to: "/payouts",
+          label: "Payouts",
+          icon: <FaMoneyCheckAlt />,
+          color: "#28a745",
+        },
         {
           to: "/reports",
           label: "Reports",
           icon: <FaChartBar />,
           color: "#6f42c1",
         },
+        {
+          to: "/rate-overrides",
+          label: "Rate Overrides",
+          icon: <FaHandshake />,
+          color: "#fd7e14",
+        },
+        {
+          to: "/currencies",
+          label: "Currencies",
+          icon: <FaGlobe />,
+          color: "#20c997",
+        },
+        {
+          to: "/deduction-reasons",
+          label: "Deduction Reasons",
+          icon: <FaTags />,
+          color: "#e83e8c",
+        },
+        {
+          to: "/sla-targets",
+          label: "SLA Targets",
+          icon: <FaStopwatch />,
+          color: "#ffc107",
+        },
+        {
+          to: "/jobs",
+          label: "Jobs",
+          icon: <FaClock />,
+          color: "#6c757d",
+        },
         {
           to: "/admin-settings",
           label: "Admin Settings",
@@ -246,6 +289,8 @@ const Navbar: React.FC = memo(() => {
           </Nav>
 
           <Nav className="ms-auto d-flex align-items-center gap-3">
+            <NotificationBell />
+
             <div
               className="position-relative d-flex align-items-center gap-1"
               style={{ cursor: "pointer" }}
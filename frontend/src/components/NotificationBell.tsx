@@ -0,0 +1,116 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Badge, Button, Dropdown } from 'react-bootstrap';
+import { FaBell } from 'react-icons/fa';
+import { useSocket } from '../context/SocketContext';
+import { notificationsAPI } from '../services/api';
+import toast from 'react-hot-toast';
+
+interface Notification {
+  _id: string;
+  type: string;
+  title: string;
+  message: string;
+  claimId?: string | null;
+  readAt?: string | null;
+  createdAt: string;
+}
+
+// In-app notifications for the signed-in user, e.g. SLA breaches escalated to admins. Reloads
+// whenever a socket event refreshes the app.
+const NotificationBell: React.FC = () => {
+  const { onAutoRefresh, offAutoRefresh } = useSocket();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unread, setUnread] = useState(0);
+
+  const loadNotifications = useCallback(() => {
+    notificationsAPI.getNotifications()
+      .then(response => {
+        setNotifications(response.data.notifications);
+        setUnread(response.data.unread);
+      })
+      .catch(error => console.warn('Failed to load notifications:', error));
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+    onAutoRefresh(loadNotifications);
+
+    return () => {
+      offAutoRefresh(loadNotifications);
+    };
+  }, [loadNotifications, onAutoRefresh, offAutoRefresh]);
+
+  const handleMarkRead = async (notification: Notification) => {
+    if (notification.readAt) {
+      return;
+    }
+
+    try {
+      await notificationsAPI.markRead(notification._id);
+      loadNotifications();
+    } catch (error: any) {
+      toast.error('Failed to update notification: ' + (error.response?.data?.message || error.message));
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationsAPI.markAllRead();
+      loadNotifications();
+    } catch (error: any) {
+      toast.error('Failed to update notifications: ' + (error.response?.data?.message || error.message));
+    }
+  };
+
+  return (
+    <Dropdown align="end">
+      <Dropdown.Toggle
+        variant="link"
+        className="position-relative text-decoration-none p-2"
+        style={{ color: 'rgba(255, 255, 255, 0.9)', border: 'none', background: 'transparent' }}
+        title="Notifications"
+      >
+        <FaBell style={{ fontSize: '1.1rem' }} />
+        {unread > 0 && (
+          <Badge bg="danger" pill className="position-absolute top-0 start-100 translate-middle" style={{ fontSize: '0.65rem' }}>
+            {unread}
+          </Badge>
+        )}
+      </Dropdown.Toggle>
+
+      <Dropdown.Menu style={{ width: '340px', maxHeight: '420px', overflowY: 'auto', borderRadius: '12px' }}>
+        <Dropdown.Header className="d-flex justify-content-between align-items-center">
+          <span className="fw-semibold text-dark">Notifications</span>
+          {unread > 0 && (
+            <Button variant="link" size="sm" className="p-0" onClick={handleMarkAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </Dropdown.Header>
+        {notifications.length === 0 ? (
+          <Dropdown.ItemText className="text-muted small">Nothing new.</Dropdown.ItemText>
+        ) : (
+          notifications.map(notification => (
+            <Dropdown.Item
+              key={notification._id}
+              onClick={() => handleMarkRead(notification)}
+              className={notification.readAt ? 'text-muted' : ''}
+              style={{ whiteSpace: 'normal' }}
+            >
+              <div className="d-flex justify-content-between">
+                <strong className="small">{notification.title}</strong>
+                {!notification.readAt && <Badge bg="primary" pill>new</Badge>}
+              </div>
+              <div className="small">{notification.message}</div>
+              <div className="text-muted" style={{ fontSize: '0.7rem' }}>
+                {new Date(notification.createdAt).toLocaleString('en-IN')}
+              </div>
+            </Dropdown.Item>
+          ))
+        )}
+      </Dropdown.Menu>
+    </Dropdown>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Badge, Button, Card, Table } from 'react-bootstrap';
+import { FaForward, FaInbox } from 'react-icons/fa';
+
+export interface ReviewerQueueCount {
+  reviewerId: string;
+  name: string;
+  awaitingReview: number;
+  waitingOnCreator: number;
+  total: number;
+}
+
+interface ReviewQueuePanelProps {
+  reviewers: ReviewerQueueCount[];
+  unassigned: number;
+  currentUserId?: string;
+  // Reviewers pull their next claim; admins only watch the queues
+  onNextClaim?: () => void;
+  loadingNext?: boolean;
+}
+
+// Open claims per account reviewer, and the claims waiting to be picked up
+const ReviewQueuePanel: React.FC<ReviewQueuePanelProps> = ({ reviewers, unassigned, currentUserId, onNextClaim, loadingNext }) => {
+  const myQueue = reviewers.find(reviewer => reviewer.reviewerId === currentUserId);
+
+  return (
+    <Card className="mb-3">
+      <Card.Body className="py-2">
+        <div className="d-flex flex-wrap justify-content-between align-items-center gap-2 mb-2">
+          <h6 className="mb-0">
+            <FaInbox className="me-2" />
+            Review Queues
+            {myQueue && <span className="text-muted ms-2 small">Yours: {myQueue.awaitingReview} to review</span>}
+            <Badge bg={unassigned > 0 ? 'warning' : 'secondary'} text={unassigned > 0 ? 'dark' : undefined} className="ms-2">
+              {unassigned} unassigned
+            </Badge>
+          </h6>
+          {onNextClaim && (
+            <Button variant="primary" size="sm" onClick={onNextClaim} disabled={loadingNext}>
+              <FaForward className="me-2" />
+              {loadingNext ? 'Finding...' : 'Next Claim'}
+            </Button>
+          )}
+        </div>
+        {reviewers.length === 0 ? (
+          <p className="text-muted small mb-0">No active account reviewers.</p>
+        ) : (
+          <Table size="sm" className="mb-0">
+            <thead>
+              <tr>
+                <th>Reviewer</th>
+                <th>To Review</th>
+                <th>Waiting on Creator</th>
+                <th>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reviewers.map(reviewer => (
+                <tr key={reviewer.reviewerId} className={reviewer.reviewerId === currentUserId ? 'table-active' : ''}>
+                  <td>{reviewer.name}</td>
+                  <td>{reviewer.awaitingReview}</td>
+                  <td>{reviewer.waitingOnCreator}</td>
+                  <td><strong>{reviewer.total}</strong></td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default ReviewQueuePanel;
@@ -10,6 +10,7 @@ interface User {
   email: string;
   role: 'user' | 'account' | 'admin';
   profileImageUrl?: string;
+  currency?: string;
 }
 
 interface AuthState {
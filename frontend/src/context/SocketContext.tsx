@@ -40,6 +40,8 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
   const dataRefreshCallbacksRef = useRef<Set<() => void>>(new Set());
   const autoRefreshCallbacksRef = useRef<Set<() => void>>(new Set());
   const connectionToastRef = useRef<string | null>(null);
+  // Claims this tab holds the review lock on, with the timer that keeps each lease alive
+  const lockHeartbeatsRef = useRef<Map<string, ReturnType<typeof setInterval>>>(new Map());
 
   const triggerAutoRefresh = useCallback(() => {
     socketLogger.info('Triggering auto-refresh for all registered components');
@@ -52,6 +54,20 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
     });
   }, []);
 
+  const stopLockHeartbeat = useCallback((claimId: string) => {
+    const heartbeat = lockHeartbeatsRef.current.get(claimId);
+    if (heartbeat) {
+      clearInterval(heartbeat);
+      lockHeartbeatsRef.current.delete(claimId);
+    }
+  }, []);
+
+  // The server lets go of a dropped connection's locks, so there is nothing left to renew
+  const stopAllLockHeartbeats = useCallback(() => {
+    lockHeartbeatsRef.current.forEach(heartbeat => clearInterval(heartbeat));
+    lockHeartbeatsRef.current.clear();
+  }, []);
+
   useEffect(() => {
     if (isAuthenticated && token && !socketRef.current) {
       socketLogger.info('Initializing WebSocket connection', {
@@ -102,6 +118,7 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         });
         
         setIsConnected(false);
+        stopAllLockHeartbeats();
         
         if (connectionToastRef.current) {
           toast.dismiss(connectionToastRef.current);
@@ -229,6 +246,18 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         triggerAutoRefresh();
       });
 
+      socket.on('lock_lost', (data) => {
+        socketLogger.warn('Claim lock lost', {
+          claimId: data.claimId,
+          message: data.message,
+          userId: user?.id
+        });
+        
+        stopLockHeartbeat(data.claimId);
+        toast.error(data.message);
+        triggerAutoRefresh();
+      });
+
       socket.on('lock_failed', (data) => {
         socketLogger.warn('Claim lock failed', {
           claimId: data.claimId,
@@ -258,12 +287,35 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
           userRole: user?.role
         });
         
-        if (user?.role === 'account' || user?.role === 'admin') {
+        if (data.assignedTo && data.assignedTo === user?.id) {
+          toast.success('New claim assigned to you for review');
+        } else if (user?.role === 'account' || user?.role === 'admin') {
           toast.success('New claim submitted for review');
         }
         triggerAutoRefresh();
       });
 
+      socket.on('claim_assigned', (data) => {
+        socketLogger.info('Claim assignment event received', {
+          claimId: data.claimId,
+          assignedTo: data.assignedTo,
+          userId: user?.id
+        });
+        
+        toast(data.message, { icon: '📥' });
+        triggerAutoRefresh();
+      });
+
+      socket.on('sla_breached', (data) => {
+        socketLogger.warn('SLA breach escalated', {
+          count: data.count,
+          userId: user?.id
+        });
+        
+        toast.error(data.message, { icon: '⏰', duration: 8000 });
+        triggerAutoRefresh();
+      });
+
       socket.on('deduction_applied', (data) => {
         socketLogger.info('Deduction applied event received', {
           claimId: data.claimId,
@@ -293,6 +345,26 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         triggerAutoRefresh();
       });
 
+      socket.on('info_requested', (data) => {
+        socketLogger.info('Information request received', {
+          claimId: data.claimId,
+          userId: user?.id
+        });
+        
+        toast(data.message || 'A reviewer needs more information about your claim', { icon: '📎' });
+        triggerAutoRefresh();
+      });
+
+      socket.on('comment_notification', (data) => {
+        socketLogger.info('Comment notification received', {
+          claimId: data.claimId,
+          commentId: data.commentId,
+          userId: user?.id
+        });
+        
+        toast(data.message, { icon: '💬' });
+      });
+
       socket.on('form_field_updated', (data) => {
         socketLogger.debug('Form field updated event received', {
           claimId: data.claimId,
@@ -356,6 +428,7 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
     }
 
     return () => {
+      stopAllLockHeartbeats();
       if (socketRef.current) {
         socketLogger.info('Cleaning up WebSocket connection', {
           socketId: socketRef.current.id,
@@ -372,7 +445,7 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         }
       }
     };
-  }, [isAuthenticated, token, user, triggerAutoRefresh]);
+  }, [isAuthenticated, token, user, triggerAutoRefresh, stopLockHeartbeat, stopAllLockHeartbeats]);
 
   const lockClaim = useCallback(async (claimId: string): Promise<boolean> => {
     if (!socketRef.current || !isConnected) {
@@ -399,15 +472,22 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
       }, 5000);
 
       const handleLockResponse = (data: any) => {
-        if (data.claimId === claimId) {
+        if (data.claimId === claimId && data.lockedBy === user?.id) {
           clearTimeout(timeout);
           socketRef.current!.off('claim_locked', handleLockResponse);
           socketRef.current!.off('lock_failed', handleLockFailed);
           
           socketLogger.info('Claim locked successfully', {
             claimId,
-            userId: user?.id
+            userId: user?.id,
+            leaseMs: data.leaseMs
           });
+
+          // Renew well inside the lease so one missed beat does not cost the lock
+          stopLockHeartbeat(claimId);
+          lockHeartbeatsRef.current.set(claimId, setInterval(() => {
+            socketRef.current?.emit('lock_heartbeat', { claimId });
+          }, data.leaseMs / 3));
           
           resolve(true);
         }
@@ -432,9 +512,10 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
       socketRef.current!.on('claim_locked', handleLockResponse);
       socketRef.current!.on('lock_failed', handleLockFailed);
     });
-  }, [isConnected, user]);
+  }, [isConnected, user, stopLockHeartbeat]);
 
   const unlockClaim = useCallback((claimId: string) => {
+    stopLockHeartbeat(claimId);
     if (socketRef.current && isConnected) {
       socketLogger.info('Unlocking claim', {
         claimId,
@@ -442,7 +523,7 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
       });
       socketRef.current.emit('unlock_claim', { claimId });
     }
-  }, [isConnected, user]);
+  }, [isConnected, user, stopLockHeartbeat]);
 
   const joinClaim = useCallback((claimId: string) => {
     if (socketRef.current && isConnected) {
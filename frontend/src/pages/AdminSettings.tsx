@@ -1,13 +1,40 @@
 import React, { useState, useEffect } from 'react';
-import { Container, Row, Col, Card, Form, Button, Alert, Badge } from 'react-bootstrap';
+import { Container, Row, Col, Card, Form, Button, Alert, Badge, Table } from 'react-bootstrap';
 import { settingsAPI } from '../services/api';
-import { FaCog, FaSave, FaUndo, FaInfoCircle } from 'react-icons/fa';
+import { FaCog, FaSave, FaUndo, FaInfoCircle, FaHistory, FaTimes, FaPlus, FaCalculator } from 'react-icons/fa';
 import toast from 'react-hot-toast';
 
+interface RateTier {
+  upTo: number | null;
+  rate: number;
+}
+
+interface TagMultiplier {
+  tag: string;
+  multiplier: number;
+}
+
+interface CurrencyRate {
+  currency: string;
+  ratePerLike: number;
+  ratePer100Views: number;
+}
+
 interface AdminSettings {
   _id?: string;
+  currency?: string;
+  currencyRates?: CurrencyRate[];
   ratePerLike: number;
   ratePer100Views: number;
+  likeTiers?: RateTier[];
+  viewTiers?: RateTier[];
+  maxPerPost?: number | null;
+  maxPerClaim?: number | null;
+  minPayout?: number;
+  dualApprovalThreshold?: number | null;
+  tagMultipliers?: TagMultiplier[];
+  effectiveFrom?: string;
+  effectiveTo?: string | null;
   createdAt?: string;
   updatedAt?: string;
   createdBy?: {
@@ -18,6 +45,38 @@ interface AdminSettings {
   };
 }
 
+interface RateCard extends AdminSettings {
+  _id: string;
+  status: 'scheduled' | 'current' | 'expired' | 'cancelled';
+}
+
+interface EarningsPreview {
+  likeEarnings: number;
+  viewEarnings: number;
+  multiplier: number;
+  capped: boolean;
+  amount: number;
+  claimTotal: number;
+  claimCapped: boolean;
+  belowMinimum: boolean;
+}
+
+// The fields that make up the earnings formula and approval rule, with defaults for cards saved
+// before they existed
+const getFormula = (settings: AdminSettings) => ({
+  currency: settings.currency,
+  currencyRates: settings.currencyRates || [],
+  ratePerLike: settings.ratePerLike,
+  ratePer100Views: settings.ratePer100Views,
+  likeTiers: settings.likeTiers || [],
+  viewTiers: settings.viewTiers || [],
+  maxPerPost: settings.maxPerPost ?? null,
+  maxPerClaim: settings.maxPerClaim ?? null,
+  minPayout: settings.minPayout || 0,
+  dualApprovalThreshold: settings.dualApprovalThreshold ?? null,
+  tagMultipliers: settings.tagMultipliers || []
+});
+
 const AdminSettings: React.FC = () => {
   const [settings, setSettings] = useState<AdminSettings>({
     ratePerLike: 0.01,
@@ -30,16 +89,24 @@ const AdminSettings: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  const [scheduleChange, setScheduleChange] = useState(false);
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [rateBasis, setRateBasis] = useState<'claim_submitted' | 'post_created'>('claim_submitted');
+  const [rateCards, setRateCards] = useState<RateCard[]>([]);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [sample, setSample] = useState({ likeCount: '1000', viewCount: '25000', tags: '' });
+  const [preview, setPreview] = useState<EarningsPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
 
   useEffect(() => {
     loadSettings();
+    loadRateCards();
   }, []);
 
   useEffect(() => {
-    const changed = 
-      settings.ratePerLike !== originalSettings.ratePerLike ||
-      settings.ratePer100Views !== originalSettings.ratePer100Views;
+    const changed = JSON.stringify(getFormula(settings)) !== JSON.stringify(getFormula(originalSettings));
     setHasChanges(changed);
+    setPreview(null);
   }, [settings, originalSettings]);
 
   const loadSettings = async () => {
@@ -51,6 +118,9 @@ const AdminSettings: React.FC = () => {
         const currentSettings = response.data.settings;
         setSettings(currentSettings);
         setOriginalSettings(currentSettings);
+        if (response.data.rateBasis) {
+          setRateBasis(response.data.rateBasis);
+        }
       }
     } catch (error: any) {
       console.error('Error loading admin settings:', error);
@@ -60,6 +130,31 @@ const AdminSettings: React.FC = () => {
     }
   };
 
+  const loadRateCards = async () => {
+    try {
+      const response = await settingsAPI.getRateCardHistory();
+      if (response.data.success) {
+        setRateCards(response.data.cards);
+      }
+    } catch (error: any) {
+      console.error('Error loading rate card history:', error);
+      toast.error('Failed to load rate card history: ' + (error.response?.data?.message || error.message));
+    }
+  };
+
+  const handleCancelRateCard = async (id: string) => {
+    try {
+      setCancellingId(id);
+      await settingsAPI.cancelRateCard(id);
+      toast.success('Scheduled rate change cancelled');
+      await loadRateCards();
+    } catch (error: any) {
+      toast.error('Failed to cancel rate change: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
   const handleInputChange = (field: keyof AdminSettings, value: string) => {
     const numValue = parseFloat(value) || 0;
     setSettings(prev => ({
@@ -68,6 +163,176 @@ const AdminSettings: React.FC = () => {
     }));
   };
 
+  const handleOptionalAmountChange = (field: 'maxPerPost' | 'maxPerClaim' | 'dualApprovalThreshold', value: string) => {
+    setSettings(prev => ({
+      ...prev,
+      [field]: value === '' ? null : parseFloat(value) || 0
+    }));
+  };
+
+  const handleTierChange = (field: 'likeTiers' | 'viewTiers', index: number, key: keyof RateTier, value: string) => {
+    setSettings(prev => {
+      const tiers = [...(prev[field] || [])];
+      const tier = { ...tiers[index]! };
+      if (key === 'upTo') {
+        tier.upTo = value === '' ? null : parseFloat(value) || 0;
+      } else {
+        tier.rate = parseFloat(value) || 0;
+      }
+      tiers[index] = tier;
+      return { ...prev, [field]: tiers };
+    });
+  };
+
+  const addTier = (field: 'likeTiers' | 'viewTiers') => {
+    setSettings(prev => {
+      const tiers = prev[field] || [];
+      const flatRate = field === 'likeTiers' ? prev.ratePerLike : prev.ratePer100Views;
+      return { ...prev, [field]: [...tiers, { upTo: null, rate: tiers[tiers.length - 1]?.rate ?? flatRate }] };
+    });
+  };
+
+  const removeTier = (field: 'likeTiers' | 'viewTiers', index: number) => {
+    setSettings(prev => ({
+      ...prev,
+      [field]: (prev[field] || []).filter((_, i) => i !== index)
+    }));
+  };
+
+  const handleTagMultiplierChange = (index: number, key: keyof TagMultiplier, value: string) => {
+    setSettings(prev => {
+      const multipliers = [...(prev.tagMultipliers || [])];
+      const entry = { ...multipliers[index]! };
+      if (key === 'tag') {
+        entry.tag = value;
+      } else {
+        entry.multiplier = parseFloat(value) || 0;
+      }
+      multipliers[index] = entry;
+      return { ...prev, tagMultipliers: multipliers };
+    });
+  };
+
+  const addTagMultiplier = () => {
+    setSettings(prev => ({
+      ...prev,
+      tagMultipliers: [...(prev.tagMultipliers || []), { tag: '', multiplier: 1.5 }]
+    }));
+  };
+
+  const removeTagMultiplier = (index: number) => {
+    setSettings(prev => ({
+      ...prev,
+      tagMultipliers: (prev.tagMultipliers || []).filter((_, i) => i !== index)
+    }));
+  };
+
+  const handleCurrencyRateChange = (index: number, key: keyof CurrencyRate, value: string) => {
+    setSettings(prev => {
+      const rates = [...(prev.currencyRates || [])];
+      const entry = { ...rates[index]! };
+      if (key === 'currency') {
+        entry.currency = value.toUpperCase();
+      } else {
+        entry[key] = parseFloat(value) || 0;
+      }
+      rates[index] = entry;
+      return { ...prev, currencyRates: rates };
+    });
+  };
+
+  const addCurrencyRate = () => {
+    setSettings(prev => ({
+      ...prev,
+      currencyRates: [...(prev.currencyRates || []), { currency: '', ratePerLike: prev.ratePerLike, ratePer100Views: prev.ratePer100Views }]
+    }));
+  };
+
+  const removeCurrencyRate = (index: number) => {
+    setSettings(prev => ({
+      ...prev,
+      currencyRates: (prev.currencyRates || []).filter((_, i) => i !== index)
+    }));
+  };
+
+  const handlePreview = async () => {
+    try {
+      setPreviewing(true);
+      const response = await settingsAPI.previewEarnings({
+        formula: getFormula(settings),
+        sample: {
+          likeCount: parseInt(sample.likeCount) || 0,
+          viewCount: parseInt(sample.viewCount) || 0,
+          tags: sample.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+        }
+      });
+      if (response.data.success) {
+        setPreview(response.data.preview);
+      }
+    } catch (error: any) {
+      setPreview(null);
+      toast.error('Preview failed: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const renderTierEditor = (field: 'likeTiers' | 'viewTiers', unitLabel: string, rateLabel: string) => {
+    const tiers = settings[field] || [];
+    return (
+      <>
+        {tiers.length === 0 ? (
+          <p className="text-muted small mb-2">No tiers: the flat rate above applies to every {unitLabel.slice(0, -1)}.</p>
+        ) : (
+          <Table size="sm" className="mb-2">
+            <thead>
+              <tr>
+                <th>Up to ({unitLabel})</th>
+                <th>{rateLabel}</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {tiers.map((tier, index) => (
+                <tr key={index}>
+                  <td>
+                    <Form.Control
+                      type="number"
+                      min="0"
+                      size="sm"
+                      placeholder="No limit"
+                      value={tier.upTo ?? ''}
+                      onChange={(e) => handleTierChange(field, index, 'upTo', e.target.value)}
+                    />
+                  </td>
+                  <td>
+                    <Form.Control
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      size="sm"
+                      value={tier.rate}
+                      onChange={(e) => handleTierChange(field, index, 'rate', e.target.value)}
+                    />
+                  </td>
+                  <td className="text-end">
+                    <Button variant="outline-danger" size="sm" onClick={() => removeTier(field, index)}>
+                      <FaTimes />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+        <Button variant="outline-primary" size="sm" onClick={() => addTier(field)}>
+          <FaPlus className="me-1" />
+          Add Tier
+        </Button>
+      </>
+    );
+  };
+
   const handleSave = async () => {
     try {
       setSaving(true);
@@ -77,17 +342,31 @@ const AdminSettings: React.FC = () => {
         return;
       }
 
+      if (scheduleChange && (!effectiveFrom || new Date(effectiveFrom) <= new Date())) {
+        toast.error('Choose a future date for the scheduled change');
+        return;
+      }
+
       const updateData = {
-        ratePerLike: settings.ratePerLike,
-        ratePer100Views: settings.ratePer100Views
+        ...getFormula(settings),
+        ...(scheduleChange && { effectiveFrom: new Date(effectiveFrom).toISOString() })
       };
 
       const response = await settingsAPI.updateAdminSettings(updateData);
 
       if (response.data.success) {
-        toast.success('Settings updated successfully!');
-        setOriginalSettings(settings);
+        if (scheduleChange) {
+          // Current rates stay in force until the scheduled date
+          toast.success(response.data.message || 'Rate change scheduled!');
+          setSettings(originalSettings);
+          setScheduleChange(false);
+          setEffectiveFrom('');
+        } else {
+          toast.success('Settings updated successfully!');
+          setOriginalSettings(settings);
+        }
         setHasChanges(false);
+        await loadRateCards();
       }
     } catch (error: any) {
       console.error('Error updating admin settings:', error);
@@ -103,13 +382,35 @@ const AdminSettings: React.FC = () => {
     setHasChanges(false);
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string = settings.currency || 'INR') => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
-      currency: 'INR'
+      currency
     }).format(amount);
   };
 
+  const formatDate = (dateString?: string | null) => {
+    if (!dateString) return '—';
+    return new Date(dateString).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const getRateCardBadge = (status: RateCard['status']) => {
+    const statusConfig = {
+      scheduled: { variant: 'info', text: 'Scheduled' },
+      current: { variant: 'success', text: 'Current' },
+      expired: { variant: 'secondary', text: 'Expired' },
+      cancelled: { variant: 'dark', text: 'Cancelled' }
+    };
+    const config = statusConfig[status] || { variant: 'secondary', text: status };
+    return <Badge bg={config.variant}>{config.text}</Badge>;
+  };
+
   if (loading) {
     return (
       <Container className="mt-4">
@@ -148,7 +449,8 @@ const AdminSettings: React.FC = () => {
               <Alert variant="info" className="mb-4">
                 <FaInfoCircle className="me-2" />
                 <strong>Rate Configuration:</strong> These settings control how earnings are calculated for content creators. 
-                Changes will affect all future claims and calculations.
+                Changes apply from their effective date; earlier claims keep the rates that were in effect for them.
+                Claims use the rate card in effect {rateBasis === 'post_created' ? 'when each post was created' : 'when the claim was submitted'}.
               </Alert>
 
               <Row>
@@ -225,12 +527,308 @@ const AdminSettings: React.FC = () => {
                 </Col>
               </Row>
 
+              <Row className="mt-4">
+                <Col md={6} className="mb-3">
+                  <Card className="h-100">
+                    <Card.Header className="bg-light">
+                      <h6 className="mb-0">Like Tiers</h6>
+                    </Card.Header>
+                    <Card.Body>
+                      {renderTierEditor('likeTiers', 'likes', 'Rate per like')}
+                    </Card.Body>
+                  </Card>
+                </Col>
+                <Col md={6} className="mb-3">
+                  <Card className="h-100">
+                    <Card.Header className="bg-light">
+                      <h6 className="mb-0">View Tiers</h6>
+                    </Card.Header>
+                    <Card.Body>
+                      {renderTierEditor('viewTiers', 'views', 'Rate per 100 views')}
+                    </Card.Body>
+                  </Card>
+                </Col>
+              </Row>
 
+              <Row>
+                <Col md={6} className="mb-3">
+                  <Card className="h-100">
+                    <Card.Header className="bg-light">
+                      <h6 className="mb-0">Caps, Minimum Payout & Approvals</h6>
+                    </Card.Header>
+                    <Card.Body>
+                      <Form.Group className="mb-2">
+                        <Form.Label>Maximum per post</Form.Label>
+                        <Form.Control
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="No cap"
+                          value={settings.maxPerPost ?? ''}
+                          onChange={(e) => handleOptionalAmountChange('maxPerPost', e.target.value)}
+                        />
+                      </Form.Group>
+                      <Form.Group className="mb-2">
+                        <Form.Label>Maximum per claim</Form.Label>
+                        <Form.Control
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="No cap"
+                          value={settings.maxPerClaim ?? ''}
+                          onChange={(e) => handleOptionalAmountChange('maxPerClaim', e.target.value)}
+                        />
+                      </Form.Group>
+                      <Form.Group>
+                        <Form.Label>Minimum payout per claim</Form.Label>
+                        <Form.Control
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={settings.minPayout ?? 0}
+                          onChange={(e) => handleInputChange('minPayout', e.target.value)}
+                        />
+                        <Form.Text className="text-muted">
+                          Claims earning less than this cannot be submitted.
+                        </Form.Text>
+                      </Form.Group>
+                      <Form.Group className="mt-2">
+                        <Form.Label>Two account approvals above</Form.Label>
+                        <Form.Control
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="Off"
+                          value={settings.dualApprovalThreshold ?? ''}
+                          onChange={(e) => handleOptionalAmountChange('dualApprovalThreshold', e.target.value)}
+                        />
+                        <Form.Text className="text-muted">
+                          Claims paying more than this need two different account reviewers to approve them.
+                        </Form.Text>
+                      </Form.Group>
+                    </Card.Body>
+                  </Card>
+                </Col>
+                <Col md={6} className="mb-3">
+                  <Card className="h-100">
+                    <Card.Header className="bg-light">
+                      <h6 className="mb-0">Tag Bonus Multipliers</h6>
+                    </Card.Header>
+                    <Card.Body>
+                      {(settings.tagMultipliers || []).length === 0 ? (
+                        <p className="text-muted small mb-2">No tag bonuses configured.</p>
+                      ) : (
+                        <Table size="sm" className="mb-2">
+                          <thead>
+                            <tr>
+                              <th>Tag</th>
+                              <th>Multiplier</th>
+                              <th></th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {(settings.tagMultipliers || []).map((entry, index) => (
+                              <tr key={index}>
+                                <td>
+                                  <Form.Control
+                                    size="sm"
+                                    value={entry.tag}
+                                    onChange={(e) => handleTagMultiplierChange(index, 'tag', e.target.value)}
+                                  />
+                                </td>
+                                <td>
+                                  <Form.Control
+                                    type="number"
+                                    step="0.1"
+                                    min="0"
+                                    size="sm"
+                                    value={entry.multiplier}
+                                    onChange={(e) => handleTagMultiplierChange(index, 'multiplier', e.target.value)}
+                                  />
+                                </td>
+                                <td className="text-end">
+                                  <Button variant="outline-danger" size="sm" onClick={() => removeTagMultiplier(index)}>
+                                    <FaTimes />
+                                  </Button>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </Table>
+                      )}
+                      <Button variant="outline-primary" size="sm" onClick={addTagMultiplier}>
+                        <FaPlus className="me-1" />
+                        Add Tag Bonus
+                      </Button>
+                      <Form.Text className="d-block text-muted mt-2">
+                        Posts with several matching tags get the highest multiplier.
+                      </Form.Text>
+                    </Card.Body>
+                  </Card>
+                </Col>
+              </Row>
 
+              <Card className="mb-3">
+                <Card.Header className="bg-light">
+                  <h6 className="mb-0">Currencies</h6>
+                </Card.Header>
+                <Card.Body>
+                  <Form.Group className="mb-3" style={{ maxWidth: 240 }}>
+                    <Form.Label>Rate card currency</Form.Label>
+                    <Form.Control
+                      value={settings.currency || ''}
+                      maxLength={3}
+                      onChange={(e) => setSettings(prev => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+                    />
+                    <Form.Text className="text-muted">
+                      Rates, caps and the minimum payout above are in this currency.
+                    </Form.Text>
+                  </Form.Group>
+                  {(settings.currencyRates || []).length === 0 ? (
+                    <p className="text-muted small mb-2">
+                      Creators paid in other currencies get these rates converted at the admin exchange rates.
+                    </p>
+                  ) : (
+                    <Table size="sm" className="mb-2">
+                      <thead>
+                        <tr>
+                          <th>Currency</th>
+                          <th>Rate per like</th>
+                          <th>Rate per 100 views</th>
+                          <th></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {(settings.currencyRates || []).map((entry, index) => (
+                          <tr key={index}>
+                            <td>
+                              <Form.Control
+                                size="sm"
+                                maxLength={3}
+                                value={entry.currency}
+                                onChange={(e) => handleCurrencyRateChange(index, 'currency', e.target.value)}
+                              />
+                            </td>
+                            <td>
+                              <Form.Control
+                                type="number"
+                                step="0.001"
+                                min="0"
+                                size="sm"
+                                value={entry.ratePerLike}
+                                onChange={(e) => handleCurrencyRateChange(index, 'ratePerLike', e.target.value)}
+                              />
+                            </td>
+                            <td>
+                              <Form.Control
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                size="sm"
+                                value={entry.ratePer100Views}
+                                onChange={(e) => handleCurrencyRateChange(index, 'ratePer100Views', e.target.value)}
+                              />
+                            </td>
+                            <td className="text-end">
+                              <Button variant="outline-danger" size="sm" onClick={() => removeCurrencyRate(index)}>
+                                <FaTimes />
+                              </Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </Table>
+                  )}
+                  <Button variant="outline-primary" size="sm" onClick={addCurrencyRate}>
+                    <FaPlus className="me-1" />
+                    Add Currency Rates
+                  </Button>
+                  <Form.Text className="d-block text-muted mt-2">
+                    Rates set for a currency replace the converted flat rates and tiers; caps and the minimum payout are
+                    always converted.
+                  </Form.Text>
+                </Card.Body>
+              </Card>
 
+              <Card className="border-info">
+                <Card.Header className="bg-light">
+                  <h6 className="mb-0">
+                    <FaCalculator className="me-2 text-info" />
+                    Preview Earnings
+                  </h6>
+                </Card.Header>
+                <Card.Body>
+                  <Row className="align-items-end">
+                    <Col md={3}>
+                      <Form.Label>Likes</Form.Label>
+                      <Form.Control
+                        type="number"
+                        min="0"
+                        value={sample.likeCount}
+                        onChange={(e) => setSample(prev => ({ ...prev, likeCount: e.target.value }))}
+                      />
+                    </Col>
+                    <Col md={3}>
+                      <Form.Label>Views</Form.Label>
+                      <Form.Control
+                        type="number"
+                        min="0"
+                        value={sample.viewCount}
+                        onChange={(e) => setSample(prev => ({ ...prev, viewCount: e.target.value }))}
+                      />
+                    </Col>
+                    <Col md={4}>
+                      <Form.Label>Tags (comma separated)</Form.Label>
+                      <Form.Control
+                        value={sample.tags}
+                        onChange={(e) => setSample(prev => ({ ...prev, tags: e.target.value }))}
+                      />
+                    </Col>
+                    <Col md={2}>
+                      <Button variant="info" className="w-100" onClick={handlePreview} disabled={previewing}>
+                        {previewing ? 'Calculating...' : 'Preview'}
+                      </Button>
+                    </Col>
+                  </Row>
+                  {preview && (
+                    <div className="mt-3">
+                      <div>
+                        Likes {formatCurrency(preview.likeEarnings)} + Views {formatCurrency(preview.viewEarnings)}
+                        {preview.multiplier !== 1 && ` × ${preview.multiplier} tag bonus`}
+                        {' = '}<strong>{formatCurrency(preview.amount)}</strong>
+                        {preview.capped && <Badge bg="warning" text="dark" className="ms-2">Per-post cap applied</Badge>}
+                      </div>
+                      <div className="mt-1">
+                        As a single-post claim: <strong>{formatCurrency(preview.claimTotal)}</strong>
+                        {preview.claimCapped && <Badge bg="warning" text="dark" className="ms-2">Per-claim cap applied</Badge>}
+                        {preview.belowMinimum && <Badge bg="danger" className="ms-2">Below minimum payout</Badge>}
+                      </div>
+                    </div>
+                  )}
+                </Card.Body>
+              </Card>
 
               <Row className="mt-4">
-                <Col className="d-flex justify-content-end gap-2">
+                <Col md={6}>
+                  <Form.Check
+                    type="switch"
+                    id="schedule-rate-change"
+                    label="Schedule this change for a later date"
+                    checked={scheduleChange}
+                    onChange={(e) => setScheduleChange(e.target.checked)}
+                  />
+                  {scheduleChange && (
+                    <Form.Group className="mt-2">
+                      <Form.Label>Effective From</Form.Label>
+                      <Form.Control
+                        type="datetime-local"
+                        value={effectiveFrom}
+                        onChange={(e) => setEffectiveFrom(e.target.value)}
+                      />
+                    </Form.Group>
+                  )}
+                </Col>
+                <Col md={6} className="d-flex justify-content-end align-items-start gap-2">
                   <Button
                     variant="outline-secondary"
                     onClick={handleReset}
@@ -252,7 +850,7 @@ const AdminSettings: React.FC = () => {
                     ) : (
                       <>
                         <FaSave className="me-2" />
-                        Save Changes
+                        {scheduleChange ? 'Schedule Change' : 'Save Changes'}
                       </>
                     )}
                   </Button>
@@ -260,6 +858,59 @@ const AdminSettings: React.FC = () => {
               </Row>
             </Card.Body>
           </Card>
+
+          <Card className="shadow-sm mt-4">
+            <Card.Header className="bg-light">
+              <h5 className="mb-0">
+                <FaHistory className="me-2 text-secondary" />
+                Rate Card History
+              </h5>
+            </Card.Header>
+            <Card.Body>
+              {rateCards.length === 0 ? (
+                <p className="text-muted mb-0">No rate cards have been saved yet.</p>
+              ) : (
+                <Table responsive hover size="sm" className="mb-0">
+                  <thead>
+                    <tr>
+                      <th>Effective From</th>
+                      <th>Effective To</th>
+                      <th>Rate / Like</th>
+                      <th>Rate / 100 Views</th>
+                      <th>Created By</th>
+                      <th>Status</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rateCards.map(card => (
+                      <tr key={card._id}>
+                        <td>{formatDate(card.effectiveFrom)}</td>
+                        <td>{formatDate(card.effectiveTo)}</td>
+                        <td>{formatCurrency(card.ratePerLike, card.currency)}</td>
+                        <td>{formatCurrency(card.ratePer100Views, card.currency)}</td>
+                        <td>{card.createdBy?.name || 'N/A'}</td>
+                        <td>{getRateCardBadge(card.status)}</td>
+                        <td className="text-end">
+                          {card.status === 'scheduled' && (
+                            <Button
+                              variant="outline-danger"
+                              size="sm"
+                              onClick={() => handleCancelRateCard(card._id)}
+                              disabled={cancellingId === card._id}
+                            >
+                              <FaTimes className="me-1" />
+                              Cancel
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+            </Card.Body>
+          </Card>
         </Col>
       </Row>
     </Container>
@@ -1,9 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { Container, Row, Col, Card, Form, Button, Alert, Table, Badge } from 'react-bootstrap';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { claimsAPI, postsAPI, settingsAPI } from '../services/api';
 import { useAuth } from '../context/AuthContext';
-import { FaTimes, FaFileAlt, FaCheck } from 'react-icons/fa';
+import { FaTimes, FaFileAlt, FaCheck, FaQuestionCircle, FaUndo } from 'react-icons/fa';
 import toast from 'react-hot-toast';
 
 interface Post {
@@ -15,13 +15,45 @@ interface Post {
   createdAt: string;
 }
 
+// Pending claim being changed in "edit" mode
+interface EditableClaim {
+  _id: string;
+  status: string;
+  postIds: Array<string | { _id: string }>;
+  proofFileUrls: string[];
+}
+
+// Claim on hold for more information, answered in "respond to request" mode
+interface InfoRequestedClaim {
+  _id: string;
+  status: string;
+  createdAt: string;
+  postIds: unknown[];
+  proofFileUrls: string[];
+  infoRequest?: {
+    message: string;
+    requestedAt: string;
+  } | null;
+}
+
 interface AdminSettings {
+  // The creator's payout currency; rates are already converted to it
+  currency?: string;
   ratePerLike: number;
   ratePer100Views: number;
+  likeTiers?: unknown[];
+  viewTiers?: unknown[];
+  maxPerPost?: number | null;
+  maxPerClaim?: number | null;
+  minPayout?: number;
+  tagMultipliers?: unknown[];
 }
 
 const ClaimForm: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const respondToClaimId = searchParams.get('respondTo');
+  const editClaimId = searchParams.get('edit');
   const { user, isAuthenticated } = useAuth();
   const [loading, setLoading] = useState(false);
   const [settingsLoading, setSettingsLoading] = useState(true);
@@ -33,17 +65,54 @@ const ClaimForm: React.FC = () => {
     ratePerLike: 0.01,
     ratePer100Views: 0.50
   });
-  const [existingClaims, setExistingClaims] = useState<any[]>([]);
+  const [claimedPostIds, setClaimedPostIds] = useState<string[]>([]);
+  const [respondClaim, setRespondClaim] = useState<InfoRequestedClaim | null>(null);
+  const [infoResponse, setInfoResponse] = useState('');
+  const [editingClaim, setEditingClaim] = useState<EditableClaim | null>(null);
+  // False once a reviewer has acted on the claim, even if it is back to pending
+  const [canEdit, setCanEdit] = useState(false);
+  const [removedProofFileUrls, setRemovedProofFileUrls] = useState<string[]>([]);
 
   useEffect(() => {
     if (isAuthenticated && user) {
+      if (respondToClaimId) {
+        return;
+      }
       loadUserPosts();
       loadAdminSettings();
-      loadExistingClaims();
+      loadClaimedPostIds();
     } else {
       navigate('/login');
     }
-  }, [isAuthenticated, user, navigate]);
+  }, [isAuthenticated, user, navigate, respondToClaimId]);
+
+  useEffect(() => {
+    if (!respondToClaimId) return;
+
+    claimsAPI.getClaimById(respondToClaimId)
+      .then(response => setRespondClaim(response.data.claim))
+      .catch(error => {
+        toast.error('Failed to load claim: ' + (error.response?.data?.message || error.message));
+        navigate('/');
+      });
+  }, [respondToClaimId, navigate]);
+
+  useEffect(() => {
+    if (!editClaimId) return;
+
+    Promise.all([claimsAPI.getClaimById(editClaimId), claimsAPI.getClaimTransitions(editClaimId)])
+      .then(([response, transitionsResponse]) => {
+        const claim: EditableClaim = response.data.claim;
+        setEditingClaim(claim);
+        setCanEdit((transitionsResponse.data.transitions || []).includes('edit_claim'));
+        setSelectedPosts(claim.postIds.map(post => typeof post === 'string' ? post : post._id));
+        setRemovedProofFileUrls([]);
+      })
+      .catch(error => {
+        toast.error('Failed to load claim: ' + (error.response?.data?.message || error.message));
+        navigate('/');
+      });
+  }, [editClaimId, navigate]);
 
   useEffect(() => {
     if (selectedPosts.length > 0) {
@@ -58,6 +127,14 @@ const ClaimForm: React.FC = () => {
     }
   }, [adminSettings, selectedPosts, posts]);
 
+  const hasAdvancedFormula = !!(
+    adminSettings.likeTiers?.length ||
+    adminSettings.viewTiers?.length ||
+    adminSettings.tagMultipliers?.length ||
+    adminSettings.maxPerPost != null ||
+    adminSettings.maxPerClaim != null
+  );
+
   const loadUserPosts = async () => {
     try {
       const response = await postsAPI.getUserPosts({ limit: 50 });
@@ -78,10 +155,10 @@ const ClaimForm: React.FC = () => {
     }
   };
 
-  const loadExistingClaims = async () => {
+  const loadClaimedPostIds = async () => {
     try {
-      const response = await claimsAPI.getUserClaims({ limit: 100 });
-      setExistingClaims(response.data.claims);
+      const response = await claimsAPI.getClaimedPostIds();
+      setClaimedPostIds(response.data.postIds);
     } catch (error) {
     }
   };
@@ -138,11 +215,58 @@ const ClaimForm: React.FC = () => {
   };
 
   const isPostAlreadyClaimed = (postId: string) => {
-    // Simple check: if any existing claim contains this postId, it's already claimed
-    return existingClaims.some(claim => 
-      claim.postIds.some((id: string) => id === postId) && 
-      claim.isActive
-    );
+    // The server decides which claims still hold their posts; the claim being edited keeps its own
+    const heldByEditedClaim = !!editingClaim?.postIds.some(post => (typeof post === 'string' ? post : post._id) === postId);
+    return claimedPostIds.includes(postId) && !heldByEditedClaim;
+  };
+
+  const keptProofFileUrls = (editingClaim?.proofFileUrls || []).filter(url => !removedProofFileUrls.includes(url));
+  const totalProofFiles = proofFiles.length + keptProofFileUrls.length;
+
+  const toggleExistingProofFile = (url: string) => {
+    setRemovedProofFileUrls(prev => prev.includes(url) ? prev.filter(removed => removed !== url) : [...prev, url]);
+  };
+
+  const getFileName = (fileUrl: string) => decodeURIComponent(fileUrl.split('/').pop() || fileUrl);
+
+  // Save changes to a pending claim; earnings are recalculated by the server
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingClaim) return;
+
+    if (selectedPosts.length === 0) {
+      toast.error('Please select at least one post');
+      return;
+    }
+
+    if (totalProofFiles === 0) {
+      toast.error('Please keep or upload at least one proof file');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('postIds', JSON.stringify(selectedPosts));
+      formData.append('removeProofFileUrls', JSON.stringify(removedProofFileUrls));
+      proofFiles.forEach(file => {
+        formData.append('proofFiles', file);
+      });
+
+      await claimsAPI.editClaim(editingClaim._id, formData);
+
+      toast.success('Claim updated');
+      navigate('/');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || error.message || 'Failed to update claim');
+      // The claim changed since it was loaded; the dashboard shows where it stands now
+      if (error.response?.status === 409) {
+        navigate('/');
+      }
+    } finally {
+      setLoading(false);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -204,13 +328,56 @@ const ClaimForm: React.FC = () => {
     }
   };
 
-  const formatCurrency = (amount: number) => {
+  // Answer an information request with a note and/or extra proof; the claim goes back to review
+  const handleRespond = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!respondClaim) return;
+
+    if (!infoResponse.trim() && proofFiles.length === 0) {
+      toast.error('Please add a response or at least one proof file');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('response', infoResponse.trim());
+      proofFiles.forEach(file => {
+        formData.append('proofFiles', file);
+      });
+
+      await claimsAPI.provideInfo(respondClaim._id, formData);
+
+      toast.success('Claim resubmitted for review');
+      navigate('/');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || error.message || 'Failed to respond to the request');
+      // The claim changed since it was loaded; the dashboard shows where it stands now
+      if (error.response?.status === 409) {
+        navigate('/');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number, currency: string = 'INR') => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
-      currency: 'INR'
+      currency
     }).format(amount);
   };
 
+  // Converted rates can be fractions of a cent, so keep more digits than for amounts
+  const formatRate = (rate: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: adminSettings.currency || 'INR',
+      maximumFractionDigits: 4
+    }).format(rate);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -219,6 +386,161 @@ const ClaimForm: React.FC = () => {
     });
   };
 
+  const proofFilesGroup = (
+    <Form.Group className="mb-4">
+      <Form.Label>
+        <strong>Upload Proof Files</strong>
+      </Form.Label>
+      <Alert variant="info">
+        Upload screenshots or documents as proof of your earnings. 
+        Supported formats: JPEG, PNG, GIF, PDF (Max 10MB each)
+      </Alert>
+      
+      <div className="mb-3">
+        <Form.Control
+          type="file"
+          multiple
+          accept="image/*,.pdf"
+          onChange={handleFileUpload}
+          className="mb-2"
+        />
+      </div>
+
+      {editingClaim && editingClaim.proofFileUrls.length > 0 && (
+        <div className="mb-3">
+          <h6>Current Files:</h6>
+          <div className="d-flex flex-wrap gap-2">
+            {editingClaim.proofFileUrls.map(url => {
+              const removed = removedProofFileUrls.includes(url);
+              return (
+                <div key={url} className={`d-flex align-items-center bg-light p-2 rounded ${removed ? 'text-decoration-line-through text-muted' : ''}`}>
+                  <FaFileAlt className="me-2 text-primary" />
+                  <span className="me-2">{getFileName(url)}</span>
+                  <Button
+                    variant={removed ? 'outline-secondary' : 'outline-danger'}
+                    size="sm"
+                    onClick={() => toggleExistingProofFile(url)}
+                    title={removed ? 'Keep file' : 'Remove file'}
+                  >
+                    {removed ? <FaUndo /> : <FaTimes />}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {proofFiles.length > 0 && (
+        <div>
+          <h6>Selected Files:</h6>
+          <div className="d-flex flex-wrap gap-2">
+            {proofFiles.map((file, index) => (
+              <div key={index} className="d-flex align-items-center bg-light p-2 rounded">
+                <FaFileAlt className="me-2 text-primary" />
+                <span className="me-2">{file.name}</span>
+                <Button
+                  variant="outline-danger"
+                  size="sm"
+                  onClick={() => removeFile(index)}
+                >
+                  <FaTimes />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Form.Group>
+  );
+
+  if (respondToClaimId) {
+    return (
+      <Container className="mt-4">
+        <Row className="justify-content-center">
+          <Col xs={12} lg={10}>
+            <Card className="shadow-sm border-0">
+              <Card.Header className="bg-info text-white">
+                <h4 className="mb-0">
+                  <FaQuestionCircle className="me-2" />
+                  Respond to Information Request
+                </h4>
+              </Card.Header>
+              <Card.Body className="p-4">
+                {!respondClaim ? (
+                  <div className="text-center">
+                    <div className="spinner-border" role="status">
+                      <span className="visually-hidden">Loading...</span>
+                    </div>
+                  </div>
+                ) : respondClaim.status !== 'info_requested' ? (
+                  <Alert variant="secondary" className="mb-0">
+                    This claim is not waiting on you right now.
+                  </Alert>
+                ) : (
+                  <Form onSubmit={handleRespond}>
+                    <Alert variant="info">
+                      <strong>The reviewer asks:</strong> {respondClaim.infoRequest?.message}
+                      <div className="small mt-1">
+                        Claim submitted {formatDate(respondClaim.createdAt)} &middot; {respondClaim.postIds.length} post(s)
+                        &middot; {respondClaim.proofFileUrls.length} proof file(s) already attached
+                      </div>
+                    </Alert>
+
+                    <Form.Group className="mb-4">
+                      <Form.Label>
+                        <strong>Your Response</strong>
+                      </Form.Label>
+                      <Form.Control
+                        as="textarea"
+                        rows={3}
+                        maxLength={1000}
+                        value={infoResponse}
+                        onChange={(e) => setInfoResponse(e.target.value)}
+                        placeholder="Explain or point the reviewer to the new proof"
+                      />
+                    </Form.Group>
+
+                    {proofFilesGroup}
+
+                    <div className="d-grid gap-2">
+                      <Button
+                        type="submit"
+                        variant="info"
+                        size="lg"
+                        disabled={loading || (!infoResponse.trim() && proofFiles.length === 0)}
+                      >
+                        {loading ? (
+                          <>
+                            <span className="spinner-border spinner-border-sm me-2" role="status" aria-hidden="true"></span>
+                            Resubmitting...
+                          </>
+                        ) : (
+                          <>
+                            <FaCheck className="me-2" />
+                            Resubmit Claim
+                          </>
+                        )}
+                      </Button>
+
+                      <Button
+                        type="button"
+                        variant="outline-secondary"
+                        onClick={() => navigate('/')}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </Form>
+                )}
+              </Card.Body>
+            </Card>
+          </Col>
+        </Row>
+      </Container>
+    );
+  }
+
   return (
     <Container className="mt-4">
       <Row className="justify-content-center">
@@ -227,202 +549,179 @@ const ClaimForm: React.FC = () => {
             <Card.Header className="bg-success text-white">
               <h4 className="mb-0">
                 <FaFileAlt className="me-2" />
-                Submit Earnings Claim
+                {editClaimId ? 'Edit Claim' : 'Submit Earnings Claim'}
               </h4>
             </Card.Header>
             <Card.Body className="p-4">
-              <Form onSubmit={handleSubmit}>
-                {/* Post Selection */}
-                <Form.Group className="mb-4">
-                  <Form.Label>
-                    <strong>Select Posts for Claim</strong>
-                  </Form.Label>
-                  <Alert variant="info">
-                    <strong>Earnings Calculation:</strong> 
-                    {settingsLoading ? (
-                      <span className="text-muted">Loading rates...</span>
-                    ) : (
-                      <span>
-                        ₹{adminSettings.ratePerLike.toFixed(2)} per like + ₹{adminSettings.ratePer100Views.toFixed(2)} per 100 views
-                      </span>
-                    )}
-                  </Alert>
-                  <Alert variant="warning">
-                    <strong>Important:</strong> Each post can only be claimed ONCE. Once a post is claimed and settled, it cannot be claimed again. This prevents duplicate earnings claims.
-                  </Alert>
-                  
-                  {posts.length > 0 ? (
-                    <Table responsive hover>
-                      <thead>
-                        <tr>
-                          <th>Select</th>
-                          <th>Content</th>
-                          <th>Likes</th>
-                          <th>Views</th>
-                          <th>Date</th>
-                          <th>Earnings</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {posts.map((post) => {
-                          const postEarnings = (post.likeCount * adminSettings.ratePerLike) + ((post.viewCount / 100) * adminSettings.ratePer100Views);
-                          const isAlreadyClaimed = isPostAlreadyClaimed(post._id);
-                          return (
-                            <tr key={post._id} className={isAlreadyClaimed ? 'table-secondary' : ''}>
-                              <td>
-                                <Form.Check
-                                  type="checkbox"
-                                  checked={selectedPosts.includes(post._id)}
-                                  onChange={() => handlePostSelection(post._id)}
-                                  disabled={isAlreadyClaimed}
-                                />
-                              </td>
-                              <td>
-                                <div className="text-truncate" style={{ maxWidth: '200px' }}>
-                                  {post.contentText}
-                                  {isAlreadyClaimed && (
-                                    <Badge bg="warning" className="ms-2">
-                                      Already Claimed
-                                    </Badge>
-                                  )}
-                                </div>
-                              </td>
-                              <td>
-                                <Badge bg="danger">{post.likeCount}</Badge>
-                              </td>
-                              <td>
-                                <Badge bg="info">{post.viewCount}</Badge>
-                              </td>
-                              <td>{formatDate(post.createdAt)}</td>
-                              <td className="fw-bold text-success">
-                                {formatCurrency(postEarnings)}
-                              </td>
-                            </tr>
-                          );
-                        })}
-                      </tbody>
-                    </Table>
-                  ) : (
+              {editClaimId && editingClaim && !canEdit ? (
+                <Alert variant="secondary" className="mb-0">
+                  This claim is already being reviewed and can no longer be changed.
+                </Alert>
+              ) : (
+                <Form onSubmit={editClaimId ? handleSaveEdit : handleSubmit}>
+                  {/* Post Selection */}
+                  <Form.Group className="mb-4">
+                    <Form.Label>
+                      <strong>Select Posts for Claim</strong>
+                    </Form.Label>
+                    <Alert variant="info">
+                      <strong>Earnings Calculation:</strong> 
+                      {settingsLoading ? (
+                        <span className="text-muted">Loading rates...</span>
+                      ) : (
+                        <span>
+                          {formatRate(adminSettings.ratePerLike)} per like + {formatRate(adminSettings.ratePer100Views)} per 100 views
+                        </span>
+                      )}
+                      {hasAdvancedFormula && (
+                        <div className="small mt-1">
+                          Amounts shown are estimates at the base rates. Tiered rates, caps and tag bonuses are applied when the claim is submitted.
+                        </div>
+                      )}
+                      {!!adminSettings.minPayout && (
+                        <div className="small mt-1">
+                          Minimum payout per claim: {formatCurrency(adminSettings.minPayout, adminSettings.currency)}
+                        </div>
+                      )}
+                    </Alert>
                     <Alert variant="warning">
-                      No posts found. Please create some posts first.
+                      <strong>Important:</strong> Each post can only be claimed ONCE. Once a post is claimed and settled, it cannot be claimed again. This prevents duplicate earnings claims.
                     </Alert>
-                  )}
-                </Form.Group>
-
-                {/* Proof Files */}
-                <Form.Group className="mb-4">
-                  <Form.Label>
-                    <strong>Upload Proof Files</strong>
-                  </Form.Label>
-                  <Alert variant="info">
-                    Upload screenshots or documents as proof of your earnings. 
-                    Supported formats: JPEG, PNG, GIF, PDF (Max 10MB each)
-                  </Alert>
-                  
-                  <div className="mb-3">
-                    <Form.Control
-                      type="file"
-                      multiple
-                      accept="image/*,.pdf"
-                      onChange={handleFileUpload}
-                      className="mb-2"
-                    />
-                  </div>
+                    
+                    {posts.length > 0 ? (
+                      <Table responsive hover>
+                        <thead>
+                          <tr>
+                            <th>Select</th>
+                            <th>Content</th>
+                            <th>Likes</th>
+                            <th>Views</th>
+                            <th>Date</th>
+                            <th>Earnings</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {posts.map((post) => {
+                            const postEarnings = (post.likeCount * adminSettings.ratePerLike) + ((post.viewCount / 100) * adminSettings.ratePer100Views);
+                            const isAlreadyClaimed = isPostAlreadyClaimed(post._id);
+                            return (
+                              <tr key={post._id} className={isAlreadyClaimed ? 'table-secondary' : ''}>
+                                <td>
+                                  <Form.Check
+                                    type="checkbox"
+                                    checked={selectedPosts.includes(post._id)}
+                                    onChange={() => handlePostSelection(post._id)}
+                                    disabled={isAlreadyClaimed}
+                                  />
+                                </td>
+                                <td>
+                                  <div className="text-truncate" style={{ maxWidth: '200px' }}>
+                                    {post.contentText}
+                                    {isAlreadyClaimed && (
+                                      <Badge bg="warning" className="ms-2">
+                                        Already Claimed
+                                      </Badge>
+                                    )}
+                                  </div>
+                                </td>
+                                <td>
+                                  <Badge bg="danger">{post.likeCount}</Badge>
+                                </td>
+                                <td>
+                                  <Badge bg="info">{post.viewCount}</Badge>
+                                </td>
+                                <td>{formatDate(post.createdAt)}</td>
+                                <td className="fw-bold text-success">
+                                  {formatCurrency(postEarnings, adminSettings.currency)}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </Table>
+                    ) : (
+                      <Alert variant="warning">
+                        No posts found. Please create some posts first.
+                      </Alert>
+                    )}
+                  </Form.Group>
 
-                  {proofFiles.length > 0 && (
-                    <div>
-                      <h6>Selected Files:</h6>
-                      <div className="d-flex flex-wrap gap-2">
-                        {proofFiles.map((file, index) => (
-                          <div key={index} className="d-flex align-items-center bg-light p-2 rounded">
-                            <FaFileAlt className="me-2 text-primary" />
-                            <span className="me-2">{file.name}</span>
-                            <Button
-                              variant="outline-danger"
-                              size="sm"
-                              onClick={() => removeFile(index)}
-                            >
-                              <FaTimes />
-                            </Button>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
+                  {/* Proof Files */}
+                  {proofFilesGroup}
+
+                  {/* Summary */}
+                  {selectedPosts.length > 0 && (
+                    <Card className="mb-4 bg-light">
+                      <Card.Body>
+                        <h6 className="card-title">Claim Summary</h6>
+                        <Row>
+                          <Col md={6}>
+                            <p><strong>Selected Posts:</strong> {selectedPosts.length}</p>
+                            <p><strong>Proof Files:</strong> {totalProofFiles}</p>
+                          </Col>
+                          <Col md={6}>
+                            <p><strong>Total Earnings:</strong></p>
+                            <h4 className={`mb-0 ${calculatedEarnings <= 0 ? 'text-danger' : 'text-success'}`}>
+                              {formatCurrency(calculatedEarnings, adminSettings.currency)}
+                            </h4>
+                            {calculatedEarnings <= 0 && (
+                              <small className="text-danger">
+                                ⚠️ You cannot submit a claim with ₹0 or negative earnings
+                              </small>
+                            )}
+                          </Col>
+                        </Row>
+                      </Card.Body>
+                    </Card>
                   )}
-                </Form.Group>
-
-                {/* Summary */}
-                {selectedPosts.length > 0 && (
-                  <Card className="mb-4 bg-light">
-                    <Card.Body>
-                      <h6 className="card-title">Claim Summary</h6>
-                      <Row>
-                        <Col md={6}>
-                          <p><strong>Selected Posts:</strong> {selectedPosts.length}</p>
-                          <p><strong>Proof Files:</strong> {proofFiles.length}</p>
-                        </Col>
-                        <Col md={6}>
-                          <p><strong>Total Earnings:</strong></p>
-                          <h4 className={`mb-0 ${calculatedEarnings <= 0 ? 'text-danger' : 'text-success'}`}>
-                            {formatCurrency(calculatedEarnings)}
-                          </h4>
-                          {calculatedEarnings <= 0 && (
-                            <small className="text-danger">
-                              ⚠️ You cannot submit a claim with ₹0 or negative earnings
-                            </small>
-                          )}
-                        </Col>
-                      </Row>
-                    </Card.Body>
-                  </Card>
-                )}
 
-                {/* Warning for zero earnings */}
-                {selectedPosts.length > 0 && calculatedEarnings <= 0 && (
-                  <Alert variant="danger" className="mb-4">
-                    <strong>Cannot Submit Claim</strong>
-                    <br />
-                    Your selected posts have a total earning of {formatCurrency(calculatedEarnings)}. 
-                    You cannot submit a claim with ₹0 or negative earnings. 
-                    Please select posts with positive earnings to proceed.
-                  </Alert>
-                )}
+                  {/* Warning for zero earnings */}
+                  {selectedPosts.length > 0 && calculatedEarnings <= 0 && (
+                    <Alert variant="danger" className="mb-4">
+                      <strong>Cannot Submit Claim</strong>
+                      <br />
+                      Your selected posts have a total earning of {formatCurrency(calculatedEarnings, adminSettings.currency)}. 
+                      You cannot submit a claim with ₹0 or negative earnings. 
+                      Please select posts with positive earnings to proceed.
+                    </Alert>
+                  )}
 
-                {/* Submit Button */}
-                <div className="d-grid gap-2">
-                  <Button
-                    type="submit"
-                    variant="success"
-                    size="lg"
-                    disabled={loading || selectedPosts.length === 0 || proofFiles.length === 0 || calculatedEarnings <= 0}
-                  >
-                    {loading ? (
-                      <>
-                        <span className="spinner-border spinner-border-sm me-2" role="status" aria-hidden="true"></span>
-                        Submitting Claim...
-                      </>
-                    ) : calculatedEarnings <= 0 ? (
-                      <>
-                        <FaTimes className="me-2" />
-                        Cannot Submit (₹0 Earnings)
-                      </>
-                    ) : (
-                      <>
-                        <FaCheck className="me-2" />
-                        Submit Claim
-                      </>
-                    )}
-                  </Button>
-                  
-                  <Button
-                    type="button"
-                    variant="outline-secondary"
-                    onClick={() => navigate('/')}
-                  >
-                    Cancel
-                  </Button>
-                </div>
-              </Form>
+                  {/* Submit Button */}
+                  <div className="d-grid gap-2">
+                    <Button
+                      type="submit"
+                      variant="success"
+                      size="lg"
+                      disabled={loading || selectedPosts.length === 0 || totalProofFiles === 0 || calculatedEarnings <= 0}
+                    >
+                      {loading ? (
+                        <>
+                          <span className="spinner-border spinner-border-sm me-2" role="status" aria-hidden="true"></span>
+                          {editClaimId ? 'Saving Changes...' : 'Submitting Claim...'}
+                        </>
+                      ) : calculatedEarnings <= 0 ? (
+                        <>
+                          <FaTimes className="me-2" />
+                          Cannot Submit (₹0 Earnings)
+                        </>
+                      ) : (
+                        <>
+                          <FaCheck className="me-2" />
+                          {editClaimId ? 'Save Changes' : 'Submit Claim'}
+                        </>
+                      )}
+                    </Button>
+                    
+                    <Button
+                      type="button"
+                      variant="outline-secondary"
+                      onClick={() => navigate('/')}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </Form>
+              )}
             </Card.Body>
           </Card>
         </Col>
@@ -0,0 +1,429 @@
+import React, { useState, useEffect } from 'react';
+import { Container, Row, Col, Card, Button, Table, Form, Modal, Alert, InputGroup } from 'react-bootstrap';
+import { FaGlobe, FaPlus, FaEdit, FaTrash, FaHistory } from 'react-icons/fa';
+import { currencyAPI, rateOverridesAPI } from '../services/api';
+import toast from 'react-hot-toast';
+
+interface ExchangeRate {
+  _id: string;
+  currency: string;
+  rate: number;
+  note?: string;
+  isActive: boolean;
+  createdBy?: { name: string };
+  updatedBy?: { name: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface Creator {
+  _id: string;
+  name: string;
+  email: string;
+  currency?: string;
+}
+
+interface RateForm {
+  currency: string;
+  rate: number;
+  note: string;
+}
+
+const emptyForm: RateForm = {
+  currency: '',
+  rate: 1,
+  note: ''
+};
+
+const Currencies: React.FC = () => {
+  const [reportingCurrency, setReportingCurrency] = useState('INR');
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [history, setHistory] = useState<ExchangeRate[]>([]);
+  const [creators, setCreators] = useState<Creator[]>([]);
+  const [creatorCurrencies, setCreatorCurrencies] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingRate, setEditingRate] = useState<ExchangeRate | null>(null);
+  const [form, setForm] = useState<RateForm>(emptyForm);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+
+      const [ratesResponse, historyResponse, creatorsResponse] = await Promise.all([
+        currencyAPI.getExchangeRates(),
+        currencyAPI.getExchangeRateHistory(),
+        rateOverridesAPI.getCreators()
+      ]);
+
+      setReportingCurrency(ratesResponse.data.reportingCurrency);
+      setRates(ratesResponse.data.rates);
+      setHistory(historyResponse.data.history);
+      setCreators(creatorsResponse.data.creators);
+      setCreatorCurrencies({});
+    } catch (error: any) {
+      console.error('Error loading currencies:', error);
+      toast.error('Failed to load currencies: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateModal = () => {
+    setEditingRate(null);
+    setForm(emptyForm);
+    setShowModal(true);
+  };
+
+  const openEditModal = (rate: ExchangeRate) => {
+    setEditingRate(rate);
+    setForm({ currency: rate.currency, rate: rate.rate, note: '' });
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    const currency = form.currency.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      toast.error('Currency must be a three-letter code');
+      return;
+    }
+    if (currency === reportingCurrency) {
+      toast.error(`${reportingCurrency} is the reporting currency; its rate is always 1`);
+      return;
+    }
+    if (!(form.rate > 0)) {
+      toast.error('Exchange rate must be greater than zero');
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      await currencyAPI.setExchangeRate(currency, form.rate, form.note.trim() || undefined);
+      toast.success(`Exchange rate for ${currency} saved`);
+      setShowModal(false);
+      await loadData();
+    } catch (error: any) {
+      toast.error('Failed to save exchange rate: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleRemove = async (rate: ExchangeRate) => {
+    if (!window.confirm(`Remove the ${rate.currency} exchange rate? Claims already approved keep their stored rate.`)) {
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      await currencyAPI.removeExchangeRate(rate.currency);
+      toast.success(`Exchange rate for ${rate.currency} removed`);
+      await loadData();
+    } catch (error: any) {
+      toast.error('Failed to remove exchange rate: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleCreatorCurrency = async (creator: Creator) => {
+    const currency = (creatorCurrencies[creator._id] || '').trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      toast.error('Currency must be a three-letter code');
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      await currencyAPI.updateCreatorCurrency(creator._id, currency);
+      toast.success(`${creator.name} is now paid in ${currency}`);
+      setCreators(prev => prev.map(c => (c._id === creator._id ? { ...c, currency } : c)));
+      setCreatorCurrencies(prev => {
+        const { [creator._id]: _, ...rest } = prev;
+        return rest;
+      });
+    } catch (error: any) {
+      toast.error('Failed to update creator currency: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const hasRate = (currency: string) =>
+    currency === reportingCurrency || rates.some(rate => rate.currency === currency);
+
+  if (loading && rates.length === 0) {
+    return (
+      <Container className="mt-4">
+        <div className="text-center">
+          <div className="spinner-border" role="status">
+            <span className="visually-hidden">Loading...</span>
+          </div>
+          <p className="mt-2">Loading currencies...</p>
+        </div>
+      </Container>
+    );
+  }
+
+  return (
+    <Container className="mt-4">
+      <Row>
+        <Col xs={12}>
+          <Card className="shadow-sm border-0 mb-4">
+            <Card.Header className="bg-dark text-white d-flex justify-content-between align-items-center">
+              <div>
+                <h4 className="mb-0">
+                  <FaGlobe className="me-2" />
+                  Currencies - Exchange Rates
+                </h4>
+                <small>Reports and payout totals are converted to {reportingCurrency}</small>
+              </div>
+              <Button variant="light" onClick={openCreateModal}>
+                <FaPlus className="me-2" />
+                New Rate
+              </Button>
+            </Card.Header>
+            <Card.Body className="p-4">
+              <Alert variant="info">
+                <small>
+                  A rate is the number of {reportingCurrency} one unit of the currency is worth. Claims record the rate
+                  in force when the admin approves them, so changing a rate never alters approved amounts.
+                </small>
+              </Alert>
+
+              {rates.length === 0 ? (
+                <Alert variant="secondary" className="mb-0">
+                  No exchange rates have been set. Every creator is paid in {reportingCurrency}.
+                </Alert>
+              ) : (
+                <Table responsive hover>
+                  <thead>
+                    <tr>
+                      <th>Currency</th>
+                      <th>Rate ({reportingCurrency})</th>
+                      <th>Last Updated</th>
+                      <th>Note</th>
+                      <th>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rates.map((rate) => (
+                      <tr key={rate._id}>
+                        <td><strong>{rate.currency}</strong></td>
+                        <td>{rate.rate}</td>
+                        <td>
+                          {formatDate(rate.createdAt)}
+                          {rate.updatedBy && (
+                            <>
+                              <br />
+                              <small className="text-muted">by {rate.updatedBy.name}</small>
+                            </>
+                          )}
+                        </td>
+                        <td><small className="text-muted">{rate.note || '-'}</small></td>
+                        <td>
+                          <div className="d-flex gap-2">
+                            <Button
+                              variant="outline-primary"
+                              size="sm"
+                              onClick={() => openEditModal(rate)}
+                              disabled={processing}
+                              title="Update rate"
+                            >
+                              <FaEdit />
+                            </Button>
+                            <Button
+                              variant="outline-danger"
+                              size="sm"
+                              onClick={() => handleRemove(rate)}
+                              disabled={processing}
+                              title="Remove"
+                            >
+                              <FaTrash />
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+            </Card.Body>
+          </Card>
+
+          <Card className="shadow-sm border-0 mb-4">
+            <Card.Header className="bg-light">
+              <h5 className="mb-0">Creator Currencies</h5>
+              <small className="text-muted">New claims are calculated in the creator's currency</small>
+            </Card.Header>
+            <Card.Body className="p-4">
+              {creators.length === 0 ? (
+                <Alert variant="info" className="mb-0">No active creators.</Alert>
+              ) : (
+                <Table responsive hover>
+                  <thead>
+                    <tr>
+                      <th>Creator</th>
+                      <th>Currency</th>
+                      <th style={{ width: 260 }}>Change To</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {creators.map((creator) => {
+                      const currency = creator.currency || reportingCurrency;
+                      return (
+                        <tr key={creator._id}>
+                          <td>
+                            <strong>{creator.name}</strong>
+                            <br />
+                            <small className="text-muted">{creator.email}</small>
+                          </td>
+                          <td>
+                            {currency}
+                            {!hasRate(currency) && (
+                              <small className="d-block text-danger">No exchange rate set</small>
+                            )}
+                          </td>
+                          <td>
+                            <InputGroup size="sm">
+                              <Form.Control
+                                maxLength={3}
+                                placeholder={currency}
+                                value={creatorCurrencies[creator._id] || ''}
+                                onChange={(e) => setCreatorCurrencies(prev => ({
+                                  ...prev,
+                                  [creator._id]: e.target.value.toUpperCase()
+                                }))}
+                              />
+                              <Button
+                                variant="outline-primary"
+                                onClick={() => handleCreatorCurrency(creator)}
+                                disabled={processing || !creatorCurrencies[creator._id]}
+                              >
+                                Save
+                              </Button>
+                            </InputGroup>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </Table>
+              )}
+            </Card.Body>
+          </Card>
+
+          <Card className="shadow-sm border-0">
+            <Card.Header className="bg-light">
+              <h5 className="mb-0">
+                <FaHistory className="me-2" />
+                Rate History
+              </h5>
+            </Card.Header>
+            <Card.Body className="p-4">
+              {history.length === 0 ? (
+                <p className="text-muted mb-0">No exchange rates have been recorded yet.</p>
+              ) : (
+                <Table responsive size="sm">
+                  <thead>
+                    <tr>
+                      <th>Set On</th>
+                      <th>Currency</th>
+                      <th>Rate ({reportingCurrency})</th>
+                      <th>Set By</th>
+                      <th>Status</th>
+                      <th>Note</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.map((entry) => (
+                      <tr key={entry._id}>
+                        <td>{formatDate(entry.createdAt)}</td>
+                        <td>{entry.currency}</td>
+                        <td>{entry.rate}</td>
+                        <td>{entry.createdBy?.name || '-'}</td>
+                        <td>{entry.isActive ? 'Current' : 'Replaced'}</td>
+                        <td><small className="text-muted">{entry.note || '-'}</small></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+            </Card.Body>
+          </Card>
+        </Col>
+      </Row>
+
+      {/* Set / update rate modal */}
+      <Modal show={showModal} onHide={() => setShowModal(false)}>
+        <Modal.Header closeButton>
+          <Modal.Title>{editingRate ? `Update ${editingRate.currency} Rate` : 'New Exchange Rate'}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <Form>
+            <Form.Group className="mb-3">
+              <Form.Label>Currency</Form.Label>
+              <Form.Control
+                type="text"
+                maxLength={3}
+                value={form.currency}
+                disabled={!!editingRate}
+                onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                placeholder="e.g. USD"
+              />
+            </Form.Group>
+
+            <Form.Group className="mb-3">
+              <Form.Label>
+                {reportingCurrency} per 1 {form.currency || 'unit'}
+              </Form.Label>
+              <Form.Control
+                type="number"
+                step="0.0001"
+                min="0"
+                value={form.rate}
+                onChange={(e) => setForm({ ...form, rate: parseFloat(e.target.value) || 0 })}
+              />
+            </Form.Group>
+
+            <Form.Group>
+              <Form.Label>Note</Form.Label>
+              <Form.Control
+                as="textarea"
+                rows={2}
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                placeholder="e.g. Source of the rate"
+                maxLength={500}
+              />
+            </Form.Group>
+          </Form>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setShowModal(false)}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSave} disabled={processing}>
+            {processing ? 'Saving...' : 'Save Rate'}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </Container>
+  );
+};
+
+export default Currencies;
@@ -1,22 +1,32 @@
 import React, { useState, useEffect } from 'react';
 import { Container, Row, Col, Card, Badge, Button, Modal, Image, Alert, Table, Pagination } from 'react-bootstrap';
 import { useNavigate } from 'react-router-dom';
-import { FaEye, FaEdit, FaTrash, FaPlus, FaClock, FaCheck, FaTimes, FaThumbsUp, FaEye as FaEyeIcon } from 'react-icons/fa';
+import { FaEye, FaEdit, FaTrash, FaPlus, FaClock, FaCheck, FaThumbsUp, FaEye as FaEyeIcon, FaQuestionCircle, FaUndo } from 'react-icons/fa';
 import { useSocket } from '../context/SocketContext';
 import { useAuth } from '../context/AuthContext';
-import { postsAPI, claimsAPI } from '../services/api';
+import { postsAPI, claimsAPI, rateOverridesAPI } from '../services/api';
 import EditPostModal from '../components/EditPostModal';
-import DeductionResponseModal from '../components/DeductionResponseModal';
+import DeductionResponseModal, { DeductionLine } from '../components/DeductionResponseModal';
+import ClaimComments from '../components/ClaimComments';
 import toast from 'react-hot-toast';
 import { userActionLogger } from '../config/logger';
 
 interface Claim {
   _id: string;
+  currency?: string;
   calculatedEarnings: number;
   status: string;
   createdAt: string;
   deductionAmount: number;
   deductionReason: string;
+  deductions?: DeductionLine[];
+  rejectionReason?: string;
+  infoRequest?: {
+    message: string;
+    requestedAt: string;
+  } | null;
+  lockedBy?: string | null;
+  lockExpiresAt?: string | null;
   postIds: any[];
 }
 
@@ -33,7 +43,7 @@ interface Post {
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
-  const { onAutoRefresh, offAutoRefresh, socket } = useSocket();
+  const { onAutoRefresh, offAutoRefresh, socket, joinClaim, leaveClaim } = useSocket();
   const navigate = useNavigate();
 
   const [recentClaims, setRecentClaims] = useState<Claim[]>([]);
@@ -52,9 +62,12 @@ const Dashboard: React.FC = () => {
   const [showEditPostModal, setShowEditPostModal] = useState(false);
   const [showDeductionModal, setShowDeductionModal] = useState(false);
   const [selectedClaim, setSelectedClaim] = useState<Claim | null>(null);
+  // What the server lets the current user do with the selected claim
+  const [availableTransitions, setAvailableTransitions] = useState<string[]>([]);
   const [selectedPost, setSelectedPost] = useState<Post | null>(null);
   const [deductionClaim, setDeductionClaim] = useState<Claim | null>(null);
   const [processing, setProcessing] = useState(false);
+  const [expiringOverrideCount, setExpiringOverrideCount] = useState(0);
 
   useEffect(() => {
     if (user) {
@@ -62,6 +75,15 @@ const Dashboard: React.FC = () => {
     }
   }, [user, claimsPage, postsPage]);
 
+  // Admins are warned about negotiated rates that are running out
+  useEffect(() => {
+    if (user?.role !== 'admin') return;
+
+    rateOverridesAPI.getExpiringOverrides()
+      .then(response => setExpiringOverrideCount(response.data.overrides.length))
+      .catch(error => console.error('Error loading expiring rate overrides:', error));
+  }, [user?.role]);
+
   // Register auto-refresh callback
   useEffect(() => {
     const handleAutoRefresh = () => {
@@ -175,9 +197,14 @@ const Dashboard: React.FC = () => {
       pending: { variant: 'warning', text: 'Pending' },
       deducted: { variant: 'danger', text: 'Deducted' },
       user_accepted: { variant: 'info', text: 'Accepted' },
-      user_rejected: { variant: 'secondary', text: 'Rejected' },
+      user_rejected: { variant: 'secondary', text: 'Deduction Rejected' },
+      escalated: { variant: 'dark', text: 'Escalated to Admin' },
+      info_requested: { variant: 'info', text: 'Info Requested' },
+      withdrawn: { variant: 'secondary', text: 'Withdrawn' },
+      account_rejected: { variant: 'danger', text: 'Rejected' },
       account_approved: { variant: 'primary', text: 'Account Approved' },
       admin_approved: { variant: 'success', text: 'Admin Approved' },
+      admin_rejected: { variant: 'danger', text: 'Admin Rejected' },
       settled: { variant: 'success', text: 'Settled' }
     };
 
@@ -191,8 +218,13 @@ const Dashboard: React.FC = () => {
       deducted: 'danger',
       user_accepted: 'info',
       user_rejected: 'secondary',
+      escalated: 'dark',
+      info_requested: 'info',
+      withdrawn: 'secondary',
       account_approved: 'primary',
+      account_rejected: 'danger',
       admin_approved: 'success',
+      admin_rejected: 'danger',
       settled: 'success'
     };
     return statusConfig[status as keyof typeof statusConfig] || 'secondary';
@@ -203,21 +235,30 @@ const Dashboard: React.FC = () => {
       pending: 'Pending',
       deducted: 'Deducted',
       user_accepted: 'Accepted',
-      user_rejected: 'Rejected',
+      user_rejected: 'Deduction Rejected',
+      escalated: 'Escalated to Admin',
+      info_requested: 'Info Requested',
+      withdrawn: 'Withdrawn',
       account_approved: 'Account Approved',
+      account_rejected: 'Rejected',
       admin_approved: 'Admin Approved',
+      admin_rejected: 'Admin Rejected',
       settled: 'Settled'
     };
     return statusConfig[status as keyof typeof statusConfig] || status;
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string = 'INR') => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
-      currency: 'INR'
+      currency
     }).format(amount);
   };
 
+  // A lapsed lock lease no longer counts; the server lets the creator edit again
+  const isUnderReview = (claim: Claim) =>
+    !!claim.lockedBy && !!claim.lockExpiresAt && new Date(claim.lockExpiresAt).getTime() > Date.now();
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -226,34 +267,66 @@ const Dashboard: React.FC = () => {
     });
   };
 
+  // The claim room carries new comments while the details are open
   const handleViewClaim = (claim: Claim) => {
     setSelectedClaim(claim);
     setShowClaimModal(true);
+    joinClaim(claim._id);
+    loadTransitions(claim._id);
+  };
+
+  const loadTransitions = async (claimId: string) => {
+    setAvailableTransitions([]);
+    try {
+      const response = await claimsAPI.getClaimTransitions(claimId);
+      setAvailableTransitions(response.data.transitions || []);
+    } catch (error: any) {
+      console.error('Error loading claim transitions:', error);
+    }
+  };
+
+  const handleCloseClaimModal = () => {
+    if (selectedClaim) {
+      leaveClaim(selectedClaim._id);
+    }
+    setShowClaimModal(false);
   };
 
-  const handleClaimAction = async (action: 'accept' | 'reject' | 'final-approve') => {
+  // Deductions are answered line by line in the response modal
+  const handleRespondToDeduction = (claim: Claim) => {
+    handleCloseClaimModal();
+    setDeductionClaim(claim);
+    setShowDeductionModal(true);
+  };
+
+  const handleClaimAction = async (action: 'final-approve' | 'withdraw') => {
     if (!selectedClaim) return;
+    if (action === 'withdraw' && !window.confirm('Withdraw this claim? Its posts can then be claimed again.')) {
+      return;
+    }
 
     try {
       setProcessing(true);
       
-      if (action === 'accept' || action === 'reject') {
-        await claimsAPI.respondToDeduction(selectedClaim._id, action === 'accept');
-        toast.success(action === 'accept' 
-          ? 'Deduction accepted! Claim moved to Admin for final approval.'
-          : 'Deduction rejected! Claim returned to Account for re-review.'
-        );
-      } else if (action === 'final-approve') {
+      if (action === 'final-approve') {
         await claimsAPI.adminApprove(selectedClaim._id);
-        toast.success('Claim approved! Final settlement completed.');
+        toast.success('Claim finally approved! It can now be added to a payout batch.');
+      } else if (action === 'withdraw') {
+        await claimsAPI.withdrawClaim(selectedClaim._id);
+        toast.success('Claim withdrawn');
       }
       
-      setShowClaimModal(false);
+      handleCloseClaimModal();
       setSelectedClaim(null);
       loadDashboardData();
     } catch (error: any) {
       console.error('Claim action error:', error);
       toast.error('Action failed: ' + (error.response?.data?.message || error.message));
+      // The claim changed since it was loaded; show its current state
+      if (error.response?.status === 409) {
+        handleCloseClaimModal();
+        loadDashboardData();
+      }
     } finally {
       setProcessing(false);
     }
@@ -350,6 +423,17 @@ const Dashboard: React.FC = () => {
             </Card.Header>
             <Card.Body className="p-4">
 
+          {user?.role === 'admin' && expiringOverrideCount > 0 && (
+            <Alert variant="warning" className="d-flex justify-content-between align-items-center">
+              <span>
+                {expiringOverrideCount} negotiated rate override(s) expiring soon or recently expired.
+              </span>
+              <Button variant="outline-dark" size="sm" onClick={() => navigate('/rate-overrides')}>
+                Review Overrides
+              </Button>
+            </Alert>
+          )}
+
           {/* Quick Actions */}
           <Row className="mb-4">
             <Col>
@@ -421,7 +505,7 @@ const Dashboard: React.FC = () => {
                       <tbody>
                         {recentClaims.map((claim) => (
                           <tr key={claim._id}>
-                            <td>{formatCurrency(claim.calculatedEarnings)}</td>
+                            <td>{formatCurrency(claim.calculatedEarnings, claim.currency)}</td>
                             <td>{getStatusBadge(claim.status)}</td>
                             <td>{formatDate(claim.createdAt)}</td>
                             <td>
@@ -634,7 +718,7 @@ const Dashboard: React.FC = () => {
           )}
 
           {/* Claim Details Modal */}
-          <Modal show={showClaimModal} onHide={() => setShowClaimModal(false)} size="lg">
+          <Modal show={showClaimModal} onHide={handleCloseClaimModal} size="lg">
             <Modal.Header closeButton>
               <Modal.Title>Claim Details</Modal.Title>
             </Modal.Header>
@@ -645,7 +729,7 @@ const Dashboard: React.FC = () => {
                     <Col md={6}>
                       <h6>Original Earnings</h6>
                       <Badge bg="success" className="fs-6">
-                        {formatCurrency(selectedClaim.calculatedEarnings)}
+                        {formatCurrency(selectedClaim.calculatedEarnings, selectedClaim.currency)}
                       </Badge>
                     </Col>
                     <Col md={6}>
@@ -662,13 +746,13 @@ const Dashboard: React.FC = () => {
                         <Col md={6}>
                           <h6>Deduction Amount</h6>
                           <Badge bg="danger" className="fs-6">
-                            -{formatCurrency(selectedClaim.deductionAmount)}
+                            -{formatCurrency(selectedClaim.deductionAmount, selectedClaim.currency)}
                           </Badge>
                         </Col>
                         <Col md={6}>
                           <h6>Final Amount After Deduction</h6>
                           <Badge bg="primary" className="fs-6">
-                            {formatCurrency(selectedClaim.calculatedEarnings - selectedClaim.deductionAmount)}
+                            {formatCurrency(selectedClaim.calculatedEarnings - selectedClaim.deductionAmount, selectedClaim.currency)}
                           </Badge>
                         </Col>
                       </Row>
@@ -682,31 +766,77 @@ const Dashboard: React.FC = () => {
                     </>
                   )}
 
+                  {selectedClaim.rejectionReason && (
+                    <div className="mb-3">
+                      <h6>Rejection Reason</h6>
+                      <div className="border rounded p-3 bg-light">
+                        {selectedClaim.rejectionReason}
+                      </div>
+                    </div>
+                  )}
+
                   <div className="mb-3">
                     <h6>Created</h6>
                     <p>{formatDate(selectedClaim.createdAt)}</p>
                   </div>
 
+                  <ClaimComments claimId={selectedClaim._id} />
+
                   {/* Role-specific action buttons */}
                   {user?.role === 'user' && selectedClaim.status === 'deducted' && (
                     <Alert variant="warning" className="mt-3">
                       <strong>Action Required:</strong> Please respond to the deduction applied to your claim.
                       <div className="d-flex gap-2 mt-3">
                         <Button
-                          variant="success"
-                          onClick={() => handleClaimAction('accept')}
+                          variant="warning"
+                          onClick={() => handleRespondToDeduction(selectedClaim)}
                           disabled={processing}
                         >
                           <FaCheck className="me-2" />
-                          Accept Deduction
+                          Review &amp; Respond
                         </Button>
+                      </div>
+                    </Alert>
+                  )}
+
+                  {/* Until a reviewer opens or acts on it, the creator can still fix or take back the claim */}
+                  {user?.role === 'user' && availableTransitions.includes('edit_claim') && !isUnderReview(selectedClaim) && (
+                    <div className="d-flex gap-2 mt-3">
+                      <Button
+                        variant="outline-primary"
+                        onClick={() => {
+                          handleCloseClaimModal();
+                          navigate(`/submit-claim?edit=${selectedClaim._id}`);
+                        }}
+                        disabled={processing}
+                      >
+                        <FaEdit className="me-2" />
+                        Edit Claim
+                      </Button>
+                      <Button
+                        variant="outline-danger"
+                        onClick={() => handleClaimAction('withdraw')}
+                        disabled={processing}
+                      >
+                        <FaUndo className="me-2" />
+                        Withdraw
+                      </Button>
+                    </div>
+                  )}
+
+                  {user?.role === 'user' && selectedClaim.status === 'info_requested' && selectedClaim.infoRequest && (
+                    <Alert variant="info" className="mt-3">
+                      <strong>More Information Needed:</strong> {selectedClaim.infoRequest.message}
+                      <div className="d-flex gap-2 mt-3">
                         <Button
-                          variant="danger"
-                          onClick={() => handleClaimAction('reject')}
-                          disabled={processing}
+                          variant="info"
+                          onClick={() => {
+                            handleCloseClaimModal();
+                            navigate(`/submit-claim?respondTo=${selectedClaim._id}`);
+                          }}
                         >
-                          <FaTimes className="me-2" />
-                          Reject Deduction
+                          <FaQuestionCircle className="me-2" />
+                          Respond to Request
                         </Button>
                       </div>
                     </Alert>
@@ -740,13 +870,13 @@ const Dashboard: React.FC = () => {
               )}
             </Modal.Body>
             <Modal.Footer>
-              <Button variant="secondary" onClick={() => setShowClaimModal(false)}>
+              <Button variant="secondary" onClick={handleCloseClaimModal}>
                 Close
               </Button>
               <Button 
                 variant="primary" 
                 onClick={() => {
-                  setShowClaimModal(false);
+                  handleCloseClaimModal();
                   navigate('/claims');
                 }}
               >
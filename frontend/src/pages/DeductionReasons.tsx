@@ -0,0 +1,363 @@
+import React, { useState, useEffect } from 'react';
+import { Container, Row, Col, Card, Button, Table, Form, Modal, Alert, Badge, InputGroup } from 'react-bootstrap';
+import { FaTags, FaPlus, FaEdit, FaTrash } from 'react-icons/fa';
+import { deductionReasonsAPI } from '../services/api';
+import toast from 'react-hot-toast';
+
+interface DeductionReason {
+  _id: string;
+  code: string;
+  label: string;
+  description?: string;
+  defaultPercent?: number | null;
+  defaultAmount?: number | null;
+  isActive: boolean;
+  updatedBy?: { name: string };
+  updatedAt: string;
+}
+
+type DefaultType = 'none' | 'percent' | 'amount';
+
+interface ReasonForm {
+  code: string;
+  label: string;
+  description: string;
+  defaultType: DefaultType;
+  defaultValue: number;
+}
+
+const emptyForm: ReasonForm = {
+  code: '',
+  label: '',
+  description: '',
+  defaultType: 'none',
+  defaultValue: 0
+};
+
+const DeductionReasons: React.FC = () => {
+  const [reportingCurrency, setReportingCurrency] = useState('INR');
+  const [reasons, setReasons] = useState<DeductionReason[]>([]);
+  const [showRetired, setShowRetired] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingReason, setEditingReason] = useState<DeductionReason | null>(null);
+  const [form, setForm] = useState<ReasonForm>(emptyForm);
+
+  useEffect(() => {
+    loadReasons();
+  }, [showRetired]);
+
+  const loadReasons = async () => {
+    try {
+      setLoading(true);
+      const response = await deductionReasonsAPI.getAllReasons(showRetired);
+      setReportingCurrency(response.data.reportingCurrency);
+      setReasons(response.data.reasons);
+    } catch (error: any) {
+      console.error('Error loading deduction reasons:', error);
+      toast.error('Failed to load deduction reasons: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number, currency = reportingCurrency) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency
+    }).format(amount);
+  };
+
+  const formatDefault = (reason: DeductionReason) => {
+    if (reason.defaultPercent != null) return `${reason.defaultPercent}% of earnings`;
+    if (reason.defaultAmount != null) return formatCurrency(reason.defaultAmount);
+    return '-';
+  };
+
+  const openCreateModal = () => {
+    setEditingReason(null);
+    setForm(emptyForm);
+    setShowModal(true);
+  };
+
+  const openEditModal = (reason: DeductionReason) => {
+    setEditingReason(reason);
+    setForm({
+      code: reason.code,
+      label: reason.label,
+      description: reason.description || '',
+      defaultType: reason.defaultPercent != null ? 'percent' : reason.defaultAmount != null ? 'amount' : 'none',
+      defaultValue: reason.defaultPercent ?? reason.defaultAmount ?? 0
+    });
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    const code = form.code.trim().toLowerCase();
+    if (!editingReason && !/^[a-z0-9]+(?:_[a-z0-9]+)*$/.test(code)) {
+      toast.error('Code may only contain letters, digits and underscores, e.g. bot_traffic');
+      return;
+    }
+    if (!form.label.trim()) {
+      toast.error('Label is required');
+      return;
+    }
+    if (form.defaultType === 'percent' && !(form.defaultValue > 0 && form.defaultValue <= 100)) {
+      toast.error('Default percentage must be between 0 and 100');
+      return;
+    }
+    if (form.defaultType === 'amount' && !(form.defaultValue > 0)) {
+      toast.error('Default amount must be greater than zero');
+      return;
+    }
+
+    const data = {
+      code,
+      label: form.label.trim(),
+      description: form.description.trim(),
+      defaultPercent: form.defaultType === 'percent' ? form.defaultValue : null,
+      defaultAmount: form.defaultType === 'amount' ? form.defaultValue : null
+    };
+
+    try {
+      setProcessing(true);
+      if (editingReason) {
+        await deductionReasonsAPI.updateReason(editingReason._id, data);
+        toast.success(`${data.label} updated`);
+      } else {
+        await deductionReasonsAPI.createReason(data);
+        toast.success(`${data.label} added to the catalogue`);
+      }
+      setShowModal(false);
+      await loadReasons();
+    } catch (error: any) {
+      toast.error('Failed to save deduction reason: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleRetire = async (reason: DeductionReason) => {
+    if (!window.confirm(`Retire "${reason.label}"? Existing deductions keep it; reviewers can no longer pick it.`)) {
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      await deductionReasonsAPI.deleteReason(reason._id);
+      toast.success(`${reason.label} retired`);
+      await loadReasons();
+    } catch (error: any) {
+      toast.error('Failed to retire deduction reason: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  if (loading && reasons.length === 0) {
+    return (
+      <Container className="mt-4">
+        <div className="text-center">
+          <div className="spinner-border" role="status">
+            <span className="visually-hidden">Loading...</span>
+          </div>
+          <p className="mt-2">Loading deduction reasons...</p>
+        </div>
+      </Container>
+    );
+  }
+
+  return (
+    <Container className="mt-4">
+      <Row>
+        <Col xs={12}>
+          <Card className="shadow-sm border-0">
+            <Card.Header className="bg-dark text-white d-flex justify-content-between align-items-center">
+              <div>
+                <h4 className="mb-0">
+                  <FaTags className="me-2" />
+                  Deduction Reasons
+                </h4>
+                <small>Reviewers pick one of these codes for every deduction line</small>
+              </div>
+              <Button variant="light" onClick={openCreateModal}>
+                <FaPlus className="me-2" />
+                New Reason
+              </Button>
+            </Card.Header>
+            <Card.Body className="p-4">
+              <div className="d-flex justify-content-between align-items-center mb-3">
+                <small className="text-muted">
+                  Defaults only pre-fill the amount; the reviewer can change it. Percentages are of what the post
+                  (or the whole claim) earned; fixed amounts are in {reportingCurrency} and converted to the claim currency.
+                </small>
+                <Form.Check
+                  type="switch"
+                  id="show-retired-reasons"
+                  label="Show retired"
+                  checked={showRetired}
+                  onChange={(e) => setShowRetired(e.target.checked)}
+                />
+              </div>
+
+              {reasons.length === 0 ? (
+                <Alert variant="warning" className="mb-0">
+                  The catalogue is empty, so reviewers cannot apply deductions. Add a reason to get started.
+                </Alert>
+              ) : (
+                <Table responsive hover>
+                  <thead>
+                    <tr>
+                      <th>Code</th>
+                      <th>Label</th>
+                      <th>Default</th>
+                      <th>Last Updated</th>
+                      <th>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reasons.map((reason) => (
+                      <tr key={reason._id} className={reason.isActive ? '' : 'text-muted'}>
+                        <td>
+                          <code>{reason.code}</code>
+                          {!reason.isActive && <Badge bg="secondary" className="ms-2">Retired</Badge>}
+                        </td>
+                        <td>
+                          <strong>{reason.label}</strong>
+                          {reason.description && (
+                            <>
+                              <br />
+                              <small className="text-muted">{reason.description}</small>
+                            </>
+                          )}
+                        </td>
+                        <td>{formatDefault(reason)}</td>
+                        <td>
+                          {new Date(reason.updatedAt).toLocaleDateString('en-IN')}
+                          {reason.updatedBy && (
+                            <>
+                              <br />
+                              <small className="text-muted">by {reason.updatedBy.name}</small>
+                            </>
+                          )}
+                        </td>
+                        <td>
+                          {reason.isActive && (
+                            <div className="d-flex gap-2">
+                              <Button
+                                variant="outline-primary"
+                                size="sm"
+                                onClick={() => openEditModal(reason)}
+                                disabled={processing}
+                                title="Edit"
+                              >
+                                <FaEdit />
+                              </Button>
+                              <Button
+                                variant="outline-danger"
+                                size="sm"
+                                onClick={() => handleRetire(reason)}
+                                disabled={processing}
+                                title="Retire"
+                              >
+                                <FaTrash />
+                              </Button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+            </Card.Body>
+          </Card>
+        </Col>
+      </Row>
+
+      {/* Create / edit reason modal */}
+      <Modal show={showModal} onHide={() => setShowModal(false)}>
+        <Modal.Header closeButton>
+          <Modal.Title>{editingReason ? `Edit ${editingReason.label}` : 'New Deduction Reason'}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <Form>
+            <Form.Group className="mb-3">
+              <Form.Label>Code</Form.Label>
+              <Form.Control
+                type="text"
+                maxLength={50}
+                value={form.code}
+                disabled={!!editingReason}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toLowerCase() })}
+                placeholder="e.g. bot_traffic"
+              />
+              {!editingReason && (
+                <Form.Text className="text-muted">The code cannot be changed later.</Form.Text>
+              )}
+            </Form.Group>
+
+            <Form.Group className="mb-3">
+              <Form.Label>Label</Form.Label>
+              <Form.Control
+                type="text"
+                maxLength={100}
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                placeholder="e.g. Bot traffic"
+              />
+            </Form.Group>
+
+            <Form.Group className="mb-3">
+              <Form.Label>Description</Form.Label>
+              <Form.Control
+                as="textarea"
+                rows={2}
+                maxLength={500}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="When reviewers should use this reason"
+              />
+            </Form.Group>
+
+            <Form.Group>
+              <Form.Label>Default Amount</Form.Label>
+              <InputGroup>
+                <Form.Select
+                  value={form.defaultType}
+                  onChange={(e) => setForm({ ...form, defaultType: e.target.value as DefaultType })}
+                >
+                  <option value="none">No default</option>
+                  <option value="percent">Percentage of earnings</option>
+                  <option value="amount">Fixed amount ({reportingCurrency})</option>
+                </Form.Select>
+                {form.defaultType !== 'none' && (
+                  <Form.Control
+                    type="number"
+                    min="0"
+                    max={form.defaultType === 'percent' ? 100 : undefined}
+                    step={form.defaultType === 'percent' ? '1' : '0.01'}
+                    value={form.defaultValue}
+                    onChange={(e) => setForm({ ...form, defaultValue: parseFloat(e.target.value) || 0 })}
+                  />
+                )}
+              </InputGroup>
+            </Form.Group>
+          </Form>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setShowModal(false)}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSave} disabled={processing}>
+            {processing ? 'Saving...' : 'Save Reason'}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </Container>
+  );
+};
+
+export default DeductionReasons;
@@ -7,7 +7,12 @@ import { claimsAPI } from '../services/api';
 import toast from 'react-hot-toast';
 import { Image } from 'react-bootstrap';
 import { FaFilter, FaImage, FaDownload } from 'react-icons/fa';
-import { FaTimes } from 'react-icons/fa';
+import { FaTimes, FaBalanceScale } from 'react-icons/fa';
+import { DeductionLine } from '../components/DeductionResponseModal';
+import DeductionTimeline from '../components/DeductionTimeline';
+import ClaimLockIndicator, { ClaimLock } from '../components/ClaimLockIndicator';
+import ClaimComments from '../components/ClaimComments';
+import BulkActionBar, { BulkClaimResult, BulkResultsModal } from '../components/BulkClaimActions';
 
 interface Claim {
   _id: string;
@@ -16,15 +21,18 @@ interface Claim {
     name: string;
     email: string;
   };
+  currency?: string;
   calculatedEarnings: number;
   status: string;
   createdAt: string;
   deductionAmount: number;
   deductionReason: string;
+  deductions?: DeductionLine[];
   proofFileUrls: string[];
-  postIds: string[];
-  lockedBy?: string;
-  lockTimestamp?: string;
+  postIds: Array<string | { _id: string; contentText?: string }>;
+  lock?: ClaimLock | null;
+  // Set while the claim is past the SLA target for its current status
+  slaBreach?: { status: string; targetHours: number; breachedAt: string } | null;
   reviewedBy?: {
     _id: string;
     name: string;
@@ -47,7 +55,7 @@ const FinalApproval: React.FC = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [totalClaims, setTotalClaims] = useState(0);
-  const [claimsPerPage] = useState(5);
+  const [claimsPerPage, setClaimsPerPage] = useState(5);
   const [selectedClaim, setSelectedClaim] = useState<Claim | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [showImageModal, setShowImageModal] = useState(false);
@@ -56,6 +64,15 @@ const FinalApproval: React.FC = () => {
   const [lockLoading, setLockLoading] = useState(false);
   const [showRejectModal, setShowRejectModal] = useState(false);
   const [rejectReason, setRejectReason] = useState('');
+  const [sendBack, setSendBack] = useState(false);
+  const [availableTransitions, setAvailableTransitions] = useState<string[]>([]);
+  // Admin ruling per escalated deduction line, as a decimal amount
+  const [rulings, setRulings] = useState<Record<string, string>>({});
+  const [rulingNote, setRulingNote] = useState('');
+  // Claims ticked for a bulk action, kept across pages, with the creator name to report them by
+  const [selectedIds, setSelectedIds] = useState<Record<string, string>>({});
+  const [bulkRejecting, setBulkRejecting] = useState(false);
+  const [bulkResults, setBulkResults] = useState<BulkClaimResult[] | null>(null);
 
   // Filters
   const [filters, setFilters] = useState({
@@ -66,7 +83,7 @@ const FinalApproval: React.FC = () => {
   // Load data when component mounts or page changes
   useEffect(() => {
     loadClaims();
-  }, [currentPage]);
+  }, [currentPage, claimsPerPage]);
 
   // Register auto-refresh callback
   useEffect(() => {
@@ -110,7 +127,7 @@ const FinalApproval: React.FC = () => {
       if (filters.status !== 'all') {
         apiParams.status = filters.status;
       } else {
-        apiParams.status = 'user_accepted,account_approved';
+        apiParams.status = 'user_accepted,account_approved,escalated';
       }
       
       const response = await claimsAPI.getAllClaims(apiParams);
@@ -158,6 +175,7 @@ const FinalApproval: React.FC = () => {
         setShowModal(true);
         joinClaim(claim._id);
         toast.success('Claim locked for editing');
+        await loadTransitions(claim._id);
       } else {
         toast.error('This claim is currently being reviewed by another user');
       }
@@ -169,6 +187,18 @@ const FinalApproval: React.FC = () => {
     }
   };
 
+  const loadTransitions = async (claimId: string) => {
+    try {
+      const response = await claimsAPI.getClaimTransitions(claimId);
+      setAvailableTransitions(response.data.transitions || []);
+    } catch (error: any) {
+      setAvailableTransitions([]);
+      toast.error('Failed to load available actions: ' + (error.response?.data?.message || error.message));
+    }
+  };
+
+  const canPerform = (transition: string) => availableTransitions.includes(transition);
+
   const handleCloseModal = () => {
     if (selectedClaim && claimLocked) {
       unlockClaim(selectedClaim._id);
@@ -178,6 +208,21 @@ const FinalApproval: React.FC = () => {
     }
     setShowModal(false);
     setSelectedClaim(null);
+    setAvailableTransitions([]);
+  };
+
+  // A 409 means the claim moved on without us: someone else acted on it first or holds its lock.
+  // Drop the stale copy and show the current list.
+  const handleActionError = (error: any) => {
+    if (error.response?.status !== 409) {
+      toast.error('Action failed: ' + (error.response?.data?.message || error.message));
+      return;
+    }
+
+    toast.error(error.response.data?.message || 'This claim was changed by someone else');
+    setShowRejectModal(false);
+    handleCloseModal();
+    loadClaims();
   };
 
   const handleClaimAction = async (action: 'accept' | 'reject' | 'final-approve') => {
@@ -192,15 +237,112 @@ const FinalApproval: React.FC = () => {
         await loadClaims();
         handleCloseModal();
       } else if (action === 'reject') {
-        await claimsAPI.accountReject(selectedClaim._id, rejectReason);
-        toast.success('Claim rejected!');
+        await claimsAPI.adminReject(selectedClaim._id, rejectReason, sendBack);
+        toast.success(sendBack ? 'Claim sent back to account review!' : 'Claim rejected!');
         setShowRejectModal(false);
         setRejectReason('');
+        setSendBack(false);
         await loadClaims();
         handleCloseModal();
       }
     } catch (error: any) {
-      toast.error('Action failed: ' + (error.response?.data?.message || error.message));
+      handleActionError(error);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const finishBulkAction = async (results: BulkClaimResult[], done: string) => {
+    const succeeded = results.filter(result => result.success).length;
+    if (succeeded === results.length) {
+      toast.success(`${succeeded} claim(s) ${done}`);
+    } else {
+      toast.error(`${results.length - succeeded} of ${results.length} claim(s) could not be ${done}`);
+      setBulkResults(results);
+    }
+    // Claims that failed stay selected, to retry or to act on differently
+    const failed = new Set(results.filter(result => !result.success).map(result => result.claimId));
+    setSelectedIds(prev => Object.fromEntries(Object.entries(prev).filter(([claimId]) => failed.has(claimId))));
+    await loadClaims();
+  };
+
+  const handleBulkFinalApprove = async () => {
+    if (!window.confirm(`Give final approval to ${selectedCount} claim(s)?`)) {
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      const response = await claimsAPI.bulkFinalApprove(Object.keys(selectedIds));
+      await finishBulkAction(response.data.results, 'finally approved');
+    } catch (error: any) {
+      toast.error('Bulk approval failed: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleBulkReject = async () => {
+    try {
+      setProcessing(true);
+      const response = await claimsAPI.bulkReject(Object.keys(selectedIds), rejectReason, sendBack);
+      setShowRejectModal(false);
+      setBulkRejecting(false);
+      setRejectReason('');
+      setSendBack(false);
+      await finishBulkAction(response.data.results, sendBack ? 'sent back' : 'rejected');
+    } catch (error: any) {
+      toast.error('Bulk rejection failed: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const closeRejectModal = () => {
+    setShowRejectModal(false);
+    setBulkRejecting(false);
+  };
+
+  // Disputed or countered lines the admin has to rule on
+  const escalatedLines = (selectedClaim?.deductions || []).filter(line => line.status === 'disputed' || line.status === 'countered');
+
+  useEffect(() => {
+    const lines = (selectedClaim?.deductions || []).filter(line => line.status === 'disputed' || line.status === 'countered');
+    // Start from the creator's counter-offer where there is one, otherwise the reviewer's amount
+    setRulings(Object.fromEntries(lines.map(line => [line._id, String(line.counterAmount ?? line.amount)])));
+    setRulingNote('');
+  }, [selectedClaim]);
+
+  const getPostLabel = (postId?: string | null) => {
+    if (!postId) return 'Whole claim';
+    const post = selectedClaim?.postIds.find(p => typeof p !== 'string' && p._id === postId);
+    if (post && typeof post !== 'string' && post.contentText) {
+      return post.contentText.length > 40 ? post.contentText.substring(0, 40) + '...' : post.contentText;
+    }
+    return `Post ${postId.slice(-6)}`;
+  };
+
+  const handleResolveEscalation = async () => {
+    if (!selectedClaim) return;
+    const lines = escalatedLines.map(line => ({ lineId: line._id, amount: parseFloat(rulings[line._id]) }));
+    const invalid = lines.find((ruling, index) => !(ruling.amount >= 0 && ruling.amount <= escalatedLines[index].amount));
+    if (invalid) {
+      toast.error('Each ruling must be between 0 and the amount the reviewer proposed');
+      return;
+    }
+    if (!rulingNote.trim()) {
+      toast.error('Please explain the ruling');
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      await claimsAPI.resolveEscalation(selectedClaim._id, lines, rulingNote.trim());
+      toast.success('Dispute resolved. The claim is ready for final approval.');
+      await loadClaims();
+      handleCloseModal();
+    } catch (error: any) {
+      handleActionError(error);
     } finally {
       setProcessing(false);
     }
@@ -211,18 +353,23 @@ const FinalApproval: React.FC = () => {
       toast.error('Please provide a rejection reason');
       return;
     }
+    if (bulkRejecting) {
+      await handleBulkReject();
+      return;
+    }
     if (!selectedClaim) return;
     
     try {
       setProcessing(true);
-      await claimsAPI.accountReject(selectedClaim._id, rejectReason);
-      toast.success('Claim rejected!');
+      await claimsAPI.adminReject(selectedClaim._id, rejectReason, sendBack);
+      toast.success(sendBack ? 'Claim sent back to account review!' : 'Claim rejected!');
       setShowRejectModal(false);
       setRejectReason('');
+      setSendBack(false);
       await loadClaims();
       handleCloseModal();
     } catch (error: any) {
-      toast.error('Action failed: ' + (error.response?.data?.message || error.message));
+      handleActionError(error);
     } finally {
       setProcessing(false);
     }
@@ -243,8 +390,13 @@ const FinalApproval: React.FC = () => {
       deducted: 'danger',
       user_accepted: 'info',
       user_rejected: 'secondary',
+      escalated: 'dark',
+      info_requested: 'info',
+      withdrawn: 'secondary',
       account_approved: 'primary',
+      account_rejected: 'danger',
       admin_approved: 'success',
+      admin_rejected: 'danger',
       settled: 'success'
     };
     return statusConfig[status as keyof typeof statusConfig] || 'secondary';
@@ -255,18 +407,23 @@ const FinalApproval: React.FC = () => {
       pending: 'Pending',
       deducted: 'Deducted',
       user_accepted: 'Accepted',
-      user_rejected: 'Rejected',
+      user_rejected: 'Deduction Rejected',
+      escalated: 'Escalated to Admin',
+      info_requested: 'Info Requested',
+      withdrawn: 'Withdrawn',
       account_approved: 'Account Approved',
+      account_rejected: 'Account Rejected',
       admin_approved: 'Admin Approved',
+      admin_rejected: 'Admin Rejected',
       settled: 'Settled'
     };
     return statusConfig[status as keyof typeof statusConfig] || status;
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string = 'INR') => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
-      currency: 'INR'
+      currency
     }).format(amount);
   };
 
@@ -290,7 +447,41 @@ const FinalApproval: React.FC = () => {
 
   // Helper function to check if claim is locked by someone else
   const isClaimLockedByOther = (claim: Claim): boolean => {
-    return !!(claim.lockedBy && claim.lockedBy !== user?.id);
+    return !!(claim.lock && claim.lock.lockedBy !== user?.id);
+  };
+
+  // Claims waiting on final approval that nobody else has open can be ticked for a bulk action
+  const isSelectable = (claim: Claim) =>
+    (claim.status === 'account_approved' || claim.status === 'user_accepted') && !isClaimLockedByOther(claim);
+
+  const selectableClaims = claims.filter(isSelectable);
+  const selectedCount = Object.keys(selectedIds).length;
+  const allSelected = selectableClaims.length > 0 && selectableClaims.every(claim => selectedIds[claim._id]);
+
+  const toggleSelected = (claim: Claim) => {
+    setSelectedIds(prev => {
+      const next = { ...prev };
+      if (next[claim._id]) {
+        delete next[claim._id];
+      } else {
+        next[claim._id] = claim.userId.name;
+      }
+      return next;
+    });
+  };
+
+  const togglePage = () => {
+    setSelectedIds(prev => {
+      const next = { ...prev };
+      selectableClaims.forEach(claim => {
+        if (allSelected) {
+          delete next[claim._id];
+        } else {
+          next[claim._id] = claim.userId.name;
+        }
+      });
+      return next;
+    });
   };
 
   if (loading) {
@@ -359,6 +550,7 @@ const FinalApproval: React.FC = () => {
                               <option value="all">All Status</option>
                               <option value="account_approved">Account Approved</option>
                               <option value="user_accepted">User Accepted</option>
+                              <option value="escalated">Escalated Disputes</option>
                             </Form.Select>
                           </Form.Group>
                         </Col>
@@ -385,9 +577,55 @@ const FinalApproval: React.FC = () => {
                 </Alert>
               ) : (
                 <>
+                  <div className="d-flex justify-content-end align-items-center mb-2">
+                    <Form.Label className="me-2 mb-0 small text-muted" htmlFor="claims-per-page">Per page</Form.Label>
+                    <Form.Select
+                      id="claims-per-page"
+                      size="sm"
+                      style={{ width: 'auto' }}
+                      value={claimsPerPage}
+                      onChange={(e) => {
+                        setClaimsPerPage(parseInt(e.target.value));
+                        setCurrentPage(1);
+                      }}
+                    >
+                      <option value={5}>5</option>
+                      <option value={25}>25</option>
+                      <option value={100}>100</option>
+                    </Form.Select>
+                  </div>
+
+                  <BulkActionBar count={selectedCount} onClear={() => setSelectedIds({})}>
+                    <Button variant="success" size="sm" onClick={handleBulkFinalApprove} disabled={processing}>
+                      <FaCheck className="me-2" />
+                      Final Approve Selected
+                    </Button>
+                    <Button
+                      variant="danger"
+                      size="sm"
+                      onClick={() => {
+                        setBulkRejecting(true);
+                        setShowRejectModal(true);
+                      }}
+                      disabled={processing}
+                    >
+                      <FaTimes className="me-2" />
+                      Reject Selected
+                    </Button>
+                  </BulkActionBar>
+
                   <Table responsive hover>
                     <thead>
                       <tr>
+                        <th>
+                          <Form.Check
+                            type="checkbox"
+                            aria-label="Select all claims on this page"
+                            checked={allSelected}
+                            disabled={selectableClaims.length === 0}
+                            onChange={togglePage}
+                          />
+                        </th>
                         <th>Creator Name</th>
                         <th>Email</th>
                         <th>Original Earnings</th>
@@ -403,12 +641,28 @@ const FinalApproval: React.FC = () => {
                         const finalAmount = claim.calculatedEarnings - claim.deductionAmount;
                         return (
                           <tr key={claim._id}>
+                            <td>
+                              <Form.Check
+                                type="checkbox"
+                                aria-label={`Select claim by ${claim.userId.name}`}
+                                checked={!!selectedIds[claim._id]}
+                                disabled={!isSelectable(claim)}
+                                onChange={() => toggleSelected(claim)}
+                              />
+                            </td>
                             <td>{claim.userId.name}</td>
                             <td>{claim.userId.email}</td>
-                            <td>{formatCurrency(claim.calculatedEarnings)}</td>
-                            <td className="text-danger">-{formatCurrency(claim.deductionAmount)}</td>
-                            <td className="text-success fw-bold">{formatCurrency(finalAmount)}</td>
-                            <td><Badge bg={getStatusColor(claim.status)}>{getStatusText(claim.status)}</Badge></td>
+                            <td>{formatCurrency(claim.calculatedEarnings, claim.currency)}</td>
+                            <td className="text-danger">-{formatCurrency(claim.deductionAmount, claim.currency)}</td>
+                            <td className="text-success fw-bold">{formatCurrency(finalAmount, claim.currency)}</td>
+                            <td>
+                              <Badge bg={getStatusColor(claim.status)}>{getStatusText(claim.status)}</Badge>
+                              {claim.slaBreach && (
+                                <Badge bg="danger" className="ms-1" title={`Target ${claim.slaBreach.targetHours}h in this status`}>
+                                  SLA breached
+                                </Badge>
+                              )}
+                            </td>
                             <td>{formatDate(claim.createdAt)}</td>
                             <td>
                               <div className="d-flex gap-2">
@@ -422,6 +676,7 @@ const FinalApproval: React.FC = () => {
                                   <FaEye />
                                 </Button>
                               </div>
+                              <ClaimLockIndicator lock={claim.lock} onLockBroken={loadClaims} />
                             </td>
                           </tr>
                         );
@@ -485,7 +740,7 @@ const FinalApproval: React.FC = () => {
                 <Col md={6}>
                   <h6>Original Earnings</h6>
                   <Badge bg="success" className="fs-6">
-                    {formatCurrency(selectedClaim.calculatedEarnings)}
+                    {formatCurrency(selectedClaim.calculatedEarnings, selectedClaim.currency)}
                   </Badge>
                 </Col>
                 <Col md={6}>
@@ -502,13 +757,13 @@ const FinalApproval: React.FC = () => {
                     <Col md={6}>
                       <h6>Deduction Amount</h6>
                       <Badge bg="danger" className="fs-6">
-                        -{formatCurrency(selectedClaim.deductionAmount)}
+                        -{formatCurrency(selectedClaim.deductionAmount, selectedClaim.currency)}
                       </Badge>
                     </Col>
                     <Col md={6}>
                       <h6>Final Amount After Deduction</h6>
                       <Badge bg="primary" className="fs-6">
-                        {formatCurrency(selectedClaim.calculatedEarnings - selectedClaim.deductionAmount)}
+                        {formatCurrency(selectedClaim.calculatedEarnings - selectedClaim.deductionAmount, selectedClaim.currency)}
                       </Badge>
                     </Col>
                   </Row>
@@ -522,11 +777,86 @@ const FinalApproval: React.FC = () => {
                 </>
               )}
 
+              {(selectedClaim.deductions || []).some(line => (line.rounds || []).length > 1) && (
+                <div className="mb-3">
+                  <h6>Negotiation Timeline</h6>
+                  <DeductionTimeline
+                    lines={selectedClaim.deductions || []}
+                    currency={selectedClaim.currency}
+                    getPostLabel={getPostLabel}
+                  />
+                </div>
+              )}
+
+              {canPerform('resolve_escalation') && escalatedLines.length > 0 && (
+                <Alert variant="dark" className="mt-3">
+                  <strong>
+                    <FaBalanceScale className="me-2" />
+                    Escalated Dispute:
+                  </strong>{' '}
+                  The reviewer and creator could not agree. Set the final deduction for each item; 0 drops it.
+                  <Table size="sm" className="mt-3 mb-2 bg-white">
+                    <thead>
+                      <tr>
+                        <th>Item</th>
+                        <th className="text-end">Reviewer</th>
+                        <th className="text-end">Creator</th>
+                        <th style={{ width: 160 }}>Ruling</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {escalatedLines.map(line => (
+                        <tr key={line._id}>
+                          <td>
+                            {line.reasonLabel || 'Deduction'}
+                            <small className="d-block text-muted">{getPostLabel(line.postId)}</small>
+                          </td>
+                          <td className="text-end">{formatCurrency(line.amount, selectedClaim.currency)}</td>
+                          <td className="text-end">
+                            {line.counterAmount != null ? formatCurrency(line.counterAmount, selectedClaim.currency) : 'Nothing'}
+                          </td>
+                          <td>
+                            <Form.Control
+                              size="sm"
+                              type="number"
+                              min="0"
+                              max={line.amount}
+                              step="0.01"
+                              value={rulings[line._id] ?? ''}
+                              onChange={(e) => setRulings({ ...rulings, [line._id]: e.target.value })}
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </Table>
+                  <Form.Control
+                    as="textarea"
+                    rows={2}
+                    maxLength={500}
+                    value={rulingNote}
+                    onChange={(e) => setRulingNote(e.target.value)}
+                    placeholder="Reason for the ruling (shown to the creator and reviewer)"
+                  />
+                  <Button
+                    variant="dark"
+                    className="mt-2"
+                    onClick={handleResolveEscalation}
+                    disabled={processing || !rulingNote.trim()}
+                  >
+                    <FaBalanceScale className="me-2" />
+                    Resolve Dispute
+                  </Button>
+                </Alert>
+              )}
+
               <div className="mb-3">
                 <h6>Created</h6>
                 <p>{formatDate(selectedClaim.createdAt)}</p>
               </div>
 
+              <ClaimComments claimId={selectedClaim._id} />
+
               {selectedClaim.proofFileUrls && selectedClaim.proofFileUrls.length > 0 && (
                 <div className="mb-4">
                   <h6>
@@ -575,7 +905,7 @@ const FinalApproval: React.FC = () => {
                 </div>
               )}
 
-              {(selectedClaim.status === 'user_accepted' || selectedClaim.status === 'account_approved') && (
+              {canPerform('admin_approve') && (
                 <Alert variant="info" className="mt-3">
                   <strong>Final Approval Required:</strong> 
                   {selectedClaim.status === 'user_accepted' 
@@ -591,14 +921,16 @@ const FinalApproval: React.FC = () => {
                       <FaCheck className="me-2" />
                       Final Approve
                     </Button>
-                    <Button
-                      variant="danger"
-                      onClick={() => setShowRejectModal(true)}
-                      disabled={processing}
-                    >
-                      <FaTimes className="me-2" />
-                      Reject
-                    </Button>
+                    {(canPerform('admin_reject') || canPerform('admin_send_back')) && (
+                      <Button
+                        variant="danger"
+                        onClick={() => setShowRejectModal(true)}
+                        disabled={processing}
+                      >
+                        <FaTimes className="me-2" />
+                        Reject
+                      </Button>
+                    )}
                   </div>
                 </Alert>
               )}
@@ -649,9 +981,9 @@ const FinalApproval: React.FC = () => {
         </Modal.Footer>
       </Modal>
 
-      <Modal show={showRejectModal} onHide={() => setShowRejectModal(false)} size="sm">
+      <Modal show={showRejectModal} onHide={closeRejectModal} size="sm">
         <Modal.Header closeButton>
-          <Modal.Title>Reject Claim</Modal.Title>
+          <Modal.Title>{bulkRejecting ? `Reject ${selectedCount} Claims` : 'Reject Claim'}</Modal.Title>
         </Modal.Header>
         <Modal.Body>
           <Form.Group>
@@ -664,17 +996,31 @@ const FinalApproval: React.FC = () => {
               placeholder="Enter reason for rejecting the claim"
             />
           </Form.Group>
+          <Form.Check
+            type="checkbox"
+            id="send-back-to-account"
+            className="mt-3"
+            label="Send back to account review instead of rejecting"
+            checked={sendBack}
+            onChange={(e) => setSendBack(e.target.checked)}
+          />
         </Modal.Body>
         <Modal.Footer>
-          <Button variant="secondary" onClick={() => setShowRejectModal(false)}>
+          <Button variant="secondary" onClick={closeRejectModal}>
             Cancel
           </Button>
           <Button variant="danger" onClick={handleReject} disabled={processing}>
             <FaTimes className="me-2" />
-            Reject Claim
+            {sendBack ? 'Send Back' : bulkRejecting ? 'Reject Claims' : 'Reject Claim'}
           </Button>
         </Modal.Footer>
       </Modal>
+
+      <BulkResultsModal
+        results={bulkResults}
+        getLabel={(claimId) => selectedIds[claimId] || 'Claim'}
+        onHide={() => setBulkResults(null)}
+      />
     </Container>
   );
 };
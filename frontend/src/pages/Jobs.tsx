@@ -0,0 +1,298 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Container, Row, Col, Card, Button, Table, Form, Badge, Modal, Alert } from 'react-bootstrap';
+import { FaClock, FaPlay, FaHistory, FaSyncAlt } from 'react-icons/fa';
+import { jobsAPI } from '../services/api';
+import toast from 'react-hot-toast';
+
+interface Job {
+  _id: string;
+  name: string;
+  description: string;
+  intervalMs: number;
+  enabled: boolean;
+  nextRunAt: string;
+  lockedBy?: string | null;
+  runRequestedAt?: string | null;
+  attempts: number;
+  lastRunAt?: string | null;
+  lastStatus?: 'succeeded' | 'failed' | null;
+  lastError?: string | null;
+  lastDurationMs?: number | null;
+  // No longer registered by the backend, so it will not run
+  registered: boolean;
+  running: boolean;
+}
+
+interface JobRun {
+  _id: string;
+  instanceId: string;
+  attempt: number;
+  manual: boolean;
+  startedAt: string;
+  durationMs: number;
+  status: 'succeeded' | 'failed';
+  result?: Record<string, any> | null;
+  error?: string | null;
+}
+
+const formatInterval = (ms: number): string => {
+  const minutes = ms / 60000;
+  if (minutes < 60) return `${Math.round(minutes * 10) / 10} min`;
+  if (minutes < 60 * 24) return `${Math.round((minutes / 60) * 10) / 10} h`;
+  return `${Math.round((minutes / (60 * 24)) * 10) / 10} days`;
+};
+
+const formatDateTime = (dateString?: string | null): string =>
+  dateString ? new Date(dateString).toLocaleString('en-IN') : '-';
+
+const formatResult = (result?: Record<string, any> | null): string =>
+  result ? Object.entries(result).map(([key, value]) => `${key}: ${value}`).join(', ') : '-';
+
+// Background jobs run by the backend scheduler: their schedule, last run and run history
+const Jobs: React.FC = () => {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+
+  const [historyJob, setHistoryJob] = useState<Job | null>(null);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [loadingRuns, setLoadingRuns] = useState(false);
+
+  const loadJobs = useCallback(() => {
+    jobsAPI.getJobs()
+      .then(response => setJobs(response.data.jobs))
+      .catch((error: any) => {
+        console.error('Error loading jobs:', error);
+        toast.error('Failed to load jobs: ' + (error.response?.data?.message || error.message));
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const handleRunNow = async (job: Job) => {
+    try {
+      setProcessing(true);
+      const response = await jobsAPI.runJob(job.name);
+      toast.success(response.data.message);
+      loadJobs();
+    } catch (error: any) {
+      toast.error('Failed to start job: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleToggle = async (job: Job) => {
+    try {
+      setProcessing(true);
+      await jobsAPI.setEnabled(job.name, !job.enabled);
+      toast.success(`${job.name} ${job.enabled ? 'disabled' : 'enabled'}`);
+      loadJobs();
+    } catch (error: any) {
+      toast.error('Failed to update job: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const openHistory = async (job: Job) => {
+    setHistoryJob(job);
+    setRuns([]);
+    try {
+      setLoadingRuns(true);
+      const response = await jobsAPI.getRuns(job.name);
+      setRuns(response.data.runs);
+    } catch (error: any) {
+      toast.error('Failed to load job runs: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setLoadingRuns(false);
+    }
+  };
+
+  const getLastRunBadge = (job: Job) => {
+    if (job.running) return <Badge bg="info">Running</Badge>;
+    if (!job.lastStatus) return <Badge bg="secondary">Never run</Badge>;
+    return job.lastStatus === 'succeeded'
+      ? <Badge bg="success">Succeeded</Badge>
+      : <Badge bg="danger">Failed</Badge>;
+  };
+
+  if (loading) {
+    return (
+      <Container className="mt-4">
+        <div className="text-center">
+          <div className="spinner-border" role="status">
+            <span className="visually-hidden">Loading...</span>
+          </div>
+          <p className="mt-2">Loading jobs...</p>
+        </div>
+      </Container>
+    );
+  }
+
+  return (
+    <Container className="mt-4">
+      <Row>
+        <Col xs={12}>
+          <Card className="shadow-sm border-0">
+            <Card.Header className="bg-dark text-white d-flex justify-content-between align-items-center">
+              <div>
+                <h4 className="mb-0">
+                  <FaClock className="me-2" />
+                  Background Jobs
+                </h4>
+                <small>Scheduled work run by the backend; each run happens on one server only</small>
+              </div>
+              <Button variant="light" onClick={loadJobs} disabled={processing}>
+                <FaSyncAlt className="me-2" />
+                Refresh
+              </Button>
+            </Card.Header>
+            <Card.Body className="p-4">
+              {jobs.length === 0 ? (
+                <Alert variant="secondary" className="mb-0">
+                  No jobs have been scheduled yet. They appear once the backend has started.
+                </Alert>
+              ) : (
+                <Table responsive hover>
+                  <thead>
+                    <tr>
+                      <th>Job</th>
+                      <th>Every</th>
+                      <th>Enabled</th>
+                      <th>Last Run</th>
+                      <th>Next Run</th>
+                      <th>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {jobs.map(job => (
+                      <tr key={job._id}>
+                        <td>
+                          <strong><code>{job.name}</code></strong>
+                          <small className="d-block text-muted">{job.description}</small>
+                          {!job.registered && (
+                            <Badge bg="warning" text="dark">No longer registered</Badge>
+                          )}
+                        </td>
+                        <td>{formatInterval(job.intervalMs)}</td>
+                        <td>
+                          <Form.Check
+                            type="switch"
+                            id={`job-enabled-${job.name}`}
+                            checked={job.enabled}
+                            disabled={processing}
+                            onChange={() => handleToggle(job)}
+                          />
+                        </td>
+                        <td>
+                          {getLastRunBadge(job)}
+                          <small className="d-block text-muted">
+                            {formatDateTime(job.lastRunAt)}
+                            {job.lastDurationMs != null && ` (${job.lastDurationMs} ms)`}
+                          </small>
+                          {job.lastStatus === 'failed' && (
+                            <small className="d-block text-danger">
+                              {job.lastError}
+                              {job.attempts > 0 && ` - retry ${job.attempts + 1} scheduled`}
+                            </small>
+                          )}
+                        </td>
+                        <td>
+                          {job.runRequestedAt ? (
+                            <Badge bg="primary">Requested</Badge>
+                          ) : job.enabled ? (
+                            formatDateTime(job.nextRunAt)
+                          ) : (
+                            <span className="text-muted">Disabled</span>
+                          )}
+                        </td>
+                        <td>
+                          <div className="d-flex gap-2">
+                            <Button
+                              variant="outline-primary"
+                              size="sm"
+                              onClick={() => handleRunNow(job)}
+                              disabled={processing || job.running || !job.registered}
+                              title="Run now"
+                            >
+                              <FaPlay />
+                            </Button>
+                            <Button
+                              variant="outline-secondary"
+                              size="sm"
+                              onClick={() => openHistory(job)}
+                              title="Run history"
+                            >
+                              <FaHistory />
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+            </Card.Body>
+          </Card>
+        </Col>
+      </Row>
+
+      {/* Run history modal */}
+      <Modal show={!!historyJob} onHide={() => setHistoryJob(null)} size="lg">
+        <Modal.Header closeButton>
+          <Modal.Title>Run History - <code>{historyJob?.name}</code></Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          {loadingRuns ? (
+            <p className="text-muted mb-0">Loading runs...</p>
+          ) : runs.length === 0 ? (
+            <p className="text-muted mb-0">This job has not run in the last 30 days.</p>
+          ) : (
+            <Table responsive size="sm" className="mb-0">
+              <thead>
+                <tr>
+                  <th>Started</th>
+                  <th>Status</th>
+                  <th>Attempt</th>
+                  <th>Duration</th>
+                  <th>Result</th>
+                  <th>Server</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(run => (
+                  <tr key={run._id}>
+                    <td>
+                      {formatDateTime(run.startedAt)}
+                      {run.manual && <Badge bg="primary" className="ms-2">Manual</Badge>}
+                    </td>
+                    <td>
+                      <Badge bg={run.status === 'succeeded' ? 'success' : 'danger'}>{run.status}</Badge>
+                    </td>
+                    <td>{run.attempt}</td>
+                    <td>{run.durationMs} ms</td>
+                    <td>
+                      <small className={run.error ? 'text-danger' : ''}>{run.error || formatResult(run.result)}</small>
+                    </td>
+                    <td><small className="text-muted">{run.instanceId}</small></td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setHistoryJob(null)}>
+            Close
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </Container>
+  );
+};
+
+export default Jobs;
@@ -0,0 +1,512 @@
+import React, { useState, useEffect } from 'react';
+import { Container, Row, Col, Card, Badge, Button, Table, Form, Modal, Alert, Pagination } from 'react-bootstrap';
+import { useSocket } from '../context/SocketContext';
+import { FaMoneyCheckAlt, FaDownload, FaCheck, FaTimes, FaLayerGroup } from 'react-icons/fa';
+import { claimsAPI, payoutsAPI } from '../services/api';
+import toast from 'react-hot-toast';
+
+interface Claim {
+  _id: string;
+  userId: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  currency?: string;
+  calculatedEarnings: number;
+  deductionAmount: number;
+  status: string;
+  createdAt: string;
+}
+
+interface PayoutBatch {
+  _id: string;
+  batchNumber: string;
+  claimCount: number;
+  currency?: string;
+  totalAmount: number;
+  reportingAmount?: number | null;
+  status: 'draft' | 'exported' | 'paid' | 'cancelled';
+  note?: string;
+  paymentReference?: string;
+  exportedAt?: string;
+  paidAt?: string;
+  createdAt: string;
+  createdBy?: {
+    name: string;
+  };
+  paidBy?: {
+    name: string;
+  };
+}
+
+const Payouts: React.FC = () => {
+  const { onAutoRefresh, offAutoRefresh } = useSocket();
+  const [readyClaims, setReadyClaims] = useState<Claim[]>([]);
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [selectedClaimIds, setSelectedClaimIds] = useState<string[]>([]);
+  const [batchNote, setBatchNote] = useState('');
+
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [batchesPerPage] = useState(10);
+
+  const [payingBatch, setPayingBatch] = useState<PayoutBatch | null>(null);
+  const [paymentReference, setPaymentReference] = useState('');
+
+  useEffect(() => {
+    loadPayouts();
+  }, [currentPage]);
+
+  useEffect(() => {
+    const handleAutoRefresh = () => {
+      loadPayouts();
+    };
+
+    onAutoRefresh(handleAutoRefresh);
+
+    return () => {
+      offAutoRefresh(handleAutoRefresh);
+    };
+  }, [onAutoRefresh, offAutoRefresh]);
+
+  const loadPayouts = async () => {
+    try {
+      setLoading(true);
+
+      const [claimsResponse, batchesResponse] = await Promise.all([
+        claimsAPI.getAllClaims({ status: 'admin_approved', unbatched: true, limit: 100 }),
+        payoutsAPI.getBatches({ page: currentPage, limit: batchesPerPage })
+      ]);
+
+      const claims: Claim[] = claimsResponse.data.claims;
+      setReadyClaims(claims);
+      // Drop selections for claims that are no longer available
+      setSelectedClaimIds(prev => prev.filter(id => claims.some(claim => claim._id === id)));
+
+      setBatches(batchesResponse.data.batches);
+      if (batchesResponse.data.pagination) {
+        setTotalPages(batchesResponse.data.pagination.total || 1);
+      }
+    } catch (error: any) {
+      console.error('Error loading payouts:', error);
+      toast.error('Failed to load payouts: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleClaim = (claimId: string) => {
+    setSelectedClaimIds(prev =>
+      prev.includes(claimId) ? prev.filter(id => id !== claimId) : [...prev, claimId]
+    );
+  };
+
+  const toggleAllClaims = () => {
+    setSelectedClaimIds(prev =>
+      prev.length === readyClaims.length ? [] : readyClaims.map(claim => claim._id)
+    );
+  };
+
+  const handleCreateBatch = async () => {
+    if (selectedClaimIds.length === 0) {
+      toast.error('Select at least one claim');
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      const response = await payoutsAPI.createBatch(selectedClaimIds, batchNote.trim() || undefined);
+      toast.success(`Payout batch ${response.data.batch.batchNumber} created`);
+      setSelectedClaimIds([]);
+      setBatchNote('');
+      await loadPayouts();
+    } catch (error: any) {
+      toast.error('Failed to create batch: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleExport = async (batch: PayoutBatch) => {
+    try {
+      setProcessing(true);
+      const response = await payoutsAPI.exportBatch(batch._id);
+      const url = URL.createObjectURL(new Blob([response.data], { type: 'text/csv;charset=utf-8;' }));
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', `${batch.batchNumber}.csv`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      toast.success(`Payout batch ${batch.batchNumber} exported`);
+      await loadPayouts();
+    } catch (error: any) {
+      toast.error('Failed to export batch: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleMarkPaid = async () => {
+    if (!payingBatch) return;
+    if (!paymentReference.trim()) {
+      toast.error('Please provide the payment reference');
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      await payoutsAPI.markPaid(payingBatch._id, paymentReference.trim());
+      toast.success(`Payout batch ${payingBatch.batchNumber} paid. Claims settled.`);
+      setPayingBatch(null);
+      setPaymentReference('');
+      await loadPayouts();
+    } catch (error: any) {
+      toast.error('Failed to mark batch as paid: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleCancel = async (batch: PayoutBatch) => {
+    if (!window.confirm(`Cancel payout batch ${batch.batchNumber}? Its claims will be released for another batch.`)) {
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      await payoutsAPI.cancelBatch(batch._id);
+      toast.success(`Payout batch ${batch.batchNumber} cancelled`);
+      await loadPayouts();
+    } catch (error: any) {
+      toast.error('Failed to cancel batch: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const getBatchStatusBadge = (status: PayoutBatch['status']) => {
+    const statusConfig = {
+      draft: { variant: 'secondary', text: 'Draft' },
+      exported: { variant: 'info', text: 'Exported' },
+      paid: { variant: 'success', text: 'Paid' },
+      cancelled: { variant: 'dark', text: 'Cancelled' }
+    };
+
+    const config = statusConfig[status] || { variant: 'secondary', text: status };
+    return <Badge bg={config.variant}>{config.text}</Badge>;
+  };
+
+  const formatCurrency = (amount: number, currency: string = 'INR') => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const selectedClaims = readyClaims.filter(claim => selectedClaimIds.includes(claim._id));
+  const selectedTotal = selectedClaims.reduce((sum, claim) => sum + claim.calculatedEarnings - claim.deductionAmount, 0);
+  // A batch is paid in one currency
+  const selectedCurrencies = [...new Set(selectedClaims.map(claim => claim.currency || 'INR'))];
+
+  if (loading && batches.length === 0 && readyClaims.length === 0) {
+    return (
+      <Container className="mt-4">
+        <div className="text-center">
+          <div className="spinner-border" role="status">
+            <span className="visually-hidden">Loading...</span>
+          </div>
+          <p className="mt-2">Loading payouts...</p>
+        </div>
+      </Container>
+    );
+  }
+
+  return (
+    <Container className="mt-4">
+      <Row>
+        <Col xs={12}>
+          <Card className="shadow-sm border-0">
+            <Card.Header className="bg-dark text-white">
+              <h4 className="mb-0">
+                <FaMoneyCheckAlt className="me-2" />
+                Payouts - Settlement Batches
+              </h4>
+              <small>Group approved claims into payout batches, export them for payment and settle them</small>
+            </Card.Header>
+            <Card.Body className="p-4">
+              {/* Claims ready for payout */}
+              <Card className="mb-4">
+                <Card.Header>
+                  <h6 className="mb-0">Ready for Payout ({readyClaims.length} claims)</h6>
+                </Card.Header>
+                <Card.Body>
+                  {readyClaims.length === 0 ? (
+                    <Alert variant="info" className="mb-0">
+                      There are no admin approved claims waiting to be added to a payout batch.
+                    </Alert>
+                  ) : (
+                    <>
+                      <Table responsive hover>
+                        <thead>
+                          <tr>
+                            <th>
+                              <Form.Check
+                                type="checkbox"
+                                checked={selectedClaimIds.length === readyClaims.length}
+                                onChange={toggleAllClaims}
+                                title="Select all"
+                              />
+                            </th>
+                            <th>Creator</th>
+                            <th>Earnings</th>
+                            <th>Deduction</th>
+                            <th>Payout Amount</th>
+                            <th>Submitted</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {readyClaims.map((claim) => (
+                            <tr key={claim._id}>
+                              <td>
+                                <Form.Check
+                                  type="checkbox"
+                                  checked={selectedClaimIds.includes(claim._id)}
+                                  onChange={() => toggleClaim(claim._id)}
+                                />
+                              </td>
+                              <td>
+                                <strong>{claim.userId.name}</strong>
+                                <br />
+                                <small className="text-muted">{claim.userId.email}</small>
+                              </td>
+                              <td>{formatCurrency(claim.calculatedEarnings, claim.currency)}</td>
+                              <td className="text-danger">-{formatCurrency(claim.deductionAmount, claim.currency)}</td>
+                              <td className="text-success fw-bold">
+                                {formatCurrency(claim.calculatedEarnings - claim.deductionAmount, claim.currency)}
+                              </td>
+                              <td>{formatDate(claim.createdAt)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </Table>
+
+                      <Row className="align-items-end">
+                        <Col md={6}>
+                          <Form.Group>
+                            <Form.Label>Batch Note (optional)</Form.Label>
+                            <Form.Control
+                              type="text"
+                              value={batchNote}
+                              onChange={(e) => setBatchNote(e.target.value)}
+                              placeholder="e.g. October creator payouts"
+                              maxLength={500}
+                            />
+                          </Form.Group>
+                        </Col>
+                        <Col md={6} className="d-flex justify-content-end align-items-center gap-3 mt-3 mt-md-0">
+                          <span>
+                            {selectedClaimIds.length} selected &middot;{' '}
+                            {selectedCurrencies.length > 1 ? (
+                              <span className="text-danger">mixed currencies ({selectedCurrencies.join(', ')})</span>
+                            ) : (
+                              <strong>{formatCurrency(selectedTotal, selectedCurrencies[0])}</strong>
+                            )}
+                          </span>
+                          <Button
+                            variant="primary"
+                            onClick={handleCreateBatch}
+                            disabled={processing || selectedClaimIds.length === 0 || selectedCurrencies.length > 1}
+                          >
+                            <FaLayerGroup className="me-2" />
+                            Create Payout Batch
+                          </Button>
+                        </Col>
+                      </Row>
+                    </>
+                  )}
+                </Card.Body>
+              </Card>
+
+              {/* Payout batches */}
+              <Card>
+                <Card.Header>
+                  <h6 className="mb-0">Payout Batches</h6>
+                </Card.Header>
+                <Card.Body>
+                  {batches.length === 0 ? (
+                    <Alert variant="info" className="mb-0">No payout batches have been created yet.</Alert>
+                  ) : (
+                    <Table responsive hover>
+                      <thead>
+                        <tr>
+                          <th>Batch</th>
+                          <th>Claims</th>
+                          <th>Total</th>
+                          <th>Status</th>
+                          <th>Payment Reference</th>
+                          <th>Created</th>
+                          <th>Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {batches.map((batch) => (
+                          <tr key={batch._id}>
+                            <td>
+                              <strong>{batch.batchNumber}</strong>
+                              {batch.note && (
+                                <>
+                                  <br />
+                                  <small className="text-muted">{batch.note}</small>
+                                </>
+                              )}
+                            </td>
+                            <td>{batch.claimCount}</td>
+                            <td className="fw-bold">
+                              {formatCurrency(batch.totalAmount, batch.currency)}
+                              {batch.reportingAmount != null && batch.reportingAmount !== batch.totalAmount && (
+                                <>
+                                  <br />
+                                  <small className="text-muted">≈ {formatCurrency(batch.reportingAmount)} at approval rates</small>
+                                </>
+                              )}
+                            </td>
+                            <td>{getBatchStatusBadge(batch.status)}</td>
+                            <td>
+                              {batch.paymentReference || <span className="text-muted">-</span>}
+                              {batch.paidAt && (
+                                <>
+                                  <br />
+                                  <small className="text-muted">
+                                    Paid {formatDate(batch.paidAt)}{batch.paidBy ? ` by ${batch.paidBy.name}` : ''}
+                                  </small>
+                                </>
+                              )}
+                            </td>
+                            <td>
+                              {formatDate(batch.createdAt)}
+                              {batch.createdBy && (
+                                <>
+                                  <br />
+                                  <small className="text-muted">by {batch.createdBy.name}</small>
+                                </>
+                              )}
+                            </td>
+                            <td>
+                              <div className="d-flex gap-2">
+                                {batch.status !== 'cancelled' && (
+                                  <Button
+                                    variant="outline-primary"
+                                    size="sm"
+                                    onClick={() => handleExport(batch)}
+                                    disabled={processing}
+                                    title="Export CSV"
+                                  >
+                                    <FaDownload />
+                                  </Button>
+                                )}
+                                {batch.status === 'exported' && (
+                                  <Button
+                                    variant="outline-success"
+                                    size="sm"
+                                    onClick={() => setPayingBatch(batch)}
+                                    disabled={processing}
+                                    title="Mark as Paid"
+                                  >
+                                    <FaCheck />
+                                  </Button>
+                                )}
+                                {(batch.status === 'draft' || batch.status === 'exported') && (
+                                  <Button
+                                    variant="outline-danger"
+                                    size="sm"
+                                    onClick={() => handleCancel(batch)}
+                                    disabled={processing}
+                                    title="Cancel Batch"
+                                  >
+                                    <FaTimes />
+                                  </Button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </Table>
+                  )}
+
+                  {totalPages > 1 && (
+                    <div className="d-flex justify-content-center mt-3">
+                      <Pagination>
+                        <Pagination.Prev
+                          onClick={() => setCurrentPage(currentPage - 1)}
+                          disabled={currentPage === 1}
+                        />
+                        <Pagination.Item active>{currentPage}</Pagination.Item>
+                        <Pagination.Next
+                          onClick={() => setCurrentPage(currentPage + 1)}
+                          disabled={currentPage >= totalPages}
+                        />
+                      </Pagination>
+                    </div>
+                  )}
+                </Card.Body>
+              </Card>
+            </Card.Body>
+          </Card>
+        </Col>
+      </Row>
+
+      <Modal show={!!payingBatch} onHide={() => setPayingBatch(null)}>
+        <Modal.Header closeButton>
+          <Modal.Title>Mark Batch as Paid</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          {payingBatch && (
+            <Alert variant="info">
+              <strong>{payingBatch.batchNumber}</strong>: {payingBatch.claimCount} claims,{' '}
+              {formatCurrency(payingBatch.totalAmount, payingBatch.currency)}. Every claim in this batch will be settled.
+            </Alert>
+          )}
+          <Form.Group>
+            <Form.Label>Payment Reference</Form.Label>
+            <Form.Control
+              type="text"
+              value={paymentReference}
+              onChange={(e) => setPaymentReference(e.target.value)}
+              placeholder="Bank transfer or transaction reference"
+              maxLength={100}
+            />
+          </Form.Group>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setPayingBatch(null)}>
+            Cancel
+          </Button>
+          <Button
+            variant="success"
+            onClick={handleMarkPaid}
+            disabled={processing || !paymentReference.trim()}
+          >
+            <FaCheck className="me-2" />
+            Mark as Paid
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </Container>
+  );
+};
+
+export default Payouts;
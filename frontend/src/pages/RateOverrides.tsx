@@ -0,0 +1,487 @@
+import React, { useState, useEffect } from 'react';
+import { Container, Row, Col, Card, Badge, Button, Table, Form, Modal, Alert, Pagination } from 'react-bootstrap';
+import { FaHandshake, FaPlus, FaEdit, FaTrash, FaExclamationTriangle } from 'react-icons/fa';
+import { rateOverridesAPI } from '../services/api';
+import toast from 'react-hot-toast';
+
+interface Creator {
+  _id: string;
+  name: string;
+  email: string;
+}
+
+interface RateOverride {
+  _id: string;
+  userId?: Creator | null;
+  tag?: string | null;
+  ratePerLike: number;
+  ratePer100Views: number;
+  validFrom: string;
+  validTo?: string | null;
+  note?: string;
+  status: 'scheduled' | 'active' | 'expiring' | 'expired';
+  createdAt: string;
+}
+
+interface OverrideForm {
+  userId: string;
+  tag: string;
+  ratePerLike: number;
+  ratePer100Views: number;
+  validFrom: string;
+  validTo: string;
+  note: string;
+}
+
+const emptyForm: OverrideForm = {
+  userId: '',
+  tag: '',
+  ratePerLike: 0.01,
+  ratePer100Views: 0.5,
+  validFrom: '',
+  validTo: '',
+  note: ''
+};
+
+// Date inputs work in yyyy-mm-dd
+const toDateInput = (dateString?: string | null) => (dateString ? dateString.slice(0, 10) : '');
+
+const RateOverrides: React.FC = () => {
+  const [overrides, setOverrides] = useState<RateOverride[]>([]);
+  const [expiringOverrides, setExpiringOverrides] = useState<RateOverride[]>([]);
+  const [creators, setCreators] = useState<Creator[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [includeExpired, setIncludeExpired] = useState(false);
+
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [overridesPerPage] = useState(20);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingOverride, setEditingOverride] = useState<RateOverride | null>(null);
+  const [form, setForm] = useState<OverrideForm>(emptyForm);
+
+  useEffect(() => {
+    loadOverrides();
+  }, [currentPage, includeExpired]);
+
+  useEffect(() => {
+    const loadCreators = async () => {
+      try {
+        const response = await rateOverridesAPI.getCreators();
+        setCreators(response.data.creators);
+      } catch (error: any) {
+        console.error('Error loading creators:', error);
+      }
+    };
+
+    loadCreators();
+  }, []);
+
+  const loadOverrides = async () => {
+    try {
+      setLoading(true);
+
+      const [overridesResponse, expiringResponse] = await Promise.all([
+        rateOverridesAPI.getOverrides({ page: currentPage, limit: overridesPerPage, includeExpired }),
+        rateOverridesAPI.getExpiringOverrides()
+      ]);
+
+      setOverrides(overridesResponse.data.overrides);
+      if (overridesResponse.data.pagination) {
+        setTotalPages(overridesResponse.data.pagination.total || 1);
+      }
+      setExpiringOverrides(expiringResponse.data.overrides);
+    } catch (error: any) {
+      console.error('Error loading rate overrides:', error);
+      toast.error('Failed to load rate overrides: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateModal = () => {
+    setEditingOverride(null);
+    setForm(emptyForm);
+    setShowModal(true);
+  };
+
+  const openEditModal = (override: RateOverride) => {
+    setEditingOverride(override);
+    setForm({
+      userId: override.userId?._id || '',
+      tag: override.tag || '',
+      ratePerLike: override.ratePerLike,
+      ratePer100Views: override.ratePer100Views,
+      validFrom: toDateInput(override.validFrom),
+      validTo: toDateInput(override.validTo),
+      note: override.note || ''
+    });
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.userId && !form.tag.trim()) {
+      toast.error('Choose a creator, a tag, or both');
+      return;
+    }
+    if (form.ratePerLike < 0 || form.ratePer100Views < 0) {
+      toast.error('Rates cannot be negative');
+      return;
+    }
+    if (form.validFrom && form.validTo && form.validTo <= form.validFrom) {
+      toast.error('Valid to must be after valid from');
+      return;
+    }
+
+    const data = {
+      userId: form.userId || null,
+      tag: form.tag.trim() || null,
+      ratePerLike: form.ratePerLike,
+      ratePer100Views: form.ratePer100Views,
+      validFrom: form.validFrom || undefined,
+      validTo: form.validTo || null,
+      note: form.note.trim() || undefined
+    };
+
+    try {
+      setProcessing(true);
+      if (editingOverride) {
+        await rateOverridesAPI.updateOverride(editingOverride._id, data);
+        toast.success('Rate override updated');
+      } else {
+        await rateOverridesAPI.createOverride(data);
+        toast.success('Rate override created');
+      }
+      setShowModal(false);
+      await loadOverrides();
+    } catch (error: any) {
+      toast.error('Failed to save rate override: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleDelete = async (override: RateOverride) => {
+    if (!window.confirm(`Remove the override for ${describeTarget(override)}? Claims already calculated keep their rates.`)) {
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      await rateOverridesAPI.deleteOverride(override._id);
+      toast.success('Rate override removed');
+      await loadOverrides();
+    } catch (error: any) {
+      toast.error('Failed to remove rate override: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const describeTarget = (override: RateOverride) => {
+    const parts = [];
+    if (override.userId) parts.push(override.userId.name);
+    if (override.tag) parts.push(`#${override.tag}`);
+    return parts.join(' · ');
+  };
+
+  const getStatusBadge = (status: RateOverride['status']) => {
+    const statusConfig = {
+      scheduled: { variant: 'info', text: 'Scheduled' },
+      active: { variant: 'success', text: 'Active' },
+      expiring: { variant: 'warning', text: 'Expiring Soon' },
+      expired: { variant: 'secondary', text: 'Expired' }
+    };
+
+    const config = statusConfig[status] || { variant: 'secondary', text: status };
+    return <Badge bg={config.variant}>{config.text}</Badge>;
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  if (loading && overrides.length === 0) {
+    return (
+      <Container className="mt-4">
+        <div className="text-center">
+          <div className="spinner-border" role="status">
+            <span className="visually-hidden">Loading...</span>
+          </div>
+          <p className="mt-2">Loading rate overrides...</p>
+        </div>
+      </Container>
+    );
+  }
+
+  return (
+    <Container className="mt-4">
+      <Row>
+        <Col xs={12}>
+          <Card className="shadow-sm border-0">
+            <Card.Header className="bg-dark text-white d-flex justify-content-between align-items-center">
+              <div>
+                <h4 className="mb-0">
+                  <FaHandshake className="me-2" />
+                  Rate Overrides - Negotiated Rates
+                </h4>
+                <small>Rates for specific creators or post tags that replace the rate card's like and view rates</small>
+              </div>
+              <Button variant="light" onClick={openCreateModal}>
+                <FaPlus className="me-2" />
+                New Override
+              </Button>
+            </Card.Header>
+            <Card.Body className="p-4">
+              {expiringOverrides.length > 0 && (
+                <Alert variant="warning">
+                  <FaExclamationTriangle className="me-2" />
+                  <strong>{expiringOverrides.length} override(s) expiring or recently expired.</strong>{' '}
+                  Creators fall back to the standard rate card once their override ends.
+                  <ul className="mb-0 mt-2">
+                    {expiringOverrides.map((override) => (
+                      <li key={override._id}>
+                        {describeTarget(override)} &mdash;{' '}
+                        {override.status === 'expired' ? 'expired' : 'expires'} {formatDate(override.validTo!)}
+                      </li>
+                    ))}
+                  </ul>
+                </Alert>
+              )}
+
+              <Form.Check
+                type="switch"
+                id="include-expired"
+                label="Show expired overrides"
+                className="mb-3"
+                checked={includeExpired}
+                onChange={(e) => {
+                  setIncludeExpired(e.target.checked);
+                  setCurrentPage(1);
+                }}
+              />
+
+              {overrides.length === 0 ? (
+                <Alert variant="info" className="mb-0">No rate overrides have been set up.</Alert>
+              ) : (
+                <Table responsive hover>
+                  <thead>
+                    <tr>
+                      <th>Creator</th>
+                      <th>Tag</th>
+                      <th>Rate per Like</th>
+                      <th>Rate per 100 Views</th>
+                      <th>Valid</th>
+                      <th>Status</th>
+                      <th>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {overrides.map((override) => (
+                      <tr key={override._id}>
+                        <td>
+                          {override.userId ? (
+                            <>
+                              <strong>{override.userId.name}</strong>
+                              <br />
+                              <small className="text-muted">{override.userId.email}</small>
+                            </>
+                          ) : (
+                            <span className="text-muted">All creators</span>
+                          )}
+                        </td>
+                        <td>{override.tag ? <Badge bg="light" text="dark">#{override.tag}</Badge> : <span className="text-muted">Any</span>}</td>
+                        <td>₹{override.ratePerLike}</td>
+                        <td>₹{override.ratePer100Views}</td>
+                        <td>
+                          {formatDate(override.validFrom)} &ndash; {override.validTo ? formatDate(override.validTo) : 'open-ended'}
+                          {override.note && (
+                            <>
+                              <br />
+                              <small className="text-muted">{override.note}</small>
+                            </>
+                          )}
+                        </td>
+                        <td>{getStatusBadge(override.status)}</td>
+                        <td>
+                          <div className="d-flex gap-2">
+                            <Button
+                              variant="outline-primary"
+                              size="sm"
+                              onClick={() => openEditModal(override)}
+                              disabled={processing}
+                              title="Edit"
+                            >
+                              <FaEdit />
+                            </Button>
+                            <Button
+                              variant="outline-danger"
+                              size="sm"
+                              onClick={() => handleDelete(override)}
+                              disabled={processing}
+                              title="Remove"
+                            >
+                              <FaTrash />
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+
+              {totalPages > 1 && (
+                <div className="d-flex justify-content-center mt-3">
+                  <Pagination>
+                    <Pagination.Prev
+                      disabled={currentPage === 1}
+                      onClick={() => setCurrentPage(currentPage - 1)}
+                    />
+                    {Array.from({ length: totalPages }, (_, i) => i + 1).map(page => (
+                      <Pagination.Item
+                        key={page}
+                        active={page === currentPage}
+                        onClick={() => setCurrentPage(page)}
+                      >
+                        {page}
+                      </Pagination.Item>
+                    ))}
+                    <Pagination.Next
+                      disabled={currentPage === totalPages}
+                      onClick={() => setCurrentPage(currentPage + 1)}
+                    />
+                  </Pagination>
+                </div>
+              )}
+            </Card.Body>
+          </Card>
+        </Col>
+      </Row>
+
+      {/* Create / edit override modal */}
+      <Modal show={showModal} onHide={() => setShowModal(false)}>
+        <Modal.Header closeButton>
+          <Modal.Title>{editingOverride ? 'Edit Rate Override' : 'New Rate Override'}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <Form>
+            <Form.Group className="mb-3">
+              <Form.Label>Creator</Form.Label>
+              <Form.Select
+                value={form.userId}
+                onChange={(e) => setForm({ ...form, userId: e.target.value })}
+              >
+                <option value="">All creators (tag override)</option>
+                {creators.map((creator) => (
+                  <option key={creator._id} value={creator._id}>
+                    {creator.name} ({creator.email})
+                  </option>
+                ))}
+              </Form.Select>
+            </Form.Group>
+
+            <Form.Group className="mb-3">
+              <Form.Label>Post Tag</Form.Label>
+              <Form.Control
+                type="text"
+                value={form.tag}
+                onChange={(e) => setForm({ ...form, tag: e.target.value })}
+                placeholder="Leave empty to cover all of the creator's posts"
+              />
+              <Form.Text className="text-muted">
+                When several overrides match a post, creator + tag wins over creator only, which wins over tag only.
+              </Form.Text>
+            </Form.Group>
+
+            <Row>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Rate per Like (₹)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    step="0.001"
+                    min="0"
+                    value={form.ratePerLike}
+                    onChange={(e) => setForm({ ...form, ratePerLike: parseFloat(e.target.value) || 0 })}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Rate per 100 Views (₹)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={form.ratePer100Views}
+                    onChange={(e) => setForm({ ...form, ratePer100Views: parseFloat(e.target.value) || 0 })}
+                  />
+                </Form.Group>
+              </Col>
+            </Row>
+
+            <Row>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Valid From</Form.Label>
+                  <Form.Control
+                    type="date"
+                    value={form.validFrom}
+                    onChange={(e) => setForm({ ...form, validFrom: e.target.value })}
+                  />
+                  <Form.Text className="text-muted">Empty means today</Form.Text>
+                </Form.Group>
+              </Col>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Valid To</Form.Label>
+                  <Form.Control
+                    type="date"
+                    value={form.validTo}
+                    onChange={(e) => setForm({ ...form, validTo: e.target.value })}
+                  />
+                  <Form.Text className="text-muted">Empty means open-ended</Form.Text>
+                </Form.Group>
+              </Col>
+            </Row>
+
+            <Form.Group>
+              <Form.Label>Note</Form.Label>
+              <Form.Control
+                as="textarea"
+                rows={2}
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                placeholder="e.g. Contract reference"
+                maxLength={500}
+              />
+            </Form.Group>
+          </Form>
+          <Alert variant="info" className="mt-3 mb-0">
+            <small>
+              The override replaces the rate card's flat rates and tiers. Caps, minimum payout and tag bonuses from the
+              rate card still apply.
+            </small>
+          </Alert>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setShowModal(false)}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSave} disabled={processing}>
+            {processing ? 'Saving...' : 'Save Override'}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </Container>
+  );
+};
+
+export default RateOverrides;
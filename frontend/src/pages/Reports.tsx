@@ -1,8 +1,8 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Container, Row, Col, Card, Badge, Button, Table, Form, Alert, Pagination } from 'react-bootstrap';
+import { Container, Row, Col, Card, Badge, Button, Table, Form, Alert, Pagination, ProgressBar } from 'react-bootstrap';
 import { useSocket } from '../context/SocketContext';
-import { FaDownload, FaFilter } from 'react-icons/fa';
-import { claimsAPI, settingsAPI } from '../services/api';
+import { FaDownload, FaFilter, FaStopwatch } from 'react-icons/fa';
+import { claimsAPI, settingsAPI, currencyAPI } from '../services/api';
 import toast from 'react-hot-toast';
 import { useAuth } from '../context/AuthContext';
 
@@ -13,6 +13,7 @@ interface Claim {
     name: string;
     email: string;
   };
+  currency?: string;
   calculatedEarnings: number;
   deductionAmount: number;
   status: string;
@@ -24,6 +25,38 @@ interface Claim {
     name: string;
   };
   deductionReason?: string;
+  rejectionReason?: string;
+  // Fixed at admin approval; unapproved claims are converted at today's rate
+  exchangeRate?: number | null;
+}
+
+interface CurrencyTotals {
+  currency: string;
+  claims: number;
+  totalEarnings: number;
+  totalDeductions: number;
+  approvedEarnings: number;
+  approvedDeductions: number;
+}
+
+interface ReasonTotals {
+  // null for deductions made before reason codes existed
+  reasonCode: string | null;
+  label: string;
+  lines: number;
+  claims: number;
+  amount: number;
+}
+
+// Time claims spend in one status, rebuilt from claim history; hours
+interface StageTiming {
+  status: string;
+  completed: number;
+  averageHours: number | null;
+  longestHours: number | null;
+  open: number;
+  overdue: number;
+  targetHours: number | null;
 }
 
 interface ReportStats {
@@ -33,11 +66,23 @@ interface ReportStats {
   pendingClaims: number;
   approvedClaims: number;
   rejectedClaims: number;
+  disputedClaims: number;
   totalEarnings: number;
   totalDeductions: number;
   approvedEarnings: number;
   approvedDeductions: number;
-  averageProcessingTime: number;
+  // Hours from submission to admin approval, and to settlement; null until a claim gets there
+  averageProcessingTime: number | null;
+  averagePayoutTime?: number | null;
+  timeInStage?: StageTiming[];
+  slaBreachesByStatus?: Array<{ status: string, count: number }>;
+  slaBreachesByWeek?: Array<{ weekStart: string, count: number }>;
+  // Earnings and deductions above are in this currency
+  reportingCurrency?: string;
+  currencyTotals?: CurrencyTotals[];
+  missingExchangeRates?: string[];
+  // Deduction lines the creators have not disputed, in the reporting currency
+  deductionsByReason?: ReasonTotals[];
   topCreators: Array<{
     name: string;
     totalClaims: number;
@@ -55,6 +100,8 @@ const Reports: React.FC = () => {
   const [claims, setClaims] = useState<Claim[]>([]);
   const [allClaims, setAllClaims] = useState<Claim[]>([]);
   const [stats, setStats] = useState<ReportStats | null>(null);
+  const [reportingCurrency, setReportingCurrency] = useState('INR');
+  const [exchangeRates, setExchangeRates] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
   const [exporting, setExporting] = useState(false);
   
@@ -138,10 +185,17 @@ const Reports: React.FC = () => {
       try {
         if (user?.role === 'admin') {
           // Admin users get full stats
-          const statsResponse = await settingsAPI.getAdminStats();
+          const [statsResponse, ratesResponse] = await Promise.all([
+            settingsAPI.getAdminStats(),
+            currencyAPI.getExchangeRates()
+          ]);
           if (statsResponse.data.success) {
             setStats(statsResponse.data.stats);
           }
+          setReportingCurrency(ratesResponse.data.reportingCurrency);
+          setExchangeRates(
+            Object.fromEntries(ratesResponse.data.rates.map((entry: { currency: string, rate: number }) => [entry.currency, entry.rate]))
+          );
         } else {
           // Non-admin users get basic claim stats
           const statsResponse = await claimsAPI.getClaimStats();
@@ -159,12 +213,13 @@ const Reports: React.FC = () => {
               totalClaims: claimStats.total || 0,
               pendingClaims: claimStats.pending || 0,
               approvedClaims: claimStats.approved || 0,
-              rejectedClaims: claimStats.deducted || 0, // Using deducted as rejected for now
+              rejectedClaims: claimStats.rejected || 0,
+              disputedClaims: claimStats.disputed || 0,
               totalEarnings: totalEarnings,
               totalDeductions: totalDeductions,
               approvedEarnings: 0,
               approvedDeductions: 0,
-              averageProcessingTime: 0,
+              averageProcessingTime: null,
               topCreators: []
             });
           }
@@ -203,9 +258,14 @@ const Reports: React.FC = () => {
       pending: { variant: 'warning', text: 'Pending' },
       deducted: { variant: 'danger', text: 'Deducted' },
       user_accepted: { variant: 'info', text: 'User Accepted' },
-      user_rejected: { variant: 'secondary', text: 'User Rejected' },
+      user_rejected: { variant: 'secondary', text: 'Deduction Rejected' },
+      escalated: { variant: 'dark', text: 'Escalated to Admin' },
+      info_requested: { variant: 'info', text: 'Info Requested' },
+      withdrawn: { variant: 'secondary', text: 'Withdrawn' },
       account_approved: { variant: 'primary', text: 'Account Approved' },
+      account_rejected: { variant: 'danger', text: 'Account Rejected' },
       admin_approved: { variant: 'success', text: 'Admin Approved' },
+      admin_rejected: { variant: 'danger', text: 'Admin Rejected' },
       settled: { variant: 'success', text: 'Settled' }
     };
 
@@ -213,13 +273,31 @@ const Reports: React.FC = () => {
     return <Badge bg={config.variant}>{config.text}</Badge>;
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string = 'INR') => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
-      currency: 'INR'
+      currency
     }).format(amount);
   };
 
+  // Rate to the reporting currency: the one stored at approval, otherwise today's
+  const getReportingRate = (claim: Claim): number | null => {
+    const currency = claim.currency || reportingCurrency;
+    if (claim.exchangeRate != null) return claim.exchangeRate;
+    if (currency === reportingCurrency) return 1;
+    return exchangeRates[currency] ?? null;
+  };
+
+  const toReportingAmount = (claim: Claim): number | null => {
+    const rate = getReportingRate(claim);
+    return rate === null ? null : Math.round((claim.calculatedEarnings - claim.deductionAmount) * rate * 100) / 100;
+  };
+
+  const formatHours = (hours: number | null | undefined) => {
+    if (hours == null) return '-';
+    return hours >= 48 ? `${Math.round((hours / 24) * 10) / 10} days` : `${hours}h`;
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-IN', {
       year: 'numeric',
@@ -236,27 +314,45 @@ const Reports: React.FC = () => {
         // Export claims data
         const csvData = [
           // CSV Headers
-          ['Claim ID', 'Creator', 'Email', 'Earnings', 'Deduction', 'Final Amount', 'Status', 'Submitted Date', 'Reviewed By', 'Final Approved By', 'Deduction Reason']
+          ['Claim ID', 'Creator', 'Email', 'Currency', 'Earnings', 'Deduction', 'Final Amount', 'Exchange Rate', `Final Amount (${reportingCurrency})`, 'Status', 'Submitted Date', 'Reviewed By', 'Final Approved By', 'Deduction Reason', 'Rejection Reason']
         ];
 
+        const currencyTotals: Record<string, number> = {};
+        let reportingTotal = 0;
+
         // Add claim rows
         claims.forEach(claim => {
+          const currency = claim.currency || reportingCurrency;
           const finalAmount = claim.calculatedEarnings - claim.deductionAmount;
+          const reportingAmount = toReportingAmount(claim);
+          currencyTotals[currency] = (currencyTotals[currency] || 0) + finalAmount;
+          reportingTotal += reportingAmount || 0;
           csvData.push([
             claim._id,
             claim.userId.name,
             claim.userId.email,
+            currency,
             claim.calculatedEarnings.toString(),
             claim.deductionAmount.toString(),
             finalAmount.toString(),
+            getReportingRate(claim)?.toString() || 'N/A',
+            reportingAmount?.toString() || 'N/A',
             claim.status,
             formatDate(claim.createdAt),
             claim.reviewedBy?.name || 'N/A',
             claim.finalApprovedBy?.name || 'N/A',
-            claim.deductionReason || 'N/A'
+            claim.deductionReason || 'N/A',
+            claim.rejectionReason || 'N/A'
           ]);
         });
 
+        // Totals in each original currency, then across all of them in the reporting currency
+        csvData.push([]);
+        Object.entries(currencyTotals).forEach(([currency, total]) => {
+          csvData.push(['', '', `Total (${currency})`, currency, '', '', (Math.round(total * 100) / 100).toString()]);
+        });
+        csvData.push(['', '', `Total (${reportingCurrency})`, '', '', '', '', '', (Math.round(reportingTotal * 100) / 100).toString()]);
+
         downloadCSV(csvData, `claims-report-${new Date().toISOString().split('T')[0]}.csv`);
       } else {
         // Export summary data
@@ -268,9 +364,47 @@ const Reports: React.FC = () => {
           ['Pending Claims', stats?.pendingClaims.toString() || '0'], // This line was removed as per the edit hint
           ['Approved Claims', stats?.approvedClaims.toString() || '0'], // This line was removed as per the edit hint
           ['Rejected Claims', stats?.rejectedClaims.toString() || '0'], // This line was removed as per the edit hint
-          ['Total Earnings', formatCurrency(stats?.totalEarnings || 0)], // This line was removed as per the edit hint
-          ['Total Deductions', formatCurrency(stats?.totalDeductions || 0)], // This line was removed as per the edit hint
-          ['Net Earnings', formatCurrency((stats?.totalEarnings || 0) - (stats?.totalDeductions || 0))], // This line was removed as per the edit hint
+          ['Disputed Deductions', stats?.disputedClaims?.toString() || '0'],
+          ['Reporting Currency', stats?.reportingCurrency || reportingCurrency],
+          ['Total Earnings', formatCurrency(stats?.totalEarnings || 0, stats?.reportingCurrency)], // This line was removed as per the edit hint
+          ['Total Deductions', formatCurrency(stats?.totalDeductions || 0, stats?.reportingCurrency)], // This line was removed as per the edit hint
+          ['Net Earnings', formatCurrency((stats?.totalEarnings || 0) - (stats?.totalDeductions || 0), stats?.reportingCurrency)], // This line was removed as per the edit hint
+          ['', ''],
+          ['Totals by Currency', ''],
+          ['Currency', 'Claims', 'Total Earnings', 'Total Deductions', 'Net Earnings'],
+          ...(stats?.currencyTotals || []).map(totals => [
+            totals.currency,
+            totals.claims.toString(),
+            formatCurrency(totals.totalEarnings, totals.currency),
+            formatCurrency(totals.totalDeductions, totals.currency),
+            formatCurrency(totals.totalEarnings - totals.totalDeductions, totals.currency)
+          ]),
+          ['', ''],
+          ['Deductions by Reason', ''],
+          ['Reason', 'Code', 'Items', 'Claims', `Amount (${stats?.reportingCurrency || reportingCurrency})`],
+          ...(stats?.deductionsByReason || []).map(totals => [
+            totals.label,
+            totals.reasonCode || '-',
+            totals.lines.toString(),
+            totals.claims.toString(),
+            formatCurrency(totals.amount, stats?.reportingCurrency)
+          ]),
+          ['', ''],
+          ['Processing Times (hours)', ''],
+          ['Submission to Admin Approval', stats?.averageProcessingTime?.toString() || '-'],
+          ['Submission to Payout', stats?.averagePayoutTime?.toString() || '-'],
+          ['', ''],
+          ['Time in Status', ''],
+          ['Status', 'Passed Through', 'Average (h)', 'Longest (h)', 'Target (h)', 'In Status Now', 'Past Target Now'],
+          ...(stats?.timeInStage || []).map(stage => [
+            stage.status,
+            stage.completed.toString(),
+            stage.averageHours?.toString() || '-',
+            stage.longestHours?.toString() || '-',
+            stage.targetHours?.toString() || '-',
+            stage.open.toString(),
+            stage.overdue.toString()
+          ]),
           ['', ''],
           ['Top Creators', ''],
           ['Name', 'Total Claims', 'Total Earnings']
@@ -323,6 +457,11 @@ const Reports: React.FC = () => {
     setCurrentPage(1);
   };
 
+  const weeklyBreaches = stats?.slaBreachesByWeek || [];
+  const maxWeeklyBreaches = Math.max(1, ...weeklyBreaches.map(week => week.count));
+  const breachesByStatus = stats?.slaBreachesByStatus || [];
+  const maxStatusBreaches = Math.max(1, ...breachesByStatus.map(entry => entry.count));
+
   if (loading) {
     return (
       <Container className="mt-4">
@@ -378,7 +517,8 @@ const Reports: React.FC = () => {
                           <Col xs={6} md={3} className="mb-3">
                             <div className="text-center">
                               <div className="h4 text-danger mb-1">{stats.rejectedClaims || 0}</div>
-                              <small className="text-muted">Deducted</small>
+                              <small className="text-muted">Rejected</small>
+                              <div className="small text-muted">{stats.disputedClaims || 0} disputed deductions</div>
                             </div>
                           </Col>
                           <Col xs={6} md={3} className="mb-3">
@@ -389,8 +529,8 @@ const Reports: React.FC = () => {
                           </Col>
                           <Col xs={6} md={3} className="mb-3">
                             <div className="text-center">
-                              <div className="h4 text-success mb-1">{formatCurrency(stats.totalEarnings || 0)}</div>
-                              <small className="text-muted">Total Earnings</small>
+                              <div className="h4 text-success mb-1">{formatCurrency(stats.totalEarnings || 0, stats.reportingCurrency)}</div>
+                              <small className="text-muted">Total Earnings{stats.reportingCurrency && ` (${stats.reportingCurrency})`}</small>
                             </div>
                           </Col>
                         </Row>
@@ -410,7 +550,7 @@ const Reports: React.FC = () => {
                             </Col>
                             <Col xs={6} md={3} className="mb-3">
                               <div className="text-center">
-                                <div className="h4 text-danger mb-1">{formatCurrency(stats.totalDeductions || 0)}</div>
+                                <div className="h4 text-danger mb-1">{formatCurrency(stats.totalDeductions || 0, stats.reportingCurrency)}</div>
                                 <small className="text-muted">Total Deductions</small>
                               </div>
                             </Col>
@@ -422,6 +562,202 @@ const Reports: React.FC = () => {
                             </Col>
                           </Row>
                         )}
+                        {stats.currencyTotals && stats.currencyTotals.length > 0 && (
+                          <>
+                            <h6 className="mt-3">Totals by Currency</h6>
+                            <Table size="sm" responsive className="mb-0">
+                              <thead>
+                                <tr>
+                                  <th>Currency</th>
+                                  <th>Claims</th>
+                                  <th>Earnings</th>
+                                  <th>Deductions</th>
+                                  <th>Net</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {stats.currencyTotals.map(totals => (
+                                  <tr key={totals.currency}>
+                                    <td>{totals.currency}</td>
+                                    <td>{totals.claims}</td>
+                                    <td>{formatCurrency(totals.totalEarnings, totals.currency)}</td>
+                                    <td className="text-danger">{formatCurrency(totals.totalDeductions, totals.currency)}</td>
+                                    <td className="fw-bold">{formatCurrency(totals.totalEarnings - totals.totalDeductions, totals.currency)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </Table>
+                          </>
+                        )}
+                        {stats.deductionsByReason && stats.deductionsByReason.length > 0 && (
+                          <>
+                            <h6 className="mt-3">Deductions by Reason</h6>
+                            <Table size="sm" responsive className="mb-0">
+                              <thead>
+                                <tr>
+                                  <th>Reason</th>
+                                  <th>Items</th>
+                                  <th>Claims</th>
+                                  <th>Amount ({stats.reportingCurrency})</th>
+                                  <th>Share</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {stats.deductionsByReason.map(totals => (
+                                  <tr key={totals.reasonCode || 'uncategorised'}>
+                                    <td>
+                                      {totals.label}
+                                      {totals.reasonCode && <small className="text-muted ms-2"><code>{totals.reasonCode}</code></small>}
+                                    </td>
+                                    <td>{totals.lines}</td>
+                                    <td>{totals.claims}</td>
+                                    <td className="text-danger">{formatCurrency(totals.amount, stats.reportingCurrency)}</td>
+                                    <td>
+                                      {stats.totalDeductions > 0
+                                        ? `${Math.round((totals.amount / stats.totalDeductions) * 100)}%`
+                                        : '-'}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </Table>
+                          </>
+                        )}
+                        {stats.missingExchangeRates && stats.missingExchangeRates.length > 0 && (
+                          <Alert variant="warning" className="mt-3 mb-0">
+                            No exchange rate is set for {stats.missingExchangeRates.join(', ')}; those claims are left out of
+                            the {stats.reportingCurrency} totals.
+                          </Alert>
+                        )}
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                </Row>
+              )}
+
+              {/* Processing times and SLA breaches */}
+              {user?.role === 'admin' && stats?.timeInStage && (
+                <Row className="mb-4">
+                  <Col>
+                    <Card className="border-0 shadow-sm">
+                      <Card.Body>
+                        <h5 className="card-title mb-3">
+                          <FaStopwatch className="me-2" />
+                          Processing Times & SLA
+                        </h5>
+                        <Row className="mb-3">
+                          <Col xs={6} md={3} className="mb-3">
+                            <div className="text-center">
+                              <div className="h4 text-primary mb-1">{formatHours(stats.averageProcessingTime)}</div>
+                              <small className="text-muted">Submission to admin approval</small>
+                            </div>
+                          </Col>
+                          <Col xs={6} md={3} className="mb-3">
+                            <div className="text-center">
+                              <div className="h4 text-success mb-1">{formatHours(stats.averagePayoutTime)}</div>
+                              <small className="text-muted">Submission to payout</small>
+                            </div>
+                          </Col>
+                          <Col xs={6} md={3} className="mb-3">
+                            <div className="text-center">
+                              <div className="h4 text-danger mb-1">
+                                {stats.timeInStage.reduce((sum, stage) => sum + stage.overdue, 0)}
+                              </div>
+                              <small className="text-muted">Claims past target now</small>
+                            </div>
+                          </Col>
+                          <Col xs={6} md={3} className="mb-3">
+                            <div className="text-center">
+                              <div className="h4 text-warning mb-1">
+                                {weeklyBreaches.reduce((sum, week) => sum + week.count, 0)}
+                              </div>
+                              <small className="text-muted">Breaches, last {weeklyBreaches.length} weeks</small>
+                            </div>
+                          </Col>
+                        </Row>
+
+                        <h6>Time in Status</h6>
+                        <Table size="sm" responsive className="mb-0">
+                          <thead>
+                            <tr>
+                              <th>Status</th>
+                              <th>Passed Through</th>
+                              <th>Average</th>
+                              <th>Longest</th>
+                              <th>Target</th>
+                              <th style={{ width: '22%' }}>Average vs Target</th>
+                              <th>In Status Now</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {stats.timeInStage.map(stage => (
+                              <tr key={stage.status}>
+                                <td>{getStatusBadge(stage.status)}</td>
+                                <td>{stage.completed}</td>
+                                <td>{formatHours(stage.averageHours)}</td>
+                                <td>{formatHours(stage.longestHours)}</td>
+                                <td>{stage.targetHours != null ? formatHours(stage.targetHours) : <span className="text-muted">Not set</span>}</td>
+                                <td>
+                                  {stage.targetHours != null && stage.averageHours != null ? (
+                                    <ProgressBar
+                                      now={Math.min(100, (stage.averageHours / stage.targetHours) * 100)}
+                                      variant={stage.averageHours > stage.targetHours ? 'danger' : 'success'}
+                                      label={`${Math.round((stage.averageHours / stage.targetHours) * 100)}%`}
+                                    />
+                                  ) : '-'}
+                                </td>
+                                <td>
+                                  {stage.open}
+                                  {stage.overdue > 0 && <Badge bg="danger" className="ms-2">{stage.overdue} overdue</Badge>}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </Table>
+
+                        <Row className="mt-4">
+                          <Col md={7} className="mb-3">
+                            <h6>SLA Breaches per Week</h6>
+                            <div className="d-flex align-items-end gap-1" style={{ height: 140 }}>
+                              {weeklyBreaches.map(week => (
+                                <div
+                                  key={week.weekStart}
+                                  className="flex-fill text-center"
+                                  title={`${week.count} breach(es) in the week of ${formatDate(week.weekStart)}`}
+                                >
+                                  <small className="text-muted">{week.count || ''}</small>
+                                  <div
+                                    className="bg-danger rounded-top"
+                                    style={{ height: `${(week.count / maxWeeklyBreaches) * 110}px` }}
+                                  />
+                                </div>
+                              ))}
+                            </div>
+                            <div className="d-flex gap-1 border-top pt-1">
+                              {weeklyBreaches.map(week => (
+                                <div key={week.weekStart} className="flex-fill text-center text-muted" style={{ fontSize: '0.65rem' }}>
+                                  {new Date(week.weekStart).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}
+                                </div>
+                              ))}
+                            </div>
+                          </Col>
+                          <Col md={5} className="mb-3">
+                            <h6>Breaches by Status</h6>
+                            {breachesByStatus.length === 0 ? (
+                              <p className="text-muted small mb-0">No SLA breaches in this period.</p>
+                            ) : (
+                              breachesByStatus.map(entry => (
+                                <div key={entry.status} className="mb-2">
+                                  <div className="d-flex justify-content-between small mb-1">
+                                    {getStatusBadge(entry.status)}
+                                    <strong>{entry.count}</strong>
+                                  </div>
+                                  <ProgressBar variant="danger" now={(entry.count / maxStatusBreaches) * 100} style={{ height: 8 }} />
+                                </div>
+                              ))
+                            )}
+                          </Col>
+                        </Row>
                       </Card.Body>
                     </Card>
                   </Col>
@@ -512,9 +848,12 @@ const Reports: React.FC = () => {
                               <option value="pending">Pending</option>
                               <option value="deducted">Deducted</option>
                               <option value="user_accepted">User Accepted</option>
-                              <option value="user_rejected">User Rejected</option>
+                              <option value="user_rejected">Deduction Rejected</option>
+                              <option value="escalated">Escalated to Admin</option>
                               <option value="account_approved">Account Approved</option>
+                              <option value="account_rejected">Account Rejected</option>
                               <option value="admin_approved">Admin Approved</option>
+                              <option value="admin_rejected">Admin Rejected</option>
                               <option value="settled">Settled</option>
                             </Form.Select>
                           </Form.Group>
@@ -589,6 +928,7 @@ const Reports: React.FC = () => {
                             <tbody>
                               {claims.map((claim) => {
                                 const finalAmount = claim.calculatedEarnings - claim.deductionAmount;
+                                const reportingAmount = toReportingAmount(claim);
                                 return (
                                   <tr key={claim._id}>
                                     <td>
@@ -600,13 +940,13 @@ const Reports: React.FC = () => {
                                     </td>
                                     <td>
                                       <strong className="text-success">
-                                        {formatCurrency(claim.calculatedEarnings)}
+                                        {formatCurrency(claim.calculatedEarnings, claim.currency)}
                                       </strong>
                                     </td>
                                     <td>
                                       {claim.deductionAmount > 0 ? (
                                         <span className="text-danger">
-                                          -{formatCurrency(claim.deductionAmount)}
+                                          -{formatCurrency(claim.deductionAmount, claim.currency)}
                                         </span>
                                       ) : (
                                         <span className="text-muted">None</span>
@@ -614,8 +954,15 @@ const Reports: React.FC = () => {
                                     </td>
                                     <td>
                                       <strong className="text-primary">
-                                        {formatCurrency(finalAmount)}
+                                        {formatCurrency(finalAmount, claim.currency)}
                                       </strong>
+                                      {(claim.currency || reportingCurrency) !== reportingCurrency && (
+                                        <div className="small text-muted">
+                                          {reportingAmount !== null
+                                            ? `≈ ${formatCurrency(reportingAmount, reportingCurrency)}`
+                                            : 'No exchange rate'}
+                                        </div>
+                                      )}
                                     </td>
                                     <td>{getStatusBadge(claim.status)}</td>
                                     <td>{formatDate(claim.createdAt)}</td>
@@ -1,10 +1,32 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Container, Row, Col, Card, Table, Button, Badge, Modal, Form, Alert, Image, Pagination } from 'react-bootstrap';
-import { claimsAPI } from '../services/api';
+import { claimsAPI, deductionReasonsAPI } from '../services/api';
 import { useAuth } from '../context/AuthContext';
 import { useSocket } from '../context/SocketContext';
-import { FaEye, FaCheck, FaTimes, FaMinus, FaLock, FaImage, FaExpand } from 'react-icons/fa';
+import { FaEye, FaCheck, FaTimes, FaMinus, FaPlus, FaLock, FaImage, FaExpand, FaSyncAlt, FaComments, FaLevelUpAlt, FaQuestionCircle } from 'react-icons/fa';
 import toast from 'react-hot-toast';
+import { DeductionLine } from '../components/DeductionResponseModal';
+import DeductionTimeline from '../components/DeductionTimeline';
+import ClaimLockIndicator, { ClaimLock } from '../components/ClaimLockIndicator';
+import ReviewQueuePanel, { ReviewerQueueCount } from '../components/ReviewQueuePanel';
+import ClaimComments from '../components/ClaimComments';
+import EngagementRisk, { RISK_COLORS, RiskLevel } from '../components/EngagementRisk';
+import BulkActionBar, { BulkClaimResult, BulkResultsModal } from '../components/BulkClaimActions';
+
+interface EarningsLine {
+  postId: string;
+  settingsId?: string;
+  overrideId?: string | null;
+  likeCount: number;
+  viewCount: number;
+  ratePerLike: number;
+  ratePer100Views: number;
+  likeEarnings?: number | null;
+  viewEarnings?: number | null;
+  multiplier?: number;
+  capped?: boolean;
+  amount: number;
+}
 
 interface Claim {
   _id: string;
@@ -13,21 +35,79 @@ interface Claim {
     name: string;
     email: string;
   };
+  currency?: string;
   calculatedEarnings: number;
+  earningsBreakdown?: EarningsLine[];
+  settingsId?: string | null;
+  rateOverrideIds?: string[];
+  rateBasis?: 'claim_submitted' | 'post_created';
+  earningsCalculatedAt?: string;
   status: string;
   createdAt: string;
   deductionAmount: number;
   deductionReason: string;
+  deductions?: DeductionLine[];
+  rejectionReason?: string;
   proofFileUrls: string[];
-  postIds: string[];
-  lockedBy?: string;
-  lockTimestamp?: string;
+  postIds: Array<string | { _id: string; contentText?: string }>;
+  lock?: ClaimLock | null;
+  // Set while the claim is past the SLA target for its current status
+  slaBreach?: { status: string; targetHours: number; breachedAt: string } | null;
+  // Latest engagement fraud score, 0-100
+  risk?: { score: number; level: RiskLevel; assessedAt: string } | null;
   reviewedBy?: {
     _id: string;
     name: string;
   };
+  infoRequest?: {
+    message: string;
+    requestedAt: string;
+    response?: string | null;
+    addedProofFileUrls?: string[];
+    respondedAt?: string | null;
+  } | null;
+  // Set while the claim waits on the creator
+  slaPausedAt?: string | null;
+  // Review time so far, excluding time waiting on the creator
+  slaElapsedMs?: number;
+}
+
+interface DeductionReasonOption {
+  code: string;
+  label: string;
+  description?: string;
+  defaultPercent?: number | null;
+  defaultAmount?: number | null;
+}
+
+interface DeductionLineForm {
+  postId: string;
+  reasonCode: string;
+  // Left empty to let the server apply the reason's default
+  amount: string;
+  reason: string;
 }
 
+const emptyDeductionLine: DeductionLineForm = { postId: '', reasonCode: '', amount: '', reason: '' };
+
+// Reviewer's answer to one disputed or countered line
+interface NegotiationForm {
+  action: 'accept_counter' | 'counter' | 'withdraw';
+  amount: string;
+  message: string;
+}
+
+const LINE_STATUS_BADGES: Record<DeductionLine['status'], { variant: string; text: string }> = {
+  proposed: { variant: 'warning', text: 'Awaiting response' },
+  accepted: { variant: 'success', text: 'Accepted' },
+  disputed: { variant: 'danger', text: 'Disputed' },
+  countered: { variant: 'info', text: 'Counter-offer' },
+  withdrawn: { variant: 'secondary', text: 'Withdrawn' }
+};
+
+// Claims still with account review, which an admin can hand to another reviewer
+const REASSIGNABLE_STATUSES = ['pending', 'user_rejected', 'info_requested'];
+
 const ReviewClaim: React.FC = () => {
   const { user } = useAuth();
   const { onAutoRefresh, offAutoRefresh, lockClaim, unlockClaim, joinClaim, leaveClaim } = useSocket();
@@ -36,26 +116,42 @@ const ReviewClaim: React.FC = () => {
   const [allClaims, setAllClaims] = useState<Claim[]>([]);
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState(false);
+  const [queueCounts, setQueueCounts] = useState<{ reviewers: ReviewerQueueCount[]; unassigned: number }>({ reviewers: [], unassigned: 0 });
+  const [loadingNext, setLoadingNext] = useState(false);
   const [selectedClaim, setSelectedClaim] = useState<Claim | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [showRejectModal, setShowRejectModal] = useState(false);
   const [rejectReason, setRejectReason] = useState('');
-  const [deductionAmount, setDeductionAmount] = useState('');
-  const [deductionReason, setDeductionReason] = useState('');
+  const [deductionLines, setDeductionLines] = useState<DeductionLineForm[]>([emptyDeductionLine]);
   const [showDeductionModal, setShowDeductionModal] = useState(false);
+  const [negotiation, setNegotiation] = useState<Record<string, NegotiationForm>>({});
+  const [showNegotiationModal, setShowNegotiationModal] = useState(false);
+  const [escalationMessage, setEscalationMessage] = useState('');
+  const [showEscalationModal, setShowEscalationModal] = useState(false);
+  const [infoRequestMessage, setInfoRequestMessage] = useState('');
+  const [showInfoRequestModal, setShowInfoRequestModal] = useState(false);
+  const [deductionReasons, setDeductionReasons] = useState<DeductionReasonOption[]>([]);
+  const [reportingCurrency, setReportingCurrency] = useState('INR');
   const [claimLocked, setClaimLocked] = useState(false);
   const [lockLoading, setLockLoading] = useState(false);
+  const [availableTransitions, setAvailableTransitions] = useState<string[]>([]);
 
   // Pagination states
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [totalClaims, setTotalClaims] = useState(0);
-  const [claimsPerPage] = useState(5);
+  const [claimsPerPage, setClaimsPerPage] = useState(5);
+  // Claims ticked for a bulk action, kept across pages, with the creator name to report them by
+  const [selectedIds, setSelectedIds] = useState<Record<string, string>>({});
+  const [bulkRejecting, setBulkRejecting] = useState(false);
+  const [bulkResults, setBulkResults] = useState<BulkClaimResult[] | null>(null);
 
   // Filters
   const [filters, setFilters] = useState({
     searchTerm: '',
     status: 'all',
+    // Reviewers start on their own queue
+    assignedTo: user?.role === 'account' ? 'me' : 'all',
     startDate: '',
     endDate: '',
     minEarnings: '',
@@ -65,7 +161,14 @@ const ReviewClaim: React.FC = () => {
   // Load data when component mounts or page changes
   useEffect(() => {
     loadClaims();
-  }, [currentPage]);
+  }, [currentPage, claimsPerPage]);
+
+  // The reason catalogue is only needed once a reviewer starts a deduction
+  useEffect(() => {
+    if (showDeductionModal && deductionReasons.length === 0) {
+      loadDeductionReasons();
+    }
+  }, [showDeductionModal, deductionReasons.length]);
 
   // Register auto-refresh callback
   useEffect(() => {
@@ -92,7 +195,7 @@ const ReviewClaim: React.FC = () => {
     } else {
       setCurrentPage(1);
     }
-  }, [filters.status, filters.startDate, filters.endDate, filters.minEarnings, filters.maxEarnings]);
+  }, [filters.status, filters.assignedTo, filters.startDate, filters.endDate, filters.minEarnings, filters.maxEarnings]);
 
   const loadClaims = async () => {
     try {
@@ -108,9 +211,11 @@ const ReviewClaim: React.FC = () => {
       if (filters.status !== 'all') {
         apiParams.status = filters.status;
       } else {
-        apiParams.status = 'pending,deducted,user_accepted';
+        apiParams.status = 'pending,info_requested,deducted,user_accepted';
       }
       
+      if (filters.assignedTo !== 'all') apiParams.assignedTo = filters.assignedTo;
+      
       // Add date filters
       if (filters.startDate) apiParams.startDate = filters.startDate;
       if (filters.endDate) apiParams.endDate = filters.endDate;
@@ -131,6 +236,8 @@ const ReviewClaim: React.FC = () => {
         setTotalPages(1);
         setTotalClaims(0);
       }
+
+      loadQueueCounts();
     } catch (error: any) {
       toast.error('Failed to load claims: ' + (error.response?.data?.message || error.message));
     } finally {
@@ -138,6 +245,50 @@ const ReviewClaim: React.FC = () => {
     }
   };
 
+  const loadQueueCounts = async () => {
+    try {
+      const response = await claimsAPI.getQueueCounts();
+      setQueueCounts({ reviewers: response.data.reviewers, unassigned: response.data.unassigned });
+    } catch (error) {
+      console.error('Error loading queue counts:', error);
+    }
+  };
+
+  // Open the reviewer's next claim; an empty queue pulls the oldest unassigned claim
+  const handleNextClaim = async () => {
+    try {
+      setLoadingNext(true);
+      const response = await claimsAPI.getNextClaim();
+      if (!response.data.claim) {
+        toast('Your queue is empty and there are no unassigned claims');
+        return;
+      }
+      await handleViewClaim(response.data.claim);
+      loadClaims();
+    } catch (error: any) {
+      toast.error('Failed to get the next claim: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setLoadingNext(false);
+    }
+  };
+
+  const handleReassign = async (reviewerId: string) => {
+    if (!selectedClaim || !reviewerId) return;
+
+    const reviewer = queueCounts.reviewers.find(candidate => candidate.reviewerId === reviewerId);
+    try {
+      setProcessing(true);
+      await claimsAPI.assignClaim(selectedClaim._id, reviewerId);
+      setSelectedClaim(prev => prev ? { ...prev, reviewedBy: { _id: reviewerId, name: reviewer?.name || '' } } : prev);
+      toast.success(`Claim assigned to ${reviewer?.name || 'reviewer'}`);
+      loadClaims();
+    } catch (error: any) {
+      handleActionError(error);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
   const applySearchFilter = useCallback(() => {
     let filteredClaims = [...allClaims];
 
@@ -166,6 +317,7 @@ const ReviewClaim: React.FC = () => {
         setShowModal(true);
         joinClaim(claim._id);
         toast.success('Claim locked for editing');
+        await loadTransitions(claim._id);
       } else {
         toast.error('This claim is currently being reviewed by another user');
       }
@@ -176,6 +328,36 @@ const ReviewClaim: React.FC = () => {
     }
   };
 
+  const loadTransitions = async (claimId: string) => {
+    try {
+      const response = await claimsAPI.getClaimTransitions(claimId);
+      setAvailableTransitions(response.data.transitions || []);
+    } catch (error: any) {
+      setAvailableTransitions([]);
+      toast.error('Failed to load available actions: ' + (error.response?.data?.message || error.message));
+    }
+  };
+
+  const canPerform = (transition: string) => availableTransitions.includes(transition);
+
+  // A 409 means the claim moved on without us: another reviewer acted on it first or holds its
+  // lock. Drop the stale copy and show the current list.
+  const handleActionError = (error: any, prefix = 'Action failed') => {
+    if (error.response?.status !== 409) {
+      toast.error(prefix + ': ' + (error.response?.data?.message || error.message));
+      return;
+    }
+
+    toast.error(error.response.data?.message || 'This claim was changed by someone else');
+    setShowRejectModal(false);
+    setShowDeductionModal(false);
+    setShowNegotiationModal(false);
+    setShowEscalationModal(false);
+    setShowInfoRequestModal(false);
+    handleCloseModal();
+    loadClaims();
+  };
+
   const handleCloseModal = () => {
     if (selectedClaim && claimLocked) {
       unlockClaim(selectedClaim._id);
@@ -185,9 +367,10 @@ const ReviewClaim: React.FC = () => {
     }
     setShowModal(false);
     setSelectedClaim(null);
+    setAvailableTransitions([]);
   };
 
-  const handleClaimAction = async (action: 'approve' | 'reject' | 'deduct' | 'final-approve') => {
+  const handleClaimAction = async (action: 'approve' | 'reject' | 'final-approve') => {
     if (!selectedClaim) return;
 
     try {
@@ -201,15 +384,6 @@ const ReviewClaim: React.FC = () => {
         toast.success('Claim rejected successfully!');
         setShowRejectModal(false);
         setRejectReason('');
-      } else if (action === 'deduct') {
-        await claimsAPI.applyDeduction(selectedClaim._id, {
-          deductionAmount: parseFloat(deductionAmount),
-          deductionReason: deductionReason
-        });
-        toast.success('Deduction applied successfully!');
-        setShowDeductionModal(false);
-        setDeductionAmount('');
-        setDeductionReason('');
       } else if (action === 'final-approve') {
         await claimsAPI.adminApprove(selectedClaim._id);
         toast.success('Claim finally approved!');
@@ -223,7 +397,7 @@ const ReviewClaim: React.FC = () => {
         handleCloseModal();
       }
     } catch (error: any) {
-      toast.error('Action failed: ' + (error.response?.data?.message || error.message));
+      handleActionError(error);
     } finally {
       setProcessing(false);
     }
@@ -236,11 +410,13 @@ const ReviewClaim: React.FC = () => {
     try {
       setProcessing(true);
       await claimsAPI.accountApprove(selectedClaim._id);
-      toast.success('Claim approved successfully!');
+      toast.success(canPerform('record_approval')
+        ? 'Approval recorded. This claim also needs a second reviewer\'s approval.'
+        : 'Claim approved successfully!');
       await loadClaims();
       handleCloseModal();
     } catch (error: any) {
-      toast.error('Action failed: ' + (error.response?.data?.message || error.message));
+      handleActionError(error);
     } finally {
       setProcessing(false);
     }
@@ -257,7 +433,121 @@ const ReviewClaim: React.FC = () => {
       await loadClaims();
       handleCloseModal();
     } catch (error: any) {
-      toast.error('Action failed: ' + (error.response?.data?.message || error.message));
+      handleActionError(error);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleRecalculate = async () => {
+    if (!selectedClaim) return;
+
+    try {
+      setProcessing(true);
+      const previousEarnings = selectedClaim.calculatedEarnings;
+      const response = await claimsAPI.recalculateEarnings(selectedClaim._id);
+      const updated = response.data.claim;
+      setSelectedClaim(prev => prev && {
+        ...prev,
+        calculatedEarnings: updated.calculatedEarnings,
+        earningsBreakdown: updated.earningsBreakdown,
+        settingsId: updated.settingsId,
+        rateOverrideIds: updated.rateOverrideIds,
+        rateBasis: updated.rateBasis,
+        earningsCalculatedAt: updated.earningsCalculatedAt
+      });
+      toast.success(`Earnings recalculated: ${formatCurrency(previousEarnings, updated.currency)} → ${formatCurrency(updated.calculatedEarnings, updated.currency)}`);
+      await loadClaims();
+    } catch (error: any) {
+      handleActionError(error, 'Recalculation failed');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const getPostLabel = (postId: string) => {
+    const post = selectedClaim?.postIds.find(p => typeof p !== 'string' && p._id === postId);
+    if (post && typeof post !== 'string' && post.contentText) {
+      return post.contentText.length > 40 ? post.contentText.substring(0, 40) + '...' : post.contentText;
+    }
+    return `Post ${postId.slice(-6)}`;
+  };
+
+  // Lines the creator disputed or countered, waiting for an answer
+  const openDeductionLines = (selectedClaim?.deductions || []).filter(line => line.status === 'disputed' || line.status === 'countered');
+
+  const openNegotiationModal = () => {
+    setNegotiation(Object.fromEntries(openDeductionLines.map(line => [line._id, {
+      action: line.status === 'countered' ? 'accept_counter' : 'counter',
+      amount: '',
+      message: ''
+    } as NegotiationForm])));
+    setShowNegotiationModal(true);
+  };
+
+  const updateNegotiation = (lineId: string, changes: Partial<NegotiationForm>) => {
+    setNegotiation(prev => ({ ...prev, [lineId]: { ...prev[lineId], ...changes } }));
+  };
+
+  const handleNegotiate = async () => {
+    if (!selectedClaim) return;
+    const lines = openDeductionLines.map(line => ({ line, answer: negotiation[line._id] }));
+    if (lines.some(({ answer }) => answer?.action === 'counter' && !(parseFloat(answer.amount) > 0))) {
+      toast.error('Enter an amount for every re-counter');
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      await claimsAPI.negotiateDeduction(selectedClaim._id, lines.map(({ line, answer }) => ({
+        lineId: line._id,
+        action: answer.action,
+        amount: answer.action === 'counter' ? parseFloat(answer.amount) : null,
+        message: answer.message.trim() || undefined
+      })));
+      const recountered = lines.some(({ answer }) => answer.action === 'counter');
+      toast.success(recountered ? 'Re-counter sent to the creator' : 'Deduction agreed. Claim moved to Admin for final approval.');
+      setShowNegotiationModal(false);
+      await loadClaims();
+      handleCloseModal();
+    } catch (error: any) {
+      handleActionError(error);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleEscalate = async () => {
+    if (!selectedClaim || !escalationMessage.trim()) return;
+
+    try {
+      setProcessing(true);
+      await claimsAPI.escalateDeduction(selectedClaim._id, escalationMessage.trim());
+      toast.success('Dispute escalated to admin');
+      setShowEscalationModal(false);
+      setEscalationMessage('');
+      await loadClaims();
+      handleCloseModal();
+    } catch (error: any) {
+      handleActionError(error);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleRequestInfo = async () => {
+    if (!selectedClaim || !infoRequestMessage.trim()) return;
+
+    try {
+      setProcessing(true);
+      await claimsAPI.requestInfo(selectedClaim._id, infoRequestMessage.trim());
+      toast.success('Information requested from the creator');
+      setShowInfoRequestModal(false);
+      setInfoRequestMessage('');
+      await loadClaims();
+      handleCloseModal();
+    } catch (error: any) {
+      handleActionError(error);
     } finally {
       setProcessing(false);
     }
@@ -268,6 +558,10 @@ const ReviewClaim: React.FC = () => {
       toast.error('Please provide a rejection reason');
       return;
     }
+    if (bulkRejecting) {
+      await handleBulkReject();
+      return;
+    }
     if (!selectedClaim) return;
     
     try {
@@ -279,20 +573,127 @@ const ReviewClaim: React.FC = () => {
       await loadClaims();
       handleCloseModal();
     } catch (error: any) {
-      toast.error('Action failed: ' + (error.response?.data?.message || error.message));
+      handleActionError(error);
     } finally {
       setProcessing(false);
     }
   };
 
+  const finishBulkAction = async (results: BulkClaimResult[], done: string) => {
+    const succeeded = results.filter(result => result.success).length;
+    if (succeeded === results.length) {
+      toast.success(`${succeeded} claim(s) ${done}`);
+    } else {
+      toast.error(`${results.length - succeeded} of ${results.length} claim(s) could not be ${done}`);
+      setBulkResults(results);
+    }
+    // Claims that failed stay selected, to retry or to act on differently
+    const failed = new Set(results.filter(result => !result.success).map(result => result.claimId));
+    setSelectedIds(prev => Object.fromEntries(Object.entries(prev).filter(([claimId]) => failed.has(claimId))));
+    await loadClaims();
+  };
+
+  // High-value claims only collect an approval, just as when approved one at a time
+  const handleBulkApprove = async () => {
+    if (!window.confirm(`Approve ${Object.keys(selectedIds).length} claim(s)?`)) {
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      const response = await claimsAPI.bulkApprove(Object.keys(selectedIds));
+      await finishBulkAction(response.data.results, 'approved');
+    } catch (error: any) {
+      toast.error('Bulk approval failed: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleBulkReject = async () => {
+    try {
+      setProcessing(true);
+      const response = await claimsAPI.bulkReject(Object.keys(selectedIds), rejectReason);
+      setShowRejectModal(false);
+      setBulkRejecting(false);
+      setRejectReason('');
+      await finishBulkAction(response.data.results, 'rejected');
+    } catch (error: any) {
+      toast.error('Bulk rejection failed: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const closeRejectModal = () => {
+    setShowRejectModal(false);
+    setBulkRejecting(false);
+  };
+
+  const loadDeductionReasons = async () => {
+    try {
+      const response = await deductionReasonsAPI.getReasons();
+      setDeductionReasons(response.data.reasons);
+      setReportingCurrency(response.data.reportingCurrency);
+    } catch (error: any) {
+      toast.error('Failed to load deduction reasons: ' + (error.response?.data?.message || error.message));
+    }
+  };
+
+  const getDeductionReason = (code: string) => deductionReasons.find(reason => reason.code === code);
+
+  // Default for a reason, as the server would apply it. Fixed amounts in another currency need
+  // an exchange rate reviewers cannot see, so those are left for the server to fill in.
+  const getSuggestedAmount = (line: DeductionLineForm): string => {
+    const reason = getDeductionReason(line.reasonCode);
+    if (!reason || !selectedClaim) return '';
+    if (reason.defaultPercent != null) {
+      const earned = line.postId
+        ? selectedClaim.earningsBreakdown?.find(entry => entry.postId === line.postId)?.amount ?? 0
+        : selectedClaim.calculatedEarnings;
+      return (Math.round(earned * reason.defaultPercent) / 100).toFixed(2);
+    }
+    if (reason.defaultAmount != null && (selectedClaim.currency || 'INR') === reportingCurrency) {
+      return reason.defaultAmount.toFixed(2);
+    }
+    return '';
+  };
+
+  const hasDefaultAmount = (code: string) => {
+    const reason = getDeductionReason(code);
+    return !!reason && (reason.defaultPercent != null || reason.defaultAmount != null);
+  };
+
+  const updateDeductionLine = (index: number, changes: Partial<DeductionLineForm>) => {
+    setDeductionLines(lines => lines.map((line, i) => {
+      if (i !== index) return line;
+      const updated = { ...line, ...changes };
+      // A new reason or post brings the matching default amount with it
+      if ((changes.reasonCode !== undefined || changes.postId !== undefined) && changes.amount === undefined) {
+        updated.amount = getSuggestedAmount(updated);
+      }
+      return updated;
+    }));
+  };
+
+  const deductionTotal = deductionLines.reduce((sum, line) => sum + (parseFloat(line.amount) || 0), 0);
+  // Lines the creator accepted earlier stay on the claim when the disputed ones are re-proposed
+  const acceptedDeductionTotal = (selectedClaim?.deductions || [])
+    .filter(line => line.status === 'accepted')
+    .reduce((sum, line) => sum + line.amount, 0);
+
   const handleApplyDeduction = async () => {
-    if (!deductionAmount || !deductionReason.trim()) {
-      toast.error('Please provide both deduction amount and reason');
+    if (deductionLines.some(line => !line.reasonCode)) {
+      toast.error('Every deduction line needs a reason code');
+      return;
+    }
+    if (deductionLines.some(line => !(parseFloat(line.amount) > 0) && !(line.amount === '' && hasDefaultAmount(line.reasonCode)))) {
+      toast.error('Enter an amount for every line whose reason has no default');
       return;
     }
     if (!selectedClaim) return;
     
-    if (parseFloat(deductionAmount) >= selectedClaim.calculatedEarnings) {
+    if (deductionTotal + acceptedDeductionTotal >= selectedClaim.calculatedEarnings) {
       toast.error('Deduction amount cannot be greater than or equal to earnings');
       return;
     }
@@ -300,17 +701,20 @@ const ReviewClaim: React.FC = () => {
     try {
       setProcessing(true);
       await claimsAPI.applyDeduction(selectedClaim._id, {
-        deductionAmount: parseFloat(deductionAmount),
-        deductionReason: deductionReason
+        lines: deductionLines.map(line => ({
+          postId: line.postId || null,
+          amount: line.amount === '' ? null : parseFloat(line.amount),
+          reasonCode: line.reasonCode,
+          reason: line.reason.trim() || undefined
+        }))
       });
       toast.success('Deduction applied successfully!');
       setShowDeductionModal(false);
-      setDeductionAmount('');
-      setDeductionReason('');
+      setDeductionLines([emptyDeductionLine]);
       await loadClaims();
       handleCloseModal();
     } catch (error: any) {
-      toast.error('Action failed: ' + (error.response?.data?.message || error.message));
+      handleActionError(error);
     } finally {
       setProcessing(false);
     }
@@ -338,9 +742,14 @@ const ReviewClaim: React.FC = () => {
       pending: 'warning',
       deducted: 'info',
       user_accepted: 'success',
-      user_rejected: 'danger',
+      user_rejected: 'warning',
+      escalated: 'dark',
+      info_requested: 'info',
+      withdrawn: 'secondary',
       account_approved: 'primary',
+      account_rejected: 'danger',
       admin_approved: 'success',
+      admin_rejected: 'danger',
       settled: 'secondary'
     };
     return statusConfig[status as keyof typeof statusConfig] || 'secondary';
@@ -351,18 +760,23 @@ const ReviewClaim: React.FC = () => {
       pending: 'Pending',
       deducted: 'Deducted',
       user_accepted: 'Accepted',
-      user_rejected: 'Rejected',
+      user_rejected: 'Deduction Rejected',
+      escalated: 'Escalated to Admin',
+      info_requested: 'Info Requested',
+      withdrawn: 'Withdrawn',
       account_approved: 'Approved',
+      account_rejected: 'Rejected',
       admin_approved: 'Final Approved',
+      admin_rejected: 'Final Rejected',
       settled: 'Settled'
     };
     return statusConfig[status as keyof typeof statusConfig] || status;
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string = 'INR') => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
-      currency: 'INR'
+      currency
     }).format(amount);
   };
 
@@ -376,10 +790,17 @@ const ReviewClaim: React.FC = () => {
     });
   };
 
+  const formatDuration = (ms: number) => {
+    const hours = Math.floor(ms / (60 * 60 * 1000));
+    if (hours < 24) return `${hours}h`;
+    return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  };
+
   const clearFilters = () => {
     setFilters({
       searchTerm: '',
       status: 'all',
+      assignedTo: user?.role === 'account' ? 'me' : 'all',
       startDate: '',
       endDate: '',
       minEarnings: '',
@@ -390,7 +811,42 @@ const ReviewClaim: React.FC = () => {
 
   // Helper function to check if claim is locked by someone else
   const isClaimLockedByOther = (claim: Claim): boolean => {
-    return !!(claim.lockedBy && claim.lockedBy !== user?.id);
+    return !!(claim.lock && claim.lock.lockedBy !== user?.id);
+  };
+
+  // Account reviewers can tick claims they could approve or reject that nobody else has open
+  const canBulkAct = user?.role === 'account';
+  const isSelectable = (claim: Claim) =>
+    ['pending', 'user_rejected', 'user_accepted'].includes(claim.status) && !isClaimLockedByOther(claim);
+
+  const selectableClaims = claims.filter(isSelectable);
+  const selectedCount = Object.keys(selectedIds).length;
+  const allSelected = selectableClaims.length > 0 && selectableClaims.every(claim => selectedIds[claim._id]);
+
+  const toggleSelected = (claim: Claim) => {
+    setSelectedIds(prev => {
+      const next = { ...prev };
+      if (next[claim._id]) {
+        delete next[claim._id];
+      } else {
+        next[claim._id] = claim.userId.name;
+      }
+      return next;
+    });
+  };
+
+  const togglePage = () => {
+    setSelectedIds(prev => {
+      const next = { ...prev };
+      selectableClaims.forEach(claim => {
+        if (allSelected) {
+          delete next[claim._id];
+        } else {
+          next[claim._id] = claim.userId.name;
+        }
+      });
+      return next;
+    });
   };
 
   if (loading) {
@@ -428,9 +884,24 @@ const ReviewClaim: React.FC = () => {
                   >
                     <option value="all">All Status</option>
                     <option value="pending">Pending</option>
+                    <option value="info_requested">Info Requested</option>
                     <option value="deducted">Deducted</option>
                     <option value="user_accepted">Accepted</option>
-                    <option value="user_rejected">Rejected</option>
+                    <option value="user_rejected">Deduction Rejected</option>
+                    <option value="escalated">Escalated to Admin</option>
+                    <option value="account_rejected">Rejected</option>
+                  </Form.Select>
+                  <Form.Select
+                    value={filters.assignedTo}
+                    onChange={(e) => setFilters(prev => ({ ...prev, assignedTo: e.target.value }))}
+                    style={{ width: 'auto' }}
+                  >
+                    {user?.role === 'account' && <option value="me">My Queue</option>}
+                    <option value="all">All Reviewers</option>
+                    <option value="unassigned">Unassigned</option>
+                    {user?.role === 'admin' && queueCounts.reviewers.map(reviewer => (
+                      <option key={reviewer.reviewerId} value={reviewer.reviewerId}>{reviewer.name}</option>
+                    ))}
                   </Form.Select>
                   <Form.Control
                     type="text"
@@ -465,6 +936,14 @@ const ReviewClaim: React.FC = () => {
                 </Col>
               </Row>
 
+              <ReviewQueuePanel
+                reviewers={queueCounts.reviewers}
+                unassigned={queueCounts.unassigned}
+                currentUserId={user?.id}
+                onNextClaim={user?.role === 'account' ? handleNextClaim : undefined}
+                loadingNext={loadingNext}
+              />
+
               {claims.length === 0 ? (
                 <Alert variant="info">
                   <h5>No Pending Claims</h5>
@@ -472,9 +951,57 @@ const ReviewClaim: React.FC = () => {
                 </Alert>
               ) : (
                 <>
+                  <div className="d-flex justify-content-end align-items-center mb-2">
+                    <Form.Label className="me-2 mb-0 small text-muted" htmlFor="claims-per-page">Per page</Form.Label>
+                    <Form.Select
+                      id="claims-per-page"
+                      size="sm"
+                      style={{ width: 'auto' }}
+                      value={claimsPerPage}
+                      onChange={(e) => {
+                        setClaimsPerPage(parseInt(e.target.value));
+                        setCurrentPage(1);
+                      }}
+                    >
+                      <option value={5}>5</option>
+                      <option value={25}>25</option>
+                      <option value={100}>100</option>
+                    </Form.Select>
+                  </div>
+
+                  <BulkActionBar count={selectedCount} onClear={() => setSelectedIds({})}>
+                    <Button variant="success" size="sm" onClick={handleBulkApprove} disabled={processing}>
+                      <FaCheck className="me-2" />
+                      Approve Selected
+                    </Button>
+                    <Button
+                      variant="danger"
+                      size="sm"
+                      onClick={() => {
+                        setBulkRejecting(true);
+                        setShowRejectModal(true);
+                      }}
+                      disabled={processing}
+                    >
+                      <FaTimes className="me-2" />
+                      Reject Selected
+                    </Button>
+                  </BulkActionBar>
+
                   <Table responsive hover>
                     <thead>
                       <tr>
+                        {canBulkAct && (
+                          <th>
+                            <Form.Check
+                              type="checkbox"
+                              aria-label="Select all claims on this page"
+                              checked={allSelected}
+                              disabled={selectableClaims.length === 0}
+                              onChange={togglePage}
+                            />
+                          </th>
+                        )}
                         <th>Creator</th>
                         <th>Proof Images</th>
                         <th>Original Earnings</th>
@@ -488,6 +1015,17 @@ const ReviewClaim: React.FC = () => {
                     <tbody>
                       {claims.map((claim) => (
                         <tr key={claim._id}>
+                          {canBulkAct && (
+                            <td>
+                              <Form.Check
+                                type="checkbox"
+                                aria-label={`Select claim by ${claim.userId.name}`}
+                                checked={!!selectedIds[claim._id]}
+                                disabled={!isSelectable(claim)}
+                                onChange={() => toggleSelected(claim)}
+                              />
+                            </td>
+                          )}
                           <td>
                             <div>
                               <strong>{claim.userId.name}</strong>
@@ -571,13 +1109,13 @@ const ReviewClaim: React.FC = () => {
                           </td>
                           <td>
                             <strong className="text-success">
-                              {formatCurrency(claim.calculatedEarnings)}
+                              {formatCurrency(claim.calculatedEarnings, claim.currency)}
                             </strong>
                           </td>
                           <td>
                             {claim.deductionAmount > 0 ? (
                               <span className="text-danger">
-                                -{formatCurrency(claim.deductionAmount)}
+                                -{formatCurrency(claim.deductionAmount, claim.currency)}
                               </span>
                             ) : (
                               <span className="text-muted">None</span>
@@ -585,11 +1123,42 @@ const ReviewClaim: React.FC = () => {
                           </td>
                           <td>
                             <strong className="text-primary">
-                              {formatCurrency(claim.calculatedEarnings - claim.deductionAmount)}
+                              {formatCurrency(claim.calculatedEarnings - claim.deductionAmount, claim.currency)}
                             </strong>
                           </td>
-                          <td><Badge bg={getStatusColor(claim.status)}>{getStatusText(claim.status)}</Badge></td>
-                          <td>{formatDate(claim.createdAt)}</td>
+                          <td>
+                            <Badge bg={getStatusColor(claim.status)}>{getStatusText(claim.status)}</Badge>
+                            {claim.slaBreach && (
+                              <Badge bg="danger" className="ms-1" title={`Target ${claim.slaBreach.targetHours}h in this status`}>
+                                SLA breached
+                              </Badge>
+                            )}
+                            {claim.risk && claim.risk.level !== 'low' && (
+                              <Badge
+                                bg={RISK_COLORS[claim.risk.level]}
+                                text={claim.risk.level === 'medium' ? 'dark' : undefined}
+                                className="ms-1"
+                                title={`Engagement risk score ${claim.risk.score} of 100`}
+                              >
+                                {claim.risk.level === 'high' ? 'High risk' : 'Medium risk'}
+                              </Badge>
+                            )}
+                            <small className="d-block text-muted">
+                              {claim.reviewedBy?.name ? `Assigned to ${claim.reviewedBy.name}` : 'Unassigned'}
+                            </small>
+                          </td>
+                          <td>
+                            {formatDate(claim.createdAt)}
+                            {claim.slaElapsedMs != null && (
+                              <>
+                                <br />
+                                <small className="text-muted">
+                                  {formatDuration(claim.slaElapsedMs)} in review
+                                  {claim.slaPausedAt && ' (paused, waiting on creator)'}
+                                </small>
+                              </>
+                            )}
+                          </td>
                           <td>
                             <div className="d-flex gap-2">
                                 <Button
@@ -606,6 +1175,7 @@ const ReviewClaim: React.FC = () => {
                                   {isClaimLockedByOther(claim) ? 'Locked' : 'View'}
                                 </Button>
                               </div>
+                              <ClaimLockIndicator lock={claim.lock} onLockBroken={loadClaims} />
                             </td>
                           </tr>
                       ))}
@@ -668,7 +1238,7 @@ const ReviewClaim: React.FC = () => {
                 <Col md={6}>
                   <h6>Original Earnings</h6>
                   <Badge bg="success" className="fs-6">
-                    {formatCurrency(selectedClaim.calculatedEarnings)}
+                    {formatCurrency(selectedClaim.calculatedEarnings, selectedClaim.currency)}
                   </Badge>
                 </Col>
                 <Col md={6}>
@@ -676,91 +1246,298 @@ const ReviewClaim: React.FC = () => {
                   <Badge bg={getStatusColor(selectedClaim.status)} className="fs-6">
                     {getStatusText(selectedClaim.status)}
                   </Badge>
+                  <div className="mt-2 small">
+                    {user?.role === 'admin' && REASSIGNABLE_STATUSES.includes(selectedClaim.status) ? (
+                      <Form.Select
+                        size="sm"
+                        value={selectedClaim.reviewedBy?._id || ''}
+                        onChange={(e) => handleReassign(e.target.value)}
+                        disabled={processing}
+                        style={{ width: 'auto' }}
+                      >
+                        <option value="" disabled>Unassigned</option>
+                        {queueCounts.reviewers.map(reviewer => (
+                          <option key={reviewer.reviewerId} value={reviewer.reviewerId}>Assigned to {reviewer.name}</option>
+                        ))}
+                      </Form.Select>
+                    ) : (
+                      <span className="text-muted">Assigned to {selectedClaim.reviewedBy?.name || 'nobody yet'}</span>
+                    )}
+                  </div>
                 </Col>
               </Row>
 
+              <div className="mb-3">
+                <div className="d-flex justify-content-between align-items-center mb-2">
+                  <h6 className="mb-0">Earnings Breakdown</h6>
+                  {canPerform('recalculate_earnings') && (
+                    <Button
+                      variant="outline-secondary"
+                      size="sm"
+                      onClick={handleRecalculate}
+                      disabled={processing}
+                    >
+                      <FaSyncAlt className="me-2" />
+                      Recalculate
+                    </Button>
+                  )}
+                </div>
+                {selectedClaim.earningsBreakdown && selectedClaim.earningsBreakdown.length > 0 ? (
+                  <>
+                    <Table size="sm" bordered responsive className="mb-1">
+                      <thead>
+                        <tr>
+                          <th>Post</th>
+                          <th>Likes</th>
+                          <th>Views</th>
+                          <th>Like Earnings</th>
+                          <th>View Earnings</th>
+                          <th>Bonus</th>
+                          <th>Amount</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {selectedClaim.earningsBreakdown.map(line => (
+                          <tr key={line.postId}>
+                            <td>{getPostLabel(line.postId)}</td>
+                            <td>{line.likeCount.toLocaleString()}</td>
+                            <td>{line.viewCount.toLocaleString()}</td>
+                            <td>{formatCurrency(line.likeEarnings ?? line.likeCount * line.ratePerLike, selectedClaim.currency)}</td>
+                            <td>{formatCurrency(line.viewEarnings ?? (line.viewCount / 100) * line.ratePer100Views, selectedClaim.currency)}</td>
+                            <td>{line.multiplier && line.multiplier !== 1 ? `×${line.multiplier}` : '—'}</td>
+                            <td>
+                              {formatCurrency(line.amount, selectedClaim.currency)}
+                              {line.capped && <Badge bg="warning" text="dark" className="ms-1">Capped</Badge>}
+                              {line.overrideId && (
+                                <Badge
+                                  bg="info"
+                                  className="ms-1"
+                                  title={`Rate override ${line.overrideId.slice(-6)}: ₹${line.ratePerLike}/like, ₹${line.ratePer100Views}/100 views`}
+                                >
+                                  Override
+                                </Badge>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </Table>
+                    {selectedClaim.earningsBreakdown.reduce((sum, line) => sum + line.amount, 0) > selectedClaim.calculatedEarnings + 0.005 && (
+                      <div className="small text-warning">
+                        Per-claim cap applied: total limited to {formatCurrency(selectedClaim.calculatedEarnings, selectedClaim.currency)}
+                      </div>
+                    )}
+                    <small className="text-muted">
+                      {selectedClaim.earningsCalculatedAt && `Calculated ${formatDate(selectedClaim.earningsCalculatedAt)}`}
+                      {selectedClaim.settingsId
+                        ? ` using rate card ${selectedClaim.settingsId.slice(-6)}`
+                        : ' using the rate card in effect when each post was created'}
+                      {selectedClaim.rateBasis === 'claim_submitted' && ' (rates as of claim submission)'}
+                      {selectedClaim.rateOverrideIds && selectedClaim.rateOverrideIds.length > 0 &&
+                        `, with ${selectedClaim.rateOverrideIds.length} negotiated rate override(s)`}
+                    </small>
+                  </>
+                ) : (
+                  <p className="text-muted small mb-0">
+                    No per-post breakdown was stored for this claim. Recalculate to capture one.
+                  </p>
+                )}
+              </div>
+
+              <EngagementRisk claimId={selectedClaim._id} />
+
               {selectedClaim.deductionAmount > 0 && (
                 <>
                   <Row className="mb-3">
                     <Col md={6}>
                       <h6>Deduction Amount</h6>
                       <Badge bg="danger" className="fs-6">
-                        -{formatCurrency(selectedClaim.deductionAmount)}
+                        -{formatCurrency(selectedClaim.deductionAmount, selectedClaim.currency)}
                       </Badge>
                     </Col>
                     <Col md={6}>
                       <h6>Final Amount After Deduction</h6>
                       <Badge bg="primary" className="fs-6">
-                        {formatCurrency(selectedClaim.calculatedEarnings - selectedClaim.deductionAmount)}
+                        {formatCurrency(selectedClaim.calculatedEarnings - selectedClaim.deductionAmount, selectedClaim.currency)}
                       </Badge>
                     </Col>
                   </Row>
 
-                  <div className="mb-3">
-                    <h6>Deduction Reason</h6>
-                    <div className="border rounded p-3 bg-light">
-                      {selectedClaim.deductionReason}
+                  {selectedClaim.deductions && selectedClaim.deductions.length > 0 ? (
+                    <div className="mb-3">
+                      <h6>Deduction Items</h6>
+                      <Table size="sm" bordered>
+                        <thead className="table-light">
+                          <tr>
+                            <th>Applies To</th>
+                            <th>Reason</th>
+                            <th className="text-end">Amount</th>
+                            <th>Creator Response</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {selectedClaim.deductions.map((line) => (
+                            <tr key={line._id} className={['disputed', 'withdrawn'].includes(line.status) ? 'text-muted' : undefined}>
+                              <td>{line.postId ? getPostLabel(line.postId) : 'Whole claim'}</td>
+                              <td>
+                                {line.reasonLabel || 'Uncategorised'}
+                                {line.reason && <small className="d-block text-muted">{line.reason}</small>}
+                              </td>
+                              <td className="text-end">-{formatCurrency(line.amount, selectedClaim.currency)}</td>
+                              <td>
+                                <Badge bg={LINE_STATUS_BADGES[line.status].variant}>
+                                  {LINE_STATUS_BADGES[line.status].text}
+                                </Badge>
+                                {line.status === 'countered' && line.counterAmount != null && (
+                                  <small className="d-block">{formatCurrency(line.counterAmount, selectedClaim.currency)}</small>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </Table>
+                      {selectedClaim.deductions.some(line => (line.rounds || []).length > 1) && (
+                        <>
+                          <h6>Negotiation Timeline</h6>
+                          <DeductionTimeline
+                            lines={selectedClaim.deductions}
+                            currency={selectedClaim.currency}
+                            getPostLabel={(postId) => (postId ? getPostLabel(postId) : 'Whole claim')}
+                          />
+                        </>
+                      )}
                     </div>
-                  </div>
+                  ) : (
+                    <div className="mb-3">
+                      <h6>Deduction Reason</h6>
+                      <div className="border rounded p-3 bg-light">
+                        {selectedClaim.deductionReason}
+                      </div>
+                    </div>
+                  )}
                 </>
               )}
 
+              {selectedClaim.rejectionReason && (
+                <div className="mb-3">
+                  <h6>Rejection Reason</h6>
+                  <div className="border rounded p-3 bg-light">
+                    {selectedClaim.rejectionReason}
+                  </div>
+                </div>
+              )}
+
               <div className="mb-3">
                 <h6>Created</h6>
                 <p>{formatDate(selectedClaim.createdAt)}</p>
               </div>
 
-              {selectedClaim.status === 'pending' && (
-                <Alert variant="info" className="mt-3">
-                  <strong>Action Required:</strong> This claim is pending review.
-                  <div className="d-flex gap-2 mt-3">
-                    <Button
-                      variant="success"
-                      onClick={handleModalApprove}
-                      disabled={processing}
-                    >
-                      <FaCheck className="me-2" />
-                      Approve
-                    </Button>
-                    <Button
-                      variant="warning"
-                      onClick={() => setShowDeductionModal(true)}
-                      disabled={processing}
-                    >
-                      <FaMinus className="me-2" />
-                      Apply Deduction
-                    </Button>
-                    <Button
-                      variant="danger"
-                      onClick={() => setShowRejectModal(true)}
-                      disabled={processing}
-                    >
-                      <FaTimes className="me-2" />
-                      Reject
-                    </Button>
+              {selectedClaim.infoRequest && (
+                <div className="mb-3">
+                  <h6>Information Request</h6>
+                  <div className="border rounded p-3 bg-light">
+                    <div>{selectedClaim.infoRequest.message}</div>
+                    <small className="text-muted">Requested {formatDate(selectedClaim.infoRequest.requestedAt)}</small>
+                    {selectedClaim.infoRequest.respondedAt ? (
+                      <div className="mt-2 pt-2 border-top">
+                        <strong>Creator's answer:</strong> {selectedClaim.infoRequest.response || 'No message'}
+                        {(selectedClaim.infoRequest.addedProofFileUrls || []).length > 0 && (
+                          <span className="text-muted"> &middot; {selectedClaim.infoRequest.addedProofFileUrls!.length} proof file(s) added</span>
+                        )}
+                        <br />
+                        <small className="text-muted">Answered {formatDate(selectedClaim.infoRequest.respondedAt)}</small>
+                      </div>
+                    ) : (
+                      <div className="mt-2"><Badge bg="info">Waiting on creator</Badge></div>
+                    )}
                   </div>
-                </Alert>
+                </div>
               )}
 
-              {selectedClaim.status === 'deducted' && (
-                <Alert variant="warning" className="mt-3">
-                  <strong>User Response Required:</strong> User needs to accept or reject the deduction.
-                  <div className="d-flex gap-2 mt-3">
-                    <Button
-                      variant="info"
-                      onClick={handleCloseModal}
-                      disabled={processing}
-                    >
-                      <FaEye className="me-2" />
-                      View Only
-                    </Button>
+              <ClaimComments claimId={selectedClaim._id} />
+
+              {(canPerform('account_approve') || canPerform('record_approval') || canPerform('apply_deduction') || canPerform('account_reject')) && (
+                <Alert variant="info" className="mt-3">
+                  <strong>Action Required:</strong> {selectedClaim.status === 'user_rejected'
+                    ? 'The user has disputed the deduction. Answer the disputed items, escalate to an admin, or re-review this claim.'
+                    : selectedClaim.status === 'pending'
+                      ? 'This claim is pending review.'
+                      : 'This claim is waiting for account approval.'}
+                  {canPerform('record_approval') && (
+                    <div className="mt-1">
+                      <small>High-value claim: it needs approvals from two different account reviewers before final approval.</small>
+                    </div>
+                  )}
+                  <div className="d-flex flex-wrap gap-2 mt-3">
+                    {openDeductionLines.length > 0 && (canPerform('counter_deduction') || canPerform('accept_counter_offer')) && (
+                      <Button
+                        variant="primary"
+                        onClick={openNegotiationModal}
+                        disabled={processing}
+                      >
+                        <FaComments className="me-2" />
+                        Answer Dispute
+                      </Button>
+                    )}
+                    {openDeductionLines.length > 0 && canPerform('escalate_deduction') && (
+                      <Button
+                        variant="dark"
+                        onClick={() => setShowEscalationModal(true)}
+                        disabled={processing}
+                      >
+                        <FaLevelUpAlt className="me-2" />
+                        Escalate to Admin
+                      </Button>
+                    )}
+                    {canPerform('request_info') && (
+                      <Button
+                        variant="info"
+                        onClick={() => setShowInfoRequestModal(true)}
+                        disabled={processing}
+                      >
+                        <FaQuestionCircle className="me-2" />
+                        Request Info
+                      </Button>
+                    )}
+                    {(canPerform('account_approve') || canPerform('record_approval')) && (
+                      <Button
+                        variant="success"
+                        onClick={handleModalApprove}
+                        disabled={processing}
+                      >
+                        <FaCheck className="me-2" />
+                        {canPerform('record_approval')
+                          ? 'Add Approval'
+                          : selectedClaim.status === 'user_rejected' ? 'Re-approve' : 'Approve'}
+                      </Button>
+                    )}
+                    {canPerform('apply_deduction') && (
+                      <Button
+                        variant="warning"
+                        onClick={() => setShowDeductionModal(true)}
+                        disabled={processing}
+                      >
+                        <FaMinus className="me-2" />
+                        Apply Deduction
+                      </Button>
+                    )}
+                    {canPerform('account_reject') && (
+                      <Button
+                        variant="danger"
+                        onClick={() => setShowRejectModal(true)}
+                        disabled={processing}
+                      >
+                        <FaTimes className="me-2" />
+                        Reject
+                      </Button>
+                    )}
                   </div>
                 </Alert>
               )}
 
-              {selectedClaim.status === 'user_accepted' && (
+              {canPerform('admin_approve') && (
                 <Alert variant="info" className="mt-3">
-                  <strong>Ready for Final Approval:</strong> User has accepted the deduction.
+                  <strong>Ready for Final Approval:</strong> This claim is waiting for final approval.
                   <div className="d-flex gap-2 mt-3">
                     <Button
                       variant="success"
@@ -774,19 +1551,9 @@ const ReviewClaim: React.FC = () => {
                 </Alert>
               )}
 
-              {selectedClaim.status === 'user_rejected' && (
-                <Alert variant="danger" className="mt-3">
-                  <strong>Claim Rejected:</strong> The user has rejected the claim.
-                  <div className="d-flex gap-2 mt-3">
-                    <Button
-                      variant="success"
-                      onClick={handleModalApprove}
-                      disabled={processing}
-                    >
-                      <FaCheck className="me-2" />
-                      Re-approve
-                    </Button>
-                  </div>
+              {availableTransitions.length === 0 && selectedClaim.status === 'deducted' && (
+                <Alert variant="warning" className="mt-3">
+                  <strong>User Response Required:</strong> User needs to accept or reject the deduction.
                 </Alert>
               )}
 
@@ -808,33 +1575,107 @@ const ReviewClaim: React.FC = () => {
         </Modal.Footer>
       </Modal>
 
-      <Modal show={showDeductionModal} onHide={() => setShowDeductionModal(false)}>
+      <Modal show={showDeductionModal} onHide={() => setShowDeductionModal(false)} size="lg">
         <Modal.Header closeButton>
           <Modal.Title>Apply Deduction</Modal.Title>
         </Modal.Header>
         <Modal.Body>
+          {acceptedDeductionTotal > 0 && selectedClaim && (
+            <Alert variant="info" className="py-2">
+              <small>
+                The creator already accepted {formatCurrency(acceptedDeductionTotal, selectedClaim.currency)} of
+                deductions; those items stay. The items below replace the disputed ones.
+              </small>
+            </Alert>
+          )}
+          {deductionReasons.length === 0 && (
+            <Alert variant="warning" className="py-2">
+              <small>No deduction reasons are set up. Ask an admin to add them under Deduction Reasons.</small>
+            </Alert>
+          )}
           <Form>
-            <Form.Group className="mb-3">
-              <Form.Label>Deduction Amount (₹)</Form.Label>
-              <Form.Control
-                type="number"
-                value={deductionAmount}
-                onChange={(e) => setDeductionAmount(e.target.value)}
-                placeholder="Enter deduction amount"
-                min="0"
-                step="0.01"
-              />
-            </Form.Group>
-            <Form.Group className="mb-3">
-              <Form.Label>Deduction Reason</Form.Label>
-              <Form.Control
-                as="textarea"
-                rows={3}
-                value={deductionReason}
-                onChange={(e) => setDeductionReason(e.target.value)}
-                placeholder="Explain the reason for deduction"
-              />
-            </Form.Group>
+            {deductionLines.map((line, index) => (
+              <Row key={index} className="g-2 mb-2 align-items-start">
+                <Col md={3}>
+                  <Form.Select
+                    size="sm"
+                    value={line.postId}
+                    onChange={(e) => updateDeductionLine(index, { postId: e.target.value })}
+                  >
+                    <option value="">Whole claim</option>
+                    {(selectedClaim?.postIds || []).map((post) => {
+                      const postId = typeof post === 'string' ? post : post._id;
+                      return (
+                        <option key={postId} value={postId}>
+                          {getPostLabel(postId)}
+                        </option>
+                      );
+                    })}
+                  </Form.Select>
+                </Col>
+                <Col md={3}>
+                  <Form.Select
+                    size="sm"
+                    value={line.reasonCode}
+                    onChange={(e) => updateDeductionLine(index, { reasonCode: e.target.value })}
+                    title={getDeductionReason(line.reasonCode)?.description}
+                  >
+                    <option value="">Select reason...</option>
+                    {deductionReasons.map((reason) => (
+                      <option key={reason.code} value={reason.code}>
+                        {reason.label}
+                      </option>
+                    ))}
+                  </Form.Select>
+                </Col>
+                <Col md={2}>
+                  <Form.Control
+                    size="sm"
+                    type="number"
+                    value={line.amount}
+                    onChange={(e) => updateDeductionLine(index, { amount: e.target.value })}
+                    placeholder={hasDefaultAmount(line.reasonCode) ? 'Default' : 'Amount'}
+                    min="0"
+                    step="0.01"
+                  />
+                </Col>
+                <Col md={3}>
+                  <Form.Control
+                    size="sm"
+                    value={line.reason}
+                    onChange={(e) => updateDeductionLine(index, { reason: e.target.value })}
+                    placeholder="Note (optional)"
+                    maxLength={500}
+                  />
+                </Col>
+                <Col md={1} className="text-end">
+                  <Button
+                    variant="outline-danger"
+                    size="sm"
+                    onClick={() => setDeductionLines(lines => lines.filter((_, i) => i !== index))}
+                    disabled={deductionLines.length === 1}
+                    title="Remove item"
+                  >
+                    <FaTimes />
+                  </Button>
+                </Col>
+              </Row>
+            ))}
+            <div className="d-flex justify-content-between align-items-center mt-3">
+              <Button
+                variant="outline-secondary"
+                size="sm"
+                onClick={() => setDeductionLines(lines => [...lines, emptyDeductionLine])}
+              >
+                <FaPlus className="me-1" />
+                Add Item
+              </Button>
+              {selectedClaim && (
+                <span>
+                  Total: <strong>-{formatCurrency(deductionTotal, selectedClaim.currency)}</strong>
+                </span>
+              )}
+            </div>
           </Form>
         </Modal.Body>
         <Modal.Footer>
@@ -844,7 +1685,7 @@ const ReviewClaim: React.FC = () => {
           <Button
             variant="warning"
             onClick={handleApplyDeduction}
-            disabled={processing || !deductionAmount || !deductionReason}
+            disabled={processing || deductionLines.some(line => !line.reasonCode)}
           >
             {processing ? (
               <>
@@ -861,9 +1702,144 @@ const ReviewClaim: React.FC = () => {
         </Modal.Footer>
       </Modal>
 
-      <Modal show={showRejectModal} onHide={() => setShowRejectModal(false)}>
+      <Modal show={showNegotiationModal} onHide={() => setShowNegotiationModal(false)} size="lg">
+        <Modal.Header closeButton>
+          <Modal.Title>Answer Deduction Dispute</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          {selectedClaim && openDeductionLines.map((line) => {
+            const answer = negotiation[line._id];
+            const lastMessage = [...(line.rounds || [])].reverse().find(round => round.role === 'user')?.message;
+            return (
+              <Card key={line._id} className="mb-3">
+                <Card.Body className="py-2">
+                  <div className="d-flex justify-content-between">
+                    <div>
+                      <strong>{line.reasonLabel || 'Deduction'}</strong>
+                      <small className="text-muted ms-2">{line.postId ? getPostLabel(line.postId) : 'Whole claim'}</small>
+                    </div>
+                    <div className="text-end small">
+                      Proposed: -{formatCurrency(line.amount, selectedClaim.currency)}
+                      {line.status === 'countered' && line.counterAmount != null && (
+                        <div className="text-info">Creator offers: -{formatCurrency(line.counterAmount, selectedClaim.currency)}</div>
+                      )}
+                    </div>
+                  </div>
+                  {lastMessage && <div className="small fst-italic text-muted mb-2">"{lastMessage}"</div>}
+                  {answer && (
+                    <Row className="g-2 mt-1">
+                      <Col md={4}>
+                        <Form.Select
+                          size="sm"
+                          value={answer.action}
+                          onChange={(e) => updateNegotiation(line._id, { action: e.target.value as NegotiationForm['action'] })}
+                        >
+                          {line.status === 'countered' && <option value="accept_counter">Accept counter-offer</option>}
+                          <option value="counter">Re-counter</option>
+                          <option value="withdraw">Withdraw item</option>
+                        </Form.Select>
+                      </Col>
+                      {answer.action === 'counter' && (
+                        <Col md={3}>
+                          <Form.Control
+                            size="sm"
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            placeholder="New amount"
+                            value={answer.amount}
+                            onChange={(e) => updateNegotiation(line._id, { amount: e.target.value })}
+                          />
+                        </Col>
+                      )}
+                      <Col>
+                        <Form.Control
+                          size="sm"
+                          placeholder="Message to the creator (optional)"
+                          maxLength={1000}
+                          value={answer.message}
+                          onChange={(e) => updateNegotiation(line._id, { message: e.target.value })}
+                        />
+                      </Col>
+                    </Row>
+                  )}
+                </Card.Body>
+              </Card>
+            );
+          })}
+          <small className="text-muted">
+            Any re-counter goes back to the creator. If every item is accepted or withdrawn, the claim moves on to admin.
+          </small>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setShowNegotiationModal(false)}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleNegotiate} disabled={processing}>
+            {processing ? 'Sending...' : 'Send Answer'}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+
+      <Modal show={showEscalationModal} onHide={() => setShowEscalationModal(false)}>
+        <Modal.Header closeButton>
+          <Modal.Title>Escalate to Admin</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <p className="small text-muted">
+            An admin will rule on the {openDeductionLines.length} disputed item(s). Items the creator accepted stay as they are.
+          </p>
+          <Form.Control
+            as="textarea"
+            rows={3}
+            maxLength={1000}
+            value={escalationMessage}
+            onChange={(e) => setEscalationMessage(e.target.value)}
+            placeholder="Summarise the disagreement for the admin"
+          />
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setShowEscalationModal(false)}>
+            Cancel
+          </Button>
+          <Button variant="dark" onClick={handleEscalate} disabled={processing || !escalationMessage.trim()}>
+            <FaLevelUpAlt className="me-1" />
+            Escalate
+          </Button>
+        </Modal.Footer>
+      </Modal>
+
+      <Modal show={showInfoRequestModal} onHide={() => setShowInfoRequestModal(false)}>
         <Modal.Header closeButton>
-          <Modal.Title>Reject Claim</Modal.Title>
+          <Modal.Title>Request More Information</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <p className="small text-muted">
+            The claim is put on hold and the review clock stops until the creator answers or adds proof files.
+          </p>
+          <Form.Control
+            as="textarea"
+            rows={3}
+            maxLength={1000}
+            value={infoRequestMessage}
+            onChange={(e) => setInfoRequestMessage(e.target.value)}
+            placeholder="What does the creator need to send?"
+          />
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setShowInfoRequestModal(false)}>
+            Cancel
+          </Button>
+          <Button variant="info" onClick={handleRequestInfo} disabled={processing || !infoRequestMessage.trim()}>
+            <FaQuestionCircle className="me-1" />
+            Send Request
+          </Button>
+        </Modal.Footer>
+      </Modal>
+
+      <Modal show={showRejectModal} onHide={closeRejectModal}>
+        <Modal.Header closeButton>
+          <Modal.Title>{bulkRejecting ? `Reject ${selectedCount} Claims` : 'Reject Claim'}</Modal.Title>
         </Modal.Header>
         <Modal.Body>
           <Form>
@@ -880,7 +1856,7 @@ const ReviewClaim: React.FC = () => {
           </Form>
         </Modal.Body>
         <Modal.Footer>
-          <Button variant="secondary" onClick={() => setShowRejectModal(false)}>
+          <Button variant="secondary" onClick={closeRejectModal}>
             Cancel
           </Button>
           <Button
@@ -896,12 +1872,18 @@ const ReviewClaim: React.FC = () => {
             ) : (
               <>
                 <FaTimes className="me-1" />
-                Reject Claim
+                {bulkRejecting ? 'Reject Claims' : 'Reject Claim'}
               </>
             )}
           </Button>
         </Modal.Footer>
       </Modal>
+
+      <BulkResultsModal
+        results={bulkResults}
+        getLabel={(claimId) => selectedIds[claimId] || 'Claim'}
+        onHide={() => setBulkResults(null)}
+      />
     </Container>
   );
 };
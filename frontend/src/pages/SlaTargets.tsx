@@ -0,0 +1,197 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Container, Row, Col, Card, Button, Table, Form, Alert, InputGroup } from 'react-bootstrap';
+import { FaStopwatch, FaTrash } from 'react-icons/fa';
+import { slaAPI } from '../services/api';
+import toast from 'react-hot-toast';
+
+interface SlaTarget {
+  _id: string;
+  status: string;
+  targetHours: number;
+  updatedBy?: { name: string };
+  createdAt: string;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending review',
+  deducted: 'Waiting on creator to answer a deduction',
+  user_accepted: 'Deduction accepted, waiting on admin',
+  user_rejected: 'Deduction disputed, waiting on reviewer',
+  escalated: 'Escalated dispute, waiting on admin',
+  account_approved: 'Account approved, waiting on admin',
+  admin_approved: 'Admin approved, waiting for payout'
+};
+
+// Short form of a duration in hours, e.g. 36 -> "36h", 72 -> "3 days"
+const formatHours = (hours: number): string =>
+  hours >= 48 ? `${Math.round((hours / 24) * 10) / 10} days` : `${hours}h`;
+
+const SlaTargets: React.FC = () => {
+  const [statuses, setStatuses] = useState<string[]>([]);
+  const [targets, setTargets] = useState<SlaTarget[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+
+  const loadTargets = useCallback(() => {
+    slaAPI.getTargets()
+      .then(response => {
+        setStatuses(response.data.statuses);
+        setTargets(response.data.targets);
+        setDrafts({});
+      })
+      .catch((error: any) => {
+        console.error('Error loading SLA targets:', error);
+        toast.error('Failed to load SLA targets: ' + (error.response?.data?.message || error.message));
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadTargets();
+  }, [loadTargets]);
+
+  const handleSave = async (status: string) => {
+    const targetHours = parseFloat(drafts[status] || '');
+    if (!(targetHours >= 0.25)) {
+      toast.error('Target must be at least 0.25 hours');
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      await slaAPI.setTarget(status, targetHours);
+      toast.success(`SLA target for ${STATUS_LABELS[status] || status} saved`);
+      loadTargets();
+    } catch (error: any) {
+      toast.error('Failed to save SLA target: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleRemove = async (status: string) => {
+    if (!window.confirm('Stop timing this status? Breaches already recorded stay in the reports.')) {
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      await slaAPI.removeTarget(status);
+      toast.success('SLA target removed');
+      loadTargets();
+    } catch (error: any) {
+      toast.error('Failed to remove SLA target: ' + (error.response?.data?.message || error.message));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Container className="mt-4">
+        <div className="text-center">
+          <div className="spinner-border" role="status">
+            <span className="visually-hidden">Loading...</span>
+          </div>
+          <p className="mt-2">Loading SLA targets...</p>
+        </div>
+      </Container>
+    );
+  }
+
+  return (
+    <Container className="mt-4">
+      <Row>
+        <Col xs={12}>
+          <Card className="shadow-sm border-0">
+            <Card.Header className="bg-dark text-white">
+              <h4 className="mb-0">
+                <FaStopwatch className="me-2" />
+                SLA Targets
+              </h4>
+              <small>How long a claim may stay in each status before it is escalated</small>
+            </Card.Header>
+            <Card.Body className="p-4">
+              <Alert variant="info">
+                <small>
+                  Claims are checked every few minutes. A claim that stays in a status longer than its target is
+                  flagged once, and every admin gets a notification. Statuses without a target are not timed.
+                </small>
+              </Alert>
+
+              <Table responsive hover>
+                <thead>
+                  <tr>
+                    <th>Status</th>
+                    <th>Target</th>
+                    <th>Last Updated</th>
+                    <th style={{ width: 260 }}>Set Target (hours)</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {statuses.map(status => {
+                    const target = targets.find(entry => entry.status === status);
+                    return (
+                      <tr key={status}>
+                        <td>
+                          <strong>{STATUS_LABELS[status] || status}</strong>
+                          <br />
+                          <small className="text-muted"><code>{status}</code></small>
+                        </td>
+                        <td>{target ? formatHours(target.targetHours) : <span className="text-muted">Not timed</span>}</td>
+                        <td>
+                          {target ? (
+                            <>
+                              {new Date(target.createdAt).toLocaleDateString('en-IN')}
+                              {target.updatedBy && <small className="d-block text-muted">by {target.updatedBy.name}</small>}
+                            </>
+                          ) : '-'}
+                        </td>
+                        <td>
+                          <InputGroup size="sm">
+                            <Form.Control
+                              type="number"
+                              min="0.25"
+                              step="0.25"
+                              placeholder={target ? String(target.targetHours) : 'e.g. 48'}
+                              value={drafts[status] || ''}
+                              onChange={(e) => setDrafts(prev => ({ ...prev, [status]: e.target.value }))}
+                            />
+                            <Button
+                              variant="outline-primary"
+                              onClick={() => handleSave(status)}
+                              disabled={processing || !drafts[status]}
+                            >
+                              Save
+                            </Button>
+                          </InputGroup>
+                        </td>
+                        <td>
+                          {target && (
+                            <Button
+                              variant="outline-danger"
+                              size="sm"
+                              onClick={() => handleRemove(status)}
+                              disabled={processing}
+                              title="Remove target"
+                            >
+                              <FaTrash />
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </Table>
+            </Card.Body>
+          </Card>
+        </Col>
+      </Row>
+    </Container>
+  );
+};
+
+export default SlaTargets;
@@ -64,6 +64,17 @@ api.interceptors.response.use(
   }
 );
 
+// Random ID kept for this browser, sent with views and likes so anonymous traffic can be traced;
+// the backend counts anonymous viewers by IP
+const getViewerFingerprint = (): string => {
+  let fingerprint = localStorage.getItem('viewerFingerprint');
+  if (!fingerprint) {
+    fingerprint = Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem('viewerFingerprint', fingerprint);
+  }
+  return fingerprint;
+};
+
 export const authAPI = {
   login: (email: string, password: string) => {
     apiLogger.info('Login attempt', { email });
@@ -128,12 +139,12 @@ export const postsAPI = {
   
   incrementViews: (id: string) => {
     apiLogger.info('Incrementing post views', { postId: id });
-    return api.post(`/posts/${id}/views`);
+    return api.post(`/posts/${id}/views`, undefined, { headers: { 'X-Viewer-Fingerprint': getViewerFingerprint() } });
   },
   
   incrementLikes: (id: string) => {
     apiLogger.info('Incrementing post likes', { postId: id });
-    return api.post(`/posts/${id}/likes`);
+    return api.post(`/posts/${id}/likes`, undefined, { headers: { 'X-Viewer-Fingerprint': getViewerFingerprint() } });
   },
 };
 
@@ -142,6 +153,11 @@ export const claimsAPI = {
     apiLogger.info('Checking if posts are already claimed', { postIds });
     return api.post('/claims/check-posts', { postIds });
   },
+
+  getClaimedPostIds: () => {
+    apiLogger.info('Fetching claimed post IDs');
+    return api.get('/claims/claimed-posts');
+  },
   
   submitClaim: (data: FormData) => {
     apiLogger.info('Submitting new claim');
@@ -159,20 +175,108 @@ export const claimsAPI = {
     apiLogger.info('Fetching all claims', { params });
     return api.get('/claims', { params });
   },
+
+  getQueueCounts: () => {
+    apiLogger.info('Fetching review queue counts');
+    return api.get('/claims/queue/counts');
+  },
+
+  getNextClaim: () => {
+    apiLogger.info('Taking the next claim from the review queue');
+    return api.post('/claims/queue/next');
+  },
+
+  assignClaim: (id: string, reviewerId: string) => {
+    apiLogger.info('Reassigning claim', { claimId: id, reviewerId });
+    return api.post(`/claims/${id}/assign`, { reviewerId });
+  },
   
   getClaimById: (id: string) => {
     apiLogger.info('Fetching claim by ID', { claimId: id });
     return api.get(`/claims/${id}`);
   },
   
+  getClaimTransitions: (id: string) => {
+    apiLogger.info('Fetching available claim transitions', { claimId: id });
+    return api.get(`/claims/${id}/transitions`);
+  },
+  
+  // Rescored on every call, post by post
+  getClaimRisk: (id: string) => {
+    apiLogger.info('Fetching claim engagement risk', { claimId: id });
+    return api.get(`/claims/${id}/risk`);
+  },
+  
   applyDeduction: (id: string, data: any) => {
     apiLogger.info('Applying deduction to claim', { claimId: id, deductionData: data });
     return api.post(`/claims/${id}/deduction`, data);
   },
   
-  respondToDeduction: (id: string, accepted: boolean) => {
-    apiLogger.info('Responding to deduction', { claimId: id, accepted });
-    return api.post(`/claims/${id}/respond`, { accepted });
+  // accepted applies to every line; otherwise one decision per deduction line, where a
+  // rejected line with a counterAmount is a counter-offer
+  respondToDeduction: (
+    id: string,
+    response: boolean | { lineId: string; accepted: boolean; counterAmount?: number | null; message?: string }[]
+  ) => {
+    apiLogger.info('Responding to deduction', { claimId: id, response });
+    return api.post(`/claims/${id}/respond`, typeof response === 'boolean' ? { accepted: response } : { lines: response });
+  },
+  
+  negotiateDeduction: (
+    id: string,
+    lines: { lineId: string; action: 'accept_counter' | 'counter' | 'withdraw'; amount?: number | null; message?: string }[]
+  ) => {
+    apiLogger.info('Answering deduction dispute', { claimId: id, lines });
+    return api.post(`/claims/${id}/negotiate`, { lines });
+  },
+  
+  escalateDeduction: (id: string, message: string) => {
+    apiLogger.info('Escalating deduction dispute', { claimId: id });
+    return api.post(`/claims/${id}/escalate`, { message });
+  },
+  
+  resolveEscalation: (id: string, lines: { lineId: string; amount: number }[], note: string) => {
+    apiLogger.info('Resolving escalated dispute', { claimId: id, lines });
+    return api.post(`/claims/${id}/resolve-escalation`, { lines, note });
+  },
+
+  editClaim: (id: string, data: FormData) => {
+    apiLogger.info('Editing claim', { claimId: id });
+    return api.put(`/claims/${id}`, data, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+
+  withdrawClaim: (id: string, reason?: string) => {
+    apiLogger.info('Withdrawing claim', { claimId: id });
+    return api.post(`/claims/${id}/withdraw`, { reason });
+  },
+
+  requestInfo: (id: string, message: string) => {
+    apiLogger.info('Requesting more information', { claimId: id });
+    return api.post(`/claims/${id}/request-info`, { message });
+  },
+
+  provideInfo: (id: string, data: FormData) => {
+    apiLogger.info('Responding to information request', { claimId: id });
+    return api.post(`/claims/${id}/provide-info`, data, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+
+  getComments: (id: string) => {
+    apiLogger.info('Fetching claim comments', { claimId: id });
+    return api.get(`/claims/${id}/comments`);
+  },
+
+  addComment: (id: string, data: { body: string; internal?: boolean; requestsProof?: boolean; parentId?: string | null; mentions?: string[] }) => {
+    apiLogger.info('Adding claim comment', { claimId: id, internal: data.internal, parentId: data.parentId });
+    return api.post(`/claims/${id}/comments`, data);
+  },
+
+  getMentionableUsers: () => {
+    apiLogger.info('Fetching mentionable users');
+    return api.get('/claims/mentionable-users');
   },
   
   accountApprove: (id: string) => {
@@ -180,6 +284,11 @@ export const claimsAPI = {
     return api.post(`/claims/${id}/approve`);
   },
   
+  recalculateEarnings: (id: string) => {
+    apiLogger.info('Recalculating claim earnings', { claimId: id });
+    return api.post(`/claims/${id}/recalculate`);
+  },
+  
   accountReject: (id: string, reason: string) => {
     apiLogger.info('Account rejecting claim', { claimId: id, reason });
     return api.post(`/claims/${id}/reject`, { reason });
@@ -190,6 +299,26 @@ export const claimsAPI = {
     return api.post(`/claims/${id}/final-approve`);
   },
   
+  adminReject: (id: string, reason: string, sendBack: boolean = false) => {
+    apiLogger.info('Admin final rejecting claim', { claimId: id, reason, sendBack });
+    return api.post(`/claims/${id}/final-reject`, { reason, sendBack });
+  },
+
+  bulkApprove: (claimIds: string[]) => {
+    apiLogger.info('Account approving claims in bulk', { count: claimIds.length });
+    return api.post('/claims/bulk/approve', { claimIds });
+  },
+
+  bulkFinalApprove: (claimIds: string[]) => {
+    apiLogger.info('Admin final approving claims in bulk', { count: claimIds.length });
+    return api.post('/claims/bulk/final-approve', { claimIds });
+  },
+
+  bulkReject: (claimIds: string[], reason: string, sendBack: boolean = false) => {
+    apiLogger.info('Rejecting claims in bulk', { count: claimIds.length, reason, sendBack });
+    return api.post('/claims/bulk/reject', { claimIds, reason, sendBack });
+  },
+
   lockClaim: (id: string) => {
     apiLogger.info('Locking claim', { claimId: id });
     return api.post(`/claims/${id}/lock`);
@@ -199,6 +328,11 @@ export const claimsAPI = {
     apiLogger.info('Unlocking claim', { claimId: id });
     return api.post(`/claims/${id}/unlock`);
   },
+
+  breakLock: (id: string, reason: string) => {
+    apiLogger.info('Breaking claim lock', { claimId: id, reason });
+    return api.post(`/claims/${id}/break-lock`, { reason });
+  },
   
   getClaimStats: () => {
     apiLogger.info('Fetching claim statistics');
@@ -227,12 +361,202 @@ export const settingsAPI = {
     return api.put('/admin/settings', data);
   },
   
+  previewEarnings: (data: any) => {
+    apiLogger.info('Previewing earnings formula');
+    return api.post('/admin/settings/preview', data);
+  },
+  
+  getRateCardHistory: () => {
+    apiLogger.info('Fetching rate card history');
+    return api.get('/admin/settings/history');
+  },
+  
+  cancelRateCard: (id: string) => {
+    apiLogger.info('Cancelling scheduled rate card', { rateCardId: id });
+    return api.delete(`/admin/settings/${id}`);
+  },
+  
   getAdminStats: () => {
     apiLogger.info('Fetching admin statistics');
     return api.get('/admin/stats');
   },
 };
 
+export const payoutsAPI = {
+  getBatches: (params?: any) => {
+    apiLogger.info('Fetching payout batches', { params });
+    return api.get('/admin/payouts', { params });
+  },
+  
+  getBatchById: (id: string) => {
+    apiLogger.info('Fetching payout batch by ID', { batchId: id });
+    return api.get(`/admin/payouts/${id}`);
+  },
+  
+  createBatch: (claimIds: string[], note?: string) => {
+    apiLogger.info('Creating payout batch', { claimCount: claimIds.length });
+    return api.post('/admin/payouts', { claimIds, note });
+  },
+  
+  exportBatch: (id: string) => {
+    apiLogger.info('Exporting payout batch', { batchId: id });
+    return api.get(`/admin/payouts/${id}/export`, { responseType: 'blob' });
+  },
+  
+  markPaid: (id: string, paymentReference: string) => {
+    apiLogger.info('Marking payout batch as paid', { batchId: id, paymentReference });
+    return api.post(`/admin/payouts/${id}/paid`, { paymentReference });
+  },
+  
+  cancelBatch: (id: string) => {
+    apiLogger.info('Cancelling payout batch', { batchId: id });
+    return api.post(`/admin/payouts/${id}/cancel`);
+  },
+};
+
+export const rateOverridesAPI = {
+  getOverrides: (params?: any) => {
+    apiLogger.info('Fetching rate overrides', { params });
+    return api.get('/admin/rate-overrides', { params });
+  },
+  
+  getExpiringOverrides: () => {
+    apiLogger.info('Fetching expiring rate overrides');
+    return api.get('/admin/rate-overrides/expiring');
+  },
+  
+  createOverride: (data: any) => {
+    apiLogger.info('Creating rate override', { userId: data.userId, tag: data.tag });
+    return api.post('/admin/rate-overrides', data);
+  },
+  
+  updateOverride: (id: string, data: any) => {
+    apiLogger.info('Updating rate override', { overrideId: id });
+    return api.put(`/admin/rate-overrides/${id}`, data);
+  },
+  
+  deleteOverride: (id: string) => {
+    apiLogger.info('Removing rate override', { overrideId: id });
+    return api.delete(`/admin/rate-overrides/${id}`);
+  },
+  
+  getCreators: () => {
+    apiLogger.info('Fetching creators');
+    return api.get('/admin/creators');
+  },
+};
+
+export const currencyAPI = {
+  getExchangeRates: () => {
+    apiLogger.info('Fetching exchange rates');
+    return api.get('/admin/exchange-rates');
+  },
+  
+  getExchangeRateHistory: (currency?: string) => {
+    apiLogger.info('Fetching exchange rate history', { currency });
+    return api.get('/admin/exchange-rates/history', { params: { currency } });
+  },
+  
+  setExchangeRate: (currency: string, rate: number, note?: string) => {
+    apiLogger.info('Setting exchange rate', { currency, rate });
+    return api.put(`/admin/exchange-rates/${currency}`, { rate, note });
+  },
+  
+  removeExchangeRate: (currency: string) => {
+    apiLogger.info('Removing exchange rate', { currency });
+    return api.delete(`/admin/exchange-rates/${currency}`);
+  },
+  
+  updateCreatorCurrency: (userId: string, currency: string) => {
+    apiLogger.info('Updating creator currency', { userId, currency });
+    return api.put(`/admin/creators/${userId}/currency`, { currency });
+  },
+};
+
+export const deductionReasonsAPI = {
+  // Active reasons, for reviewers choosing a code
+  getReasons: () => {
+    apiLogger.info('Fetching deduction reasons');
+    return api.get('/claims/deduction-reasons');
+  },
+  
+  getAllReasons: (includeInactive = false) => {
+    apiLogger.info('Fetching deduction reason catalogue', { includeInactive });
+    return api.get('/admin/deduction-reasons', { params: { includeInactive } });
+  },
+  
+  createReason: (data: any) => {
+    apiLogger.info('Creating deduction reason', { code: data.code });
+    return api.post('/admin/deduction-reasons', data);
+  },
+  
+  updateReason: (id: string, data: any) => {
+    apiLogger.info('Updating deduction reason', { reasonId: id });
+    return api.put(`/admin/deduction-reasons/${id}`, data);
+  },
+  
+  deleteReason: (id: string) => {
+    apiLogger.info('Removing deduction reason', { reasonId: id });
+    return api.delete(`/admin/deduction-reasons/${id}`);
+  },
+};
+
+export const slaAPI = {
+  getTargets: () => {
+    apiLogger.info('Fetching SLA targets');
+    return api.get('/admin/sla-targets');
+  },
+  
+  setTarget: (status: string, targetHours: number) => {
+    apiLogger.info('Setting SLA target', { status, targetHours });
+    return api.put(`/admin/sla-targets/${status}`, { targetHours });
+  },
+  
+  removeTarget: (status: string) => {
+    apiLogger.info('Removing SLA target', { status });
+    return api.delete(`/admin/sla-targets/${status}`);
+  },
+};
+
+export const jobsAPI = {
+  getJobs: () => {
+    apiLogger.info('Fetching background jobs');
+    return api.get('/admin/jobs');
+  },
+  
+  getRuns: (name: string) => {
+    apiLogger.info('Fetching job runs', { job: name });
+    return api.get(`/admin/jobs/${name}/runs`);
+  },
+  
+  runJob: (name: string) => {
+    apiLogger.info('Requesting job run', { job: name });
+    return api.post(`/admin/jobs/${name}/run`);
+  },
+  
+  setEnabled: (name: string, enabled: boolean) => {
+    apiLogger.info('Updating job', { job: name, enabled });
+    return api.put(`/admin/jobs/${name}`, { enabled });
+  },
+};
+
+export const notificationsAPI = {
+  getNotifications: () => {
+    apiLogger.info('Fetching notifications');
+    return api.get('/notifications');
+  },
+  
+  markRead: (id: string) => {
+    apiLogger.info('Marking notification read', { notificationId: id });
+    return api.post(`/notifications/${id}/read`);
+  },
+  
+  markAllRead: () => {
+    apiLogger.info('Marking all notifications read');
+    return api.post('/notifications/read-all');
+  },
+};
+
 export const uploadFile = async (file: File): Promise<string> => {
   apiLogger.info('Uploading file', { fileName: file.name, fileSize: file.size });
   